@@ -15,6 +15,22 @@ const mcpServer = new McpServer(serverInfo, {
   instructions: "MCP Server for interacting with Microsoft Word.",
 });
 
+// --- Select Document Backend ---
+import { setWordBackend } from "./word/word-service.js";
+import { MemoryWordService } from "./word/memory-word-service.js";
+import { DocxWordService } from "./word/docx-word-service.js";
+
+const backendMode = process.env.WORD_BACKEND || 'com'; // Default to COM interop with Microsoft Word
+
+if (backendMode === 'memory') {
+  setWordBackend(new MemoryWordService());
+} else if (backendMode === 'docx') {
+  setWordBackend(new DocxWordService());
+} else if (backendMode !== 'com') {
+  console.error(`Unsupported WORD_BACKEND: ${backendMode}. Use 'com', 'memory' or 'docx'.`);
+  process.exit(1);
+}
+
 // --- Register Resources and Tools ---
 import { registerDocumentTools } from "./tools/document-tools.js";
 import { registerTextTools } from "./tools/text-tools.js";
@@ -24,6 +40,21 @@ import { registerImageTools } from "./tools/image-tools.js";
 import { registerHeaderFooterTools } from "./tools/header-footer-tools.js";
 import { registerPageSetupTools } from "./tools/page-setup-tools.js";
 import { registerCursorSelectionTools } from "./tools/cursor-selection-tools.js";
+import { registerMarkdownTools } from "./tools/markdown-tools.js";
+import { registerHtmlTools } from "./tools/html-tools.js";
+import { registerStyleTools } from "./tools/style-tools.js";
+import { registerOutlineTools } from "./tools/outline-tools.js";
+import { registerTocTools } from "./tools/toc-tools.js";
+import { registerListTools } from "./tools/list-tools.js";
+import { registerCommentTools } from "./tools/comment-tools.js";
+import { registerRevisionTools } from "./tools/revision-tools.js";
+import { registerBookmarkTools } from "./tools/bookmark-tools.js";
+import { registerContentControlTools } from "./tools/content-control-tools.js";
+import { registerMailMergeTools } from "./tools/mail-merge-tools.js";
+import { registerTemplateTools } from "./tools/template-tools.js";
+import { registerFieldTools } from "./tools/field-tools.js";
+import { registerNoteTools } from "./tools/note-tools.js";
+import { registerDocumentResources } from "./resources/document-resources.js";
 // Import other tool/resource registration functions here
 
 registerDocumentTools(mcpServer);
@@ -34,8 +65,22 @@ registerImageTools(mcpServer);
 registerHeaderFooterTools(mcpServer);
 registerPageSetupTools(mcpServer);
 registerCursorSelectionTools(mcpServer);
+registerMarkdownTools(mcpServer);
+registerHtmlTools(mcpServer);
+registerStyleTools(mcpServer);
+registerOutlineTools(mcpServer);
+registerTocTools(mcpServer);
+registerListTools(mcpServer);
+registerCommentTools(mcpServer);
+registerRevisionTools(mcpServer);
+registerBookmarkTools(mcpServer);
+registerContentControlTools(mcpServer);
+registerMailMergeTools(mcpServer);
+registerTemplateTools(mcpServer);
+registerFieldTools(mcpServer);
+registerNoteTools(mcpServer);
+registerDocumentResources(mcpServer);
 // Call other registration functions here
-// mcpServer.resource(...)
 
 // --- Transport Setup ---
 
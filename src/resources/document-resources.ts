@@ -0,0 +1,132 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ListResourcesResult, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { contentToMarkdown } from "../word/markdown.js";
+
+const DOCUMENTS_URI = "word://documents";
+
+/**
+ * Builds the URI of a per-document view from the document id, which stays the same while the document is open
+ * and tells apart documents with the same name.
+ */
+function documentUri(documentId: string, view: string): string {
+  return `${DOCUMENTS_URI}/${encodeURIComponent(documentId)}/${view}`;
+}
+
+/**
+ * Decodes a template variable; the SDK passes matched URI segments still percent-encoded.
+ */
+function variable(value: string | string[]): string {
+  const text = Array.isArray(value) ? value.join(',') : value;
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Lists one resource per open document for a per-document view.
+ */
+function listDocumentResources(view: string, mimeType: string): () => Promise<ListResourcesResult> {
+  return async () => {
+    const documents = await wordService.listDocuments();
+    return {
+      resources: documents.map(doc => ({ uri: documentUri(doc.id, view), name: `${doc.name} (${view})`, description: doc.fullName, mimeType })),
+    };
+  };
+}
+
+async function completeDocumentId(value: string): Promise<string[]> {
+  const documents = await wordService.listDocuments();
+  return documents.map(doc => doc.id).filter(id => id.toLowerCase().startsWith(value.toLowerCase()));
+}
+
+// --- Resource: Open Documents ---
+async function readDocuments(uri: URL): Promise<ReadResourceResult> {
+  try {
+    const documents = await wordService.listDocuments();
+    const entries = documents.map(doc => ({ ...doc, textUri: documentUri(doc.id, 'text'), outlineUri: documentUri(doc.id, 'outline') }));
+    return {
+      contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(entries, null, 2) }],
+    };
+  } catch (error: any) {
+    console.error("Error in readDocuments:", error);
+    throw new Error(`Failed to list documents: ${error.message}`);
+  }
+}
+
+// --- Resource: Document Text ---
+async function readDocumentText(uri: URL, variables: { [name: string]: string | string[] }): Promise<ReadResourceResult> {
+  const documentId = variable(variables.documentId);
+  try {
+    const page = await wordService.withDocument(documentId, () => wordService.getParagraphs(0, Number.MAX_SAFE_INTEGER));
+    return {
+      contents: [{ uri: uri.href, mimeType: "text/plain", text: page.paragraphs.map(p => p.text.replace(/\u0001/g, '')).join('\n') }],
+    };
+  } catch (error: any) {
+    console.error("Error in readDocumentText:", error);
+    throw new Error(`Failed to read text of ${documentId}: ${error.message}`);
+  }
+}
+
+// --- Resource: Document Outline ---
+async function readDocumentOutline(uri: URL, variables: { [name: string]: string | string[] }): Promise<ReadResourceResult> {
+  const documentId = variable(variables.documentId);
+  try {
+    const headings = await wordService.withDocument(documentId, () => wordService.getOutline());
+    const lines = headings.map(h => `${'  '.repeat(h.level - 1)}- ${h.text} (paragraph ${h.paragraphIndex}, page ${h.page})`);
+    return {
+      contents: [{ uri: uri.href, mimeType: "text/markdown", text: lines.length ? lines.join('\n') : "(no headings)" }],
+    };
+  } catch (error: any) {
+    console.error("Error in readDocumentOutline:", error);
+    throw new Error(`Failed to read outline of ${documentId}: ${error.message}`);
+  }
+}
+
+// --- Resource: Document Table ---
+async function readDocumentTable(uri: URL, variables: { [name: string]: string | string[] }): Promise<ReadResourceResult> {
+  const documentId = variable(variables.documentId);
+  const index = Number(variable(variables.index));
+  try {
+    if (!Number.isInteger(index) || index < 1) {
+      throw new Error(`Invalid table index: ${variable(variables.index)}. Use a 1-based number.`);
+    }
+    const table = await wordService.withDocument(documentId, () => wordService.getTableContent(index));
+    return {
+      contents: [{ uri: uri.href, mimeType: "text/markdown", text: contentToMarkdown([table]) }],
+    };
+  } catch (error: any) {
+    console.error("Error in readDocumentTable:", error);
+    throw new Error(`Failed to read table ${variable(variables.index)} of ${documentId}: ${error.message}`);
+  }
+}
+
+// --- Register Resources ---
+export function registerDocumentResources(server: McpServer) {
+  server.resource(
+    "word_documents",
+    DOCUMENTS_URI,
+    { description: "The documents open in Word (id, name, full path, saved state, active), with the URIs of their text and outline.", mimeType: "application/json" },
+    readDocuments
+  );
+  server.resource(
+    "word_documentText",
+    new ResourceTemplate(`${DOCUMENTS_URI}/{documentId}/text`, { list: listDocumentResources('text', "text/plain"), complete: { documentId: completeDocumentId } }),
+    { description: "Plain text of an open document's body, one paragraph per line.", mimeType: "text/plain" },
+    readDocumentText
+  );
+  server.resource(
+    "word_documentOutline",
+    new ResourceTemplate(`${DOCUMENTS_URI}/{documentId}/outline`, { list: listDocumentResources('outline', "text/markdown"), complete: { documentId: completeDocumentId } }),
+    { description: "Heading hierarchy of an open document as a nested Markdown list, with paragraph indices and pages.", mimeType: "text/markdown" },
+    readDocumentOutline
+  );
+  server.resource(
+    "word_documentTable",
+    new ResourceTemplate(`${DOCUMENTS_URI}/{documentId}/tables/{index}`, { list: undefined, complete: { documentId: completeDocumentId } }),
+    { description: "A table of an open document (1-based index) as a Markdown table.", mimeType: "text/markdown" },
+    readDocumentTable
+  );
+}
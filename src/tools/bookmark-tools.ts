@@ -0,0 +1,170 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
+
+const bookmarkNameSchema = z.string().describe("Name of the bookmark (case-insensitive).");
+
+// --- Tool: Add Bookmark ---
+const addBookmarkSchema = z.object({
+  name: z.string().describe("Bookmark name: starts with a letter, then letters, digits and underscores, at most 40 characters. An existing bookmark with this name is moved."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function addBookmarkTool(args: z.infer<typeof addBookmarkSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.addBookmark(args.name)));
+    return {
+      content: [{ type: "text", text: `Successfully added bookmark "${args.name}".` }],
+    };
+  } catch (error: any) {
+    console.error("Error in addBookmarkTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to add bookmark: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: List Bookmarks ---
+const listBookmarksSchema = z.object({
+  includeHidden: z.boolean().optional().default(false).describe("Include hidden bookmarks (names starting with \"_\", such as table of contents targets). Default is false."),
+  documentId: documentIdSchema,
+});
+
+async function listBookmarksTool(args: z.infer<typeof listBookmarksSchema>): Promise<CallToolResult> {
+  try {
+    const bookmarks = await inDocument(args.documentId, () => wordService.listBookmarks(args.includeHidden));
+    if (bookmarks.length === 0) {
+      return {
+        content: [{ type: "text", text: "The document has no bookmarks." }],
+      };
+    }
+    const lines = bookmarks.map(b => `${b.name} (${b.start}-${b.end}): "${b.text}"`);
+    return {
+      content: [{ type: "text", text: `${bookmarks.length} bookmark(s):\n${lines.join("\n")}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in listBookmarksTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to list bookmarks: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Go to Bookmark ---
+const goToBookmarkSchema = z.object({
+  name: bookmarkNameSchema,
+  documentId: documentIdSchema,
+});
+
+async function goToBookmarkTool(args: z.infer<typeof goToBookmarkSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => wordService.selectBookmark(args.name));
+    return {
+      content: [{ type: "text", text: `Successfully selected bookmark "${args.name}".` }],
+    };
+  } catch (error: any) {
+    console.error("Error in goToBookmarkTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to go to bookmark: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Set Bookmark Text ---
+const setBookmarkTextSchema = z.object({
+  name: bookmarkNameSchema,
+  text: z.string().describe("The new text of the bookmark. Use \\n for new paragraphs."),
+  documentId: documentIdSchema,
+});
+
+async function setBookmarkTextTool(args: z.infer<typeof setBookmarkTextSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => wordService.setBookmarkText(args.name, args.text));
+    return {
+      content: [{ type: "text", text: `Successfully replaced the text of bookmark "${args.name}".` }],
+    };
+  } catch (error: any) {
+    console.error("Error in setBookmarkTextTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to set bookmark text: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Delete Bookmarks ---
+const deleteBookmarksSchema = z.object({
+  name: bookmarkNameSchema.optional(),
+  all: z.boolean().optional().default(false).describe("Delete all visible bookmarks of the document. Default is false."),
+  documentId: documentIdSchema,
+});
+
+async function deleteBookmarksTool(args: z.infer<typeof deleteBookmarksSchema>): Promise<CallToolResult> {
+  try {
+    if (args.name === undefined && !args.all) {
+      throw new Error("Specify name or all.");
+    }
+    const count = await inDocument(args.documentId, async () => {
+      const names = args.all ? (await wordService.listBookmarks()).map(b => b.name) : [args.name!];
+      for (const name of names) {
+        await wordService.deleteBookmark(name);
+      }
+      return names.length;
+    });
+    if (count === 0) {
+      return {
+        content: [{ type: "text", text: "The document has no bookmarks." }],
+      };
+    }
+    return {
+      content: [{ type: "text", text: `Successfully deleted ${count} bookmark(s). Their text stays in the document.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in deleteBookmarksTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to delete bookmarks: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerBookmarkTools(server: McpServer) {
+  server.tool(
+    "word_addBookmark",
+    "Bookmarks the selection, a range or a search hit. Bookmarks are stable anchors: unlike paragraph indices they move with their text when the document is edited. Use them with range type \"bookmark\" in other tools.",
+    addBookmarkSchema.shape,
+    addBookmarkTool
+  );
+  server.tool(
+    "word_listBookmarks",
+    "Lists the bookmarks of the active document in document order, with their character range and text.",
+    listBookmarksSchema.shape,
+    listBookmarksTool
+  );
+  server.tool(
+    "word_goToBookmark",
+    "Selects the text of a bookmark.",
+    goToBookmarkSchema.shape,
+    goToBookmarkTool
+  );
+  server.tool(
+    "word_setBookmarkText",
+    "Replaces the text of a bookmark, keeping the bookmark around the new text. Useful to fill in template fields.",
+    setBookmarkTextSchema.shape,
+    setBookmarkTextTool
+  );
+  server.tool(
+    "word_deleteBookmarks",
+    "Deletes a bookmark by name, or all visible bookmarks. The bookmarked text stays in the document.",
+    deleteBookmarksSchema.shape,
+    deleteBookmarksTool
+  );
+}
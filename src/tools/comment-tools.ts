@@ -0,0 +1,198 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { CommentInfo } from "../word/word-backend.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
+
+// --- Tool: Add Comment ---
+const addCommentSchema = z.object({
+  text: z.string().describe("The comment text. Use \\n for multiple paragraphs."),
+  author: z.string().optional().describe("Optional: Author name. Default is the Word user name."),
+  initials: z.string().optional().describe("Optional: Author initials. Default is derived from the author name."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function addCommentTool(args: z.infer<typeof addCommentSchema>): Promise<CallToolResult> {
+  try {
+    const index = await inDocument(args.documentId, () => inRange(args.range, () => wordService.addComment(args.text, args.author, args.initials)));
+    return {
+      content: [{ type: "text", text: `Successfully added comment ${index}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in addCommentTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to add comment: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: List Comments ---
+const listCommentsSchema = z.object({
+  author: z.string().optional().describe("Optional: Only list threads with a comment or reply by this author (case-insensitive)."),
+  includeResolved: z.boolean().optional().default(true).describe("Include resolved (done) comments. Default is true."),
+  documentId: documentIdSchema,
+});
+
+function formatComment(comment: CommentInfo): string {
+  const header = `[${comment.index}] ${comment.author} (${comment.initials}), ${comment.date}, ${comment.done ? "resolved" : "open"}`;
+  const body = comment.text.replace(/\n/g, " / ");
+  return comment.parentIndex === undefined
+    ? `${header} on "${comment.scopeText}" (${comment.start}-${comment.end}): ${body}`
+    : `  ${header}: ${body}`;
+}
+
+async function listCommentsTool(args: z.infer<typeof listCommentsSchema>): Promise<CallToolResult> {
+  try {
+    const comments = await inDocument(args.documentId, () => wordService.listComments());
+    const threads = comments.filter(c => c.parentIndex === undefined)
+      .filter(c => args.includeResolved || !c.done)
+      .map(c => [c, ...comments.filter(reply => reply.parentIndex === c.index)])
+      .filter(thread => !args.author || thread.some(c => c.author.toLowerCase() === args.author!.toLowerCase()));
+    if (threads.length === 0) {
+      return {
+        content: [{ type: "text", text: comments.length === 0 ? "The document has no comments." : "No comments match the filter." }],
+      };
+    }
+    const lines = threads.flat().map(formatComment);
+    return {
+      content: [{ type: "text", text: `${threads.length} comment thread(s), [comment index]:\n${lines.join("\n")}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in listCommentsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to list comments: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Reply to Comment ---
+const replyToCommentSchema = z.object({
+  commentIndex: z.number().int().min(1).describe("1-based index of the comment to reply to, as reported by word_listComments."),
+  text: z.string().describe("The reply text."),
+  author: z.string().optional().describe("Optional: Author name. Default is the Word user name."),
+  initials: z.string().optional().describe("Optional: Author initials. Default is derived from the author name."),
+  documentId: documentIdSchema,
+});
+
+async function replyToCommentTool(args: z.infer<typeof replyToCommentSchema>): Promise<CallToolResult> {
+  try {
+    const index = await inDocument(args.documentId, () => wordService.replyToComment(args.commentIndex, args.text, args.author, args.initials));
+    return {
+      content: [{ type: "text", text: `Successfully replied to comment ${args.commentIndex}. The reply is comment ${index}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in replyToCommentTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to reply to comment: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Resolve Comment ---
+const resolveCommentSchema = z.object({
+  commentIndex: z.number().int().min(1).describe("1-based index of the comment, as reported by word_listComments."),
+  done: z.boolean().optional().default(true).describe("true marks the comment as resolved, false reopens it. Default is true."),
+  documentId: documentIdSchema,
+});
+
+async function resolveCommentTool(args: z.infer<typeof resolveCommentSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => wordService.setCommentDone(args.commentIndex, args.done));
+    return {
+      content: [{ type: "text", text: `Successfully ${args.done ? "resolved" : "reopened"} comment ${args.commentIndex}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in resolveCommentTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to resolve comment: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Delete Comments ---
+const deleteCommentsSchema = z.object({
+  commentIndex: z.number().int().min(1).optional().describe("Optional: 1-based index of the comment to delete, together with its replies."),
+  author: z.string().optional().describe("Optional: Delete all comments by this author (case-insensitive). Deleting a comment also deletes its replies."),
+  all: z.boolean().optional().default(false).describe("Delete all comments of the document. Default is false."),
+  documentId: documentIdSchema,
+});
+
+async function deleteCommentsTool(args: z.infer<typeof deleteCommentsSchema>): Promise<CallToolResult> {
+  try {
+    if (args.commentIndex === undefined && args.author === undefined && !args.all) {
+      throw new Error("Specify commentIndex, author or all.");
+    }
+    const count = await inDocument(args.documentId, async () => {
+      const comments = await wordService.listComments();
+      const selected = comments.filter(c =>
+        args.all ||
+        c.index === args.commentIndex ||
+        (args.author !== undefined && c.author.toLowerCase() === args.author.toLowerCase()));
+      if (args.commentIndex !== undefined && !comments.some(c => c.index === args.commentIndex)) {
+        throw new Error(`Comment index ${args.commentIndex} is out of bounds (1-${comments.length}).`);
+      }
+      // Replies go with their comment, so skip those whose thread is deleted anyway
+      const indices = new Set(selected.map(c => c.index));
+      const targets = selected.filter(c => c.parentIndex === undefined || !indices.has(c.parentIndex));
+      for (const comment of targets.reverse()) {
+        await wordService.deleteComment(comment.index);
+      }
+      return targets.length;
+    });
+    if (count === 0) {
+      return {
+        content: [{ type: "text", text: "No comments match the filter." }],
+      };
+    }
+    return {
+      content: [{ type: "text", text: `Successfully deleted ${count} comment(s) with their replies.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in deleteCommentsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to delete comments: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerCommentTools(server: McpServer) {
+  server.tool(
+    "word_addComment",
+    "Adds a comment anchored to the selection, a range or a search hit. A collapsed selection anchors the comment to the word at the cursor.",
+    addCommentSchema.shape,
+    addCommentTool
+  );
+  server.tool(
+    "word_listComments",
+    "Lists the comments of the active document as threads: author, date, commented text, comment text, replies and resolved state, optionally filtered by author.",
+    listCommentsSchema.shape,
+    listCommentsTool
+  );
+  server.tool(
+    "word_replyToComment",
+    "Adds a reply to a comment's thread.",
+    replyToCommentSchema.shape,
+    replyToCommentTool
+  );
+  server.tool(
+    "word_resolveComment",
+    "Marks a comment as done (resolved), or reopens it.",
+    resolveCommentSchema.shape,
+    resolveCommentTool
+  );
+  server.tool(
+    "word_deleteComments",
+    "Deletes one comment, all comments by an author, or all comments of the document. Replies are deleted with their comment.",
+    deleteCommentsSchema.shape,
+    deleteCommentsTool
+  );
+}
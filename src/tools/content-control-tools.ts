@@ -0,0 +1,170 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { ContentControlInfo } from "../word/word-backend.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
+
+// WdContentControlType -> name
+const CONTENT_CONTROL_TYPES: { [type: number]: string } = {
+  0: "richText",
+  1: "plainText",
+  2: "picture",
+  3: "comboBox",
+  4: "dropdown",
+  5: "buildingBlockGallery",
+  6: "date",
+  7: "group",
+  8: "checkbox",
+  9: "repeatingSection",
+};
+
+/**
+ * Lists the content controls matching a tag, a title and/or an index.
+ */
+async function findContentControls(filter: { tag?: string; title?: string; index?: number }): Promise<ContentControlInfo[]> {
+  const controls = await wordService.listContentControls();
+  return controls.filter(c =>
+    (filter.index === undefined || c.index === filter.index) &&
+    (filter.tag === undefined || c.tag.toLowerCase() === filter.tag.toLowerCase()) &&
+    (filter.title === undefined || c.title.toLowerCase() === filter.title.toLowerCase()));
+}
+
+function formatContentControl(control: ContentControlInfo): string {
+  const details = [
+    `id ${control.id}`,
+    control.tag && `tag "${control.tag}"`,
+    control.title && `title "${control.title}"`,
+    control.lockContents && "contents locked",
+    control.lockControl && "cannot be deleted",
+    control.checked !== undefined && (control.checked ? "checked" : "unchecked"),
+    control.entries && `items: ${control.entries.join(" | ")}`,
+  ].filter(Boolean).join(", ");
+  const text = control.showingPlaceholder ? `placeholder "${control.text}"` : `"${control.text}"`;
+  return `[${control.index}] ${CONTENT_CONTROL_TYPES[control.type] ?? `Type ${control.type}`} (${details}) (${control.start}-${control.end}): ${text}`;
+}
+
+// --- Tool: List Content Controls ---
+const listContentControlsSchema = z.object({
+  tag: z.string().optional().describe("Optional: Only list controls with this tag (case-insensitive)."),
+  title: z.string().optional().describe("Optional: Only list controls with this title (case-insensitive)."),
+  documentId: documentIdSchema,
+});
+
+async function listContentControlsTool(args: z.infer<typeof listContentControlsSchema>): Promise<CallToolResult> {
+  try {
+    const controls = await inDocument(args.documentId, () => findContentControls(args));
+    if (controls.length === 0) {
+      return {
+        content: [{ type: "text", text: args.tag === undefined && args.title === undefined ? "The document has no content controls." : "No content controls match the filter." }],
+      };
+    }
+    return {
+      content: [{ type: "text", text: `${controls.length} content control(s), [content control index]:\n${controls.map(formatContentControl).join("\n")}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in listContentControlsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to list content controls: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Set Content Control Value ---
+const setContentControlValueSchema = z.object({
+  value: z.union([z.string(), z.boolean()]).describe("The new content: text for text controls and combo boxes, a date as yyyy-MM-dd for date pickers (shown in the control's date format), an item (text or value) for dropdown lists, true or false for checkboxes."),
+  tag: z.string().optional().describe("Optional: Set all controls with this tag (case-insensitive)."),
+  title: z.string().optional().describe("Optional: Set all controls with this title (case-insensitive)."),
+  index: z.number().int().min(1).optional().describe("Optional: 1-based index of a single control, as reported by word_listContentControls."),
+  documentId: documentIdSchema,
+});
+
+async function setContentControlValueTool(args: z.infer<typeof setContentControlValueSchema>): Promise<CallToolResult> {
+  try {
+    if (args.tag === undefined && args.title === undefined && args.index === undefined) {
+      throw new Error("Specify tag, title or index.");
+    }
+    const count = await inDocument(args.documentId, async () => {
+      const controls = await findContentControls(args);
+      if (controls.length === 0) {
+        throw new Error("No content controls match the filter.");
+      }
+      // From the last one, so setting a value does not shift the indices of the others
+      for (const control of [...controls].reverse()) {
+        await wordService.setContentControlValue(control.index, args.value);
+      }
+      return controls.length;
+    });
+    return {
+      content: [{ type: "text", text: `Successfully set the value of ${count} content control(s).` }],
+    };
+  } catch (error: any) {
+    console.error("Error in setContentControlValueTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to set content control value: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Insert Content Control ---
+const insertContentControlSchema = z.object({
+  type: z.enum(["richText", "plainText", "date", "dropdown", "comboBox", "checkbox"]).describe("Kind of content control."),
+  tag: z.string().optional().describe("Optional: Tag identifying the control for word_setContentControlValue."),
+  title: z.string().optional().describe("Optional: Title shown on the control."),
+  entries: z.array(z.string()).optional().describe("Optional: Items of a dropdown list or combo box."),
+  dateFormat: z.string().optional().describe("Optional: Display format of a date picker, e.g. \"M/d/yyyy\" (default) or \"MMMM d, yyyy\"."),
+  checked: z.boolean().optional().describe("Optional: Initial state of a checkbox. Default is false."),
+  lockContents: z.boolean().optional().describe("Optional: Prevent editing the content. Default is false."),
+  lockControl: z.boolean().optional().describe("Optional: Prevent deleting the control. Default is false."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function insertContentControlTool(args: z.infer<typeof insertContentControlSchema>): Promise<CallToolResult> {
+  try {
+    const type = Number(Object.entries(CONTENT_CONTROL_TYPES).find(([, name]) => name === args.type)![0]);
+    const index = await inDocument(args.documentId, () => inRange(args.range, () => wordService.insertContentControl(type, {
+      tag: args.tag,
+      title: args.title,
+      entries: args.entries,
+      dateFormat: args.dateFormat,
+      checked: args.checked,
+      lockContents: args.lockContents,
+      lockControl: args.lockControl,
+    })));
+    return {
+      content: [{ type: "text", text: `Successfully inserted ${args.type} content control ${index}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in insertContentControlTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to insert content control: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerContentControlTools(server: McpServer) {
+  server.tool(
+    "word_listContentControls",
+    "Lists the content controls of the active document: index, id, type, tag, title, current text, checkbox state, dropdown items and lock state, optionally filtered by tag or title.",
+    listContentControlsSchema.shape,
+    listContentControlsTool
+  );
+  server.tool(
+    "word_setContentControlValue",
+    "Fills content controls identified by tag, title or index: text, date, dropdown item or checkbox state. All controls matching the tag or title are set.",
+    setContentControlValueSchema.shape,
+    setContentControlValueTool
+  );
+  server.tool(
+    "word_insertContentControl",
+    "Puts a content control around the selection, a range or a search hit. A selection including whole paragraphs gets a control around those paragraphs; a checkbox is inserted at the start of the selection.",
+    insertContentControlSchema.shape,
+    insertContentControlTool
+  );
+}
@@ -0,0 +1,60 @@
+// Options of parseCsv
+export interface CsvOptions {
+  detectSeparator?: boolean; // Use a semicolon or tab instead of a comma when the first line has those and no commas
+}
+
+/**
+ * Splits CSV text (RFC 4180) into rows of values. A value enclosed in double quotes may hold separators, line
+ * breaks and doubled quotes; a quote inside an unquoted value is kept as is. The separator is a comma unless
+ * options.detectSeparator finds another one.
+ */
+export function parseCsv(text: string, options: CsvOptions = {}): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const separator = options.detectSeparator ? detectSeparator(content.split(/\r?\n/, 1)[0]) : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let quoted = false;
+  let atValueStart = true;
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        value += ch;
+      }
+    } else if (ch === '"' && atValueStart) {
+      quoted = true;
+      atValueStart = false;
+    } else if (ch === separator) {
+      row.push(value);
+      value = "";
+      atValueStart = true;
+    } else if (ch === "\r" || ch === "\n") {
+      if (ch === "\r" && content[i + 1] === "\n") i++;
+      rows.push([...row, value]);
+      row = [];
+      value = "";
+      atValueStart = true;
+    } else {
+      value += ch;
+      atValueStart = false;
+    }
+  }
+  if (quoted) {
+    throw new Error("The CSV text has an unclosed quote.");
+  }
+  if (!atValueStart || row.length > 0) rows.push([...row, value]);
+  return rows;
+}
+
+function detectSeparator(firstLine: string): string {
+  if (firstLine.includes(",")) return ",";
+  if (firstLine.includes(";")) return ";";
+  if (firstLine.includes("\t")) return "\t";
+  return ",";
+}
@@ -2,13 +2,16 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
 
 // --- Tool: Move Cursor to Start ---
-const moveCursorToStartSchema = z.object({});
+const moveCursorToStartSchema = z.object({
+  documentId: documentIdSchema,
+});
 
-async function moveCursorToStartTool(): Promise<CallToolResult> {
+async function moveCursorToStartTool(args: z.infer<typeof moveCursorToStartSchema>): Promise<CallToolResult> {
   try {
-    await wordService.moveCursorToStart();
+    await inDocument(args.documentId, () => wordService.moveCursorToStart());
     return {
       content: [{ type: "text", text: "Successfully moved cursor to the start of the document." }],
     };
@@ -22,11 +25,13 @@ async function moveCursorToStartTool(): Promise<CallToolResult> {
 }
 
 // --- Tool: Move Cursor to End ---
-const moveCursorToEndSchema = z.object({});
+const moveCursorToEndSchema = z.object({
+  documentId: documentIdSchema,
+});
 
-async function moveCursorToEndTool(): Promise<CallToolResult> {
+async function moveCursorToEndTool(args: z.infer<typeof moveCursorToEndSchema>): Promise<CallToolResult> {
   try {
-    await wordService.moveCursorToEnd();
+    await inDocument(args.documentId, () => wordService.moveCursorToEnd());
     return {
       content: [{ type: "text", text: "Successfully moved cursor to the end of the document." }],
     };
@@ -44,11 +49,12 @@ const moveCursorSchema = z.object({
   unit: z.number().int().min(1).max(12).default(1).describe("Unit to move by (1=Character, 2=Word, 3=Sentence, 4=Paragraph, 5=Line, 6=Story, etc.)"),
   count: z.number().int().describe("Number of units to move. Positive moves forward, negative moves backward."),
   extend: z.boolean().optional().default(false).describe("Whether to extend the selection (true) or move the insertion point (false)."),
+  documentId: documentIdSchema,
 });
 
 async function moveCursorTool(args: z.infer<typeof moveCursorSchema>): Promise<CallToolResult> {
   try {
-    await wordService.moveCursor(args.unit, args.count, args.extend);
+    await inDocument(args.documentId, () => wordService.moveCursor(args.unit, args.count, args.extend));
     
     const unitMap: { [key: number]: string } = { 
       1: "character(s)", 
@@ -82,11 +88,13 @@ async function moveCursorTool(args: z.infer<typeof moveCursorSchema>): Promise<C
 }
 
 // --- Tool: Select All ---
-const selectAllSchema = z.object({});
+const selectAllSchema = z.object({
+  documentId: documentIdSchema,
+});
 
-async function selectAllTool(): Promise<CallToolResult> {
+async function selectAllTool(args: z.infer<typeof selectAllSchema>): Promise<CallToolResult> {
   try {
-    await wordService.selectAll();
+    await inDocument(args.documentId, () => wordService.selectAll());
     return {
       content: [{ type: "text", text: "Successfully selected the entire document." }],
     };
@@ -102,11 +110,12 @@ async function selectAllTool(): Promise<CallToolResult> {
 // --- Tool: Select Paragraph ---
 const selectParagraphSchema = z.object({
   paragraphIndex: z.number().int().min(1).describe("1-based index of the paragraph to select."),
+  documentId: documentIdSchema,
 });
 
 async function selectParagraphTool(args: z.infer<typeof selectParagraphSchema>): Promise<CallToolResult> {
   try {
-    await wordService.selectParagraph(args.paragraphIndex);
+    await inDocument(args.documentId, () => wordService.selectParagraph(args.paragraphIndex));
     return {
       content: [{ type: "text", text: `Successfully selected paragraph ${args.paragraphIndex}.` }],
     };
@@ -122,11 +131,12 @@ async function selectParagraphTool(args: z.infer<typeof selectParagraphSchema>):
 // --- Tool: Collapse Selection ---
 const collapseSelectionSchema = z.object({
   toStart: z.boolean().optional().default(true).describe("If true, collapse to start; if false, collapse to end."),
+  documentId: documentIdSchema,
 });
 
 async function collapseSelectionTool(args: z.infer<typeof collapseSelectionSchema>): Promise<CallToolResult> {
   try {
-    await wordService.collapseSelection(args.toStart);
+    await inDocument(args.documentId, () => wordService.collapseSelection(args.toStart));
     const position = args.toStart ? "start" : "end";
     return {
       content: [{ type: "text", text: `Successfully collapsed selection to its ${position}.` }],
@@ -141,11 +151,13 @@ async function collapseSelectionTool(args: z.infer<typeof collapseSelectionSchem
 }
 
 // --- Tool: Get Selection Text ---
-const getSelectionTextSchema = z.object({});
+const getSelectionTextSchema = z.object({
+  documentId: documentIdSchema,
+});
 
-async function getSelectionTextTool(): Promise<CallToolResult> {
+async function getSelectionTextTool(args: z.infer<typeof getSelectionTextSchema>): Promise<CallToolResult> {
   try {
-    const text = await wordService.getSelectionText();
+    const text = await inDocument(args.documentId, () => wordService.getSelectionText());
     return {
       content: [
         { type: "text", text: "Current selection text:" },
@@ -162,11 +174,13 @@ async function getSelectionTextTool(): Promise<CallToolResult> {
 }
 
 // --- Tool: Get Selection Info ---
-const getSelectionInfoSchema = z.object({});
+const getSelectionInfoSchema = z.object({
+  documentId: documentIdSchema,
+});
 
-async function getSelectionInfoTool(): Promise<CallToolResult> {
+async function getSelectionInfoTool(args: z.infer<typeof getSelectionInfoSchema>): Promise<CallToolResult> {
   try {
-    const info = await wordService.getSelectionInfo();
+    const info = await inDocument(args.documentId, () => wordService.getSelectionInfo());
     
     // Map selection type to a human-readable string
     const typeMap: { [key: number]: string } = {
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import fs from "fs/promises";
+import path from "path";
+import { wordService } from "../word/word-service.js";
+
+// Optional argument of every tool that works on a document
+export const documentIdSchema = z.string().optional().describe("Optional: Id of the document to act on, as returned by word_createDocument, word_openDocument or word_listDocuments (a document name or full path also works). Defaults to the active document.");
+
+/**
+ * Runs a service call against the given document, or the active document if no id is given.
+ */
+export function inDocument<T>(documentId: string | undefined, action: () => Promise<T>): Promise<T> {
+  return documentId ? wordService.withDocument(documentId, action) : action();
+}
+
+/**
+ * Saves a document a tool has created. The path is resolved against the server's working directory, not Word's
+ * current folder, and its folder is created when the backend writes files.
+ * @returns The absolute path the document was saved to.
+ */
+export async function saveNewDocument(documentId: string, outputPath: string): Promise<string> {
+  const absolutePath = path.resolve(outputPath);
+  if (wordService.savesFiles) {
+    await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+  }
+  await wordService.withDocument(documentId, () => wordService.saveActiveDocumentAs(absolutePath));
+  return absolutePath;
+}
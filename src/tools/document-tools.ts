@@ -2,6 +2,7 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { CallToolResult, McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
 import path from 'path'; // Import path for potential path manipulation
 
 // --- Tool: Create New Document ---
@@ -9,9 +10,10 @@ const createDocumentSchema = z.object({}); // No arguments needed
 
 async function createDocumentTool(): Promise<CallToolResult> {
   try {
-    await wordService.createDocument();
+    const doc = await wordService.createDocument();
+    const documentId = await wordService.getDocumentId(doc);
     return {
-      content: [{ type: "text", text: "Successfully created a new Word document." }],
+      content: [{ type: "text", text: `Successfully created a new Word document (documentId: ${documentId}).` }],
     };
   } catch (error: any) {
     console.error("Error in createDocumentTool:", error);
@@ -31,9 +33,10 @@ async function openDocumentTool(args: z.infer<typeof openDocumentSchema>): Promi
   try {
     // Consider validating or resolving the path if necessary
     const absolutePath = path.resolve(args.filePath); // Example: ensure absolute path
-    await wordService.openDocument(absolutePath);
+    const doc = await wordService.openDocument(absolutePath);
+    const documentId = await wordService.getDocumentId(doc);
     return {
-      content: [{ type: "text", text: `Successfully opened document: ${absolutePath}` }],
+      content: [{ type: "text", text: `Successfully opened document: ${absolutePath} (documentId: ${documentId})` }],
     };
   } catch (error: any) {
     console.error("Error in openDocumentTool:", error);
@@ -45,11 +48,13 @@ async function openDocumentTool(args: z.infer<typeof openDocumentSchema>): Promi
 }
 
 // --- Tool: Save Active Document ---
-const saveDocumentSchema = z.object({}); // No arguments needed
+const saveDocumentSchema = z.object({
+  documentId: documentIdSchema,
+});
 
-async function saveDocumentTool(): Promise<CallToolResult> {
+async function saveDocumentTool(args: z.infer<typeof saveDocumentSchema>): Promise<CallToolResult> {
   try {
-    await wordService.saveActiveDocument();
+    await inDocument(args.documentId, () => wordService.saveActiveDocument());
     return {
       content: [{ type: "text", text: "Successfully saved the active document." }],
     };
@@ -68,13 +73,14 @@ const saveDocumentAsSchema = z.object({
   filePath: z.string().describe("The absolute path to save the document to."),
   // fileFormat: z.optional(z.nativeEnum(WdSaveFormat)).describe("Optional: The format to save the file in (e.g., docx, pdf). Uses WdSaveFormat enum values.")
   // TODO: Need to define or import WdSaveFormat enum constants if we want typed format
-  fileFormat: z.optional(z.number()).describe("Optional: The numeric value corresponding to Word's WdSaveFormat enum (e.g., 16 for docx, 17 for pdf).")
+  fileFormat: z.optional(z.number()).describe("Optional: The numeric value corresponding to Word's WdSaveFormat enum (e.g., 16 for docx, 17 for pdf)."),
+  documentId: documentIdSchema,
 });
 
 async function saveDocumentAsTool(args: z.infer<typeof saveDocumentAsSchema>): Promise<CallToolResult> {
   try {
     const absolutePath = path.resolve(args.filePath);
-    await wordService.saveActiveDocumentAs(absolutePath, args.fileFormat);
+    await inDocument(args.documentId, () => wordService.saveActiveDocumentAs(absolutePath, args.fileFormat));
     return {
       content: [{ type: "text", text: `Successfully saved document as: ${absolutePath}` }],
     };
@@ -91,15 +97,16 @@ async function saveDocumentAsTool(args: z.infer<typeof saveDocumentAsSchema>): P
 const closeDocumentSchema = z.object({
   // saveChanges: z.optional(z.nativeEnum(WdSaveOptions)).describe("Optional: How to handle unsaved changes (e.g., save, don't save, prompt). Uses WdSaveOptions enum values.")
   // TODO: Need to define or import WdSaveOptions enum constants
-  saveChanges: z.optional(z.number()).describe("Optional: Numeric value for WdSaveOptions (0=No, -1=Yes, -2=Prompt). Default is 0 (No).")
+  saveChanges: z.optional(z.number()).describe("Optional: Numeric value for WdSaveOptions (0=No, -1=Yes, -2=Prompt). Default is 0 (No)."),
+  documentId: documentIdSchema,
 });
 
 async function closeDocumentTool(args: z.infer<typeof closeDocumentSchema>): Promise<CallToolResult> {
   try {
-    const doc = await wordService.getActiveDocument(); // Get ref before potentially closing
+    const doc = await inDocument(args.documentId, () => wordService.getActiveDocument()); // Get ref before potentially closing
     await wordService.closeDocument(doc, args.saveChanges);
     return {
-      content: [{ type: "text", text: "Successfully closed the active document." }],
+      content: [{ type: "text", text: `Successfully closed ${args.documentId ? `document ${args.documentId}` : "the active document"}.` }],
     };
   } catch (error: any) {
     console.error("Error in closeDocumentTool:", error);
@@ -117,6 +124,51 @@ async function closeDocumentTool(args: z.infer<typeof closeDocumentSchema>): Pro
   }
 }
 
+// --- Tool: List Documents ---
+const listDocumentsSchema = z.object({}); // No arguments needed
+
+async function listDocumentsTool(): Promise<CallToolResult> {
+  try {
+    const documents = await wordService.listDocuments();
+    if (documents.length === 0) {
+      return {
+        content: [{ type: "text", text: "No documents are open." }],
+      };
+    }
+    const lines = documents.map(doc =>
+      `${doc.id}: ${doc.name}${doc.fullName !== doc.name ? ` (${doc.fullName})` : ''}${doc.saved ? '' : ' [unsaved changes]'}${doc.isActive ? ' [active]' : ''}`
+    );
+    return {
+      content: [{ type: "text", text: lines.join('\n') }],
+    };
+  } catch (error: any) {
+    console.error("Error in listDocumentsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to list documents: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Activate Document ---
+const activateDocumentSchema = z.object({
+  documentId: z.string().describe("Id of the document to activate, as returned by word_listDocuments (a document name or full path also works)."),
+});
+
+async function activateDocumentTool(args: z.infer<typeof activateDocumentSchema>): Promise<CallToolResult> {
+  try {
+    await wordService.activateDocument(args.documentId);
+    return {
+      content: [{ type: "text", text: `Successfully activated document: ${args.documentId}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in activateDocumentTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to activate document '${args.documentId}': ${error.message}` }],
+      isError: true,
+    };
+  }
+}
 
 // --- Register Tools ---
 export function registerDocumentTools(server: McpServer) {
@@ -150,4 +202,16 @@ export function registerDocumentTools(server: McpServer) {
     closeDocumentSchema.shape,
     closeDocumentTool
   );
+  server.tool(
+    "word_listDocuments",
+    "Lists the open Word documents with their ids, names, full paths and saved state, marking the active one.",
+    listDocumentsSchema.shape,
+    listDocumentsTool
+  );
+  server.tool(
+    "word_activateDocument",
+    "Makes an open document the active document (and brings its window to the front in Word).",
+    activateDocumentSchema.shape,
+    activateDocumentTool
+  );
 }
@@ -0,0 +1,168 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { FieldInfo, buildFieldCode } from "../word/word-backend.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
+
+// Field types that need an argument, and what it names
+const FIELD_ARGUMENTS: { [type: string]: string } = {
+  REF: "a bookmark name",
+  PAGEREF: "a bookmark name",
+  DOCPROPERTY: "a document property name",
+};
+
+// WdHeaderFooterIndex -> name
+const HEADER_FOOTER_TYPES: { [type: number]: string } = { 1: "primary", 2: "first page", 3: "even pages" };
+
+// Longest field result shown by word_listFields
+const MAX_RESULT_LENGTH = 200;
+
+function formatField(field: FieldInfo): string {
+  const where = field.story === "body" ? "body" : `section ${field.sectionIndex} ${HEADER_FOOTER_TYPES[field.headerFooterType!]} ${field.story}`;
+  const result = field.result.length > MAX_RESULT_LENGTH ? `${field.result.slice(0, MAX_RESULT_LENGTH)}...` : field.result;
+  return `[${field.index}] ${field.type} in ${where} (${field.start}-${field.end}): { ${field.code} } = "${result}"`;
+}
+
+// --- Tool: Insert Field ---
+const insertFieldSchema = z.object({
+  type: z.enum(["DATE", "TIME", "PAGE", "NUMPAGES", "SECTIONPAGES", "REF", "PAGEREF", "DOCPROPERTY", "FILENAME", "AUTHOR", "TITLE"]).describe("Field type: DATE/TIME (current date/time), PAGE (page number), NUMPAGES (page count), SECTIONPAGES (pages in the section), REF (text of a bookmark), PAGEREF (page of a bookmark), DOCPROPERTY (a document property), FILENAME, AUTHOR or TITLE."),
+  argument: z.string().optional().describe("Bookmark name for REF and PAGEREF, property name for DOCPROPERTY (e.g. Company, Title)."),
+  switches: z.string().optional().describe("Optional: Field switches, e.g. \\@ \"MMMM d, yyyy\" (date format of DATE/TIME), \\* roman or \\* Upper (number or text format), \\h (REF/PAGEREF as a link), \\p (FILENAME with path)."),
+  headerFooter: z.object({
+    isHeader: z.boolean().describe("True for the header, False for the footer."),
+    sectionIndex: z.number().int().min(1).optional().default(1).describe("The 1-based index of the document section (default is 1)."),
+    headerFooterType: z.number().int().min(1).max(3).optional().default(1).describe("Type of header/footer (1=Primary, 2=First Page, 3=Even Pages). Default is 1 (Primary)."),
+  }).optional().describe("Optional: Append the field to the end of this header or footer instead of inserting it at the selection."),
+  textBefore: z.string().optional().describe("Optional, with headerFooter: Text to append before the field, e.g. \"Page \" then \" of \" for Page X of Y."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function insertFieldTool(args: z.infer<typeof insertFieldSchema>): Promise<CallToolResult> {
+  try {
+    if (FIELD_ARGUMENTS[args.type] && !args.argument?.trim()) {
+      throw new Error(`${args.type} fields need an argument: ${FIELD_ARGUMENTS[args.type]}.`);
+    }
+    if (args.headerFooter && args.range) {
+      throw new Error("Give either headerFooter or range, not both.");
+    }
+    if (args.textBefore !== undefined && !args.headerFooter) {
+      throw new Error("textBefore only applies with headerFooter; insert text at the selection with word_insertText.");
+    }
+    const code = buildFieldCode(args.type, args.argument?.trim(), args.switches);
+    const hf = args.headerFooter;
+    const result = await inDocument(args.documentId, () => hf
+      ? wordService.insertHeaderFooterField(hf.sectionIndex, hf.headerFooterType, hf.isHeader, code, args.textBefore)
+      : inRange(args.range, () => wordService.insertField(code)));
+    const where = hf ? ` in the ${HEADER_FOOTER_TYPES[hf.headerFooterType]} ${hf.isHeader ? "header" : "footer"} of section ${hf.sectionIndex}` : "";
+    const shown = result ? `, showing "${result}"` : ", which Word calculates when it opens the document";
+    return {
+      content: [{ type: "text", text: `Successfully inserted field { ${code} }${where}${shown}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in insertFieldTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to insert field: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: List Fields ---
+const listFieldsSchema = z.object({
+  type: z.string().optional().describe("Optional: Only list fields of this type, e.g. PAGE or REF (case-insensitive)."),
+  documentId: documentIdSchema,
+});
+
+async function listFieldsTool(args: z.infer<typeof listFieldsSchema>): Promise<CallToolResult> {
+  try {
+    const fields = (await inDocument(args.documentId, () => wordService.listFields()))
+      .filter(field => args.type === undefined || field.type === args.type.toUpperCase());
+    if (fields.length === 0) {
+      return {
+        content: [{ type: "text", text: args.type === undefined ? "The document has no fields." : `The document has no ${args.type.toUpperCase()} fields.` }],
+      };
+    }
+    return {
+      content: [{ type: "text", text: `${fields.length} field(s), [field index]:\n${fields.map(formatField).join("\n")}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in listFieldsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to list fields: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Update Fields ---
+const updateFieldsSchema = z.object({
+  documentId: documentIdSchema,
+});
+
+async function updateFieldsTool(args: z.infer<typeof updateFieldsSchema>): Promise<CallToolResult> {
+  try {
+    const count = await inDocument(args.documentId, () => wordService.updateFields());
+    return {
+      content: [{ type: "text", text: `Successfully updated ${count} field(s).` }],
+    };
+  } catch (error: any) {
+    console.error("Error in updateFieldsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to update fields: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Unlink Fields ---
+const unlinkFieldsSchema = z.object({
+  indices: z.array(z.number().int().min(1)).optional().describe("Optional: 1-based field indices as reported by word_listFields. Default: all fields."),
+  documentId: documentIdSchema,
+});
+
+async function unlinkFieldsTool(args: z.infer<typeof unlinkFieldsSchema>): Promise<CallToolResult> {
+  try {
+    const count = await inDocument(args.documentId, () => wordService.unlinkFields(args.indices));
+    return {
+      content: [{ type: "text", text: `Successfully unlinked ${count} field(s); their results are now plain text.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in unlinkFieldsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to unlink fields: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerFieldTools(server: McpServer) {
+  server.tool(
+    "word_insertField",
+    "Inserts a field (date, page number, page count, bookmark reference, document property, ...) at the selection, a range or a search hit, or appends it to a header or footer. " +
+    "For a \"Page X of Y\" footer, append PAGE with textBefore \"Page \", then NUMPAGES with textBefore \" of \".",
+    insertFieldSchema.shape,
+    insertFieldTool
+  );
+  server.tool(
+    "word_listFields",
+    "Lists the fields of the body, headers and footers, tables of contents included: index, type, location, field code and current result.",
+    listFieldsSchema.shape,
+    listFieldsTool
+  );
+  server.tool(
+    "word_updateFields",
+    "Updates all fields of the body, headers and footers, and rebuilds the tables of contents.",
+    updateFieldsSchema.shape,
+    updateFieldsTool
+  );
+  server.tool(
+    "word_unlinkFields",
+    "Replaces fields with their current results as plain text, e.g. before sending a document externally. Update them first with word_updateFields to freeze current values.",
+    unlinkFieldsSchema.shape,
+    unlinkFieldsTool
+  );
+}
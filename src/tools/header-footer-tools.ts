@@ -2,6 +2,7 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
 
 // --- Tool: Set Header/Footer Text ---
 const setHeaderFooterTextSchema = z.object({
@@ -9,11 +10,12 @@ const setHeaderFooterTextSchema = z.object({
   isHeader: z.boolean().describe("True to modify the header, False to modify the footer."),
   sectionIndex: z.number().int().min(1).optional().default(1).describe("The 1-based index of the document section (default is 1)."),
   headerFooterType: z.number().int().min(1).max(3).optional().default(1).describe("Type of header/footer (1=Primary, 2=First Page, 3=Even Pages). Default is 1 (Primary). Corresponds to WdHeaderFooterIndex enum."),
+  documentId: documentIdSchema,
 });
 
 async function setHeaderFooterTextTool(args: z.infer<typeof setHeaderFooterTextSchema>): Promise<CallToolResult> {
   try {
-    await wordService.setHeaderFooterText(args.sectionIndex, args.headerFooterType, args.isHeader, args.text);
+    await inDocument(args.documentId, () => wordService.setHeaderFooterText(args.sectionIndex, args.headerFooterType, args.isHeader, args.text));
     const typeMap: { [key: number]: string } = { 1: "Primary", 2: "First Page", 3: "Even Pages" };
     const location = args.isHeader ? "header" : "footer";
     const typeName = typeMap[args.headerFooterType];
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { contentToHtml, htmlToContent } from "../word/html.js";
+import { resolvePicturePaths } from "../word/content.js";
+import fs from 'fs/promises';
+import path from 'path';
+
+// --- Tool: Export HTML ---
+const exportHtmlSchema = z.object({
+  filePath: z.string().optional().describe("Optional: Path of a .html file to write. If omitted, the HTML is returned in the response."),
+  selectionOnly: z.boolean().optional().default(false).describe("Optional: Export only the current selection instead of the whole document. Default: false."),
+  fragment: z.boolean().optional().default(false).describe("Optional: Return only the body content, without the <html>/<head> wrapper. Default: false."),
+  documentId: documentIdSchema,
+});
+
+async function exportHtmlTool(args: z.infer<typeof exportHtmlSchema>): Promise<CallToolResult> {
+  try {
+    const blocks = await inDocument(args.documentId, () => wordService.getDocumentContent(args.selectionOnly));
+    const title = args.filePath ? path.parse(args.filePath).name : undefined;
+    const html = contentToHtml(blocks, { fragment: args.fragment, title });
+    if (args.filePath) {
+      const absolutePath = path.resolve(args.filePath); // Ensure absolute path
+      await fs.writeFile(absolutePath, html, 'utf8');
+      return {
+        content: [{ type: "text", text: `Successfully exported HTML (${html.length} characters) to: ${absolutePath}` }],
+      };
+    }
+    return {
+      content: [{ type: "text", text: blocks.length ? html : `(empty ${args.selectionOnly ? 'selection' : 'document'})` }],
+    };
+  } catch (error: any) {
+    console.error("Error in exportHtmlTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to export HTML: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Insert HTML ---
+const insertHtmlSchema = z.object({
+  html: z.string().describe("The HTML fragment (or full document) to insert at the current selection: headings, paragraphs, lists, tables, block quotes, pre, b/i/u/code and inline font styles, links, images."),
+  baseDirectory: z.string().optional().describe("Optional: Directory that relative image paths are resolved against. Defaults to the server's working directory."),
+  documentId: documentIdSchema,
+});
+
+async function insertHtmlTool(args: z.infer<typeof insertHtmlSchema>): Promise<CallToolResult> {
+  try {
+    const blocks = htmlToContent(args.html);
+    resolvePicturePaths(blocks, path.resolve(args.baseDirectory ?? '.'));
+    await inDocument(args.documentId, () => wordService.insertContent(blocks));
+    return {
+      content: [{ type: "text", text: `Successfully inserted HTML as ${blocks.length} block(s).` }],
+    };
+  } catch (error: any) {
+    console.error("Error in insertHtmlTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to insert HTML: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerHtmlTools(server: McpServer) {
+  server.tool(
+    "word_exportHtml",
+    "Exports the active document, or the current selection, as clean HTML (headings, lists, tables, bold/italic/underline, hyperlinks, embedded pictures), returned inline or written to a file.",
+    exportHtmlSchema.shape,
+    exportHtmlTool
+  );
+  server.tool(
+    "word_insertHtml",
+    "Parses an HTML fragment and inserts it at the current selection as formatted Word content (Heading 1-6 styles, bullet/numbered lists, tables, bold/italic/underline/code runs, alignment, hyperlinks, pictures).",
+    insertHtmlSchema.shape,
+    insertHtmlTool
+  );
+}
@@ -2,6 +2,8 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
 import path from 'path';
 
 // --- Tool: Insert Picture ---
@@ -9,12 +11,14 @@ const insertPictureSchema = z.object({
   filePath: z.string().describe("The absolute path to the image file to insert."),
   linkToFile: z.boolean().optional().default(false).describe("Link to the file instead of embedding it."),
   saveWithDocument: z.boolean().optional().default(true).describe("Save the linked image with the document."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
 });
 
 async function insertPictureTool(args: z.infer<typeof insertPictureSchema>): Promise<CallToolResult> {
   try {
     const absolutePath = path.resolve(args.filePath); // Ensure absolute path
-    await wordService.insertPicture(absolutePath, args.linkToFile, args.saveWithDocument);
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.insertPicture(absolutePath, args.linkToFile, args.saveWithDocument)));
     return {
       content: [{ type: "text", text: `Successfully inserted picture from: ${absolutePath}` }],
     };
@@ -33,6 +37,7 @@ const setInlinePictureSizeSchema = z.object({
   heightPoints: z.number().describe("Desired height in points. Use -1 or 0 to auto-size based on width and aspect ratio."),
   widthPoints: z.number().describe("Desired width in points. Use -1 or 0 to auto-size based on height and aspect ratio."),
   lockAspectRatio: z.boolean().optional().default(true).describe("Maintain the picture's aspect ratio when resizing."),
+  documentId: documentIdSchema,
 });
 
 async function setInlinePictureSizeTool(args: z.infer<typeof setInlinePictureSizeSchema>): Promise<CallToolResult> {
@@ -43,7 +48,7 @@ async function setInlinePictureSizeTool(args: z.infer<typeof setInlinePictureSiz
             isError: false, // Not an error, just no action taken
         };
     }
-    await wordService.setInlinePictureSize(args.shapeIndex, args.heightPoints, args.widthPoints, args.lockAspectRatio);
+    await inDocument(args.documentId, () => wordService.setInlinePictureSize(args.shapeIndex, args.heightPoints, args.widthPoints, args.lockAspectRatio));
     return {
       content: [{ type: "text", text: `Successfully resized inline picture at index ${args.shapeIndex}.` }],
     };
@@ -0,0 +1,182 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
+
+// --- Tool: Apply List ---
+const applyListSchema = z.object({
+  listType: z.enum(["bullet", "number", "outline"]).optional().default("bullet").describe("'bullet' for a bulleted list, 'number' for a numbered list, 'outline' for a multilevel list. Default is 'bullet'."),
+  template: z.number().int().min(1).optional().describe("Optional: 1-based position of the list template in Word's gallery for the list type (bullets 1-7, numbering 1-7, multilevel 1-3). Default is 1."),
+  numberFormat: z.string().optional().describe("Optional: Custom level 1 format. For numbered lists use %1 for the number, e.g. '%1.', '(%1)' or 'Step %1:'; for bulleted lists give the bullet character, e.g. '–'."),
+  numberStyle: z.number().int().optional().describe("Optional: WdListNumberStyle of level 1 for numbered lists (0=1,2,3, 1=I,II,III, 2=i,ii,iii, 3=A,B,C, 4=a,b,c)."),
+  startAt: z.number().int().min(0).optional().describe("Optional: First number of the list."),
+  continuePreviousList: z.boolean().optional().default(false).describe("Continue the numbering of the previous list of the same kind instead of starting a new list. Default is false."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function applyListTool(args: z.infer<typeof applyListSchema>): Promise<CallToolResult> {
+  try {
+    const { range, documentId, ...options } = args;
+    await inDocument(documentId, () => inRange(range, () => wordService.applyListFormat(options)));
+    return {
+      content: [{ type: "text", text: `Successfully applied ${args.listType === "outline" ? "multilevel" : args.listType === "number" ? "numbered" : "bulleted"} list formatting.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in applyListTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to apply list: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Indent List ---
+const indentListSchema = z.object({
+  levels: z.number().int().min(1).max(8).optional().default(1).describe("Number of levels to indent. Default is 1."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function indentListTool(args: z.infer<typeof indentListSchema>): Promise<CallToolResult> {
+  try {
+    const count = await inDocument(args.documentId, () => inRange(args.range, () => wordService.changeListLevel(args.levels)));
+    return {
+      content: [{ type: "text", text: `Successfully indented ${count} list item(s) by ${args.levels} level(s).` }],
+    };
+  } catch (error: any) {
+    console.error("Error in indentListTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to indent list: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Outdent List ---
+const outdentListSchema = z.object({
+  levels: z.number().int().min(1).max(8).optional().default(1).describe("Number of levels to outdent. Default is 1."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function outdentListTool(args: z.infer<typeof outdentListSchema>): Promise<CallToolResult> {
+  try {
+    const count = await inDocument(args.documentId, () => inRange(args.range, () => wordService.changeListLevel(-args.levels)));
+    return {
+      content: [{ type: "text", text: `Successfully outdented ${count} list item(s) by ${args.levels} level(s).` }],
+    };
+  } catch (error: any) {
+    console.error("Error in outdentListTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to outdent list: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Restart Numbering ---
+const restartNumberingSchema = z.object({
+  startAt: z.number().int().min(0).optional().default(1).describe("Number to restart at. Default is 1."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function restartNumberingTool(args: z.infer<typeof restartNumberingSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.restartListNumbering(args.startAt)));
+    return {
+      content: [{ type: "text", text: `Successfully restarted numbering at ${args.startAt}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in restartNumberingTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to restart numbering: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Continue Numbering ---
+const continueNumberingSchema = z.object({
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function continueNumberingTool(args: z.infer<typeof continueNumberingSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.continueListNumbering()));
+    return {
+      content: [{ type: "text", text: "Successfully continued numbering from the previous list." }],
+    };
+  } catch (error: any) {
+    console.error("Error in continueNumberingTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to continue numbering: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Remove List ---
+const removeListSchema = z.object({
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function removeListTool(args: z.infer<typeof removeListSchema>): Promise<CallToolResult> {
+  try {
+    const count = await inDocument(args.documentId, () => inRange(args.range, () => wordService.removeListFormat()));
+    return {
+      content: [{ type: "text", text: `Successfully removed list formatting from ${count} paragraph(s).` }],
+    };
+  } catch (error: any) {
+    console.error("Error in removeListTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to remove list: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerListTools(server: McpServer) {
+  server.tool(
+    "word_applyList",
+    "Turns the paragraphs of the selection into a bulleted, numbered or multilevel list, using a gallery template or a custom number format, optionally continuing the previous list.",
+    applyListSchema.shape,
+    applyListTool
+  );
+  server.tool(
+    "word_indentList",
+    "Moves the list items of the selection one or more levels deeper (demote), e.g. from 1. to a.",
+    indentListSchema.shape,
+    indentListTool
+  );
+  server.tool(
+    "word_outdentList",
+    "Moves the list items of the selection one or more levels up (promote).",
+    outdentListSchema.shape,
+    outdentListTool
+  );
+  server.tool(
+    "word_restartNumbering",
+    "Restarts the numbering of a list at the first list item of the selection, at 1 or a given number.",
+    restartNumberingSchema.shape,
+    restartNumberingTool
+  );
+  server.tool(
+    "word_continueNumbering",
+    "Continues the numbering of the previous list of the same kind from the list item at the selection.",
+    continueNumberingSchema.shape,
+    continueNumberingTool
+  );
+  server.tool(
+    "word_removeList",
+    "Removes bullets and numbering from the paragraphs of the selection, turning them into normal paragraphs.",
+    removeListSchema.shape,
+    removeListTool
+  );
+}
@@ -0,0 +1,177 @@
+import { z } from "zod";
+import fs from "fs/promises";
+import path from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { MergeRecord } from "../word/word-backend.js";
+import { documentIdSchema, inDocument, saveNewDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
+import { parseCsv } from "./csv.js";
+
+// A data source row: column name -> value
+type DataRow = { [column: string]: string };
+
+// Most output files listed in the result
+const LISTED_FILES = 10;
+
+/**
+ * Reads CSV records, the first row holding the column names. The separator is a comma, or a semicolon or tab
+ * when the header row has those and no commas.
+ */
+function csvRows(text: string): DataRow[] {
+  const rows = parseCsv(text, { detectSeparator: true });
+  const [columns, ...records] = rows.filter(r => r.some(v => v.trim() !== ""));
+  if (!columns) {
+    throw new Error("The CSV data has no header row.");
+  }
+  return records.map(values => Object.fromEntries(columns.map((column, i) => [column.trim(), values[i] ?? ""])));
+}
+
+/**
+ * Turns JSON records (an array of objects) into data rows. Nested values are written as JSON, null as empty text.
+ */
+function jsonRows(data: unknown): DataRow[] {
+  if (!Array.isArray(data) || !data.every(item => item && typeof item === "object" && !Array.isArray(item))) {
+    throw new Error("JSON data must be an array of objects, one per record.");
+  }
+  return data.map(item => Object.fromEntries(Object.entries(item).map(([column, value]) => [
+    column,
+    value === null || value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value),
+  ])));
+}
+
+/**
+ * Reads the records of a .csv or .json file.
+ */
+async function readDataFile(filePath: string): Promise<DataRow[]> {
+  const text = await fs.readFile(path.resolve(filePath), "utf8");
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === ".json") return jsonRows(JSON.parse(text));
+  if (extension === ".csv" || extension === ".txt") return csvRows(text);
+  throw new Error(`Unsupported data source ${filePath}: use a .csv or .json file.`);
+}
+
+/**
+ * Looks up a column of a row, ignoring case as Word does for merge field names.
+ */
+function columnValue(row: DataRow, column: string): string | undefined {
+  return Object.entries(row).find(([name]) => name.toLowerCase() === column.toLowerCase())?.[1];
+}
+
+/**
+ * Builds the path of the file for a record: {Column} is replaced by the record's value of that column,
+ * {#} by the record number. Characters not allowed in file names are replaced with "_".
+ */
+function outputFile(pattern: string, row: DataRow, recordNumber: number): string {
+  return pattern.replace(/\{([^{}]+)\}/g, (placeholder, column: string) => {
+    const value = column === "#" ? String(recordNumber) : columnValue(row, column.trim());
+    if (value === undefined) {
+      throw new Error(`The output path refers to ${placeholder}, which is not a column of the data source.`);
+    }
+    return value.replace(/[\\/:*?"<>|\r\n\t]/g, "_").trim();
+  });
+}
+
+// --- Tool: Mail Merge ---
+const mailMergeSchema = z.object({
+  dataSourcePath: z.string().optional().describe("Optional: Path of a .csv file (first row: column names) or a .json file (array of objects) holding the records."),
+  csv: z.string().optional().describe("Optional: The records as CSV text, first row holding the column names."),
+  records: z.array(z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()]))).optional().describe("Optional: The records as JSON objects, column name -> value."),
+  fieldMapping: z.record(z.string(), z.string()).optional().describe("Optional: Merge field name -> data source column, for fields whose name differs from the column. Other fields use the column of the same name (case-insensitive)."),
+  insertFields: z.array(z.object({
+    field: z.string().describe("Name of the merge field, normally a data source column."),
+    range: rangeSchema.unwrap().describe("Where to insert the field, replacing the text there: characters, paragraphs, a bookmark, a table cell or a search hit such as a placeholder."),
+  })).optional().describe("Optional: Merge fields to insert into the document before merging, in order."),
+  destination: z.enum(["newDocument", "files"]).optional().default("newDocument").describe("newDocument merges all records into one new document, a section per record. files saves one document per record. Default is newDocument."),
+  outputPath: z.string().optional().describe("For destination files (required): path pattern of the files, e.g. \"C:\\\\Letters\\\\{LastName}-{#}.docx\", where {Column} is the record's value of a data source column and {#} the record number. For newDocument (optional): where to save the merged document."),
+  documentId: documentIdSchema,
+});
+
+async function mailMergeTool(args: z.infer<typeof mailMergeSchema>): Promise<CallToolResult> {
+  try {
+    const sources = [args.dataSourcePath, args.csv, args.records].filter(source => source !== undefined);
+    if (sources.length !== 1) {
+      throw new Error("Specify exactly one data source: dataSourcePath, csv or records.");
+    }
+    const pattern = args.destination === "files" ? args.outputPath : undefined;
+    if (args.destination === "files" && !pattern) {
+      throw new Error("Specify outputPath, the file name pattern, to merge to files.");
+    }
+    if (args.destination === "files" && !wordService.savesFiles) {
+      throw new Error("The in-memory backend does not write files. Merge to a new document instead.");
+    }
+    const rows = args.dataSourcePath !== undefined ? await readDataFile(args.dataSourcePath) : args.csv !== undefined ? csvRows(args.csv) : jsonRows(args.records);
+    if (rows.length === 0) {
+      throw new Error("The data source has no records.");
+    }
+    const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+    for (const [field, column] of Object.entries(args.fieldMapping ?? {})) {
+      if (!columns.some(c => c.toLowerCase() === column.toLowerCase())) {
+        throw new Error(`The mapping of field "${field}" refers to "${column}", which is not a column of the data source (${columns.join(", ")}).`);
+      }
+    }
+    // The files are named before the main document is changed, so a bad pattern leaves it as it was
+    const files = pattern ? rows.map((row, i) => path.resolve(outputFile(pattern, row, i + 1))) : [];
+    const duplicate = files.find((file, i) => files.indexOf(file) !== i);
+    if (duplicate) {
+      throw new Error(`Several records would be saved as ${duplicate}. Add {#} or a column that differs per record to outputPath.`);
+    }
+
+    const mainId = args.documentId ?? await wordService.getDocumentId(await wordService.getActiveDocument());
+    const fields = await inDocument(mainId, async () => {
+      for (const insertion of args.insertFields ?? []) {
+        await inRange(insertion.range, () => wordService.insertMergeField(insertion.field));
+      }
+      return wordService.listMergeFields();
+    });
+    const columnOf = (field: string) => Object.entries(args.fieldMapping ?? {}).find(([name]) => name.toLowerCase() === field.toLowerCase())?.[1] ?? field;
+    const unmatched = fields.filter(field => !columns.some(c => c.toLowerCase() === columnOf(field).toLowerCase()));
+    const records: MergeRecord[] = rows.map(row => Object.fromEntries(fields.map(field => [field, columnValue(row, columnOf(field)) ?? ""])));
+    const warning = unmatched.length > 0 ? ` No data for merge field(s) ${unmatched.join(", ")}: they were left empty.` : "";
+
+    if (args.destination === "newDocument") {
+      const doc = await wordService.withDocument(mainId, () => wordService.mailMerge(records));
+      const documentId = await wordService.getDocumentId(doc);
+      const savedPath = args.outputPath ? await saveNewDocument(documentId, args.outputPath) : undefined;
+      const saved = savedPath ? ` and saved it to ${savedPath}` : "";
+      return {
+        content: [{ type: "text", text: `Successfully merged ${records.length} record(s) into a new document (documentId: ${documentId})${saved}.${warning}` }],
+      };
+    }
+
+    try {
+      for (let i = 0; i < records.length; i++) {
+        const doc = await wordService.withDocument(mainId, () => wordService.mailMerge([records[i]]));
+        try {
+          await saveNewDocument(await wordService.getDocumentId(doc), files[i]);
+        } finally {
+          await wordService.closeDocument(doc, 0); // wdDoNotSaveChanges
+        }
+      }
+    } finally {
+      await wordService.activateDocument(mainId);
+    }
+    const listed = files.slice(0, LISTED_FILES).join("\n");
+    const more = files.length > LISTED_FILES ? `\n... and ${files.length - LISTED_FILES} more` : "";
+    return {
+      content: [{ type: "text", text: `Successfully merged ${records.length} record(s) into ${files.length} file(s):${warning}\n${listed}${more}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in mailMergeTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to run mail merge: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerMailMergeTools(server: McpServer) {
+  server.tool(
+    "word_mailMerge",
+    "Mail merge: uses the active document as main document, optionally inserts merge fields (e.g. in place of placeholders), then fills its merge fields from each record of a CSV or JSON data source, into one new document (a section per record) or one saved file per record.",
+    mailMergeSchema.shape,
+    mailMergeTool
+  );
+}
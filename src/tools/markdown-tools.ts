@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { contentToMarkdown, markdownToContent } from "../word/markdown.js";
+import { resolvePicturePaths } from "../word/content.js";
+import fs from 'fs/promises';
+import path from 'path';
+
+// --- Tool: Export Markdown ---
+const exportMarkdownSchema = z.object({
+  filePath: z.string().optional().describe("Optional: Path of a .md file to write. If omitted, the Markdown is returned in the response."),
+  documentId: documentIdSchema,
+});
+
+async function exportMarkdownTool(args: z.infer<typeof exportMarkdownSchema>): Promise<CallToolResult> {
+  try {
+    const markdown = contentToMarkdown(await inDocument(args.documentId, () => wordService.getDocumentContent()));
+    if (args.filePath) {
+      const absolutePath = path.resolve(args.filePath); // Ensure absolute path
+      await fs.writeFile(absolutePath, markdown, 'utf8');
+      return {
+        content: [{ type: "text", text: `Successfully exported Markdown (${markdown.length} characters) to: ${absolutePath}` }],
+      };
+    }
+    return {
+      content: [{ type: "text", text: markdown || "(empty document)" }],
+    };
+  } catch (error: any) {
+    console.error("Error in exportMarkdownTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to export Markdown: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Insert Markdown ---
+const insertMarkdownSchema = z.object({
+  markdown: z.string().describe("The Markdown to insert at the current selection (GitHub-flavoured: headings, lists, tables, emphasis, code, links, images)."),
+  baseDirectory: z.string().optional().describe("Optional: Directory that relative image paths are resolved against. Defaults to the server's working directory."),
+  documentId: documentIdSchema,
+});
+
+async function insertMarkdownTool(args: z.infer<typeof insertMarkdownSchema>): Promise<CallToolResult> {
+  try {
+    const blocks = markdownToContent(args.markdown);
+    resolvePicturePaths(blocks, path.resolve(args.baseDirectory ?? '.'));
+    await inDocument(args.documentId, () => wordService.insertContent(blocks));
+    return {
+      content: [{ type: "text", text: `Successfully inserted Markdown as ${blocks.length} block(s).` }],
+    };
+  } catch (error: any) {
+    console.error("Error in insertMarkdownTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to insert Markdown: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerMarkdownTools(server: McpServer) {
+  server.tool(
+    "word_exportMarkdown",
+    "Exports the active document as GitHub-flavoured Markdown (headings, lists, tables, bold/italic/underline, hyperlinks, pictures), returned inline or written to a file.",
+    exportMarkdownSchema.shape,
+    exportMarkdownTool
+  );
+  server.tool(
+    "word_insertMarkdown",
+    "Parses Markdown and inserts it at the current selection as formatted Word content (Heading 1-6 styles, bullet/numbered lists, tables, bold/italic/code runs, hyperlinks, pictures).",
+    insertMarkdownSchema.shape,
+    insertMarkdownTool
+  );
+}
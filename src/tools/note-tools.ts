@@ -0,0 +1,164 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { NoteInfo } from "../word/word-backend.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
+
+const noteKindSchema = z.enum(["footnote", "endnote"]);
+
+function formatNote(note: NoteInfo): string {
+  return `[${note.kind} ${note.index}] at ${note.reference} after "${note.context}": ${note.text.replace(/\n/g, " / ")}`;
+}
+
+// --- Tool: Insert Note ---
+const insertNoteSchema = z.object({
+  kind: noteKindSchema.optional().default("footnote").describe("footnote (bottom of the page) or endnote (end of the document). Default is footnote."),
+  text: z.string().describe("The note text. Use \\n for multiple paragraphs."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function insertNoteTool(args: z.infer<typeof insertNoteSchema>): Promise<CallToolResult> {
+  try {
+    const index = await inDocument(args.documentId, () => inRange(args.range, () => wordService.insertNote(args.kind, args.text)));
+    return {
+      content: [{ type: "text", text: `Successfully inserted ${args.kind} ${index}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in insertNoteTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to insert ${args.kind}: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: List Notes ---
+const listNotesSchema = z.object({
+  kind: noteKindSchema.optional().describe("Optional: Only list footnotes or only endnotes. Default: both."),
+  documentId: documentIdSchema,
+});
+
+async function listNotesTool(args: z.infer<typeof listNotesSchema>): Promise<CallToolResult> {
+  try {
+    const notes = await inDocument(args.documentId, () => wordService.listNotes(args.kind));
+    if (notes.length === 0) {
+      return {
+        content: [{ type: "text", text: `The document has no ${args.kind ? `${args.kind}s` : "footnotes or endnotes"}.` }],
+      };
+    }
+    return {
+      content: [{ type: "text", text: `${notes.length} note(s), [kind index] at reference position after the text before it:\n${notes.map(formatNote).join("\n")}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in listNotesTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to list notes: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Edit Note ---
+const editNoteSchema = z.object({
+  kind: noteKindSchema.describe("Whether the note is a footnote or an endnote."),
+  index: z.number().int().min(1).describe("1-based index among the notes of its kind, as reported by word_listNotes."),
+  text: z.string().describe("The new note text. Use \\n for multiple paragraphs."),
+  documentId: documentIdSchema,
+});
+
+async function editNoteTool(args: z.infer<typeof editNoteSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => wordService.setNoteText(args.kind, args.index, args.text));
+    return {
+      content: [{ type: "text", text: `Successfully changed the text of ${args.kind} ${args.index}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in editNoteTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to edit ${args.kind}: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Delete Note ---
+const deleteNoteSchema = z.object({
+  kind: noteKindSchema.describe("Whether the note is a footnote or an endnote."),
+  index: z.number().int().min(1).describe("1-based index among the notes of its kind, as reported by word_listNotes."),
+  documentId: documentIdSchema,
+});
+
+async function deleteNoteTool(args: z.infer<typeof deleteNoteSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => wordService.deleteNote(args.kind, args.index));
+    return {
+      content: [{ type: "text", text: `Successfully deleted ${args.kind} ${args.index}. The following ${args.kind}s are renumbered.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in deleteNoteTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to delete ${args.kind}: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Convert Notes ---
+const convertNotesSchema = z.object({
+  kind: noteKindSchema.describe("The kind of note to convert from: footnote converts footnotes to endnotes, endnote converts endnotes to footnotes."),
+  index: z.number().int().min(1).optional().describe("Optional: 1-based index of the note to convert, as reported by word_listNotes. Default: all notes of the kind."),
+  documentId: documentIdSchema,
+});
+
+async function convertNotesTool(args: z.infer<typeof convertNotesSchema>): Promise<CallToolResult> {
+  try {
+    const count = await inDocument(args.documentId, () => wordService.convertNotes(args.kind, args.index));
+    const target = args.kind === "footnote" ? "endnote" : "footnote";
+    return {
+      content: [{ type: "text", text: `Successfully converted ${count} ${args.kind}(s) to ${target}s.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in convertNotesTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to convert ${args.kind}s: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerNoteTools(server: McpServer) {
+  server.tool(
+    "word_insertNote",
+    "Inserts a footnote or endnote with its text. The reference mark goes at the end of the selection, a range or a search hit.",
+    insertNoteSchema.shape,
+    insertNoteTool
+  );
+  server.tool(
+    "word_listNotes",
+    "Lists the footnotes and endnotes of the document in order: index, position of the reference mark, the text before it and the note text.",
+    listNotesSchema.shape,
+    listNotesTool
+  );
+  server.tool(
+    "word_editNote",
+    "Replaces the text of a footnote or endnote.",
+    editNoteSchema.shape,
+    editNoteTool
+  );
+  server.tool(
+    "word_deleteNote",
+    "Deletes a footnote or endnote together with its reference mark.",
+    deleteNoteSchema.shape,
+    deleteNoteTool
+  );
+  server.tool(
+    "word_convertNotes",
+    "Converts footnotes to endnotes or endnotes to footnotes: one note by index, or all notes of the kind.",
+    convertNotesSchema.shape,
+    convertNotesTool
+  );
+}
@@ -0,0 +1,157 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
+
+// --- Tool: Get Outline ---
+const getOutlineSchema = z.object({
+  maxLevel: z.number().int().min(1).max(9).optional().default(9).describe("Deepest heading level to include (1-9). Default is 9."),
+  documentId: documentIdSchema,
+});
+
+async function getOutlineTool(args: z.infer<typeof getOutlineSchema>): Promise<CallToolResult> {
+  try {
+    const headings = (await inDocument(args.documentId, () => wordService.getOutline())).filter(h => h.level <= args.maxLevel);
+    if (headings.length === 0) {
+      return {
+        content: [{ type: "text", text: "The document has no headings." }],
+      };
+    }
+    const lines = headings.map(h => `${'  '.repeat(h.level - 1)}- [${h.paragraphIndex}] ${h.text} (level ${h.level}, page ${h.page})`);
+    return {
+      content: [{ type: "text", text: `Outline (${headings.length} heading(s), [paragraph index]):\n${lines.join("\n")}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in getOutlineTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to get outline: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Insert Heading ---
+const insertHeadingSchema = z.object({
+  text: z.string().describe("The heading text."),
+  level: z.number().int().min(1).max(9).describe("Heading level (1-9), applied as the Heading 1-9 style."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function insertHeadingTool(args: z.infer<typeof insertHeadingSchema>): Promise<CallToolResult> {
+  try {
+    const index = await inDocument(args.documentId, () => inRange(args.range, () => wordService.insertHeading(args.text, args.level)));
+    return {
+      content: [{ type: "text", text: `Successfully inserted Heading ${args.level} as paragraph ${index}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in insertHeadingTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to insert heading: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Promote Heading ---
+const promoteHeadingSchema = z.object({
+  paragraphIndex: z.number().int().min(1).describe("1-based paragraph index of the heading, as reported by word_getOutline."),
+  levels: z.number().int().min(1).max(8).optional().default(1).describe("Number of levels to promote. Default is 1."),
+  documentId: documentIdSchema,
+});
+
+async function promoteHeadingTool(args: z.infer<typeof promoteHeadingSchema>): Promise<CallToolResult> {
+  try {
+    const count = await inDocument(args.documentId, () => wordService.changeHeadingLevel(args.paragraphIndex, -args.levels));
+    return {
+      content: [{ type: "text", text: `Successfully promoted ${count} heading(s) by ${args.levels} level(s).` }],
+    };
+  } catch (error: any) {
+    console.error("Error in promoteHeadingTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to promote heading: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Demote Heading ---
+const demoteHeadingSchema = z.object({
+  paragraphIndex: z.number().int().min(1).describe("1-based paragraph index of the heading, as reported by word_getOutline."),
+  levels: z.number().int().min(1).max(8).optional().default(1).describe("Number of levels to demote. Default is 1."),
+  documentId: documentIdSchema,
+});
+
+async function demoteHeadingTool(args: z.infer<typeof demoteHeadingSchema>): Promise<CallToolResult> {
+  try {
+    const count = await inDocument(args.documentId, () => wordService.changeHeadingLevel(args.paragraphIndex, args.levels));
+    return {
+      content: [{ type: "text", text: `Successfully demoted ${count} heading(s) by ${args.levels} level(s).` }],
+    };
+  } catch (error: any) {
+    console.error("Error in demoteHeadingTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to demote heading: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Move Heading Section ---
+const moveHeadingSectionSchema = z.object({
+  paragraphIndex: z.number().int().min(1).describe("1-based paragraph index of the heading to move, as reported by word_getOutline."),
+  targetParagraphIndex: z.number().int().min(1).describe("1-based paragraph index of the heading to move it next to."),
+  position: z.enum(["before", "after"]).optional().default("before").describe("'before' places the section just before the target heading, 'after' after the target's whole section. Default is 'before'."),
+  documentId: documentIdSchema,
+});
+
+async function moveHeadingSectionTool(args: z.infer<typeof moveHeadingSectionSchema>): Promise<CallToolResult> {
+  try {
+    const index = await inDocument(args.documentId, () => wordService.moveHeadingSection(args.paragraphIndex, args.targetParagraphIndex, args.position));
+    return {
+      content: [{ type: "text", text: `Successfully moved the section. Its heading is now paragraph ${index}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in moveHeadingSectionTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to move heading section: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerOutlineTools(server: McpServer) {
+  server.tool(
+    "word_getOutline",
+    "Gets the heading hierarchy of the active document: level, text, paragraph index and page of every heading.",
+    getOutlineSchema.shape,
+    getOutlineTool
+  );
+  server.tool(
+    "word_insertHeading",
+    "Inserts a heading at the given level after the paragraph containing the selection (an empty paragraph becomes the heading).",
+    insertHeadingSchema.shape,
+    insertHeadingTool
+  );
+  server.tool(
+    "word_promoteHeading",
+    "Promotes a heading together with its section: every heading below it, up to the next heading of the same or a higher level, moves up as well.",
+    promoteHeadingSchema.shape,
+    promoteHeadingTool
+  );
+  server.tool(
+    "word_demoteHeading",
+    "Demotes a heading together with its section: every heading below it, up to the next heading of the same or a higher level, moves down as well.",
+    demoteHeadingSchema.shape,
+    demoteHeadingTool
+  );
+  server.tool(
+    "word_moveHeadingSection",
+    "Moves a heading with its whole section (body text and subheadings) before or after the section of another heading.",
+    moveHeadingSectionSchema.shape,
+    moveHeadingSectionTool
+  );
+}
@@ -2,6 +2,7 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
 
 // --- Tool: Set Page Margins ---
 const setPageMarginsSchema = z.object({
@@ -9,11 +10,12 @@ const setPageMarginsSchema = z.object({
   bottomPoints: z.number().min(0).describe("Bottom margin in points."),
   leftPoints: z.number().min(0).describe("Left margin in points."),
   rightPoints: z.number().min(0).describe("Right margin in points."),
+  documentId: documentIdSchema,
 });
 
 async function setPageMarginsTool(args: z.infer<typeof setPageMarginsSchema>): Promise<CallToolResult> {
   try {
-    await wordService.setPageMargins(args.topPoints, args.bottomPoints, args.leftPoints, args.rightPoints);
+    await inDocument(args.documentId, () => wordService.setPageMargins(args.topPoints, args.bottomPoints, args.leftPoints, args.rightPoints));
     return {
       content: [{ type: "text", text: `Successfully set page margins (Top: ${args.topPoints}, Bottom: ${args.bottomPoints}, Left: ${args.leftPoints}, Right: ${args.rightPoints} points).` }],
     };
@@ -29,11 +31,12 @@ async function setPageMarginsTool(args: z.infer<typeof setPageMarginsSchema>): P
 // --- Tool: Set Page Orientation ---
 const setPageOrientationSchema = z.object({
   orientation: z.number().int().min(0).max(1).describe("Page orientation (0=Portrait, 1=Landscape). Corresponds to WdOrientation enum."),
+  documentId: documentIdSchema,
 });
 
 async function setPageOrientationTool(args: z.infer<typeof setPageOrientationSchema>): Promise<CallToolResult> {
   try {
-    await wordService.setPageOrientation(args.orientation);
+    await inDocument(args.documentId, () => wordService.setPageOrientation(args.orientation));
     const orientationName = args.orientation === 0 ? "Portrait" : "Landscape";
     return {
       content: [{ type: "text", text: `Successfully set page orientation to ${orientationName}.` }],
@@ -50,11 +53,12 @@ async function setPageOrientationTool(args: z.infer<typeof setPageOrientationSch
 // --- Tool: Set Paper Size ---
 const setPaperSizeSchema = z.object({
   paperSize: z.number().int().describe("Paper size value corresponding to WdPaperSize enum (e.g., 1=Letter, 8=A4)."),
+  documentId: documentIdSchema,
 });
 
 async function setPaperSizeTool(args: z.infer<typeof setPaperSizeSchema>): Promise<CallToolResult> {
   try {
-    await wordService.setPaperSize(args.paperSize);
+    await inDocument(args.documentId, () => wordService.setPaperSize(args.paperSize));
     // We could add a map for common paper size names if needed
     return {
       content: [{ type: "text", text: `Successfully set paper size (Enum value: ${args.paperSize}).` }],
@@ -2,15 +2,19 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
 
 // --- Tool: Set Paragraph Alignment ---
 const setAlignmentSchema = z.object({
   alignment: z.number().int().min(0).max(3).describe("Alignment type (0=Left, 1=Center, 2=Right, 3=Justify). Corresponds to WdParagraphAlignment enum."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
 });
 
 async function setAlignmentTool(args: z.infer<typeof setAlignmentSchema>): Promise<CallToolResult> {
   try {
-    await wordService.setParagraphAlignment(args.alignment);
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.setParagraphAlignment(args.alignment)));
     const alignmentMap: { [key: number]: string } = { 0: "Left", 1: "Center", 2: "Right", 3: "Justify" };
     return {
       content: [{ type: "text", text: `Successfully set paragraph alignment to ${alignmentMap[args.alignment]}.` }],
@@ -27,11 +31,13 @@ async function setAlignmentTool(args: z.infer<typeof setAlignmentSchema>): Promi
 // --- Tool: Set Paragraph Left Indent ---
 const setLeftIndentSchema = z.object({
   indentPoints: z.number().describe("Left indentation value in points."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
 });
 
 async function setLeftIndentTool(args: z.infer<typeof setLeftIndentSchema>): Promise<CallToolResult> {
   try {
-    await wordService.setParagraphLeftIndent(args.indentPoints);
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.setParagraphLeftIndent(args.indentPoints)));
     return {
       content: [{ type: "text", text: `Successfully set left indent to ${args.indentPoints} points.` }],
     };
@@ -47,11 +53,13 @@ async function setLeftIndentTool(args: z.infer<typeof setLeftIndentSchema>): Pro
 // --- Tool: Set Paragraph Right Indent ---
 const setRightIndentSchema = z.object({
   indentPoints: z.number().describe("Right indentation value in points."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
 });
 
 async function setRightIndentTool(args: z.infer<typeof setRightIndentSchema>): Promise<CallToolResult> {
   try {
-    await wordService.setParagraphRightIndent(args.indentPoints);
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.setParagraphRightIndent(args.indentPoints)));
     return {
       content: [{ type: "text", text: `Successfully set right indent to ${args.indentPoints} points.` }],
     };
@@ -67,11 +75,13 @@ async function setRightIndentTool(args: z.infer<typeof setRightIndentSchema>): P
 // --- Tool: Set Paragraph First Line Indent ---
 const setFirstLineIndentSchema = z.object({
     indentPoints: z.number().describe("First line indentation in points (positive for indent, negative for hanging indent)."),
+    range: rangeSchema,
+    documentId: documentIdSchema,
 });
 
 async function setFirstLineIndentTool(args: z.infer<typeof setFirstLineIndentSchema>): Promise<CallToolResult> {
     try {
-        await wordService.setParagraphFirstLineIndent(args.indentPoints);
+        await inDocument(args.documentId, () => inRange(args.range, () => wordService.setParagraphFirstLineIndent(args.indentPoints)));
         const indentType = args.indentPoints >= 0 ? "indent" : "hanging indent";
         return {
             content: [{ type: "text", text: `Successfully set first line ${indentType} to ${Math.abs(args.indentPoints)} points.` }],
@@ -88,11 +98,13 @@ async function setFirstLineIndentTool(args: z.infer<typeof setFirstLineIndentSch
 // --- Tool: Set Paragraph Space Before ---
 const setSpaceBeforeSchema = z.object({
   spacePoints: z.number().min(0).describe("Space before paragraph in points."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
 });
 
 async function setSpaceBeforeTool(args: z.infer<typeof setSpaceBeforeSchema>): Promise<CallToolResult> {
   try {
-    await wordService.setParagraphSpaceBefore(args.spacePoints);
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.setParagraphSpaceBefore(args.spacePoints)));
     return {
       content: [{ type: "text", text: `Successfully set space before paragraph to ${args.spacePoints} points.` }],
     };
@@ -108,11 +120,13 @@ async function setSpaceBeforeTool(args: z.infer<typeof setSpaceBeforeSchema>): P
 // --- Tool: Set Paragraph Space After ---
 const setSpaceAfterSchema = z.object({
   spacePoints: z.number().min(0).describe("Space after paragraph in points."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
 });
 
 async function setSpaceAfterTool(args: z.infer<typeof setSpaceAfterSchema>): Promise<CallToolResult> {
   try {
-    await wordService.setParagraphSpaceAfter(args.spacePoints);
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.setParagraphSpaceAfter(args.spacePoints)));
     return {
       content: [{ type: "text", text: `Successfully set space after paragraph to ${args.spacePoints} points.` }],
     };
@@ -129,6 +143,8 @@ async function setSpaceAfterTool(args: z.infer<typeof setSpaceAfterSchema>): Pro
 const setLineSpacingSchema = z.object({
   lineSpacingRule: z.number().int().min(0).max(5).describe("Line spacing rule (0=Single, 1=1.5, 2=Double, 3=AtLeast, 4=Exactly, 5=Multiple). Corresponds to WdLineSpacing enum."),
   lineSpacingValue: z.number().optional().describe("Required value (in points or multiplier) if rule is AtLeast(3), Exactly(4), or Multiple(5)."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
 });
 
 async function setLineSpacingTool(args: z.infer<typeof setLineSpacingSchema>): Promise<CallToolResult> {
@@ -136,7 +152,7 @@ async function setLineSpacingTool(args: z.infer<typeof setLineSpacingSchema>): P
     if (args.lineSpacingRule >= 3 && args.lineSpacingValue === undefined) {
         throw new Error("lineSpacingValue is required when lineSpacingRule is AtLeast, Exactly, or Multiple.");
     }
-    await wordService.setParagraphLineSpacing(args.lineSpacingRule, args.lineSpacingValue);
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.setParagraphLineSpacing(args.lineSpacingRule, args.lineSpacingValue)));
     const ruleMap: { [key: number]: string } = { 0: "Single", 1: "1.5 Lines", 2: "Double", 3: "At Least", 4: "Exactly", 5: "Multiple" };
     let message = `Successfully set line spacing rule to ${ruleMap[args.lineSpacingRule]}.`;
     if (args.lineSpacingValue !== undefined && args.lineSpacingRule >= 3) {
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { wordService } from "../word/word-service.js";
+import { RangeDescriptor } from "../word/word-backend.js";
+
+// Optional argument of the tools that act on the selection
+export const rangeSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("characters"),
+    start: z.number().int().min(0).describe("Character position of the range start, as reported by word_getDocumentText."),
+    end: z.number().int().min(0).describe("Character position of the range end (exclusive)."),
+  }),
+  z.object({
+    type: z.literal("paragraphs"),
+    start: z.number().int().min(1).describe("1-based index of the first paragraph."),
+    end: z.number().int().min(1).optional().describe("Optional: 1-based index of the last paragraph (inclusive). Default: start."),
+  }),
+  z.object({
+    type: z.literal("bookmark"),
+    name: z.string().describe("Name of the bookmark."),
+  }),
+  z.object({
+    type: z.literal("tableCell"),
+    tableIndex: z.number().int().min(1).describe("1-based index of the table."),
+    rowIndex: z.number().int().min(1).describe("1-based row index."),
+    colIndex: z.number().int().min(1).describe("1-based column index."),
+  }),
+  z.object({
+    type: z.literal("search"),
+    text: z.string().min(1).describe("Text to find."),
+    occurrence: z.number().int().min(1).optional().describe("Optional: Which occurrence to use (1-based). Default: 1."),
+    matchCase: z.boolean().optional().describe("Optional: Case-sensitive search. Default: false."),
+    matchWholeWord: z.boolean().optional().describe("Optional: Only match whole words. Default: false."),
+  }),
+]).optional().describe("Optional: Part of the document to act on instead of the selection, which is left where it is. Characters, paragraphs, a bookmark, a table cell or a search hit.");
+
+/**
+ * Runs a service call against the given range, or the selection if no range is given.
+ */
+export function inRange<T>(range: RangeDescriptor | undefined, action: () => Promise<T>): Promise<T> {
+  return range ? wordService.withRange(range, action) : action();
+}
@@ -0,0 +1,247 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { RevisionInfo } from "../word/word-backend.js";
+import { documentIdSchema, inDocument, saveNewDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
+
+// WdRevisionType -> name
+const REVISION_TYPES: { [type: number]: string } = {
+  1: "Insertion",
+  2: "Deletion",
+  3: "Property change",
+  4: "Paragraph number change",
+  5: "Field display change",
+  6: "Reconcile",
+  7: "Conflict",
+  8: "Style change",
+  9: "Replace",
+  10: "Paragraph property change",
+  11: "Table property change",
+  12: "Section property change",
+  13: "Style definition change",
+  14: "Moved from",
+  15: "Moved to",
+  16: "Cell insertion",
+  17: "Cell deletion",
+  18: "Cell merge",
+};
+
+/**
+ * Lists the revisions of the active document, limited to a range and an author when given.
+ */
+async function findRevisions(range: z.infer<typeof rangeSchema>, author: string | undefined): Promise<RevisionInfo[]> {
+  const revisions = range ? await inRange(range, () => wordService.listRevisions(true)) : await wordService.listRevisions();
+  return author === undefined ? revisions : revisions.filter(r => r.author.toLowerCase() === author.toLowerCase());
+}
+
+// --- Tool: Set Track Changes ---
+const setTrackChangesSchema = z.object({
+  enabled: z.boolean().describe("true records subsequent edits (insertText, deleteText, findAndReplace, ...) as tracked changes, false stops tracking."),
+  documentId: documentIdSchema,
+});
+
+async function setTrackChangesTool(args: z.infer<typeof setTrackChangesSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => wordService.setTrackRevisions(args.enabled));
+    return {
+      content: [{ type: "text", text: `Successfully turned track changes ${args.enabled ? "on" : "off"}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in setTrackChangesTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to set track changes: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: List Revisions ---
+const listRevisionsSchema = z.object({
+  author: z.string().optional().describe("Optional: Only list revisions by this author (case-insensitive)."),
+  range: rangeSchema.describe("Optional: Only list revisions overlapping this part of the document."),
+  documentId: documentIdSchema,
+});
+
+async function listRevisionsTool(args: z.infer<typeof listRevisionsSchema>): Promise<CallToolResult> {
+  try {
+    const [tracking, revisions] = await inDocument(args.documentId, async () => [await wordService.getTrackRevisions(), await findRevisions(args.range, args.author)] as const);
+    const status = `Track changes is ${tracking ? "on" : "off"}.`;
+    if (revisions.length === 0) {
+      return {
+        content: [{ type: "text", text: `${status} No revisions found.` }],
+      };
+    }
+    const lines = revisions.map(r => `[${r.index}] ${REVISION_TYPES[r.type] ?? `Type ${r.type}`} by ${r.author}, ${r.date} (${r.start}-${r.end}): "${r.text}"`);
+    return {
+      content: [{ type: "text", text: `${status} ${revisions.length} revision(s), [revision index]:\n${lines.join("\n")}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in listRevisionsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to list revisions: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Accept Revisions ---
+const resolveRevisionsSchema = z.object({
+  revisionIndex: z.number().int().min(1).optional().describe("Optional: 1-based index of a single revision, as reported by word_listRevisions."),
+  author: z.string().optional().describe("Optional: Only revisions by this author (case-insensitive)."),
+  range: rangeSchema.describe("Optional: Only revisions overlapping this part of the document."),
+  documentId: documentIdSchema,
+});
+
+/**
+ * Accepts or rejects the selected revisions from the last one backwards, so the indices of the others stay valid.
+ */
+async function resolveRevisions(args: z.infer<typeof resolveRevisionsSchema>, accept: boolean): Promise<number> {
+  return inDocument(args.documentId, async () => {
+    let revisions = await findRevisions(args.range, args.author);
+    if (args.revisionIndex !== undefined) {
+      revisions = revisions.filter(r => r.index === args.revisionIndex);
+      if (revisions.length === 0) {
+        throw new Error(`Revision ${args.revisionIndex} does not exist or does not match the filter.`);
+      }
+    }
+    for (const revision of [...revisions].reverse()) {
+      await (accept ? wordService.acceptRevision(revision.index) : wordService.rejectRevision(revision.index));
+    }
+    return revisions.length;
+  });
+}
+
+async function acceptRevisionsTool(args: z.infer<typeof resolveRevisionsSchema>): Promise<CallToolResult> {
+  try {
+    const count = await resolveRevisions(args, true);
+    return {
+      content: [{ type: "text", text: count === 0 ? "No revisions found." : `Successfully accepted ${count} revision(s).` }],
+    };
+  } catch (error: any) {
+    console.error("Error in acceptRevisionsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to accept revisions: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Reject Revisions ---
+async function rejectRevisionsTool(args: z.infer<typeof resolveRevisionsSchema>): Promise<CallToolResult> {
+  try {
+    const count = await resolveRevisions(args, false);
+    return {
+      content: [{ type: "text", text: count === 0 ? "No revisions found." : `Successfully rejected ${count} revision(s).` }],
+    };
+  } catch (error: any) {
+    console.error("Error in rejectRevisionsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to reject revisions: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Compare Documents ---
+const compareDocumentsSchema = z.object({
+  originalPath: z.string().describe("Path of the original document."),
+  revisedPath: z.string().describe("Path of the revised document."),
+  granularity: z.enum(["word", "character"]).optional().default("word").describe("Mark changes by whole words or by single characters. Default is word."),
+  compareFormatting: z.boolean().optional().default(true).describe("Include formatting changes. Default is true."),
+  compareComments: z.boolean().optional().default(true).describe("Include comments. Default is true."),
+  compareTables: z.boolean().optional().default(true).describe("Include changes in tables. Default is true."),
+  compareHeaders: z.boolean().optional().default(true).describe("Include changes in headers and footers. Default is true."),
+  author: z.string().optional().describe("Optional: Author of the marked changes. Default is the Word user name."),
+  outputPath: z.string().optional().describe("Optional: Save the redline to this path."),
+});
+
+// Longest excerpt of changed text in the summary
+const SUMMARY_TEXT_LENGTH = 80;
+// Most changes listed in the summary
+const SUMMARY_REVISIONS = 50;
+
+/**
+ * Summarizes the changes of a redline: counts by type, then the changes themselves.
+ */
+function summarizeRevisions(revisions: RevisionInfo[]): string {
+  if (revisions.length === 0) {
+    return "The documents have no differences.";
+  }
+  const counts = new Map<string, number>();
+  for (const r of revisions) {
+    const type = REVISION_TYPES[r.type] ?? `Type ${r.type}`;
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  }
+  const totals = [...counts].map(([type, count]) => `${count} ${type.toLowerCase()}(s)`).join(", ");
+  const lines = revisions.slice(0, SUMMARY_REVISIONS).map(r => {
+    const text = r.text.replace(/\r\n?|\n/g, "¶").replace(/\s+/g, " ");
+    const excerpt = text.length > SUMMARY_TEXT_LENGTH ? `${text.slice(0, SUMMARY_TEXT_LENGTH)}...` : text;
+    return `[${r.index}] ${REVISION_TYPES[r.type] ?? `Type ${r.type}`} (${r.start}-${r.end}): "${excerpt}"`;
+  });
+  if (revisions.length > SUMMARY_REVISIONS) {
+    lines.push(`... and ${revisions.length - SUMMARY_REVISIONS} more, see word_listRevisions.`);
+  }
+  return `${revisions.length} difference(s): ${totals}.\n${lines.join("\n")}`;
+}
+
+async function compareDocumentsTool(args: z.infer<typeof compareDocumentsSchema>): Promise<CallToolResult> {
+  try {
+    const doc = await wordService.compareDocuments(args.originalPath, args.revisedPath, {
+      granularity: args.granularity,
+      compareFormatting: args.compareFormatting,
+      compareComments: args.compareComments,
+      compareTables: args.compareTables,
+      compareHeaders: args.compareHeaders,
+      author: args.author,
+    });
+    const documentId = await wordService.getDocumentId(doc);
+    const savedPath = args.outputPath ? await saveNewDocument(documentId, args.outputPath) : undefined;
+    const revisions = await inDocument(documentId, () => wordService.listRevisions());
+    const saved = savedPath ? ` and saved it to ${savedPath}` : "";
+    return {
+      content: [{ type: "text", text: `Successfully created the redline (documentId: ${documentId})${saved}. ${summarizeRevisions(revisions)}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in compareDocumentsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to compare documents: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerRevisionTools(server: McpServer) {
+  server.tool(
+    "word_setTrackChanges",
+    "Turns track changes on or off for the active document. While on, edits are recorded as revisions that reviewers can accept or reject.",
+    setTrackChangesSchema.shape,
+    setTrackChangesTool
+  );
+  server.tool(
+    "word_listRevisions",
+    "Lists the tracked changes of the active document: type, author, date, affected text and character range, optionally only those by an author or within a range.",
+    listRevisionsSchema.shape,
+    listRevisionsTool
+  );
+  server.tool(
+    "word_acceptRevisions",
+    "Accepts tracked changes: all of them, a single one, those by an author, or those within a range. Inserted text stays, deleted text is removed.",
+    resolveRevisionsSchema.shape,
+    acceptRevisionsTool
+  );
+  server.tool(
+    "word_rejectRevisions",
+    "Rejects tracked changes: all of them, a single one, those by an author, or those within a range. Inserted text is removed, deleted text is restored.",
+    resolveRevisionsSchema.shape,
+    rejectRevisionsTool
+  );
+  server.tool(
+    "word_compareDocuments",
+    "Compares an original and a revised document into a new redline document, where the differences are tracked changes, and summarizes them. The redline becomes the active document and can be saved to a path.",
+    compareDocumentsSchema.shape,
+    compareDocumentsTool
+  );
+}
@@ -0,0 +1,166 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
+
+const STYLE_TYPE_NAMES: { [styleType: number]: string } = { 1: "paragraph", 2: "character", 3: "table", 4: "list" };
+
+const styleFontSchema = z.object({
+  name: z.string().optional().describe("Font name, e.g. 'Calibri'."),
+  size: z.number().positive().optional().describe("Font size in points."),
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  underline: z.number().int().optional().describe("WdUnderline enum value (0=None, 1=Single, 3=Double)."),
+  color: z.string().regex(/^[0-9A-Fa-f]{6}$/).optional().describe("Font color as RRGGBB hex, e.g. '1F3864'."),
+}).optional().describe("Optional: Font settings of the style.");
+
+const styleParagraphFormatSchema = z.object({
+  alignment: z.number().int().optional().describe("WdParagraphAlignment enum value (0=Left, 1=Center, 2=Right, 3=Justify)."),
+  leftIndent: z.number().optional().describe("Left indent in points."),
+  rightIndent: z.number().optional().describe("Right indent in points."),
+  firstLineIndent: z.number().optional().describe("First line indent in points (negative for a hanging indent)."),
+  spaceBefore: z.number().min(0).optional().describe("Space before in points."),
+  spaceAfter: z.number().min(0).optional().describe("Space after in points."),
+  lineSpacingRule: z.number().int().optional().describe("WdLineSpacing enum value (0=Single, 1=1.5 lines, 2=Double, 3=AtLeast, 4=Exactly, 5=Multiple)."),
+  lineSpacing: z.number().positive().optional().describe("Line spacing for AtLeast/Exactly (points) or Multiple (lines)."),
+}).optional().describe("Optional: Paragraph settings of the style (paragraph and table styles only).");
+
+// --- Tool: List Styles ---
+const listStylesSchema = z.object({
+  styleType: z.number().int().min(1).max(4).optional().describe("Optional: Only list styles of this WdStyleType (1=Paragraph, 2=Character, 3=Table, 4=List)."),
+  inUseOnly: z.boolean().optional().default(false).describe("Only list styles that are in use in the document. Default is false."),
+  documentId: documentIdSchema,
+});
+
+async function listStylesTool(args: z.infer<typeof listStylesSchema>): Promise<CallToolResult> {
+  try {
+    const styles = (await inDocument(args.documentId, () => wordService.listStyles()))
+      .filter(style => args.styleType === undefined || style.type === args.styleType)
+      .filter(style => !args.inUseOnly || style.inUse);
+    if (styles.length === 0) {
+      return {
+        content: [{ type: "text", text: "No matching styles found." }],
+      };
+    }
+    const lines = styles.map(style => {
+      const details = [STYLE_TYPE_NAMES[style.type] ?? `type ${style.type}`, style.builtIn ? "built-in" : "custom"];
+      if (style.inUse) details.push("in use");
+      if (style.baseStyle) details.push(`based on ${style.baseStyle}`);
+      return `${style.name} (${details.join(", ")})`;
+    });
+    return {
+      content: [{ type: "text", text: `${styles.length} style(s):\n${lines.join("\n")}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in listStylesTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to list styles: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Apply Style ---
+const applyStyleSchema = z.object({
+  styleName: z.string().describe("Name of the style to apply, e.g. 'Heading 2', 'Quote', 'Strong' or 'Table Grid'."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function applyStyleTool(args: z.infer<typeof applyStyleSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.applyStyle(args.styleName)));
+    return {
+      content: [{ type: "text", text: `Successfully applied style "${args.styleName}".` }],
+    };
+  } catch (error: any) {
+    console.error("Error in applyStyleTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to apply style: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Create Style ---
+const createStyleSchema = z.object({
+  styleName: z.string().min(1).describe("Name of the new style."),
+  styleType: z.number().int().min(1).max(4).optional().default(1).describe("WdStyleType enum value (1=Paragraph, 2=Character, 3=Table, 4=List). Default is 1."),
+  baseStyle: z.string().optional().describe("Optional: Style the new style is based on. Defaults to Normal (paragraph), Default Paragraph Font (character) or Normal Table (table)."),
+  nextParagraphStyle: z.string().optional().describe("Optional: Style of the paragraph that follows (paragraph styles only)."),
+  font: styleFontSchema,
+  paragraphFormat: styleParagraphFormatSchema,
+  documentId: documentIdSchema,
+});
+
+async function createStyleTool(args: z.infer<typeof createStyleSchema>): Promise<CallToolResult> {
+  try {
+    const { styleName, styleType, documentId, ...settings } = args;
+    await inDocument(documentId, () => wordService.createStyle(styleName, styleType, settings));
+    return {
+      content: [{ type: "text", text: `Successfully created ${STYLE_TYPE_NAMES[styleType]} style "${styleName}".` }],
+    };
+  } catch (error: any) {
+    console.error("Error in createStyleTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to create style: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Modify Style ---
+const modifyStyleSchema = z.object({
+  styleName: z.string().describe("Name of the style to change."),
+  baseStyle: z.string().optional().describe("Optional: New base style."),
+  nextParagraphStyle: z.string().optional().describe("Optional: New style of the paragraph that follows (paragraph styles only)."),
+  font: styleFontSchema,
+  paragraphFormat: styleParagraphFormatSchema,
+  documentId: documentIdSchema,
+});
+
+async function modifyStyleTool(args: z.infer<typeof modifyStyleSchema>): Promise<CallToolResult> {
+  try {
+    const { styleName, documentId, ...settings } = args;
+    await inDocument(documentId, () => wordService.modifyStyle(styleName, settings));
+    return {
+      content: [{ type: "text", text: `Successfully modified style "${styleName}".` }],
+    };
+  } catch (error: any) {
+    console.error("Error in modifyStyleTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to modify style: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerStyleTools(server: McpServer) {
+  server.tool(
+    "word_listStyles",
+    "Lists the styles of the active document with their type (paragraph, character, table, list), whether they are built-in, in use, and their base style.",
+    listStylesSchema.shape,
+    listStylesTool
+  );
+  server.tool(
+    "word_applyStyle",
+    "Applies a style to the selection or a range: paragraph styles to the paragraphs, character styles to the text, table styles to the table containing it.",
+    applyStyleSchema.shape,
+    applyStyleTool
+  );
+  server.tool(
+    "word_createStyle",
+    "Creates a new paragraph, character, table or list style with optional base style, font and paragraph settings.",
+    createStyleSchema.shape,
+    createStyleTool
+  );
+  server.tool(
+    "word_modifyStyle",
+    "Changes the base style, font or paragraph settings of an existing style; every paragraph or text using it follows.",
+    modifyStyleSchema.shape,
+    modifyStyleTool
+  );
+}
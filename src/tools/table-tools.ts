@@ -2,17 +2,22 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
+import { parseCsv } from "./csv.js";
 
 // --- Tool: Add Table ---
 const addTableSchema = z.object({
   numRows: z.number().int().min(1).describe("Number of rows for the new table."),
   numCols: z.number().int().min(1).describe("Number of columns for the new table."),
   // Optional: Add defaultTableBehavior and autoFitBehavior if needed, using numeric values for enums
+  range: rangeSchema,
+  documentId: documentIdSchema,
 });
 
 async function addTableTool(args: z.infer<typeof addTableSchema>): Promise<CallToolResult> {
   try {
-    await wordService.addTable(args.numRows, args.numCols);
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.addTable(args.numRows, args.numCols)));
     return {
       content: [{ type: "text", text: `Successfully added a ${args.numRows}x${args.numCols} table.` }],
     };
@@ -31,11 +36,12 @@ const setTableCellTextSchema = z.object({
   rowIndex: z.number().int().min(1).describe("The 1-based index of the row within the table."),
   colIndex: z.number().int().min(1).describe("The 1-based index of the column within the table."),
   text: z.string().describe("The text to set in the specified cell."),
+  documentId: documentIdSchema,
 });
 
 async function setTableCellTextTool(args: z.infer<typeof setTableCellTextSchema>): Promise<CallToolResult> {
   try {
-    await wordService.setTableCellText(args.tableIndex, args.rowIndex, args.colIndex, args.text);
+    await inDocument(args.documentId, () => wordService.setTableCellText(args.tableIndex, args.rowIndex, args.colIndex, args.text));
     return {
       content: [{ type: "text", text: `Successfully set text in table ${args.tableIndex}, cell (${args.rowIndex}, ${args.colIndex}).` }],
     };
@@ -52,11 +58,12 @@ async function setTableCellTextTool(args: z.infer<typeof setTableCellTextSchema>
 const insertTableRowSchema = z.object({
     tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
     beforeRowIndex: z.number().int().min(1).optional().describe("Optional: 1-based index of the row to insert before. If omitted, adds row to the end."),
+    documentId: documentIdSchema,
 });
 
 async function insertTableRowTool(args: z.infer<typeof insertTableRowSchema>): Promise<CallToolResult> {
     try {
-        await wordService.insertTableRow(args.tableIndex, args.beforeRowIndex);
+        await inDocument(args.documentId, () => wordService.insertTableRow(args.tableIndex, args.beforeRowIndex));
         const position = args.beforeRowIndex ? `before row ${args.beforeRowIndex}` : "at the end";
         return {
             content: [{ type: "text", text: `Successfully inserted row into table ${args.tableIndex} ${position}.` }],
@@ -74,11 +81,12 @@ async function insertTableRowTool(args: z.infer<typeof insertTableRowSchema>): P
 const insertTableColumnSchema = z.object({
     tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
     beforeColIndex: z.number().int().min(1).optional().describe("Optional: 1-based index of the column to insert before. If omitted, adds column to the right end."),
+    documentId: documentIdSchema,
 });
 
 async function insertTableColumnTool(args: z.infer<typeof insertTableColumnSchema>): Promise<CallToolResult> {
     try {
-        await wordService.insertTableColumn(args.tableIndex, args.beforeColIndex);
+        await inDocument(args.documentId, () => wordService.insertTableColumn(args.tableIndex, args.beforeColIndex));
          const position = args.beforeColIndex ? `before column ${args.beforeColIndex}` : "at the right end";
         return {
             content: [{ type: "text", text: `Successfully inserted column into table ${args.tableIndex} ${position}.` }],
@@ -97,12 +105,13 @@ const applyTableAutoFormatSchema = z.object({
     tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
     formatName: z.union([z.string(), z.number()]).describe("Name of the table style (e.g., 'Table Grid') or a numeric WdTableFormat enum value."),
     // applyFormatting: z.number().int().optional().describe("Optional: Bitmask flags (WdTableFormatApply) indicating which parts of the format to apply.")
+  documentId: documentIdSchema,
 });
 
 async function applyTableAutoFormatTool(args: z.infer<typeof applyTableAutoFormatSchema>): Promise<CallToolResult> {
     try {
         // We'll omit applyFormatting for simplicity, letting Word use defaults
-        await wordService.applyTableAutoFormat(args.tableIndex, args.formatName);
+        await inDocument(args.documentId, () => wordService.applyTableAutoFormat(args.tableIndex, args.formatName));
         return {
             content: [{ type: "text", text: `Successfully applied format '${args.formatName}' to table ${args.tableIndex}.` }],
         };
@@ -115,6 +124,411 @@ async function applyTableAutoFormatTool(args: z.infer<typeof applyTableAutoForma
     }
 }
 
+// --- Tool: Insert Table From Data ---
+const insertTableFromDataSchema = z.object({
+  data: z.array(z.array(z.union([z.string(), z.number(), z.boolean(), z.null()]))).optional().describe("Rows of cell values as a JSON 2D array, e.g. [[\"Item\", \"Qty\"], [\"Apples\", 3]]. Give either data or csv."),
+  csv: z.string().optional().describe("Rows as CSV text; values containing commas, quotes or line breaks are enclosed in double quotes. Give either data or csv."),
+  headerRow: z.boolean().optional().default(false).describe("Format the first row as a header: bold and repeated at the top of each page. Not applied when appending. Default is false."),
+  style: z.string().optional().describe("Optional: Table style, e.g. 'Table Grid' or 'Grid Table 4 - Accent 1'."),
+  columnWidths: z.array(z.number().positive()).optional().describe("Optional: Column widths in points, one per column."),
+  defaultTableBehavior: z.number().int().min(0).max(1).optional().describe("Optional: WdDefaultTableBehavior for a new table (0=Word 8 table without borders, 1=Word 9 table with borders)."),
+  autoFitBehavior: z.number().int().min(0).max(2).optional().describe("Optional: WdAutoFitBehavior (0=Fixed column widths, 1=Fit to contents, 2=Fit to window)."),
+  tableIndex: z.number().int().min(1).optional().describe("Optional: 1-based index of an existing table to write into instead of inserting a new table at the selection."),
+  mode: z.enum(["overwrite", "append"]).optional().default("overwrite").describe("With tableIndex: 'overwrite' writes from the first row, 'append' adds the rows after the last row. Rows and columns are added as needed; cells outside the data keep their text. Default is 'overwrite'."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function insertTableFromDataTool(args: z.infer<typeof insertTableFromDataSchema>): Promise<CallToolResult> {
+  try {
+    if ((args.data === undefined) === (args.csv === undefined)) {
+      throw new Error("Give either data or csv.");
+    }
+    const rows = args.data ? args.data.map(row => row.map(value => value === null ? "" : String(value))) : parseCsv(args.csv!);
+    if (rows.length === 0) {
+      throw new Error("The data has no rows.");
+    }
+    const { headerRow, style, columnWidths, defaultTableBehavior, autoFitBehavior } = args;
+    const options = { headerRow, style, columnWidths, defaultTableBehavior, autoFitBehavior };
+    const columns = Math.max(...rows.map(row => row.length));
+    if (args.tableIndex !== undefined) {
+      const tableIndex = args.tableIndex;
+      await inDocument(args.documentId, () => wordService.setTableData(tableIndex, rows, args.mode === "append", options));
+      return {
+        content: [{ type: "text", text: `Successfully ${args.mode === "append" ? "appended" : "wrote"} ${rows.length} row(s) x ${columns} column(s) ${args.mode === "append" ? "to" : "into"} table ${tableIndex}.` }],
+      };
+    }
+    const index = await inDocument(args.documentId, () => inRange(args.range, () => wordService.insertTableFromData(rows, options)));
+    return {
+      content: [{ type: "text", text: `Successfully inserted a ${rows.length}x${columns} table${index > 0 ? ` (table ${index})` : " nested in a table cell"}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in insertTableFromDataTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to insert table from data: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Merge Table Cells ---
+const mergeTableCellsSchema = z.object({
+  tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
+  rowIndex: z.number().int().min(1).describe("1-based row of the first cell (e.g. the top left one)."),
+  colIndex: z.number().int().min(1).describe("1-based column of the first cell."),
+  endRowIndex: z.number().int().min(1).describe("1-based row of the last cell (e.g. the bottom right one)."),
+  endColIndex: z.number().int().min(1).describe("1-based column of the last cell."),
+  documentId: documentIdSchema,
+});
+
+async function mergeTableCellsTool(args: z.infer<typeof mergeTableCellsSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => wordService.mergeTableCells(args.tableIndex, args.rowIndex, args.colIndex, args.endRowIndex, args.endColIndex));
+    return {
+      content: [{ type: "text", text: `Successfully merged cells (${args.rowIndex}, ${args.colIndex}) to (${args.endRowIndex}, ${args.endColIndex}) of table ${args.tableIndex}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in mergeTableCellsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to merge table cells: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Split Table Cell ---
+const splitTableCellSchema = z.object({
+  tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
+  rowIndex: z.number().int().min(1).describe("1-based row of the cell."),
+  colIndex: z.number().int().min(1).describe("1-based column of the cell."),
+  numRows: z.number().int().min(1).optional().default(1).describe("Number of rows to split the cell into. Default is 1."),
+  numCols: z.number().int().min(1).optional().default(2).describe("Number of columns to split the cell into. Default is 2. To undo a merge, give the rows and columns the merged cell spans."),
+  documentId: documentIdSchema,
+});
+
+async function splitTableCellTool(args: z.infer<typeof splitTableCellSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => wordService.splitTableCell(args.tableIndex, args.rowIndex, args.colIndex, args.numRows, args.numCols));
+    return {
+      content: [{ type: "text", text: `Successfully split cell (${args.rowIndex}, ${args.colIndex}) of table ${args.tableIndex} into ${args.numRows}x${args.numCols} cells.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in splitTableCellTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to split table cell: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Delete Table Row ---
+const deleteTableRowSchema = z.object({
+  tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
+  rowIndex: z.number().int().min(1).describe("1-based index of the row to delete."),
+  documentId: documentIdSchema,
+});
+
+async function deleteTableRowTool(args: z.infer<typeof deleteTableRowSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => wordService.deleteTableRow(args.tableIndex, args.rowIndex));
+    return {
+      content: [{ type: "text", text: `Successfully deleted row ${args.rowIndex} of table ${args.tableIndex}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in deleteTableRowTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to delete table row: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Delete Table Column ---
+const deleteTableColumnSchema = z.object({
+  tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
+  colIndex: z.number().int().min(1).describe("1-based index of the column to delete (grid column, as reported by word_getTable)."),
+  documentId: documentIdSchema,
+});
+
+async function deleteTableColumnTool(args: z.infer<typeof deleteTableColumnSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => wordService.deleteTableColumn(args.tableIndex, args.colIndex));
+    return {
+      content: [{ type: "text", text: `Successfully deleted column ${args.colIndex} of table ${args.tableIndex}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in deleteTableColumnTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to delete table column: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Set Table Column Width ---
+const setTableColumnWidthSchema = z.object({
+  tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
+  colIndex: z.number().int().min(1).describe("1-based index of the column (grid column, as reported by word_getTable)."),
+  width: z.number().positive().describe("Column width in points (72 points = 1 inch)."),
+  documentId: documentIdSchema,
+});
+
+async function setTableColumnWidthTool(args: z.infer<typeof setTableColumnWidthSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => wordService.setTableColumnWidth(args.tableIndex, args.colIndex, args.width));
+    return {
+      content: [{ type: "text", text: `Successfully set column ${args.colIndex} of table ${args.tableIndex} to ${args.width} points.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in setTableColumnWidthTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to set table column width: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Set Table Row Height ---
+const setTableRowHeightSchema = z.object({
+  tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
+  rowIndex: z.number().int().min(1).describe("1-based index of the row."),
+  height: z.number().positive().describe("Row height in points."),
+  heightRule: z.number().int().min(0).max(2).optional().default(1).describe("WdRowHeightRule enum value (0=Auto, 1=AtLeast, 2=Exactly). Default is 1."),
+  documentId: documentIdSchema,
+});
+
+async function setTableRowHeightTool(args: z.infer<typeof setTableRowHeightSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => wordService.setTableRowHeight(args.tableIndex, args.rowIndex, args.height, args.heightRule));
+    return {
+      content: [{ type: "text", text: `Successfully set the height of row ${args.rowIndex} of table ${args.tableIndex}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in setTableRowHeightTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to set table row height: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// Optional cell of the table formatting tools; the whole table when omitted
+const cellTargetShape = {
+  rowIndex: z.number().int().min(1).optional().describe("Optional: 1-based row of a single cell to format. Give together with colIndex; omit both for the whole table."),
+  colIndex: z.number().int().min(1).optional().describe("Optional: 1-based column of a single cell to format."),
+};
+
+function cellTarget(args: { rowIndex?: number; colIndex?: number }): { rowIndex: number; colIndex: number } | undefined {
+  if ((args.rowIndex === undefined) !== (args.colIndex === undefined)) {
+    throw new Error("Give both rowIndex and colIndex for a cell, or neither for the whole table.");
+  }
+  return args.rowIndex !== undefined ? { rowIndex: args.rowIndex, colIndex: args.colIndex! } : undefined;
+}
+
+function describeTarget(args: { tableIndex: number; rowIndex?: number; colIndex?: number }): string {
+  return args.rowIndex !== undefined ? `cell (${args.rowIndex}, ${args.colIndex}) of table ${args.tableIndex}` : `table ${args.tableIndex}`;
+}
+
+// --- Tool: Set Table Borders ---
+const setTableBordersSchema = z.object({
+  tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
+  ...cellTargetShape,
+  lineStyle: z.number().int().min(0).optional().default(1).describe("WdLineStyle enum value (0=None, 1=Single, 2=Dot, 3=DashSmallGap, 4=DashLargeGap, 7=Double). Default is 1."),
+  lineWidth: z.number().positive().optional().describe("Optional: Line width in points (0.25 to 6). Default is 0.5."),
+  color: z.string().regex(/^[0-9A-Fa-f]{6}$/).optional().describe("Optional: Line color as RRGGBB hex. Default is automatic."),
+  sides: z.array(z.enum(["top", "left", "bottom", "right", "insideHorizontal", "insideVertical"])).optional().describe("Optional: Sides to set. Default is all sides, including the inside lines for a whole table."),
+  documentId: documentIdSchema,
+});
+
+async function setTableBordersTool(args: z.infer<typeof setTableBordersSchema>): Promise<CallToolResult> {
+  try {
+    const cell = cellTarget(args);
+    const borders = { lineStyle: args.lineStyle, lineWidth: args.lineWidth, color: args.color, sides: args.sides };
+    await inDocument(args.documentId, () => wordService.formatTableCells(args.tableIndex, { borders }, cell));
+    return {
+      content: [{ type: "text", text: `Successfully set the borders of ${describeTarget(args)}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in setTableBordersTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to set table borders: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Set Table Shading ---
+const setTableShadingSchema = z.object({
+  tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
+  ...cellTargetShape,
+  color: z.union([z.string().regex(/^[0-9A-Fa-f]{6}$/), z.literal("none")]).describe("Background color as RRGGBB hex, e.g. 'D9E2F3', or 'none' to remove the shading."),
+  documentId: documentIdSchema,
+});
+
+async function setTableShadingTool(args: z.infer<typeof setTableShadingSchema>): Promise<CallToolResult> {
+  try {
+    const cell = cellTarget(args);
+    await inDocument(args.documentId, () => wordService.formatTableCells(args.tableIndex, { shading: args.color === "none" ? null : args.color }, cell));
+    return {
+      content: [{ type: "text", text: `Successfully ${args.color === "none" ? "removed the shading of" : "shaded"} ${describeTarget(args)}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in setTableShadingTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to set table shading: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Set Table Cell Vertical Alignment ---
+const setTableCellVerticalAlignmentSchema = z.object({
+  tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
+  ...cellTargetShape,
+  alignment: z.union([z.literal(0), z.literal(1), z.literal(3)]).describe("WdCellVerticalAlignment enum value (0=Top, 1=Center, 3=Bottom)."),
+  documentId: documentIdSchema,
+});
+
+async function setTableCellVerticalAlignmentTool(args: z.infer<typeof setTableCellVerticalAlignmentSchema>): Promise<CallToolResult> {
+  try {
+    const cell = cellTarget(args);
+    await inDocument(args.documentId, () => wordService.formatTableCells(args.tableIndex, { verticalAlignment: args.alignment }, cell));
+    return {
+      content: [{ type: "text", text: `Successfully set the vertical alignment of ${describeTarget(args)}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in setTableCellVerticalAlignmentTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to set vertical alignment: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Set Table Header Rows ---
+const setTableHeaderRowsSchema = z.object({
+  tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
+  count: z.number().int().min(0).optional().default(1).describe("Number of rows at the top of the table to repeat on each page; 0 turns repetition off. Default is 1."),
+  documentId: documentIdSchema,
+});
+
+async function setTableHeaderRowsTool(args: z.infer<typeof setTableHeaderRowsSchema>): Promise<CallToolResult> {
+  try {
+    await inDocument(args.documentId, () => wordService.setTableHeaderRows(args.tableIndex, args.count));
+    return {
+      content: [{ type: "text", text: args.count === 0 ? `Successfully turned off header rows of table ${args.tableIndex}.` : `Successfully set ${args.count} header row(s) on table ${args.tableIndex}.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in setTableHeaderRowsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to set table header rows: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Sort Table ---
+const sortTableSchema = z.object({
+  tableIndex: z.number().int().min(1).describe("The 1-based index of the table."),
+  colIndex: z.number().int().min(1).describe("1-based index of the column to sort by."),
+  sortType: z.enum(["text", "number", "date"]).optional().default("text").describe("Compare the column as text, numbers or dates. Default is 'text'."),
+  descending: z.boolean().optional().default(false).describe("Sort in descending order. Default is false."),
+  headerRow: z.boolean().optional().default(false).describe("Keep the first row in place as a header. Default is false."),
+  documentId: documentIdSchema,
+});
+
+async function sortTableTool(args: z.infer<typeof sortTableSchema>): Promise<CallToolResult> {
+  try {
+    const { tableIndex, colIndex, documentId, ...options } = args;
+    await inDocument(documentId, () => wordService.sortTable(tableIndex, colIndex, options));
+    return {
+      content: [{ type: "text", text: `Successfully sorted table ${tableIndex} by column ${colIndex} (${args.descending ? "descending" : "ascending"}).` }],
+    };
+  } catch (error: any) {
+    console.error("Error in sortTableTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to sort table: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: List Tables ---
+const listTablesSchema = z.object({
+  documentId: documentIdSchema,
+});
+
+async function listTablesTool(args: z.infer<typeof listTablesSchema>): Promise<CallToolResult> {
+  try {
+    const tables = await inDocument(args.documentId, () => wordService.listTables());
+    if (tables.length === 0) {
+      return {
+        content: [{ type: "text", text: "The document has no tables." }],
+      };
+    }
+    const lines = tables.map(table => {
+      const details = [`${table.rows}x${table.columns}`];
+      if (!table.uniform) details.push("merged cells");
+      if (table.nestedTables > 0) details.push(`${table.nestedTables} nested table(s)`);
+      const preview = table.firstRow.map(text => JSON.stringify(text.length > 30 ? `${text.slice(0, 30)}...` : text)).join(", ");
+      return `[${table.index}] (${details.join(", ")}) first row: ${preview}`;
+    });
+    return {
+      content: [{ type: "text", text: `${tables.length} table(s) (rows x columns):\n${lines.join("\n")}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in listTablesTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to list tables: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Get Table ---
+const getTableSchema = z.object({
+  tableIndex: z.number().int().min(1).describe("The 1-based index of the table, as reported by word_listTables."),
+  format: z.enum(["json", "csv"]).optional().default("json").describe("'json' for a 2D array of cell texts, 'csv' for comma-separated values. Default is 'json'."),
+  fillMerged: z.boolean().optional().default(false).describe("Repeat the text of a merged cell in every grid position it covers instead of leaving them empty (null in JSON). Default is false."),
+  documentId: documentIdSchema,
+});
+
+function csvValue(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function getTableTool(args: z.infer<typeof getTableSchema>): Promise<CallToolResult> {
+  try {
+    const table = await inDocument(args.documentId, () => wordService.getTableData(args.tableIndex));
+    // Grid of rows x columns; positions covered by a merged cell stay null unless filled
+    const grid: (string | null)[][] = Array.from({ length: table.rows }, () => Array(table.columns).fill(null));
+    for (const cell of table.cells) {
+      for (let r = 0; r < cell.rowSpan; r++) {
+        for (let c = 0; c < cell.colSpan; c++) {
+          if ((r === 0 && c === 0) || args.fillMerged) grid[cell.rowIndex - 1 + r][cell.column - 1 + c] = cell.text;
+        }
+      }
+    }
+    const merged = table.cells.filter(cell => cell.rowSpan > 1 || cell.colSpan > 1);
+    const content: CallToolResult["content"] = [];
+    if (args.format === "csv") {
+      content.push({ type: "text", text: grid.map(row => row.map(text => csvValue(text ?? "")).join(",")).join("\n") });
+    } else {
+      content.push({ type: "text", text: JSON.stringify(grid) });
+    }
+    if (merged.length > 0) {
+      const lines = merged.map(cell => `row ${cell.rowIndex}, column ${cell.column}: spans ${cell.rowSpan} row(s) x ${cell.colSpan} column(s) (cell ${cell.rowIndex},${cell.colIndex} for word_setTableCellText)`);
+      content.push({ type: "text", text: `Merged cells (grid positions, 1-based):\n${lines.join("\n")}\nIn rows with merged cells, word_setTableCellText counts cells, not grid columns.` });
+    }
+    return { content };
+  } catch (error: any) {
+    console.error("Error in getTableTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to get table: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
 
 // --- Register Tools ---
 export function registerTableTools(server: McpServer) {
@@ -148,4 +562,88 @@ export function registerTableTools(server: McpServer) {
     applyTableAutoFormatSchema.shape,
     applyTableAutoFormatTool
   );
+  server.tool(
+    "word_insertTableFromData",
+    "Builds a table from a JSON 2D array or CSV text in one call, with optional header row, table style, column widths and autofit behavior; or writes the rows into an existing table (overwrite or append).",
+    insertTableFromDataSchema.shape,
+    insertTableFromDataTool
+  );
+  server.tool(
+    "word_mergeTableCells",
+    "Merges the rectangle of cells between two cells into one cell, keeping the text of all of them.",
+    mergeTableCellsSchema.shape,
+    mergeTableCellsTool
+  );
+  server.tool(
+    "word_splitTableCell",
+    "Splits a cell into rows and columns; splitting a merged cell into the rows and columns it spans undoes the merge.",
+    splitTableCellSchema.shape,
+    splitTableCellTool
+  );
+  server.tool(
+    "word_deleteTableRow",
+    "Deletes a row from a table. Deleting the only row deletes the table.",
+    deleteTableRowSchema.shape,
+    deleteTableRowTool
+  );
+  server.tool(
+    "word_deleteTableColumn",
+    "Deletes a column from a table. Deleting the only column deletes the table.",
+    deleteTableColumnSchema.shape,
+    deleteTableColumnTool
+  );
+  server.tool(
+    "word_setTableColumnWidth",
+    "Sets the width of a table column in points.",
+    setTableColumnWidthSchema.shape,
+    setTableColumnWidthTool
+  );
+  server.tool(
+    "word_setTableRowHeight",
+    "Sets the height of a table row and whether it is a minimum or exact height.",
+    setTableRowHeightSchema.shape,
+    setTableRowHeightTool
+  );
+  server.tool(
+    "word_setTableBorders",
+    "Sets the border lines (style, width, color) of a whole table or of one cell.",
+    setTableBordersSchema.shape,
+    setTableBordersTool
+  );
+  server.tool(
+    "word_setTableShading",
+    "Sets or removes the background color of a whole table or of one cell.",
+    setTableShadingSchema.shape,
+    setTableShadingTool
+  );
+  server.tool(
+    "word_setTableCellVerticalAlignment",
+    "Aligns the text of one cell, or of every cell of a table, to the top, center or bottom.",
+    setTableCellVerticalAlignmentSchema.shape,
+    setTableCellVerticalAlignmentTool
+  );
+  server.tool(
+    "word_setTableHeaderRows",
+    "Sets how many rows at the top of a table repeat as header rows on each page.",
+    setTableHeaderRowsSchema.shape,
+    setTableHeaderRowsTool
+  );
+  server.tool(
+    "word_sortTable",
+    "Sorts the rows of a table by a column as text, numbers or dates, optionally keeping a header row in place.",
+    sortTableSchema.shape,
+    sortTableTool
+  );
+  server.tool(
+    "word_listTables",
+    "Lists the tables of the active document with their size, merged cells, nested tables and a preview of the first row.",
+    listTablesSchema.shape,
+    listTablesTool
+  );
+  server.tool(
+    "word_getTable",
+    "Reads a table as a JSON 2D array or CSV laid out on the table grid, listing merged cells explicitly.",
+    getTableSchema.shape,
+    getTableTool
+  );
 }
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { documentIdSchema, saveNewDocument } from "./document-id.js";
+
+// --- Tool: Render Template ---
+const renderTemplateSchema = z.object({
+  data: z.record(z.string(), z.unknown()).describe("The data the tags refer to: values, nested objects and arrays, e.g. {\"customer\": {\"name\": \"Ada\"}, \"items\": [{\"name\": \"Pen\", \"qty\": 2}], \"paid\": true}."),
+  outputPath: z.string().optional().describe("Optional: Where to save the rendered document."),
+  documentId: documentIdSchema,
+});
+
+async function renderTemplateTool(args: z.infer<typeof renderTemplateSchema>): Promise<CallToolResult> {
+  try {
+    const templateId = args.documentId ?? await wordService.getDocumentId(await wordService.getActiveDocument());
+    const { document, unresolved } = await wordService.withDocument(templateId, () => wordService.renderTemplate(args.data));
+    const documentId = await wordService.getDocumentId(document);
+    const savedPath = args.outputPath ? await saveNewDocument(documentId, args.outputPath) : undefined;
+    const saved = savedPath ? ` and saved it to ${savedPath}` : "";
+    const warning = unresolved.length > 0 ? ` No data for ${unresolved.join(", ")}: those tags were left empty, their sections removed.` : "";
+    return {
+      content: [{ type: "text", text: `Successfully rendered the template into a new document (documentId: ${documentId})${saved}.${warning}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in renderTemplateTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to render template: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerTemplateTools(server: McpServer) {
+  server.tool(
+    "word_renderTemplate",
+    "Renders a template document with JSON data into a new document, leaving the template unchanged. Tags work in the body, tables, headers and footers: " +
+    "{{name}} or {{customer.name}} is replaced with the value, keeping the tag's formatting. " +
+    "{{#each items}}...{{/each}} repeats its content per array element, inside it {{name}} refers to the element's fields, {{this}} to the element and {{@number}} to its 1-based position: " +
+    "with the tags in different cells of a table row (or both in one cell), the row(s) from the opening to the closing tag are repeated, otherwise the paragraphs from the opening to the closing tag. " +
+    "{{#if paid}}...{{else}}...{{/if}} keeps the first branch when the value is set (not false, 0, empty or an empty array), the second otherwise; within one paragraph it keeps text, otherwise paragraphs or table rows. " +
+    "Paragraphs holding nothing but an each, if, else or closing tag are removed.",
+    renderTemplateSchema.shape,
+    renderTemplateTool
+  );
+}
@@ -2,15 +2,19 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
 
 // --- Tool: Insert Text ---
 const insertTextSchema = z.object({
   text: z.string().describe("The text to insert at the current cursor position or over the selection."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
 });
 
 async function insertTextTool(args: z.infer<typeof insertTextSchema>): Promise<CallToolResult> {
   try {
-    await wordService.insertText(args.text);
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.insertText(args.text)));
     return {
       content: [{ type: "text", text: "Successfully inserted text." }],
     };
@@ -27,16 +31,18 @@ async function insertTextTool(args: z.infer<typeof insertTextSchema>): Promise<C
 const deleteTextSchema = z.object({
   count: z.number().int().optional().default(1).describe("Number of units to delete. Positive deletes forward/after selection, negative deletes backward/before selection. Default is 1."),
   unit: z.number().int().optional().default(1).describe("Unit to delete (1=Character, 2=Word, 3=Sentence, 4=Paragraph). Default is 1 (Character)."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
 });
 
 async function deleteTextTool(args: z.infer<typeof deleteTextSchema>): Promise<CallToolResult> {
   try {
-    await wordService.deleteText(args.count, args.unit);
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.deleteText(args.count, args.unit)));
     const unitMap: { [key: number]: string } = { 1: "character(s)", 2: "word(s)", 3: "sentence(s)", 4: "paragraph(s)" };
     const unitName = unitMap[args.unit ?? 1] ?? `unit ${args.unit}`;
     const direction = (args.count ?? 1) >= 0 ? "forward" : "backward";
     return {
-      content: [{ type: "text", text: `Successfully deleted ${Math.abs(args.count ?? 1)} ${unitName} ${direction}.` }],
+      content: [{ type: "text", text: args.range ? "Successfully deleted the range." : `Successfully deleted ${Math.abs(args.count ?? 1)} ${unitName} ${direction}.` }],
     };
   } catch (error: any) {
     console.error("Error in deleteTextTool:", error);
@@ -54,17 +60,18 @@ const findReplaceSchema = z.object({
   matchCase: z.boolean().optional().default(false).describe("Perform a case-sensitive search."),
   matchWholeWord: z.boolean().optional().default(false).describe("Only find whole word matches."),
   replaceAll: z.boolean().optional().default(true).describe("Replace all occurrences (true) or only the first one (false)."),
+  documentId: documentIdSchema,
 });
 
 async function findReplaceTool(args: z.infer<typeof findReplaceSchema>): Promise<CallToolResult> {
   try {
-    const found = await wordService.findAndReplace(
+    const found = await inDocument(args.documentId, () => wordService.findAndReplace(
       args.findText,
       args.replaceText,
       args.matchCase,
       args.matchWholeWord,
       args.replaceAll
-    );
+    ));
     const message = found
       ? `Successfully found and replaced text "${args.findText}".`
       : `Text "${args.findText}" not found.`;
@@ -82,11 +89,14 @@ async function findReplaceTool(args: z.infer<typeof findReplaceSchema>): Promise
 }
 
 // --- Tool: Toggle Bold ---
-const toggleBoldSchema = z.object({});
+const toggleBoldSchema = z.object({
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
 
-async function toggleBoldTool(): Promise<CallToolResult> {
+async function toggleBoldTool(args: z.infer<typeof toggleBoldSchema>): Promise<CallToolResult> {
   try {
-    await wordService.toggleBold();
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.toggleBold()));
     return {
       content: [{ type: "text", text: "Toggled bold formatting for the selection." }],
     };
@@ -100,11 +110,14 @@ async function toggleBoldTool(): Promise<CallToolResult> {
 }
 
 // --- Tool: Toggle Italic ---
-const toggleItalicSchema = z.object({});
+const toggleItalicSchema = z.object({
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
 
-async function toggleItalicTool(): Promise<CallToolResult> {
+async function toggleItalicTool(args: z.infer<typeof toggleItalicSchema>): Promise<CallToolResult> {
   try {
-    await wordService.toggleItalic();
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.toggleItalic()));
     return {
       content: [{ type: "text", text: "Toggled italic formatting for the selection." }],
     };
@@ -120,11 +133,13 @@ async function toggleItalicTool(): Promise<CallToolResult> {
 // --- Tool: Toggle Underline ---
 const toggleUnderlineSchema = z.object({
     underlineStyle: z.number().int().optional().default(1).describe("Optional: Underline style (WdUnderline enum value, e.g., 1=Single, 4=Double). Default is 1."),
+    range: rangeSchema,
+    documentId: documentIdSchema,
 });
 
 async function toggleUnderlineTool(args: z.infer<typeof toggleUnderlineSchema>): Promise<CallToolResult> {
   try {
-    await wordService.toggleUnderline(args.underlineStyle);
+    await inDocument(args.documentId, () => inRange(args.range, () => wordService.toggleUnderline(args.underlineStyle)));
     return {
       content: [{ type: "text", text: "Toggled underline formatting for the selection." }],
     };
@@ -137,6 +152,43 @@ async function toggleUnderlineTool(args: z.infer<typeof toggleUnderlineSchema>):
   }
 }
 
+// --- Tool: Get Document Text ---
+const getDocumentTextSchema = z.object({
+  offset: z.number().int().min(0).optional().default(0).describe("Number of paragraphs to skip (0-based). Use the offset reported by the previous call to continue."),
+  limit: z.number().int().min(1).max(500).optional().default(50).describe("Maximum number of paragraphs to return. Default is 50."),
+  maxChars: z.number().int().min(1).optional().describe("Optional: Maximum total number of text characters to return. Paging stops before the paragraph that would exceed it."),
+  documentId: documentIdSchema,
+});
+
+async function getDocumentTextTool(args: z.infer<typeof getDocumentTextSchema>): Promise<CallToolResult> {
+  try {
+    const page = await inDocument(args.documentId, () => wordService.getParagraphs(args.offset, args.limit, args.maxChars));
+    if (page.paragraphs.length === 0) {
+      return {
+        content: [{ type: "text", text: `No paragraphs at offset ${args.offset}. The document has ${page.totalParagraphs} paragraph(s).` }],
+      };
+    }
+    const first = page.paragraphs[0].index;
+    const last = page.paragraphs[page.paragraphs.length - 1].index;
+    const lines = page.paragraphs.map(p =>
+      `[${p.index}] (${p.style}${p.inTable ? ", in table" : ""}${p.list ? `, list level ${p.list.level} "${p.list.listString}"` : ""}) ${p.start}-${p.end}: ${p.text}${p.truncated ? " [truncated]" : ""}`
+    );
+    const content: CallToolResult["content"] = [
+      { type: "text", text: `Paragraphs ${first}-${last} of ${page.totalParagraphs}:` },
+      { type: "text", text: lines.join("\n") },
+    ];
+    if (last < page.totalParagraphs) {
+      content.push({ type: "text", text: `More paragraphs available. Call again with offset=${last}.` });
+    }
+    return { content };
+  } catch (error: any) {
+    console.error("Error in getDocumentTextTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to get document text: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
 
 // --- Register Tools ---
 export function registerTextTools(server: McpServer) {
@@ -176,4 +228,10 @@ export function registerTextTools(server: McpServer) {
     toggleUnderlineSchema.shape,
     toggleUnderlineTool
   );
+  server.tool(
+    "word_getDocumentText",
+    "Gets the paragraphs of the active document (index, style, character range and text), with paging and an optional character budget.",
+    getDocumentTextSchema.shape,
+    getDocumentTextTool
+  );
 }
@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { wordService } from "../word/word-service.js";
+import { documentIdSchema, inDocument } from "./document-id.js";
+import { rangeSchema, inRange } from "./range.js";
+
+// --- Tool: Insert Table of Contents ---
+const insertTableOfContentsSchema = z.object({
+  upperHeadingLevel: z.number().int().min(1).max(9).optional().default(1).describe("Highest heading level to include (1-9). Default is 1."),
+  lowerHeadingLevel: z.number().int().min(1).max(9).optional().default(3).describe("Lowest heading level to include (1-9). Default is 3."),
+  useHyperlinks: z.boolean().optional().default(true).describe("Make the entries hyperlinks to their headings. Default is true."),
+  includePageNumbers: z.boolean().optional().default(true).describe("Show page numbers. Default is true."),
+  rightAlignPageNumbers: z.boolean().optional().default(true).describe("Align page numbers with the right margin (tab leader). Default is true."),
+  range: rangeSchema,
+  documentId: documentIdSchema,
+});
+
+async function insertTableOfContentsTool(args: z.infer<typeof insertTableOfContentsSchema>): Promise<CallToolResult> {
+  try {
+    const { range, documentId, ...options } = args;
+    const index = await inDocument(documentId, () => inRange(range, () => wordService.insertTableOfContents(options)));
+    return {
+      content: [{ type: "text", text: `Successfully inserted table of contents ${index} (heading levels ${args.upperHeadingLevel}-${args.lowerHeadingLevel}).` }],
+    };
+  } catch (error: any) {
+    console.error("Error in insertTableOfContentsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to insert table of contents: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: List Tables of Contents ---
+const listTablesOfContentsSchema = z.object({
+  documentId: documentIdSchema,
+});
+
+async function listTablesOfContentsTool(args: z.infer<typeof listTablesOfContentsSchema>): Promise<CallToolResult> {
+  try {
+    const tocs = await inDocument(args.documentId, () => wordService.listTablesOfContents());
+    if (tocs.length === 0) {
+      return {
+        content: [{ type: "text", text: "The document has no table of contents." }],
+      };
+    }
+    const lines = tocs.map(toc => {
+      const details = [`levels ${toc.upperHeadingLevel}-${toc.lowerHeadingLevel}`, `${toc.entryCount} entr${toc.entryCount === 1 ? "y" : "ies"}`];
+      if (toc.useHyperlinks) details.push("hyperlinks");
+      details.push(toc.includePageNumbers ? (toc.rightAlignPageNumbers ? "right-aligned page numbers" : "page numbers") : "no page numbers");
+      return `[${toc.index}] ${toc.start}-${toc.end} (${details.join(", ")})`;
+    });
+    return {
+      content: [{ type: "text", text: `${tocs.length} table(s) of contents:\n${lines.join("\n")}` }],
+    };
+  } catch (error: any) {
+    console.error("Error in listTablesOfContentsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to list tables of contents: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Tool: Update Table of Contents ---
+const updateTableOfContentsSchema = z.object({
+  tocIndex: z.number().int().min(1).optional().describe("Optional: 1-based index of the table of contents to update. Updates all of them if omitted."),
+  pageNumbersOnly: z.boolean().optional().default(false).describe("Only update page numbers instead of rebuilding the entries from the headings. Default is false."),
+  documentId: documentIdSchema,
+});
+
+async function updateTableOfContentsTool(args: z.infer<typeof updateTableOfContentsSchema>): Promise<CallToolResult> {
+  try {
+    const count = await inDocument(args.documentId, async () => {
+      const indices = args.tocIndex !== undefined ? [args.tocIndex] : (await wordService.listTablesOfContents()).map(toc => toc.index);
+      for (const index of indices) {
+        await wordService.updateTableOfContents(index, args.pageNumbersOnly);
+      }
+      return indices.length;
+    });
+    if (count === 0) {
+      return {
+        content: [{ type: "text", text: "The document has no table of contents." }],
+      };
+    }
+    return {
+      content: [{ type: "text", text: `Successfully updated ${args.pageNumbersOnly ? "page numbers of " : ""}${count} table(s) of contents.` }],
+    };
+  } catch (error: any) {
+    console.error("Error in updateTableOfContentsTool:", error);
+    return {
+      content: [{ type: "text", text: `Failed to update table of contents: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// --- Register Tools ---
+export function registerTocTools(server: McpServer) {
+  server.tool(
+    "word_insertTableOfContents",
+    "Inserts a table of contents built from the Heading 1-9 paragraphs at the selection, with configurable heading levels, hyperlinks and page numbers.",
+    insertTableOfContentsSchema.shape,
+    insertTableOfContentsTool
+  );
+  server.tool(
+    "word_listTablesOfContents",
+    "Lists the tables of contents of the active document with their heading levels, options, character range and number of entries.",
+    listTablesOfContentsSchema.shape,
+    listTablesOfContentsTool
+  );
+  server.tool(
+    "word_updateTableOfContents",
+    "Updates one or all tables of contents: rebuilds the entries from the current headings, or only refreshes their page numbers.",
+    updateTableOfContentsSchema.shape,
+    updateTableOfContentsTool
+  );
+}
@@ -0,0 +1,83 @@
+// Helpers shared by the converters that build document content (Markdown, HTML).
+import path from 'path';
+import { ContentBlock, ContentParagraph, ContentRun } from './word-backend.js';
+
+export function contentParagraph(style: string, runs: ContentRun[], extra: Partial<ContentParagraph> = {}): ContentParagraph {
+  return { type: 'paragraph', style, runs, ...extra };
+}
+
+/**
+ * Name of the built-in list style for a level ("List Bullet", "List Number 2", ...; Word defines levels 1-5).
+ */
+export function listStyleName(ordered: boolean, level: number): string {
+  const base = ordered ? 'List Number' : 'List Bullet';
+  return level > 1 ? `${base} ${Math.min(level, 5)}` : base;
+}
+
+/**
+ * Whether a style is one of the list styles of listStyleName. Paragraphs in them continue a list item.
+ */
+export function isListStyleName(style: string): boolean {
+  return /^List (Bullet|Number)( [2-5])?$/.test(style);
+}
+
+/**
+ * Marks the first paragraph of a converted list item as the list entry.
+ * @returns The marked paragraph, if the item has one.
+ */
+export function markListItem(blocks: ContentBlock[], ordered: boolean, level: number): ContentParagraph | undefined {
+  const style = listStyleName(ordered, level);
+  const first = blocks.find((b): b is ContentParagraph => b.type === 'paragraph' && b.style === style);
+  if (first) {
+    first.list = { level, ordered };
+  }
+  return first;
+}
+
+/**
+ * Removes Word control characters that have no text equivalent (page/column breaks, optional hyphens, objects, cell marks).
+ */
+export function plainText(text: string): string {
+  return text.replace(/\u001e/g, '-').replace(/[\f\u000e\u001f\u0001\u0007\r]/g, '');
+}
+
+export function sameFormat(a: ContentRun, b: ContentRun): boolean {
+  return !!a.bold === !!b.bold && !!a.italic === !!b.italic && !!a.underline === !!b.underline && !!a.code === !!b.code;
+}
+
+function safeDecodeUri(uri: string): string {
+  try {
+    return decodeURI(uri);
+  } catch {
+    return uri; // Not percent-encoded (e.g. a plain path containing "%")
+  }
+}
+
+/**
+ * Decodes a base64 data: URL (as used for embedded images in HTML and Markdown).
+ */
+export function decodeDataUrl(url: string): Uint8Array | undefined {
+  const match = /^data:[^;,]*(;[^,]*)?;base64,(.*)$/is.exec(url.trim());
+  return match ? new Uint8Array(Buffer.from(match[2], 'base64')) : undefined;
+}
+
+/**
+ * Makes local picture paths absolute and decodes data: URLs into picture data; other URLs (http:, file:, ...) are left as they are.
+ */
+export function resolvePicturePaths(blocks: ContentBlock[], baseDirectory: string): void {
+  for (const block of blocks) {
+    if (block.type === 'table') {
+      block.rows.forEach(row => row.forEach(cell => resolvePicturePaths(cell.blocks, baseDirectory)));
+      continue;
+    }
+    for (const run of block.runs) {
+      const data = run.picture?.filePath ? decodeDataUrl(run.picture.filePath) : undefined;
+      if (data) {
+        run.picture!.data = data;
+        run.picture!.filePath = undefined;
+      } else if (run.picture?.filePath && !/^[a-z][a-z0-9+.-]+:/i.test(run.picture.filePath.replace(/^[a-z]:[\\/]/i, ''))) {
+        run.picture.filePath = path.resolve(baseDirectory, safeDecodeUri(run.picture.filePath));
+      }
+    }
+  }
+}
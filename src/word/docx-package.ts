@@ -0,0 +1,2182 @@
+// Reads and writes .docx packages (zip + WordprocessingML) to and from the in-memory document model.
+// Elements the model does not cover are kept in the package and reproduced from their source on write.
+import JSZip from 'jszip';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { Document, DocumentFragment, Element } from '@xmldom/xmldom';
+import {
+  NS,
+  REL_TYPE,
+  CONTENT_TYPE,
+  NAMESPACE_DECLARATIONS,
+  EMUS_PER_POINT,
+  PPR_ORDER,
+  RPR_ORDER,
+  STYLE_ORDER,
+  LVL_ORDER,
+  SECTPR_ORDER,
+  TBLPR_ORDER,
+  TRPR_ORDER,
+  TCPR_ORDER,
+  SDTPR_ORDER,
+  SETTINGS_ORDER,
+  parseXml,
+  serializeXml,
+  parseFragment,
+  childElements,
+  child,
+  children,
+  descendants,
+  attr,
+  setAttr,
+  toggleValue,
+  createElement,
+  ensureChild,
+  insertOrdered,
+  setValueChild,
+  removeChildren,
+  twipsToPoints,
+  pointsToTwips,
+} from './docx-xml.js';
+import { blankPackageFiles } from './docx-template.js';
+import { readImageInfo } from './image-info.js';
+import {
+  MemoryDocument,
+  MemoryStory,
+  MemoryBlock,
+  MemoryParagraph,
+  MemoryTable,
+  MemoryRow,
+  MemoryCell,
+  MemoryRun,
+  MemorySection,
+  MemoryPicture,
+  MemoryStyle,
+  MemoryTableOfContents,
+  MemoryListTemplate,
+  MemoryListLevel,
+  MemoryList,
+  MemoryComment,
+  MemoryRevision,
+  MemoryContentControl,
+  MemoryField,
+  MemoryNote,
+  MemoryNoteKind,
+  Borders,
+  BorderSide,
+  ParagraphFormat,
+  RunFont,
+  PageSetup,
+  PAPER_SIZES,
+  OBJECT_CHARACTER,
+  LIST_HANGING_INDENT,
+  createDocument,
+  createPageSetup,
+  createParagraph,
+  createStory,
+  paragraphText,
+  listParagraphs,
+  listComments,
+  listNotes,
+  listFields,
+  removeFieldMarks,
+  normalizeRuns,
+} from './memory-document.js';
+
+// --- Package State ---
+
+interface StyleMap {
+  idToName: Map<string, string>;
+  nameToId: Map<string, string>;
+  defaultParagraphStyle: string; // Name
+}
+
+/**
+ * A loaded package together with the parsed parts the document model refers to.
+ */
+export interface DocxPackage {
+  zip: JSZip;
+  documentPart: string; // e.g. word/document.xml
+  parts: Map<string, Document>; // Parsed story parts (main document, headers, footers)
+  sources: Element[]; // sourceId -> element the model node was read from
+  storyParts: Map<MemoryStory, string>; // Header/footer stories -> part path
+  stylesPart?: string; // e.g. word/styles.xml, parsed into parts
+  numberingPart?: string; // e.g. word/numbering.xml, parsed into parts
+  commentsPart?: string; // e.g. word/comments.xml, parsed into parts
+  commentsExtendedPart?: string; // Replies and done state of the comments, parsed into parts
+  footnotesPart?: string; // e.g. word/footnotes.xml, parsed into parts
+  endnotesPart?: string; // e.g. word/endnotes.xml, parsed into parts
+  styles: StyleMap;
+}
+
+// WdParagraphAlignment <-> ST_Jc
+const ALIGNMENTS: { [alignment: number]: string } = { 0: 'left', 1: 'center', 2: 'right', 3: 'both', 4: 'distribute' };
+const ALIGNMENT_VALUES: { [jc: string]: number } = { left: 0, start: 0, center: 1, right: 2, end: 2, both: 3, distribute: 4 };
+
+// WdUnderline <-> ST_Underline
+const UNDERLINES: { [underline: number]: string } = { 0: 'none', 1: 'single', 2: 'words', 3: 'double', 4: 'dotted', 6: 'thick', 7: 'dash', 9: 'dotDash', 10: 'dotDotDash', 11: 'wave', 20: 'dottedHeavy', 23: 'dashedHeavy', 25: 'dashDotHeavy', 26: 'dashDotDotHeavy', 27: 'wavyHeavy', 39: 'dashLong', 43: 'wavyDouble', 55: 'dashLongHeavy' };
+const UNDERLINE_VALUES: { [u: string]: number } = Object.fromEntries(Object.entries(UNDERLINES).map(([k, v]) => [v, Number(k)]));
+
+// WdStyleType <-> ST_StyleType
+const STYLE_TYPES: { [styleType: number]: string } = { 1: 'paragraph', 2: 'character', 3: 'table', 4: 'numbering' };
+const STYLE_TYPE_VALUES: { [type: string]: number } = { paragraph: 1, character: 2, table: 3, numbering: 4 };
+
+// WdListNumberStyle <-> ST_NumberFormat
+const NUMBER_FORMATS: { [numberStyle: number]: string } = { 0: 'decimal', 1: 'upperRoman', 2: 'lowerRoman', 3: 'upperLetter', 4: 'lowerLetter', 5: 'ordinal', 6: 'cardinalText', 7: 'ordinalText', 22: 'decimalZero', 23: 'bullet', 255: 'none' };
+const NUMBER_FORMAT_VALUES: { [numFmt: string]: number } = Object.fromEntries(Object.entries(NUMBER_FORMATS).map(([k, v]) => [v, Number(k)]));
+
+// WdLineStyle <-> ST_Border; other border styles read as single lines
+const BORDER_STYLES: { [lineStyle: number]: string } = { 0: 'nil', 1: 'single', 2: 'dotted', 3: 'dashSmallGap', 4: 'dashed', 5: 'dotDash', 6: 'dotDotDash', 7: 'double', 8: 'triple' };
+const BORDER_STYLE_VALUES: { [val: string]: number } = { ...Object.fromEntries(Object.entries(BORDER_STYLES).map(([k, v]) => [v, Number(k)])), none: 0 };
+// Border sides in schema order, with their element names (start/end are the bidi-aware names of left/right)
+const BORDER_ELEMENTS: [BorderSide, string, string?][] = [['top', 'top'], ['left', 'left', 'start'], ['bottom', 'bottom'], ['right', 'right', 'end'], ['insideHorizontal', 'insideH'], ['insideVertical', 'insideV']];
+// WdCellVerticalAlignment <-> ST_VerticalJc
+const VERTICAL_ALIGNMENTS: { [verticalAlignment: number]: string } = { 0: 'top', 1: 'center', 3: 'bottom' };
+// WdRowHeightRule <-> ST_HeightRule (at least is the default)
+const HEIGHT_RULES: { [heightRule: number]: string } = { 1: 'atLeast', 2: 'exact' };
+
+// WdPaperSize <-> printer paper code (w:pgSz/@w:code)
+const PAPER_CODES: { [paperSize: number]: number } = { 0: 16, 1: 17, 2: 1, 3: 2, 4: 5, 5: 7, 6: 8, 7: 9, 8: 10, 9: 11, 10: 12, 11: 13 };
+const PAPER_CUSTOM = 41; // wdPaperCustom
+
+// WdHeaderFooterIndex <-> ST_HdrFtr
+const HEADER_FOOTER_TYPES: { [headerFooterType: number]: string } = { 1: 'default', 2: 'first', 3: 'even' };
+
+const IMAGE_CONTENT_TYPES: { [extension: string]: string } = { png: 'image/png', jpeg: 'image/jpeg', jpg: 'image/jpeg', gif: 'image/gif', bmp: 'image/bmp' };
+
+// Characters stored as elements rather than text inside a run
+const SPECIAL_CHARACTERS = /[\t\v\f\u000e\u001e\u001f]/;
+
+// --- Paths and Relationships ---
+
+function relsPath(partPath: string): string {
+  return path.posix.join(path.posix.dirname(partPath), '_rels', `${path.posix.basename(partPath)}.rels`);
+}
+
+function resolveTarget(partPath: string, target: string): string {
+  return target.startsWith('/') ? target.slice(1) : path.posix.normalize(path.posix.join(path.posix.dirname(partPath), target));
+}
+
+/**
+ * The relationships of one part, read from and written back to its .rels file.
+ */
+class Relationships {
+  constructor(private readonly partPath: string, private readonly dom: Document) {}
+
+  static async load(zip: JSZip, partPath: string): Promise<Relationships> {
+    const file = zip.file(relsPath(partPath));
+    const xml = file ? await file.async('string') : `<Relationships xmlns="${NS.rel}"/>`;
+    return new Relationships(partPath, parseXml(xml));
+  }
+
+  private entries(): Element[] {
+    return childElements(this.dom.documentElement!);
+  }
+
+  get(id: string | null): { type: string; target: string; external: boolean } | undefined {
+    return this.describe(this.entries().find(e => e.getAttribute('Id') === id));
+  }
+
+  /**
+   * Returns the first relationship of the given type, e.g. the styles part of the main document.
+   */
+  findByType(type: string): { type: string; target: string; external: boolean } | undefined {
+    return this.describe(this.entries().find(e => e.getAttribute('Type') === type));
+  }
+
+  private describe(el: Element | undefined): { type: string; target: string; external: boolean } | undefined {
+    if (!el) return undefined;
+    const external = el.getAttribute('TargetMode') === 'External';
+    const target = el.getAttribute('Target') ?? '';
+    return { type: el.getAttribute('Type') ?? '', target: external ? target : resolveTarget(this.partPath, target), external };
+  }
+
+  /**
+   * Returns the id of an existing relationship to the target, adding one if needed.
+   * @param target Part path inside the package, or an external URL.
+   */
+  ensure(type: string, target: string, external: boolean = false): string {
+    const existing = this.entries().find(e => {
+      if (e.getAttribute('Type') !== type) return false;
+      const isExternal = e.getAttribute('TargetMode') === 'External';
+      const value = e.getAttribute('Target') ?? '';
+      return isExternal === external && (external ? value === target : resolveTarget(this.partPath, value) === target);
+    });
+    if (existing) return existing.getAttribute('Id')!;
+    const ids = new Set(this.entries().map(e => e.getAttribute('Id')));
+    let n = ids.size + 1;
+    while (ids.has(`rId${n}`)) n++;
+    const el = this.dom.createElementNS(NS.rel, 'Relationship');
+    el.setAttribute('Id', `rId${n}`);
+    el.setAttribute('Type', type);
+    el.setAttribute('Target', external ? target : path.posix.relative(path.posix.dirname(this.partPath), target));
+    if (external) el.setAttribute('TargetMode', 'External');
+    this.dom.documentElement!.appendChild(el);
+    return `rId${n}`;
+  }
+
+  save(zip: JSZip): void {
+    zip.file(relsPath(this.partPath), serializeXml(this.dom));
+  }
+}
+
+// --- Styles ---
+
+function displayStyleName(name: string): string {
+  // Built-in styles are stored with lowercase names ("heading 1") but shown capitalized
+  if (name !== name.toLowerCase()) return name;
+  return name.replace(/\b[a-z]/g, c => c.toUpperCase()).replace(/^Toc\b/, 'TOC');
+}
+
+function readStyles(stylesDom: Document | undefined): StyleMap {
+  const info: StyleMap = { idToName: new Map(), nameToId: new Map(), defaultParagraphStyle: 'Normal' };
+  if (!stylesDom) return info;
+  for (const style of descendants(stylesDom, 'style')) {
+    const id = attr(style, 'styleId');
+    if (!id) continue;
+    const name = displayStyleName(attr(child(style, 'name'), 'val') ?? id);
+    info.idToName.set(id, name);
+    info.nameToId.set(name, id);
+    if (attr(style, 'type') === 'paragraph' && ['1', 'true', 'on'].includes(attr(style, 'default') ?? '')) {
+      info.defaultParagraphStyle = name;
+    }
+  }
+  return info;
+}
+
+/**
+ * Reads the style definitions of the styles part into the document model.
+ */
+function readStyleDefinitions(stylesDom: Document | undefined, styles: StyleMap): MemoryStyle[] {
+  if (!stylesDom) return [];
+  return children(stylesDom.documentElement!, 'style').filter(el => attr(el, 'styleId')).map(el => {
+    const style: MemoryStyle = {
+      name: styleName(styles, attr(el, 'styleId'))!,
+      type: STYLE_TYPE_VALUES[attr(el, 'type') ?? 'paragraph'] ?? 1,
+      builtIn: !['1', 'true', 'on'].includes(attr(el, 'customStyle') ?? ''),
+      font: readRunFont(child(el, 'rPr')),
+      paragraphFormat: readParagraphFormat(child(el, 'pPr')),
+    };
+    const baseStyle = styleName(styles, attr(child(el, 'basedOn'), 'val'));
+    const nextParagraphStyle = styleName(styles, attr(child(el, 'next'), 'val'));
+    if (baseStyle) style.baseStyle = baseStyle;
+    if (nextParagraphStyle) style.nextParagraphStyle = nextParagraphStyle;
+    return style;
+  });
+}
+
+/**
+ * The name a style is stored with; Word keeps some built-in names in lowercase.
+ */
+function storedStyleName(style: MemoryStyle): string {
+  const lowercase = /^(Heading [1-9]|TOC [1-9]|Caption|Header|Footer|(Footnote|Endnote) (Text|Reference))$/;
+  return style.builtIn && lowercase.test(style.name) ? style.name.toLowerCase() : style.name;
+}
+
+export function styleName(styles: StyleMap, id: string | null): string | undefined {
+  return id === null ? undefined : styles.idToName.get(id) ?? id;
+}
+
+export function styleId(styles: StyleMap, name: string): string {
+  return styles.nameToId.get(name) ?? name.replace(/[^A-Za-z0-9]/g, '');
+}
+
+// --- Reading ---
+
+class DocxReader {
+  private contentControlCount = 0; // Ids pairing the marks of content controls
+  private fieldCount = 0; // Ids pairing the marks of fields
+
+  constructor(
+    private readonly pkg: DocxPackage,
+    private readonly listIds: Set<number> = new Set(),
+    private readonly commentIds: Set<number> = new Set(),
+    private readonly noteIds: { [kind in MemoryNoteKind]?: Set<number> } = {},
+  ) {}
+
+  private register(el: Element): number {
+    this.pkg.sources.push(el);
+    return this.pkg.sources.length - 1;
+  }
+
+  async readBlocks(parent: Element, partPath: string, rels: Relationships): Promise<MemoryBlock[]> {
+    const blocks: MemoryBlock[] = [];
+    for (const el of childElements(parent)) {
+      if (el.namespaceURI === NS.w && el.localName === 'p') {
+        blocks.push(await this.readParagraph(el, partPath, rels));
+      } else if (el.namespaceURI === NS.w && el.localName === 'tbl') {
+        blocks.push(await this.readTable(el, partPath, rels));
+      } else if (el.namespaceURI === NS.w && ['sectPr', 'tcPr'].includes(el.localName!)) {
+        continue; // Properties of the container, handled by the caller
+      } else if (isTocContentControl(el)) {
+        blocks.push(await this.readTableOfContents(el, partPath, rels) ?? { type: 'opaque', sourceId: this.register(el) });
+      } else if (isParagraphContentControl(el)) {
+        // The marks of a content control around paragraphs go at the start of its first and the end of its last paragraph
+        const control = this.readContentControl(el);
+        control.block = true;
+        const content = await this.readBlocks(child(el, 'sdtContent')!, partPath, rels);
+        const id = this.contentControlCount++;
+        (content[0] as MemoryParagraph).runs.unshift({ text: '', font: {}, opaque: true, mark: { type: 'contentControlStart', id, control } });
+        (content[content.length - 1] as MemoryParagraph).runs.push({ text: '', font: {}, opaque: true, mark: { type: 'contentControlEnd', id } });
+        blocks.push(...content);
+      } else {
+        blocks.push({ type: 'opaque', sourceId: this.register(el) });
+      }
+    }
+    return blocks;
+  }
+
+  private readContentControl(sdt: Element): MemoryContentControl {
+    const sdtPr = child(sdt, 'sdtPr');
+    const control: MemoryContentControl = { id: Number(attr(child(sdtPr, 'id'), 'val')) || 0, type: contentControlType(sdtPr), sourceId: this.register(sdt) };
+    const title = attr(child(sdtPr, 'alias'), 'val');
+    const tag = attr(child(sdtPr, 'tag'), 'val');
+    if (title !== null) control.title = title;
+    if (tag !== null) control.tag = tag;
+    Object.assign(control, readLock(sdtPr));
+    if (toggleValue(child(sdtPr, 'showingPlcHdr'))) control.showingPlaceholder = true;
+    const list = child(sdtPr, 'dropDownList') ?? child(sdtPr, 'comboBox');
+    if (list) {
+      control.entries = children(list, 'listItem').map(item => ({ text: attr(item, 'displayText') ?? attr(item, 'value') ?? '', value: attr(item, 'value') ?? '' }));
+    }
+    const date = child(sdtPr, 'date');
+    if (date) {
+      control.dateFormat = attr(child(date, 'dateFormat'), 'val') ?? undefined;
+      control.date = attr(date, 'fullDate') ?? undefined;
+    }
+    const checkbox = child(sdtPr, 'checkbox', NS.w14);
+    if (checkbox) control.checked = isChecked(checkbox);
+    return control;
+  }
+
+  /**
+   * Reads a table of contents content control. The runs of the TOC field itself (begin, instruction,
+   * separate, end) are dropped from the entries and written again on save.
+   * @returns Undefined when the content control does not hold a TOC field.
+   */
+  private async readTableOfContents(sdt: Element, partPath: string, rels: Relationships): Promise<MemoryTableOfContents | undefined> {
+    const content = child(sdt, 'sdtContent');
+    if (!content) return undefined;
+    const blocks = await this.readBlocks(content, partPath, rels);
+    const fieldRuns = new Set<MemoryRun>();
+    let fieldCode = '';
+    let dirty = false;
+    let depth = 0;
+    let state: 'before' | 'code' | 'result' | 'after' = 'before';
+    for (const { paragraph } of listParagraphs({ blocks })) {
+      for (const run of paragraph.runs) {
+        if (!run.opaque || run.mark || state === 'after') continue;
+        const el = this.pkg.sources[run.sourceId!];
+        const fldChar = child(el, 'fldChar');
+        const type = attr(fldChar, 'fldCharType');
+        const outer = depth === (type === 'begin' ? 0 : 1);
+        if (type === 'begin') {
+          depth++;
+          if (!outer) continue;
+          state = 'code';
+          dirty = ['1', 'true', 'on'].includes(attr(fldChar, 'dirty') ?? '');
+        } else if (type === 'separate') {
+          if (!outer) continue;
+          state = 'result';
+        } else if (type === 'end') {
+          depth--;
+          if (!outer) continue;
+          state = 'after';
+        } else if (child(el, 'instrText') && outer && state === 'code') {
+          fieldCode += child(el, 'instrText')!.textContent ?? '';
+        } else {
+          continue;
+        }
+        fieldRuns.add(run);
+      }
+    }
+    // A TOC field within one paragraph (a single entry) was read as field marks
+    const modelled = listFields({ blocks }).find(slot => /^TOC\b/.test(slot.field.code));
+    if (state === 'before' && modelled) {
+      fieldCode = modelled.field.code;
+      dirty = ['1', 'true', 'on'].includes(attr(child(this.pkg.sources[modelled.field.sourceIds![0]], 'fldChar'), 'dirty') ?? '');
+      removeFieldMarks({ blocks }, modelled.id);
+    }
+    if (!/^TOC\b/.test(fieldCode.trim())) return undefined;
+    for (const { paragraph } of listParagraphs({ blocks })) {
+      paragraph.runs = paragraph.runs.filter(run => !fieldRuns.has(run));
+    }
+    ensureParagraph(blocks);
+    const toc: MemoryTableOfContents = { type: 'toc', fieldCode: fieldCode.trim(), blocks, sourceId: this.register(sdt) };
+    if (dirty) toc.dirty = true;
+    return toc;
+  }
+
+  private async readParagraph(p: Element, partPath: string, rels: Relationships): Promise<MemoryParagraph> {
+    const pPr = child(p, 'pPr');
+    const paragraph = createParagraph('', styleName(this.pkg.styles, attr(child(pPr, 'pStyle'), 'val')) ?? this.pkg.styles.defaultParagraphStyle, readParagraphFormat(pPr));
+    paragraph.sourceId = this.register(p);
+    if (child(pPr, 'sectPr')) {
+      paragraph.sectionBreak = true;
+    }
+    const numPr = child(pPr, 'numPr');
+    const numId = Number(attr(child(numPr, 'numId'), 'val'));
+    if (this.listIds.has(numId)) {
+      paragraph.list = { listId: numId, level: Number(attr(child(numPr, 'ilvl'), 'val') ?? 0) + 1 };
+    }
+    const markRPr = child(pPr, 'rPr');
+    const markRevision = markRPr && childElements(markRPr).find(isRevision);
+    if (markRevision) {
+      paragraph.markRevision = this.readRevision(markRevision);
+    }
+    paragraph.runs = this.readFields(await this.readInline(p, partPath, rels));
+    return paragraph;
+  }
+
+  /**
+   * Turns the runs of fields that lie within the paragraph (begin, instruction, separate, result, end) into field
+   * marks around the result. Nested fields, fields without a result and fields spanning paragraphs stay opaque.
+   * A field inserted or deleted as a whole keeps that revision on its marks.
+   */
+  private readFields(runs: MemoryRun[]): MemoryRun[] {
+    const result: MemoryRun[] = [];
+    for (let i = 0; i < runs.length; i++) {
+      const field = this.fieldCharType(runs[i]) === 'begin' ? this.readField(runs, i) : undefined;
+      if (!field) {
+        result.push(runs[i]);
+        continue;
+      }
+      const id = this.fieldCount++;
+      const revision = runs[i].revision;
+      result.push({ text: '', font: {}, opaque: true, mark: { type: 'fieldStart', id, field: { code: field.code, sourceIds: runs.slice(i, field.separate + 1).map(run => run.sourceId!) } }, hyperlink: runs[i].hyperlink, revision });
+      result.push(...runs.slice(field.separate + 1, field.end));
+      result.push({ text: '', font: {}, opaque: true, mark: { type: 'fieldEnd', id }, hyperlink: runs[field.end].hyperlink, sourceId: runs[field.end].sourceId, revision });
+      i = field.end;
+    }
+    return result;
+  }
+
+  /**
+   * Reads the field beginning at a run.
+   * @returns The field code and the indices of its separate and end runs, or undefined when the field cannot be modelled,
+   * as when its code and end are not all in the revision of its begin character.
+   */
+  private readField(runs: MemoryRun[], begin: number): { code: string; separate: number; end: number } | undefined {
+    let code = '';
+    let separate: number | undefined;
+    const revision = runs[begin].revision;
+    for (let i = begin; i < runs.length; i++) {
+      const run = runs[i];
+      const type = this.fieldCharType(run);
+      if ((type === 'begin' && i > begin) || (separate === undefined && run.revision !== revision)) return undefined;
+      if (type === 'end') {
+        return separate === undefined || run.revision !== revision ? undefined : { code: code.trim(), separate, end: i };
+      }
+      if (separate !== undefined) continue;
+      if (type === 'separate') {
+        separate = i;
+      } else if (run.opaque && !run.mark && this.pkg.sources[run.sourceId!]?.localName === 'r') {
+        code += descendants(this.pkg.sources[run.sourceId!], 'instrText').map(el => el.textContent ?? '').join('');
+      } else {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The type (begin, separate or end) of the field character a run holds, if any.
+   */
+  private fieldCharType(run: MemoryRun): string | undefined {
+    if (!run.opaque || run.mark || run.sourceId === undefined) return undefined;
+    return attr(child(this.pkg.sources[run.sourceId], 'fldChar'), 'fldCharType') ?? undefined;
+  }
+
+  private readRevision(el: Element): MemoryRevision {
+    return { type: el.localName === 'ins' ? 'insert' : 'delete', author: attr(el, 'author') ?? '', date: attr(el, 'date') ?? '', sourceId: this.register(el) };
+  }
+
+  private async readInline(parent: Element, partPath: string, rels: Relationships, hyperlink?: string): Promise<MemoryRun[]> {
+    const runs: MemoryRun[] = [];
+    for (const el of childElements(parent)) {
+      if (el.namespaceURI === NS.w && el.localName === 'pPr') continue;
+      if (el.namespaceURI === NS.w && el.localName === 'r') {
+        runs.push(...await this.readRun(el, partPath, rels, hyperlink));
+      } else if (el.namespaceURI === NS.w && el.localName === 'hyperlink' && !hyperlink) {
+        const anchor = attr(el, 'anchor');
+        const target = anchor !== null ? `#${anchor}` : rels.get(attr(el, 'id', NS.r))?.target;
+        runs.push(...await this.readInline(el, partPath, rels, target ?? ''));
+      } else if (isRevision(el) && !childElements(el).some(isRevision)) {
+        const revision = this.readRevision(el);
+        const inserted = await this.readInline(el, partPath, rels, hyperlink);
+        inserted.forEach(run => run.revision = revision);
+        runs.push(...inserted);
+      } else if (el.namespaceURI === NS.w && ['commentRangeStart', 'commentRangeEnd'].includes(el.localName!) && this.commentIds.has(Number(attr(el, 'id')))) {
+        const type = el.localName === 'commentRangeStart' ? 'commentStart' : 'commentEnd';
+        runs.push({ text: '', font: {}, opaque: true, mark: { type, id: Number(attr(el, 'id')) }, hyperlink, sourceId: this.register(el) });
+      } else if (el.namespaceURI === NS.w && el.localName === 'sdt' && child(el, 'sdtContent')) {
+        const control = this.readContentControl(el);
+        const id = this.contentControlCount++;
+        runs.push({ text: '', font: {}, opaque: true, mark: { type: 'contentControlStart', id, control }, hyperlink });
+        runs.push(...await this.readInline(child(el, 'sdtContent')!, partPath, rels, hyperlink));
+        runs.push({ text: '', font: {}, opaque: true, mark: { type: 'contentControlEnd', id }, hyperlink });
+      } else if (el.namespaceURI === NS.w && el.localName === 'fldSimple' && attr(el, 'instr') !== null) {
+        const id = this.fieldCount++;
+        const field: MemoryField = { code: attr(el, 'instr')!.trim(), sourceIds: [this.register(el)] };
+        runs.push({ text: '', font: {}, opaque: true, mark: { type: 'fieldStart', id, field }, hyperlink });
+        runs.push(...await this.readInline(el, partPath, rels, hyperlink));
+        runs.push({ text: '', font: {}, opaque: true, mark: { type: 'fieldEnd', id }, hyperlink });
+      } else if (el.namespaceURI === NS.w && el.localName === 'bookmarkStart' && attr(el, 'colFirst') === null) {
+        runs.push({ text: '', font: {}, opaque: true, mark: { type: 'bookmarkStart', id: Number(attr(el, 'id')), name: attr(el, 'name') ?? '' }, hyperlink, sourceId: this.register(el) });
+      } else if (el.namespaceURI === NS.w && el.localName === 'bookmarkEnd') {
+        runs.push({ text: '', font: {}, opaque: true, mark: { type: 'bookmarkEnd', id: Number(attr(el, 'id')) }, hyperlink, sourceId: this.register(el) });
+      } else {
+        runs.push({ text: '', font: {}, opaque: true, hyperlink, sourceId: this.register(el) });
+      }
+    }
+    return runs;
+  }
+
+  private async readRun(r: Element, partPath: string, rels: Relationships, hyperlink?: string): Promise<MemoryRun[]> {
+    const sourceId = this.register(r);
+    const rPr = child(r, 'rPr');
+    const font = readRunFont(rPr);
+    const characterStyle = styleName(this.pkg.styles, attr(child(rPr, 'rStyle'), 'val'));
+    if (characterStyle) font.style = characterStyle;
+    const reference = child(r, 'commentReference');
+    if (reference && childElements(r).every(el => el === reference || el === rPr) && this.commentIds.has(Number(attr(reference, 'id')))) {
+      return [{ text: '', font: {}, opaque: true, mark: { type: 'commentReference', id: Number(attr(reference, 'id')) }, hyperlink, sourceId }];
+    }
+    for (const kind of ['footnote', 'endnote'] as const) {
+      const noteReference = child(r, `${kind}Reference`);
+      if (noteReference && childElements(r).every(el => el === noteReference || el === rPr) && this.noteIds[kind]?.has(Number(attr(noteReference, 'id')))) {
+        return [{ text: '', font: {}, opaque: true, mark: { type: `${kind}Reference`, id: Number(attr(noteReference, 'id')) }, hyperlink, sourceId }];
+      }
+    }
+    const runs: MemoryRun[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) runs.push({ text, font: { ...font }, hyperlink, sourceId });
+      text = '';
+    };
+    for (const el of childElements(r)) {
+      if (el.namespaceURI !== NS.w) {
+        return [{ text: '', font: {}, opaque: true, hyperlink, sourceId }];
+      }
+      switch (el.localName) {
+        case 'rPr':
+        case 'lastRenderedPageBreak':
+          break;
+        case 't':
+        case 'delText':
+          text += el.textContent ?? '';
+          break;
+        case 'tab':
+          text += '\t';
+          break;
+        case 'br': {
+          const type = attr(el, 'type');
+          text += type === 'page' ? '\f' : type === 'column' ? '\u000e' : '\v';
+          break;
+        }
+        case 'cr':
+          text += '\v';
+          break;
+        case 'noBreakHyphen':
+          text += '\u001e';
+          break;
+        case 'softHyphen':
+          text += '\u001f';
+          break;
+        case 'drawing': {
+          const picture = await this.readPicture(el, partPath, rels);
+          if (!picture) {
+            return [{ text: '', font: {}, opaque: true, hyperlink, sourceId }];
+          }
+          flush();
+          runs.push({ text: OBJECT_CHARACTER, font: { ...font }, picture, hyperlink, sourceId });
+          break;
+        }
+        default:
+          // Fields, footnote references, objects, ... are kept as they are
+          return [{ text: '', font: {}, opaque: true, hyperlink, sourceId }];
+      }
+    }
+    flush();
+    return runs;
+  }
+
+  private async readPicture(drawing: Element, partPath: string, rels: Relationships): Promise<MemoryPicture | undefined> {
+    const inline = child(drawing, 'inline', NS.wp);
+    const blip = inline ? descendants(inline, 'blip', NS.a)[0] : undefined;
+    const extent = child(inline, 'extent', NS.wp);
+    if (!inline || !blip || !extent) return undefined; // Floating shapes, charts, ...
+    const embedded = rels.get(attr(blip, 'embed', NS.r));
+    const linked = rels.get(attr(blip, 'link', NS.r));
+    const file = embedded && !embedded.external ? this.pkg.zip.file(embedded.target) : null;
+    return {
+      filePath: linked?.target ?? '', // Embedded pictures keep no source path, as in Word
+      linkToFile: !!linked,
+      saveWithDocument: !!file,
+      width: Number(extent.getAttribute('cx')) / EMUS_PER_POINT,
+      height: Number(extent.getAttribute('cy')) / EMUS_PER_POINT,
+      lockAspectRatio: descendants(inline, 'graphicFrameLocks', NS.a)[0]?.getAttribute('noChangeAspect') === '1',
+      altText: child(inline, 'docPr', NS.wp)?.getAttribute('descr') || undefined,
+      data: file ? await file.async('uint8array') : undefined,
+      sourceId: this.register(drawing),
+      sourcePart: file ? embedded!.target : undefined,
+    };
+  }
+
+  private async readTable(tbl: Element, partPath: string, rels: Relationships): Promise<MemoryTable> {
+    const table: MemoryTable = { type: 'table', rows: [], sourceId: this.register(tbl) };
+    table.style = styleName(this.pkg.styles, attr(child(child(tbl, 'tblPr'), 'tblStyle'), 'val'));
+    const borders = readBorders(child(child(tbl, 'tblPr'), 'tblBorders'));
+    if (borders) table.borders = borders;
+    const grid = child(tbl, 'tblGrid');
+    const widths = (grid ? children(grid, 'gridCol') : []).map(col => twipsToPoints(attr(col, 'w')));
+    if (widths.length > 0 && widths.every(width => width !== undefined)) table.columnWidths = widths as number[];
+    for (const tr of children(tbl, 'tr')) {
+      const row: MemoryRow = { cells: [], sourceId: this.register(tr) };
+      if (toggleValue(child(child(tr, 'trPr'), 'tblHeader'))) row.headingFormat = true;
+      Object.assign(row, readRowHeight(child(child(tr, 'trPr'), 'trHeight')));
+      for (const tc of children(tr, 'tc')) {
+        const cell: MemoryCell = { blocks: await this.readBlocks(tc, partPath, rels), sourceId: this.register(tc) };
+        ensureParagraph(cell.blocks);
+        const tcPr = child(tc, 'tcPr');
+        const gridSpan = Number(attr(child(tcPr, 'gridSpan'), 'val') ?? 1);
+        if (gridSpan > 1) cell.colSpan = gridSpan;
+        const vMerge = child(tcPr, 'vMerge');
+        if (vMerge) cell.verticalMerge = attr(vMerge, 'val') === 'restart' ? 'restart' : 'continue';
+        const cellBorders = readBorders(child(tcPr, 'tcBorders'));
+        if (cellBorders) cell.borders = cellBorders;
+        const shading = readShading(child(tcPr, 'shd'));
+        if (shading) cell.shading = shading;
+        const vAlign = attr(child(tcPr, 'vAlign'), 'val');
+        const verticalAlignment = Object.entries(VERTICAL_ALIGNMENTS).find(([, v]) => v === vAlign)?.[0];
+        if (verticalAlignment !== undefined) cell.verticalAlignment = Number(verticalAlignment);
+        row.cells.push(cell);
+      }
+      table.rows.push(row);
+    }
+    return table;
+  }
+
+  /**
+   * Reads the comments part, with the replies and done state kept in the comments extended part.
+   */
+  async readComments(): Promise<MemoryComment[]> {
+    const dom = this.pkg.commentsPart ? this.pkg.parts.get(this.pkg.commentsPart) : undefined;
+    if (!dom) return [];
+    const rels = await Relationships.load(this.pkg.zip, this.pkg.commentsPart!);
+    const extended = this.pkg.commentsExtendedPart ? this.pkg.parts.get(this.pkg.commentsExtendedPart) : undefined;
+    const states = extended ? children(extended.documentElement!, 'commentEx', NS.w15) : [];
+    const comments: MemoryComment[] = [];
+    for (const el of children(dom.documentElement!, 'comment')) {
+      const id = Number(attr(el, 'id'));
+      if (attr(el, 'id') === null || !Number.isInteger(id)) continue;
+      const content: MemoryStory = { blocks: await this.readBlocks(el, this.pkg.commentsPart!, rels) };
+      ensureParagraph(content.blocks);
+      const comment: MemoryComment = { id, author: attr(el, 'author') ?? '', initials: attr(el, 'initials') ?? '', date: attr(el, 'date') ?? '', content, sourceId: this.register(el) };
+      const paraId = attr(children(el, 'p').pop(), 'paraId', NS.w14);
+      if (paraId) comment.paraId = paraId;
+      comments.push(comment);
+    }
+    for (const comment of comments) {
+      const state = states.find(el => comment.paraId !== undefined && attr(el, 'paraId', NS.w15) === comment.paraId);
+      if (['1', 'true', 'on'].includes(attr(state, 'done', NS.w15) ?? '')) comment.done = true;
+      const parent = comments.find(c => c.paraId !== undefined && c.paraId === attr(state, 'paraIdParent', NS.w15));
+      if (parent && parent !== comment) comment.parentId = parent.id;
+    }
+    return comments;
+  }
+
+  /**
+   * Reads the footnotes or endnotes part. The separator notes stay in the part; the reference mark at the start
+   * of each note, and the space after it, are left out, as they are written anew.
+   */
+  async readNotes(kind: MemoryNoteKind): Promise<MemoryNote[]> {
+    const partPath = kind === 'footnote' ? this.pkg.footnotesPart : this.pkg.endnotesPart;
+    const dom = partPath ? this.pkg.parts.get(partPath) : undefined;
+    if (!dom) return [];
+    const rels = await Relationships.load(this.pkg.zip, partPath!);
+    const notes: MemoryNote[] = [];
+    for (const el of children(dom.documentElement!, kind)) {
+      const id = Number(attr(el, 'id'));
+      if (isSeparatorNote(el) || attr(el, 'id') === null || !Number.isInteger(id)) continue;
+      const content: MemoryStory = { blocks: await this.readBlocks(el, partPath!, rels) };
+      ensureParagraph(content.blocks);
+      const first = content.blocks[0];
+      const mark = first.type === 'paragraph'
+        ? first.runs.findIndex(run => run.opaque && !run.mark && child(this.pkg.sources[run.sourceId!], `${kind}Ref`))
+        : -1;
+      if (mark >= 0) {
+        const paragraph = first as MemoryParagraph;
+        paragraph.runs.splice(mark, 1);
+        const next = paragraph.runs[mark];
+        if (next?.text.startsWith(' ') && !next.picture) next.text = next.text.slice(1);
+        normalizeRuns(paragraph);
+      }
+      notes.push({ id, content, sourceId: this.register(el) });
+    }
+    return notes;
+  }
+
+  /**
+   * Reads a header or footer part into a story.
+   */
+  async readStoryPart(partPath: string): Promise<MemoryStory> {
+    const file = this.pkg.zip.file(partPath);
+    if (!file) return createStory();
+    const dom = parseXml(await file.async('string'));
+    this.pkg.parts.set(partPath, dom);
+    const rels = await Relationships.load(this.pkg.zip, partPath);
+    const story: MemoryStory = { blocks: await this.readBlocks(dom.documentElement!, partPath, rels) };
+    ensureParagraph(story.blocks);
+    this.pkg.storyParts.set(story, partPath);
+    return story;
+  }
+
+  async readSection(sectPr: Element, rels: Relationships, oddAndEvenPages: boolean): Promise<MemorySection> {
+    const section: MemorySection = { pageSetup: readPageSetup(sectPr, oddAndEvenPages), headers: {}, footers: {}, sourceId: this.register(sectPr) };
+    for (const [kind, stories] of [['headerReference', section.headers], ['footerReference', section.footers]] as const) {
+      for (const [index, type] of Object.entries(HEADER_FOOTER_TYPES)) {
+        const reference = children(sectPr, kind).find(el => (attr(el, 'type') ?? 'default') === type);
+        const target = reference ? rels.get(attr(reference, 'id', NS.r))?.target : undefined;
+        stories[Number(index)] = target ? await this.readStoryPart(target) : createStory();
+      }
+    }
+    return section;
+  }
+}
+
+/**
+ * Whether a footnote or endnote element is one of the special notes separating the notes from the text.
+ */
+function isSeparatorNote(el: Element): boolean {
+  return (attr(el, 'type') ?? 'normal') !== 'normal';
+}
+
+/**
+ * Whether an element is a tracked insertion or deletion (w:ins or w:del).
+ */
+function isRevision(el: Element): boolean {
+  return el.namespaceURI === NS.w && (el.localName === 'ins' || el.localName === 'del');
+}
+
+/**
+ * Whether a block-level element is a content control holding a table of contents, as Word inserts them.
+ */
+function isTocContentControl(el: Element): boolean {
+  const gallery = child(child(child(el, 'sdtPr'), 'docPartObj'), 'docPartGallery');
+  return el.namespaceURI === NS.w && el.localName === 'sdt' && attr(gallery, 'val') === 'Table of Contents';
+}
+
+/**
+ * Whether an element is a content control around paragraphs (and tables) that starts and ends with a paragraph,
+ * which the model represents by marks in those paragraphs.
+ */
+function isParagraphContentControl(el: Element): boolean {
+  const content = child(el, 'sdtContent');
+  if (el.namespaceURI !== NS.w || el.localName !== 'sdt' || !content) return false;
+  const blocks = childElements(content);
+  return [blocks[0], blocks[blocks.length - 1]].every(block => block?.namespaceURI === NS.w && block.localName === 'p');
+}
+
+/**
+ * The WdContentControlType of a content control from the choice element of its properties.
+ */
+function contentControlType(sdtPr: Element | undefined): number {
+  if (child(sdtPr, 'checkbox', NS.w14)) return 8;
+  if (child(sdtPr, 'repeatingSection', NS.w15)) return 9;
+  const types: { [localName: string]: number } = { text: 1, picture: 2, comboBox: 3, dropDownList: 4, docPartObj: 5, docPartList: 5, date: 6, group: 7 };
+  const choice = (sdtPr ? childElements(sdtPr) : []).find(el => el.namespaceURI === NS.w && types[el.localName!] !== undefined);
+  return choice ? types[choice.localName!] : 0;
+}
+
+/**
+ * The type element of the properties of a new content control.
+ */
+function newContentControlType(control: MemoryContentControl): string {
+  const items = (control.entries ?? []).map(entry => `<w:listItem w:displayText="${escapeAttribute(entry.text)}" w:value="${escapeAttribute(entry.value)}"/>`).join('');
+  switch (control.type) {
+    case 1: return '<w:text/>';
+    case 3: return `<w:comboBox>${items}</w:comboBox>`;
+    case 4: return `<w:dropDownList>${items}</w:dropDownList>`;
+    case 6: return `<w:date${control.date ? ` w:fullDate="${control.date}"` : ''}><w:dateFormat w:val="${escapeAttribute(control.dateFormat ?? 'M/d/yyyy')}"/><w:lid w:val="en-US"/><w:storeMappedDataAs w:val="dateTime"/><w:calendar w:val="gregorian"/></w:date>`;
+    case 8: return `<w14:checkbox><w14:checked w14:val="${control.checked ? 1 : 0}"/><w14:checkedState w14:val="2612" w14:font="MS Gothic"/><w14:uncheckedState w14:val="2610" w14:font="MS Gothic"/></w14:checkbox>`;
+    default: return '';
+  }
+}
+
+// ST_Lock <-> lockControl/lockContents
+const LOCKS: { [lock: string]: { lockControl?: boolean; lockContents?: boolean } } = {
+  sdtLocked: { lockControl: true },
+  contentLocked: { lockContents: true },
+  sdtContentLocked: { lockControl: true, lockContents: true },
+};
+
+function readLock(sdtPr: Element | undefined): { lockControl?: boolean; lockContents?: boolean } {
+  return { ...LOCKS[attr(child(sdtPr, 'lock'), 'val') ?? ''] };
+}
+
+function isChecked(checkbox: Element): boolean {
+  return ['1', 'true', 'on'].includes(attr(child(checkbox, 'checked', NS.w14), 'val', NS.w14) ?? '');
+}
+
+function readBorders(el: Element | undefined): Borders | undefined {
+  if (!el) return undefined;
+  const borders: Borders = {};
+  for (const [side, name, alternative] of BORDER_ELEMENTS) {
+    const line = child(el, name) ?? (alternative ? child(el, alternative) : undefined);
+    if (!line) continue;
+    const lineStyle = BORDER_STYLE_VALUES[attr(line, 'val') ?? 'single'] ?? 1;
+    borders[side] = lineStyle === 0 ? { lineStyle, lineWidth: 0, color: 'auto' } : {
+      lineStyle,
+      lineWidth: Number(attr(line, 'sz') ?? 4) / 8, // Eighths of a point
+      color: attr(line, 'color') ?? 'auto',
+    };
+  }
+  return borders;
+}
+
+/**
+ * Replaces the border element (w:tblBorders or w:tcBorders) of a properties element when the borders changed.
+ */
+function writeBorders(parent: Element, name: string, order: string[], borders: Borders | undefined): void {
+  const current = readBorders(child(parent, name));
+  const same = (a: Borders = {}, b: Borders = {}) => BORDER_ELEMENTS.every(([side]) => JSON.stringify(a[side]) === JSON.stringify(b[side]));
+  if (same(current, borders) && !!current === !!borders) return;
+  removeChildren(parent, name);
+  if (!borders) return;
+  const el = createElement(parent.ownerDocument!, name);
+  for (const [side, elementName] of BORDER_ELEMENTS) {
+    const line = borders[side];
+    if (!line) continue;
+    el.appendChild(createElement(parent.ownerDocument!, elementName, line.lineStyle === 0 ? { val: 'nil' } : {
+      val: BORDER_STYLES[line.lineStyle] ?? 'single',
+      sz: String(Math.round(line.lineWidth * 8)),
+      space: '0',
+      color: line.color,
+    }));
+  }
+  insertOrdered(parent, el, order);
+}
+
+function readShading(shd: Element | undefined): string | undefined {
+  const fill = attr(shd, 'fill');
+  return fill && fill !== 'auto' ? fill : undefined;
+}
+
+function readRowHeight(trHeight: Element | undefined): { height?: number; heightRule?: number } {
+  const height = twipsToPoints(attr(trHeight, 'val'));
+  const hRule = attr(trHeight, 'hRule') ?? 'atLeast';
+  if (height === undefined || hRule === 'auto') return {};
+  return { height, heightRule: hRule === 'exact' ? 2 : 1 };
+}
+
+function readListLevel(lvl: Element | undefined, level: number): MemoryListLevel {
+  if (!lvl) {
+    return { numberStyle: 0, numberFormat: `%${level}.`, startAt: 1, textPosition: 36 * level };
+  }
+  const ind = child(child(lvl, 'pPr'), 'ind');
+  const result: MemoryListLevel = {
+    numberStyle: NUMBER_FORMAT_VALUES[attr(child(lvl, 'numFmt'), 'val') ?? 'decimal'] ?? 0,
+    numberFormat: attr(child(lvl, 'lvlText'), 'val') ?? '',
+    startAt: Number(attr(child(lvl, 'start'), 'val') ?? 0),
+    textPosition: twipsToPoints(attr(ind, 'left') ?? attr(ind, 'start')) ?? 0,
+  };
+  const font = attr(child(child(lvl, 'rPr'), 'rFonts'), 'ascii');
+  if (font) result.font = font;
+  return result;
+}
+
+/**
+ * Reads the list templates (w:abstractNum) and lists (w:num) of the numbering part.
+ */
+function readNumbering(numberingDom: Document | undefined): { listTemplates: MemoryListTemplate[]; lists: MemoryList[] } {
+  if (!numberingDom) return { listTemplates: [], lists: [] };
+  const root = numberingDom.documentElement!;
+  const listTemplates = children(root, 'abstractNum').map((el): MemoryListTemplate => ({
+    id: Number(attr(el, 'abstractNumId')),
+    levels: Array.from({ length: 9 }, (_, i) => readListLevel(children(el, 'lvl').find(lvl => attr(lvl, 'ilvl') === String(i)), i + 1)),
+  }));
+  const lists = children(root, 'num').map((el): MemoryList => {
+    const list: MemoryList = { id: Number(attr(el, 'numId')), templateId: Number(attr(child(el, 'abstractNumId'), 'val')) };
+    const startOverride = attr(child(children(el, 'lvlOverride').find(o => attr(o, 'ilvl') === '0'), 'startOverride'), 'val');
+    if (startOverride !== null) list.startAt = Number(startOverride);
+    return list;
+  });
+  return { listTemplates, lists: lists.filter(list => list.id > 0 && listTemplates.some(t => t.id === list.templateId)) };
+}
+
+function ensureParagraph(blocks: MemoryBlock[]): void {
+  if (!blocks.some(block => block.type === 'paragraph')) {
+    blocks.push(createParagraph());
+  }
+}
+
+function readParagraphFormat(pPr: Element | undefined): ParagraphFormat {
+  const format: ParagraphFormat = {};
+  const jc = attr(child(pPr, 'jc'), 'val');
+  if (jc !== null && jc in ALIGNMENT_VALUES) format.alignment = ALIGNMENT_VALUES[jc];
+  const ind = child(pPr, 'ind');
+  if (ind) {
+    format.leftIndent = twipsToPoints(attr(ind, 'left') ?? attr(ind, 'start'));
+    format.rightIndent = twipsToPoints(attr(ind, 'right') ?? attr(ind, 'end'));
+    const hanging = twipsToPoints(attr(ind, 'hanging'));
+    format.firstLineIndent = hanging !== undefined ? -hanging : twipsToPoints(attr(ind, 'firstLine'));
+  }
+  const spacing = child(pPr, 'spacing');
+  if (spacing) {
+    format.spaceBefore = twipsToPoints(attr(spacing, 'before'));
+    format.spaceAfter = twipsToPoints(attr(spacing, 'after'));
+    const line = attr(spacing, 'line');
+    if (line !== null) {
+      const rule = attr(spacing, 'lineRule') ?? 'auto';
+      if (rule === 'atLeast') {
+        format.lineSpacingRule = 3;
+        format.lineSpacing = twipsToPoints(line);
+      } else if (rule === 'exact') {
+        format.lineSpacingRule = 4;
+        format.lineSpacing = twipsToPoints(line);
+      } else {
+        const lines = Number(line) / 240;
+        const presets: { [lines: number]: number } = { 1: 0, 1.5: 1, 2: 2 };
+        format.lineSpacingRule = presets[lines] ?? 5;
+        if (format.lineSpacingRule === 5) format.lineSpacing = lines;
+      }
+    }
+  }
+  for (const key of Object.keys(format) as (keyof ParagraphFormat)[]) {
+    if (format[key] === undefined) delete format[key];
+  }
+  return format;
+}
+
+function readRunFont(rPr: Element | undefined): RunFont {
+  const font: RunFont = {};
+  const bold = toggleValue(child(rPr, 'b'));
+  const italic = toggleValue(child(rPr, 'i'));
+  const underline = attr(child(rPr, 'u'), 'val');
+  if (bold !== undefined) font.bold = bold;
+  if (italic !== undefined) font.italic = italic;
+  if (underline !== null) font.underline = UNDERLINE_VALUES[underline] ?? 1;
+  const name = attr(child(rPr, 'rFonts'), 'ascii');
+  if (name !== null) font.name = name;
+  const size = Number(attr(child(rPr, 'sz'), 'val') ?? NaN);
+  if (Number.isFinite(size)) font.size = size / 2;
+  const color = attr(child(rPr, 'color'), 'val');
+  if (color !== null) font.color = color;
+  return font;
+}
+
+function readPageSetup(sectPr: Element, oddAndEvenPages: boolean): PageSetup {
+  const pageSetup = createPageSetup();
+  const pgSz = child(sectPr, 'pgSz');
+  const pgMar = child(sectPr, 'pgMar');
+  pageSetup.pageWidth = twipsToPoints(attr(pgSz, 'w')) ?? pageSetup.pageWidth;
+  pageSetup.pageHeight = twipsToPoints(attr(pgSz, 'h')) ?? pageSetup.pageHeight;
+  pageSetup.orientation = attr(pgSz, 'orient') === 'landscape' ? 1 : 0;
+  const code = Number(attr(pgSz, 'code'));
+  const bySize = Object.entries(PAPER_SIZES).find(([, [w, h]]) => {
+    const [width, height] = pageSetup.orientation === 1 ? [h, w] : [w, h];
+    return Math.abs(width - pageSetup.pageWidth) < 2 && Math.abs(height - pageSetup.pageHeight) < 2;
+  });
+  const byCode = Object.entries(PAPER_CODES).find(([, value]) => value === code);
+  pageSetup.paperSize = Number(byCode?.[0] ?? bySize?.[0] ?? PAPER_CUSTOM);
+  pageSetup.topMargin = twipsToPoints(attr(pgMar, 'top')) ?? pageSetup.topMargin;
+  pageSetup.bottomMargin = twipsToPoints(attr(pgMar, 'bottom')) ?? pageSetup.bottomMargin;
+  pageSetup.leftMargin = twipsToPoints(attr(pgMar, 'left')) ?? pageSetup.leftMargin;
+  pageSetup.rightMargin = twipsToPoints(attr(pgMar, 'right')) ?? pageSetup.rightMargin;
+  pageSetup.differentFirstPageHeaderFooter = !!toggleValue(child(sectPr, 'titlePg'));
+  pageSetup.oddAndEvenPagesHeaderFooter = oddAndEvenPages;
+  return pageSetup;
+}
+
+async function readPart(zip: JSZip, partPath: string): Promise<Document | undefined> {
+  const file = zip.file(partPath);
+  return file ? parseXml(await file.async('string')) : undefined;
+}
+
+/**
+ * Loads a package and locates its main document part.
+ */
+async function loadPackage(zip: JSZip): Promise<DocxPackage> {
+  const packageRels = await Relationships.load(zip, '');
+  const documentPart = packageRels.findByType(REL_TYPE.officeDocument)?.target ?? 'word/document.xml';
+  const documentDom = await readPart(zip, documentPart);
+  if (!documentDom || !child(documentDom.documentElement, 'body')) {
+    throw new Error("The file is not a valid Word document: main document part not found.");
+  }
+  const documentRels = await Relationships.load(zip, documentPart);
+  const parts = new Map([[documentPart, documentDom]]);
+  // Parses the part the main document relates to with the given type; returns its path if it exists
+  const loadRelated = async (type: string) => {
+    const target = documentRels.findByType(type)?.target;
+    const dom = target ? await readPart(zip, target) : undefined;
+    if (target && dom) parts.set(target, dom);
+    return dom ? target : undefined;
+  };
+  const stylesPart = await loadRelated(REL_TYPE.styles);
+  return {
+    zip,
+    documentPart,
+    parts,
+    sources: [],
+    storyParts: new Map(),
+    stylesPart,
+    numberingPart: await loadRelated(REL_TYPE.numbering),
+    commentsPart: await loadRelated(REL_TYPE.comments),
+    commentsExtendedPart: await loadRelated(REL_TYPE.commentsExtended),
+    footnotesPart: await loadRelated(REL_TYPE.footnotes),
+    endnotesPart: await loadRelated(REL_TYPE.endnotes),
+    styles: readStyles(stylesPart ? parts.get(stylesPart) : undefined),
+  };
+}
+
+/**
+ * Creates the package for a document that was not loaded from a file.
+ */
+export async function createPackage(): Promise<DocxPackage> {
+  const zip = new JSZip();
+  for (const [partPath, xml] of Object.entries(blankPackageFiles())) {
+    zip.file(partPath, xml);
+  }
+  return loadPackage(zip);
+}
+
+async function settingsPart(pkg: DocxPackage): Promise<string | undefined> {
+  return (await Relationships.load(pkg.zip, pkg.documentPart)).findByType(REL_TYPE.settings)?.target;
+}
+
+/**
+ * Reads a .docx file into a document model.
+ * @param data The package bytes.
+ * @param name Document name (usually the file name).
+ */
+export async function readDocx(data: Uint8Array, name: string): Promise<{ doc: MemoryDocument; pkg: DocxPackage }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new Error(`The file is not a valid Word document (not a zip package). Error: ${error}`);
+  }
+  const pkg = await loadPackage(zip);
+  const numbering = readNumbering(pkg.numberingPart ? pkg.parts.get(pkg.numberingPart) : undefined);
+  const listIds = new Set(numbering.lists.map(list => list.id));
+  const comments = await new DocxReader(pkg, listIds).readComments();
+  const footnotes = await new DocxReader(pkg, listIds).readNotes('footnote');
+  const endnotes = await new DocxReader(pkg, listIds).readNotes('endnote');
+  const reader = new DocxReader(pkg, listIds, new Set(comments.map(comment => comment.id)), {
+    footnote: new Set(footnotes.map(note => note.id)),
+    endnote: new Set(endnotes.map(note => note.id)),
+  });
+  const documentDom = pkg.parts.get(pkg.documentPart)!;
+  const body = child(documentDom.documentElement, 'body')!;
+  const rels = await Relationships.load(zip, pkg.documentPart);
+
+  const doc = createDocument(name);
+  doc.styles = readStyleDefinitions(pkg.stylesPart ? pkg.parts.get(pkg.stylesPart) : undefined, pkg.styles);
+  doc.listTemplates = numbering.listTemplates;
+  doc.lists = numbering.lists;
+  doc.comments = comments;
+  doc.footnotes = footnotes;
+  doc.endnotes = endnotes;
+  doc.body = { blocks: await reader.readBlocks(body, pkg.documentPart, rels) };
+  ensureParagraph(doc.body.blocks);
+
+  const settingsPath = await settingsPart(pkg);
+  const settings = settingsPath ? await readPart(zip, settingsPath) : undefined;
+  const oddAndEvenPages = !!toggleValue(child(settings?.documentElement, 'evenAndOddHeaders'));
+  if (toggleValue(child(settings?.documentElement, 'trackRevisions'))) {
+    doc.trackRevisions = true;
+  }
+  const sectPrs = [...descendants(body, 'sectPr').filter(el => el.parentNode !== body), ...children(body, 'sectPr')];
+  doc.sections = [];
+  for (const sectPr of sectPrs) {
+    doc.sections.push(await reader.readSection(sectPr, rels, oddAndEvenPages));
+  }
+  if (doc.sections.length === 0) {
+    doc.sections.push(await reader.readSection(createElement(documentDom, 'sectPr'), rels, oddAndEvenPages));
+  }
+  return { doc, pkg };
+}
+
+// --- Writing ---
+
+/**
+ * Per-part state while writing: the DOM new elements belong to and the part's relationships.
+ */
+interface PartWriter {
+  partPath: string;
+  dom: Document;
+  rels: Relationships;
+}
+
+class DocxWriter {
+  private drawingId = 1;
+  private newContentTypes = new Map<string, string>(); // part path or extension -> content type
+  private readonly comments: MemoryComment[]; // Comments still anchored in the body
+  private readonly notes: { [kind in MemoryNoteKind]: MemoryNote[] }; // Notes whose reference mark is still in the body
+  private annotationId: number; // Next id for new w:ins, w:del and bookmark elements, which share one id space
+  private writtenRevisions = new Set<MemoryRevision>();
+  private bookmarkIds = new Map<number, string>(); // Model id -> id written for new bookmarks
+
+  constructor(private readonly pkg: DocxPackage, private readonly doc: MemoryDocument) {
+    this.comments = listComments(doc).map(slot => slot.comment);
+    this.notes = { footnote: listNotes(doc, 'footnote').map(slot => slot.note), endnote: listNotes(doc, 'endnote').map(slot => slot.note) };
+    // Above the ids of the revisions, bookmarks and comments in the file
+    const fileAnnotations = [...pkg.parts.values()].flatMap(dom => ['ins', 'del', 'bookmarkStart', 'commentRangeStart'].flatMap(name => descendants(dom, name)));
+    const fileMax = fileAnnotations.reduce((max, el) => Math.max(max, Number(attr(el, 'id')) || 0), 0);
+    this.annotationId = this.comments.reduce((max, comment) => Math.max(max, comment.id), fileMax) + 1;
+  }
+
+  private source(sourceId: number | undefined, localName: string, namespace: string = NS.w): Element | undefined {
+    const el = sourceId === undefined ? undefined : this.pkg.sources[sourceId];
+    return el && el.localName === localName && el.namespaceURI === namespace ? el : undefined;
+  }
+
+  private clone(el: Element, part: PartWriter): Element {
+    return part.dom.importNode(el, true) as Element;
+  }
+
+  /**
+   * Text width of the first section in twips, used to size new table columns.
+   */
+  private textWidthTwips(): number {
+    const { pageWidth, leftMargin, rightMargin } = this.doc.sections[0].pageSetup;
+    return Math.round((pageWidth - leftMargin - rightMargin) * 20);
+  }
+
+  /**
+   * Writes blocks. Paragraphs from the start to the end mark of a block-level content control are wrapped in it.
+   * @param openControls Ids of the block-level content controls being written around the blocks.
+   */
+  writeBlocks(blocks: MemoryBlock[], part: PartWriter, sectionBreaks?: Element[], openControls: number[] = []): Element[] {
+    const result: Element[] = [];
+    for (let i = 0; i < blocks.length; i++) {
+      const block = blocks[i];
+      const start = block.type === 'paragraph'
+        ? block.runs.find(run => run.mark?.type === 'contentControlStart' && run.mark.control?.block && !openControls.includes(run.mark.id))
+        : undefined;
+      if (start) {
+        const { id, control } = start.mark!;
+        const endsIn = (b: MemoryBlock) => b.type === 'paragraph' && b.runs.some(run => run.mark?.type === 'contentControlEnd' && run.mark.id === id);
+        const last = Math.max(blocks.findIndex((b, j) => j >= i && endsIn(b)), i);
+        const sdt = this.writeContentControl(control!, part);
+        for (const el of this.writeBlocks(blocks.slice(i, last + 1), part, sectionBreaks, [...openControls, id])) {
+          child(sdt, 'sdtContent')!.appendChild(el);
+        }
+        result.push(sdt);
+        i = last;
+      } else if (block.type === 'paragraph') {
+        result.push(this.writeParagraph(block, part, block.sectionBreak ? sectionBreaks?.shift() : undefined));
+      } else if (block.type === 'table') {
+        result.push(this.writeTable(block, part));
+      } else if (block.type === 'toc') {
+        result.push(this.writeTableOfContents(block, part));
+      } else {
+        const el = this.pkg.sources[block.sourceId];
+        if (el) result.push(this.clone(el, part));
+      }
+    }
+    return result;
+  }
+
+  private writeParagraph(paragraph: MemoryParagraph, part: PartWriter, sectPr?: Element): Element {
+    const source = this.source(paragraph.sourceId, 'p');
+    const p = createElement(part.dom, 'p');
+    const sourcePPr = child(source, 'pPr');
+    const pPr = sourcePPr ? this.clone(sourcePPr, part) : createElement(part.dom, 'pPr');
+    removeChildren(pPr, 'sectPr');
+
+    const style = paragraph.style === this.pkg.styles.defaultParagraphStyle ? undefined : styleId(this.pkg.styles, paragraph.style);
+    setValueChild(pPr, 'pStyle', style, PPR_ORDER);
+    const numPr = child(pPr, 'numPr');
+    const numId = attr(child(numPr, 'numId'), 'val');
+    if (paragraph.list) {
+      const el = createElement(part.dom, 'numPr');
+      el.appendChild(createElement(part.dom, 'ilvl', { val: String(paragraph.list.level - 1) }));
+      el.appendChild(createElement(part.dom, 'numId', { val: String(paragraph.list.listId) }));
+      if (numPr) pPr.replaceChild(el, numPr);
+      else insertOrdered(pPr, el, PPR_ORDER);
+    } else if (numPr && numId !== null && numId !== '0') {
+      pPr.removeChild(numPr); // numId 0 (numbering of the style switched off) is kept
+    }
+    writeParagraphFormat(pPr, paragraph.format);
+    if (sectPr) insertOrdered(pPr, sectPr, PPR_ORDER);
+    this.writeMarkRevision(pPr, paragraph.markRevision, part);
+    if (childElements(pPr).length > 0) p.appendChild(pPr);
+
+    let hyperlink: Element | undefined;
+    let hyperlinkTarget: string | undefined;
+    let revision: Element | undefined;
+    let revisionOf: MemoryRevision | undefined;
+    // Inline content controls and simple fields being written, whose content goes inside them
+    const containers: { type: 'contentControlEnd' | 'fieldEnd'; id: number; content: Element }[] = [];
+    for (const run of paragraph.runs) {
+      const base = containers.length > 0 ? containers[containers.length - 1].content : p;
+      if (run.mark?.type === 'contentControlStart' && !run.mark.control?.block) {
+        const sdt = this.writeContentControl(run.mark.control!, part);
+        base.appendChild(sdt);
+        containers.push({ type: 'contentControlEnd', id: run.mark.id, content: child(sdt, 'sdtContent')! });
+        hyperlink = undefined;
+        continue;
+      }
+      const simpleField = run.mark?.type === 'fieldStart' ? this.simpleFieldSource(run.mark.field!) : undefined;
+      if (simpleField) {
+        const fldSimple = part.dom.importNode(simpleField, false) as Element;
+        if (run.mark!.field!.dirty) setAttr(fldSimple, 'dirty', 'true');
+        base.appendChild(fldSimple);
+        containers.push({ type: 'fieldEnd', id: run.mark!.id, content: fldSimple });
+        hyperlink = undefined;
+        continue;
+      }
+      const open = containers.findIndex(container => container.type === run.mark?.type && container.id === run.mark.id);
+      if (open >= 0) {
+        containers.splice(open);
+        hyperlink = undefined;
+        continue;
+      }
+      if (run.mark?.type === 'contentControlEnd') {
+        continue;
+      }
+      const el = this.writeRun(run, part);
+      if (!el) continue;
+      let container = base;
+      if (run.hyperlink === undefined) {
+        hyperlink = undefined;
+      } else {
+        if (!hyperlink || hyperlinkTarget !== run.hyperlink) {
+          hyperlink = createElement(part.dom, 'hyperlink');
+          hyperlinkTarget = run.hyperlink;
+          if (run.hyperlink.startsWith('#')) {
+            setAttr(hyperlink, 'anchor', run.hyperlink.slice(1));
+          } else {
+            setAttr(hyperlink, 'id', part.rels.ensure(REL_TYPE.hyperlink, run.hyperlink, true), NS.r, 'r');
+            setAttr(hyperlink, 'history', '1');
+          }
+          base.appendChild(hyperlink);
+        }
+        container = hyperlink;
+      }
+      if (!run.revision) {
+        container.appendChild(el);
+        continue;
+      }
+      // Runs changed together share one w:ins or w:del, inside the hyperlink if there is one
+      if (!revision || revisionOf !== run.revision || container.lastChild !== revision) {
+        revision = this.writeRevision(run.revision, part);
+        revisionOf = run.revision;
+        container.appendChild(revision);
+      }
+      revision.appendChild(el);
+    }
+    return p;
+  }
+
+  private writeRun(run: MemoryRun, part: PartWriter): Element | DocumentFragment | undefined {
+    if (run.mark) {
+      return this.writeMark(run, part);
+    }
+    if (run.opaque) {
+      const el = run.sourceId === undefined ? undefined : this.pkg.sources[run.sourceId];
+      return el ? this.clone(el, part) : undefined;
+    }
+    const source = this.source(run.sourceId, 'r');
+    const r = createElement(part.dom, 'r');
+    const sourceRPr = child(source, 'rPr');
+    const rPr = sourceRPr ? this.clone(sourceRPr, part) : createElement(part.dom, 'rPr');
+    writeRunFont(rPr, run.font);
+    const newLink = run.hyperlink !== undefined && !source && this.pkg.styles.nameToId.has('Hyperlink');
+    const characterStyle = run.font.style ?? (newLink ? 'Hyperlink' : undefined);
+    setValueChild(rPr, 'rStyle', characterStyle === undefined ? undefined : styleId(this.pkg.styles, characterStyle), RPR_ORDER);
+    if (childElements(rPr).length > 0) r.appendChild(rPr);
+
+    if (run.picture) {
+      r.appendChild(this.writePicture(run.picture, part));
+      return r;
+    }
+    for (const segment of run.text.split(/([\t\v\f\u000e\u001e\u001f])/)) {
+      if (!segment) continue;
+      if (SPECIAL_CHARACTERS.test(segment)) {
+        const special: { [c: string]: [string, { [name: string]: string }] } = {
+          '\t': ['tab', {}],
+          '\v': ['br', {}],
+          '\f': ['br', { type: 'page' }],
+          '\u000e': ['br', { type: 'column' }],
+          '\u001e': ['noBreakHyphen', {}],
+          '\u001f': ['softHyphen', {}],
+        };
+        const [localName, attributes] = special[segment];
+        r.appendChild(createElement(part.dom, localName, attributes));
+      } else {
+        const t = createElement(part.dom, run.revision?.type === 'delete' ? 'delText' : 't');
+        if (segment !== segment.trim()) {
+          t.setAttributeNS('http://www.w3.org/XML/1998/namespace', 'xml:space', 'preserve');
+        }
+        t.appendChild(part.dom.createTextNode(segment));
+        r.appendChild(t);
+      }
+    }
+    return r;
+  }
+
+  /**
+   * Creates the w:ins or w:del element of a revision, keeping the one it was read from.
+   * A revision split by other content gets a new id for each further element.
+   */
+  private writeRevision(revision: MemoryRevision, part: PartWriter): Element {
+    const localName = revision.type === 'insert' ? 'ins' : 'del';
+    const source = this.source(revision.sourceId, localName);
+    let el: Element;
+    if (source) {
+      el = part.dom.importNode(source, false) as Element;
+      if (this.writtenRevisions.has(revision)) setAttr(el, 'id', String(this.annotationId++));
+    } else {
+      el = createElement(part.dom, localName, { id: String(this.annotationId++), author: revision.author, date: revision.date });
+    }
+    this.writtenRevisions.add(revision);
+    return el;
+  }
+
+  /**
+   * Writes the revision of a paragraph mark into the run properties of the paragraph properties.
+   */
+  private writeMarkRevision(pPr: Element, revision: MemoryRevision | undefined, part: PartWriter): void {
+    let rPr = child(pPr, 'rPr');
+    const previous = rPr ? childElements(rPr).filter(isRevision) : [];
+    previous.forEach(el => rPr!.removeChild(el));
+    if (revision) {
+      if (!rPr) {
+        rPr = createElement(part.dom, 'rPr');
+        insertOrdered(pPr, rPr, PPR_ORDER);
+      }
+      rPr.insertBefore(this.writeRevision(revision, part), rPr.firstChild);
+    } else if (rPr && previous.length > 0 && childElements(rPr).length === 0) {
+      pPr.removeChild(rPr);
+    }
+  }
+
+  /**
+   * Writes a mark: a comment range start or end element, the run holding a comment or note reference, a bookmark
+   * start or end, or the runs starting or ending a field. Marks of deleted comments and notes are dropped.
+   */
+  private writeMark(run: MemoryRun, part: PartWriter): Element | DocumentFragment | undefined {
+    const { type, id } = run.mark!;
+    if (type === 'bookmarkStart' || type === 'bookmarkEnd') {
+      return this.writeBookmarkMark(run, part);
+    }
+    if (type === 'fieldStart') {
+      return this.writeFieldStart(run.mark!.field!, part);
+    }
+    if (type === 'fieldEnd') {
+      const source = this.source(run.sourceId, 'r');
+      return source ? this.clone(source, part) : this.writeFieldChar('end', part);
+    }
+    if (type === 'contentControlStart' || type === 'contentControlEnd') {
+      return undefined; // Written as the w:sdt around the content
+    }
+    if (type === 'footnoteReference' || type === 'endnoteReference') {
+      const kind = type === 'footnoteReference' ? 'footnote' : 'endnote';
+      if (!this.notes[kind].some(note => note.id === id)) return undefined;
+      const source = this.source(run.sourceId, 'r');
+      // A converted note keeps the run it was read from, but not its reference element
+      if (attr(child(source, type), 'id') === String(id)) return this.clone(source!, part);
+      return this.writeNoteMarkRun(kind, type, { id: String(id) }, part);
+    }
+    if (!this.comments.some(comment => comment.id === id)) return undefined;
+    if (type === 'commentReference') {
+      const source = this.source(run.sourceId, 'r');
+      if (source) return this.clone(source, part);
+      const r = createElement(part.dom, 'r');
+      if (this.pkg.styles.nameToId.has('Annotation Reference')) {
+        const rPr = createElement(part.dom, 'rPr');
+        rPr.appendChild(createElement(part.dom, 'rStyle', { val: styleId(this.pkg.styles, 'Annotation Reference') }));
+        r.appendChild(rPr);
+      }
+      r.appendChild(createElement(part.dom, 'commentReference', { id: String(id) }));
+      return r;
+    }
+    const localName = type === 'commentStart' ? 'commentRangeStart' : 'commentRangeEnd';
+    const source = this.source(run.sourceId, localName);
+    return source ? this.clone(source, part) : createElement(part.dom, localName, { id: String(id) });
+  }
+
+  /**
+   * Creates a run holding a note reference (in the body) or a note's own reference mark (at the start of the note),
+   * in the reference style of the kind of note where the package defines it, and superscript.
+   */
+  private writeNoteMarkRun(kind: MemoryNoteKind, localName: string, attributes: { [name: string]: string }, part: PartWriter): Element {
+    const r = createElement(part.dom, 'r');
+    const rPr = createElement(part.dom, 'rPr');
+    const style = kind === 'footnote' ? 'Footnote Reference' : 'Endnote Reference';
+    if (this.pkg.styles.nameToId.has(style)) {
+      rPr.appendChild(createElement(part.dom, 'rStyle', { val: styleId(this.pkg.styles, style) }));
+    }
+    rPr.appendChild(createElement(part.dom, 'vertAlign', { val: 'superscript' }));
+    r.appendChild(rPr);
+    r.appendChild(createElement(part.dom, localName, attributes));
+    return r;
+  }
+
+  /**
+   * Writes the start or end of a bookmark. New bookmarks get ids not used in the file, as bookmarks outside
+   * paragraphs are kept as they are.
+   */
+  private writeBookmarkMark(run: MemoryRun, part: PartWriter): Element {
+    const { type, id, name } = run.mark!;
+    const source = this.source(run.sourceId, type);
+    if (source) return this.clone(source, part);
+    let fileId = this.bookmarkIds.get(id);
+    if (fileId === undefined) {
+      fileId = String(this.annotationId++);
+      this.bookmarkIds.set(id, fileId);
+    }
+    return createElement(part.dom, type, type === 'bookmarkStart' ? { id: fileId, name: name ?? '' } : { id: fileId });
+  }
+
+  /**
+   * The w:fldSimple element a field was read from, as long as its code is unchanged.
+   */
+  private simpleFieldSource(field: MemoryField): Element | undefined {
+    const source = this.source(field.sourceIds?.[0], 'fldSimple');
+    return source && attr(source, 'instr')?.trim() === field.code ? source : undefined;
+  }
+
+  /**
+   * Writes the runs of a field up to its result: begin character, instruction and separate character.
+   * The runs the field was read from are kept while its code is unchanged. Dirty fields are flagged for Word to update.
+   */
+  private writeFieldStart(field: MemoryField, part: PartWriter): DocumentFragment {
+    const fragment = part.dom.createDocumentFragment();
+    const sources = (field.sourceIds ?? []).map(id => this.source(id, 'r'));
+    const code = sources.map(el => el ? descendants(el, 'instrText').map(t => t.textContent ?? '').join('') : '').join('');
+    if (sources.length > 0 && sources.every(el => el) && code.trim() === field.code) {
+      sources.forEach(el => fragment.appendChild(this.clone(el!, part)));
+    } else {
+      const begin = sources[0] && child(sources[0], 'fldChar') ? this.clone(sources[0], part) : this.writeFieldChar('begin', part);
+      const instruction = createElement(part.dom, 'r');
+      const rPr = child(begin, 'rPr');
+      if (rPr) instruction.appendChild(this.clone(rPr, part));
+      const instrText = createElement(part.dom, 'instrText');
+      instrText.setAttributeNS('http://www.w3.org/XML/1998/namespace', 'xml:space', 'preserve');
+      instrText.appendChild(part.dom.createTextNode(` ${field.code} `));
+      instruction.appendChild(instrText);
+      const last = sources[sources.length - 1];
+      const separate = last && attr(child(last, 'fldChar'), 'fldCharType') === 'separate' ? this.clone(last, part) : this.writeFieldChar('separate', part);
+      [begin, instruction, separate].forEach(el => fragment.appendChild(el));
+    }
+    const begin = child(fragment.firstChild, 'fldChar');
+    if (field.dirty && begin) setAttr(begin, 'dirty', 'true');
+    return fragment;
+  }
+
+  private writeFieldChar(type: 'begin' | 'separate' | 'end', part: PartWriter): Element {
+    const r = createElement(part.dom, 'r');
+    r.appendChild(createElement(part.dom, 'fldChar', { fldCharType: type }));
+    return r;
+  }
+
+  /**
+   * Creates the w:sdt element of a content control with empty content, keeping the properties it was read with
+   * and updating those the model covers.
+   */
+  private writeContentControl(control: MemoryContentControl, part: PartWriter): Element {
+    const source = this.source(control.sourceId, 'sdt');
+    const sdt = createElement(part.dom, 'sdt');
+    const sourceSdtPr = child(source, 'sdtPr');
+    const sdtPr = sourceSdtPr ? this.clone(sourceSdtPr, part) : createElement(part.dom, 'sdtPr');
+    setValueChild(sdtPr, 'alias', control.title, SDTPR_ORDER);
+    setValueChild(sdtPr, 'tag', control.tag, SDTPR_ORDER);
+    if (!sourceSdtPr) {
+      setValueChild(sdtPr, 'id', String(control.id), SDTPR_ORDER);
+      for (const el of parseFragment(part.dom, newContentControlType(control))) {
+        sdtPr.appendChild(el);
+      }
+    }
+    const lock = readLock(sdtPr);
+    if (!!lock.lockControl !== !!control.lockControl || !!lock.lockContents !== !!control.lockContents) {
+      const value = Object.entries(LOCKS).find(([, l]) => !!l.lockControl === !!control.lockControl && !!l.lockContents === !!control.lockContents)?.[0];
+      setValueChild(sdtPr, 'lock', value, SDTPR_ORDER);
+    }
+    if (!control.showingPlaceholder && toggleValue(child(sdtPr, 'showingPlcHdr'))) {
+      removeChildren(sdtPr, 'showingPlcHdr');
+    }
+    const date = child(sdtPr, 'date');
+    if (date && (attr(date, 'fullDate') ?? undefined) !== control.date) {
+      if (control.date) setAttr(date, 'fullDate', control.date);
+      else date.removeAttributeNS(NS.w, 'fullDate');
+    }
+    const checked = child(child(sdtPr, 'checkbox', NS.w14), 'checked', NS.w14);
+    if (checked && isChecked(checked.parentNode as Element) !== !!control.checked) {
+      setAttr(checked, 'val', control.checked ? '1' : '0', NS.w14, 'w14');
+    }
+    sdt.appendChild(sdtPr);
+    const sdtEndPr = child(source, 'sdtEndPr');
+    if (sdtEndPr) sdt.appendChild(this.clone(sdtEndPr, part));
+    sdt.appendChild(createElement(part.dom, 'sdtContent'));
+    return sdt;
+  }
+
+  /**
+   * Returns the relationship id of a picture's image part, adding the image to the package if needed.
+   */
+  private imageRelationship(picture: MemoryPicture, part: PartWriter): string | undefined {
+    if (!picture.data) return undefined;
+    if (!picture.sourcePart || !this.pkg.zip.file(picture.sourcePart)) {
+      const extension = readImageInfo(picture.data)?.format ?? (path.extname(picture.filePath).slice(1).toLowerCase() || 'png');
+      let n = 1;
+      while (this.pkg.zip.file(`word/media/image${n}.${extension}`)) n++;
+      picture.sourcePart = `word/media/image${n}.${extension}`;
+      this.pkg.zip.file(picture.sourcePart, picture.data);
+      this.newContentTypes.set(extension, IMAGE_CONTENT_TYPES[extension] ?? `image/${extension}`);
+    }
+    return part.rels.ensure(REL_TYPE.image, picture.sourcePart);
+  }
+
+  private writePicture(picture: MemoryPicture, part: PartWriter): Element {
+    const cx = String(Math.round(picture.width * EMUS_PER_POINT));
+    const cy = String(Math.round(picture.height * EMUS_PER_POINT));
+    const embedId = this.imageRelationship(picture, part);
+    const linkId = picture.linkToFile ? part.rels.ensure(REL_TYPE.image, /^[a-z]+:/i.test(picture.filePath) ? picture.filePath : pathToFileURL(picture.filePath).href, true) : undefined;
+    const id = this.drawingId++;
+
+    const source = this.source(picture.sourceId, 'drawing');
+    let drawing: Element;
+    if (source) {
+      drawing = this.clone(source, part);
+    } else {
+      const name = path.basename(picture.filePath) || `Picture ${id}`;
+      [drawing] = parseFragment(part.dom, `<w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="0" cy="0"/><wp:docPr id="0" name="Picture ${id}"/>`
+        + '<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">'
+        + `<pic:pic><pic:nvPicPr><pic:cNvPr id="0" name="${escapeAttribute(name)}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+        + '<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing>');
+    }
+    const extent = descendants(drawing as unknown as Element, 'extent', NS.wp)[0];
+    extent?.setAttribute('cx', cx);
+    extent?.setAttribute('cy', cy);
+    for (const ext of descendants(drawing, 'ext', NS.a).filter(el => el.parentNode && (el.parentNode as Element).localName === 'xfrm')) {
+      ext.setAttribute('cx', cx);
+      ext.setAttribute('cy', cy);
+    }
+    const docPr = descendants(drawing, 'docPr', NS.wp)[0];
+    docPr?.setAttribute('id', String(id));
+    if (picture.altText) {
+      docPr?.setAttribute('descr', picture.altText);
+    } else {
+      docPr?.removeAttribute('descr');
+    }
+    descendants(drawing, 'graphicFrameLocks', NS.a)[0]?.setAttribute('noChangeAspect', picture.lockAspectRatio ? '1' : '0');
+    const blip = descendants(drawing, 'blip', NS.a)[0];
+    if (blip) {
+      blip.removeAttributeNS(NS.r, 'embed');
+      blip.removeAttributeNS(NS.r, 'link');
+      if (embedId) setAttr(blip, 'embed', embedId, NS.r, 'r');
+      if (linkId) setAttr(blip, 'link', linkId, NS.r, 'r');
+    }
+    return drawing;
+  }
+
+  /**
+   * Writes a table of contents as a content control whose entries are the result of a TOC field.
+   */
+  private writeTableOfContents(toc: MemoryTableOfContents, part: PartWriter): Element {
+    const sdt = createElement(part.dom, 'sdt');
+    const sourceSdtPr = child(this.source(toc.sourceId, 'sdt'), 'sdtPr');
+    if (sourceSdtPr) {
+      sdt.appendChild(this.clone(sourceSdtPr, part));
+    } else {
+      const sdtPr = createElement(part.dom, 'sdtPr');
+      const docPartObj = createElement(part.dom, 'docPartObj');
+      docPartObj.appendChild(createElement(part.dom, 'docPartGallery', { val: 'Table of Contents' }));
+      docPartObj.appendChild(createElement(part.dom, 'docPartUnique'));
+      sdtPr.appendChild(docPartObj);
+      sdt.appendChild(sdtPr);
+    }
+    const fieldRun = (type: string) => {
+      const r = createElement(part.dom, 'r');
+      r.appendChild(createElement(part.dom, 'fldChar', type === 'begin' && toc.dirty ? { fldCharType: type, dirty: 'true' } : { fldCharType: type }));
+      return r;
+    };
+    const instrRun = createElement(part.dom, 'r');
+    const instrText = createElement(part.dom, 'instrText');
+    instrText.setAttributeNS('http://www.w3.org/XML/1998/namespace', 'xml:space', 'preserve');
+    instrText.appendChild(part.dom.createTextNode(` ${toc.fieldCode} `));
+    instrRun.appendChild(instrText);
+
+    // The field starts in the first entry (after any title paragraphs) and ends in the last paragraph
+    const paragraphs = toc.blocks.filter((block): block is MemoryParagraph => block.type === 'paragraph');
+    const first = paragraphs.find(paragraph => paragraph.style !== 'TOC Heading') ?? paragraphs[paragraphs.length - 1];
+    const last = paragraphs[paragraphs.length - 1];
+    const content = createElement(part.dom, 'sdtContent');
+    for (const block of toc.blocks) {
+      const [el] = this.writeBlocks([block], part);
+      if (!el) continue;
+      if (block === first) {
+        const anchor = child(el, 'pPr')?.nextSibling ?? el.firstChild;
+        for (const r of [fieldRun('begin'), instrRun, fieldRun('separate')]) {
+          el.insertBefore(r, anchor);
+        }
+      }
+      if (block === last) el.appendChild(fieldRun('end'));
+      content.appendChild(el);
+    }
+    sdt.appendChild(content);
+    return sdt;
+  }
+
+  private writeTable(table: MemoryTable, part: PartWriter): Element {
+    const source = this.source(table.sourceId, 'tbl');
+    const tbl = createElement(part.dom, 'tbl');
+    const sourceTblPr = child(source, 'tblPr');
+    const tblPr = sourceTblPr ? this.clone(sourceTblPr, part) : createElement(part.dom, 'tblPr');
+    if (!sourceTblPr) {
+      insertOrdered(tblPr, createElement(part.dom, 'tblW', { w: '0', type: 'auto' }), TBLPR_ORDER);
+      insertOrdered(tblPr, createElement(part.dom, 'tblLook', { val: '04A0', firstRow: '1', lastRow: '0', firstColumn: '1', lastColumn: '0', noHBand: '0', noVBand: '1' }), TBLPR_ORDER);
+    }
+    const style = table.style ?? (source ? undefined : this.pkg.styles.nameToId.has('Table Grid') ? 'Table Grid' : undefined);
+    if (style !== undefined) setValueChild(tblPr, 'tblStyle', styleId(this.pkg.styles, style), TBLPR_ORDER);
+    writeBorders(tblPr, 'tblBorders', TBLPR_ORDER, table.borders);
+    if (!source && table.autoFitBehavior === 0) {
+      insertOrdered(tblPr, createElement(part.dom, 'tblLayout', { type: 'fixed' }), TBLPR_ORDER);
+    } else if (!source && table.autoFitBehavior === 2) {
+      const tblW = ensureChild(tblPr, 'tblW', TBLPR_ORDER);
+      setAttr(tblW, 'w', '5000');
+      setAttr(tblW, 'type', 'pct');
+    }
+    tbl.appendChild(tblPr);
+
+    // Grid: keep the source grid while the columns are unchanged; cells follow changed column widths
+    const columnCount = Math.max(1, ...table.rows.map(row => row.cells.reduce((sum, cell) => sum + (cell.colSpan ?? 1), 0)));
+    const sourceGrid = child(source, 'tblGrid');
+    const sourceWidths = (sourceGrid ? children(sourceGrid, 'gridCol') : []).map(col => attr(col, 'w'));
+    const widths = table.columnWidths?.length === columnCount ? table.columnWidths.map(pointsToTwips) : undefined;
+    const columnWidth = Math.floor(this.textWidthTwips() / columnCount);
+    const resized = !!widths && widths.some((width, i) => width !== sourceWidths[i]);
+    if (sourceGrid && sourceWidths.length === columnCount && !resized) {
+      tbl.appendChild(this.clone(sourceGrid, part));
+    } else {
+      const grid = createElement(part.dom, 'tblGrid');
+      for (let i = 0; i < columnCount; i++) {
+        grid.appendChild(createElement(part.dom, 'gridCol', { w: widths?.[i] ?? String(columnWidth) }));
+      }
+      tbl.appendChild(grid);
+    }
+    const cellWidth = (column: number, span: number) =>
+      String(widths ? widths.slice(column, column + span).reduce((sum, width) => sum + Number(width), 0) : columnWidth * span);
+
+    for (const row of table.rows) {
+      const sourceRow = this.source(row.sourceId, 'tr');
+      const tr = sourceRow ? part.dom.importNode(sourceRow, false) as Element : createElement(part.dom, 'tr');
+      // Row ids must be unique, and copied rows would repeat them
+      tr.removeAttributeNS(NS.w14, 'paraId');
+      tr.removeAttributeNS(NS.w14, 'textId');
+      for (const name of ['tblPrEx', 'trPr']) {
+        const properties = child(sourceRow, name);
+        if (properties) tr.appendChild(this.clone(properties, part));
+      }
+      const trPr = child(tr, 'trPr') ?? tr.appendChild(createElement(part.dom, 'trPr')) as Element;
+      removeChildren(trPr, 'tblHeader');
+      if (row.headingFormat) insertOrdered(trPr, createElement(part.dom, 'tblHeader'), TRPR_ORDER);
+      const height = readRowHeight(child(trPr, 'trHeight'));
+      if (height.height !== row.height || height.heightRule !== row.heightRule) {
+        removeChildren(trPr, 'trHeight');
+        if (row.height !== undefined && row.heightRule) {
+          insertOrdered(trPr, createElement(part.dom, 'trHeight', { val: pointsToTwips(row.height), hRule: HEIGHT_RULES[row.heightRule] ?? 'atLeast' }), TRPR_ORDER);
+        }
+      }
+      if (childElements(trPr).length === 0) tr.removeChild(trPr);
+      let column = 0;
+      for (const cell of row.cells) {
+        const sourceCell = this.source(cell.sourceId, 'tc');
+        const tc = createElement(part.dom, 'tc');
+        const sourceTcPr = child(sourceCell, 'tcPr');
+        const tcPr = sourceTcPr ? this.clone(sourceTcPr, part) : createElement(part.dom, 'tcPr');
+        if (!sourceTcPr || resized) {
+          removeChildren(tcPr, 'tcW');
+          insertOrdered(tcPr, createElement(part.dom, 'tcW', { w: cellWidth(column, cell.colSpan ?? 1), type: 'dxa' }), TCPR_ORDER);
+        }
+        column += cell.colSpan ?? 1;
+        removeChildren(tcPr, 'gridSpan');
+        if ((cell.colSpan ?? 1) > 1) setValueChild(tcPr, 'gridSpan', String(cell.colSpan), TCPR_ORDER);
+        removeChildren(tcPr, 'vMerge');
+        if (cell.verticalMerge) {
+          insertOrdered(tcPr, createElement(part.dom, 'vMerge', cell.verticalMerge === 'restart' ? { val: 'restart' } : {}), TCPR_ORDER);
+        }
+        writeBorders(tcPr, 'tcBorders', TCPR_ORDER, cell.borders);
+        if (readShading(child(tcPr, 'shd')) !== cell.shading) {
+          removeChildren(tcPr, 'shd');
+          if (cell.shading) insertOrdered(tcPr, createElement(part.dom, 'shd', { val: 'clear', color: 'auto', fill: cell.shading }), TCPR_ORDER);
+        }
+        const vAlign = cell.verticalAlignment !== undefined ? VERTICAL_ALIGNMENTS[cell.verticalAlignment] : undefined;
+        if (attr(child(tcPr, 'vAlign'), 'val') !== (vAlign ?? null)) {
+          removeChildren(tcPr, 'vAlign');
+          if (vAlign) insertOrdered(tcPr, createElement(part.dom, 'vAlign', { val: vAlign }), TCPR_ORDER);
+        }
+        tc.appendChild(tcPr);
+        const blocks = this.writeBlocks(cell.blocks, part);
+        if (blocks.length === 0 || blocks[blocks.length - 1].localName !== 'p') {
+          blocks.push(createElement(part.dom, 'p')); // A cell must end with a paragraph
+        }
+        blocks.forEach(el => tc.appendChild(el));
+        tr.appendChild(tc);
+      }
+      tbl.appendChild(tr);
+    }
+    return tbl;
+  }
+
+  /**
+   * Builds the w:sectPr of a section, including its page setup and header/footer references.
+   */
+  async writeSection(section: MemorySection, part: PartWriter): Promise<Element> {
+    const source = this.source(section.sourceId, 'sectPr');
+    const sectPr = source ? this.clone(source, part) : parseFragment(part.dom, '<w:sectPr><w:pgSz/><w:pgMar w:header="720" w:footer="720" w:gutter="0"/><w:cols w:space="720"/></w:sectPr>')[0];
+    const { pageSetup } = section;
+
+    const pgSz = ensureChild(sectPr, 'pgSz', SECTPR_ORDER);
+    setAttr(pgSz, 'w', pointsToTwips(pageSetup.pageWidth));
+    setAttr(pgSz, 'h', pointsToTwips(pageSetup.pageHeight));
+    if (pageSetup.orientation === 1) {
+      setAttr(pgSz, 'orient', 'landscape');
+    } else {
+      pgSz.removeAttributeNS(NS.w, 'orient');
+    }
+    if (PAPER_CODES[pageSetup.paperSize] !== undefined) {
+      setAttr(pgSz, 'code', String(PAPER_CODES[pageSetup.paperSize]));
+    } else {
+      pgSz.removeAttributeNS(NS.w, 'code');
+    }
+    const pgMar = ensureChild(sectPr, 'pgMar', SECTPR_ORDER);
+    setAttr(pgMar, 'top', pointsToTwips(pageSetup.topMargin));
+    setAttr(pgMar, 'bottom', pointsToTwips(pageSetup.bottomMargin));
+    setAttr(pgMar, 'left', pointsToTwips(pageSetup.leftMargin));
+    setAttr(pgMar, 'right', pointsToTwips(pageSetup.rightMargin));
+    for (const name of ['header', 'footer', 'gutter']) {
+      if (attr(pgMar, name) === null) setAttr(pgMar, name, name === 'gutter' ? '0' : '720');
+    }
+    removeChildren(sectPr, 'titlePg');
+    if (pageSetup.differentFirstPageHeaderFooter) {
+      insertOrdered(sectPr, createElement(part.dom, 'titlePg'), SECTPR_ORDER);
+    }
+
+    for (const [kind, stories, partKind] of [['headerReference', section.headers, 'header'], ['footerReference', section.footers, 'footer']] as const) {
+      for (const [index, type] of Object.entries(HEADER_FOOTER_TYPES)) {
+        const story = stories[Number(index)];
+        if (!story) continue;
+        let storyPart = this.pkg.storyParts.get(story);
+        const isEmpty = story.blocks.every(block => block.type === 'paragraph' && paragraphText(block) === '');
+        if (!storyPart && isEmpty) continue;
+        if (!storyPart) {
+          let n = 1;
+          while (this.pkg.zip.file(`word/${partKind}${n}.xml`) || this.newContentTypes.has(`/word/${partKind}${n}.xml`)) n++;
+          storyPart = `word/${partKind}${n}.xml`;
+          this.pkg.storyParts.set(story, storyPart);
+          this.newContentTypes.set(`/${storyPart}`, CONTENT_TYPE[partKind]);
+        }
+        await this.writeStoryPart(story, storyPart, partKind);
+        const reference = children(sectPr, kind).find(el => (attr(el, 'type') ?? 'default') === type);
+        const id = part.rels.ensure(REL_TYPE[partKind], storyPart);
+        if (reference) {
+          setAttr(reference, 'id', id, NS.r, 'r');
+        } else {
+          const el = createElement(part.dom, kind, { type });
+          setAttr(el, 'id', id, NS.r, 'r');
+          // References come first, headers before footers
+          const firstOther = childElements(sectPr).find(e => kind === 'headerReference' ? e.localName !== 'headerReference' : !['headerReference', 'footerReference'].includes(e.localName!));
+          sectPr.insertBefore(el, firstOther ?? null);
+        }
+      }
+    }
+    return sectPr;
+  }
+
+  private async writeStoryPart(story: MemoryStory, storyPart: string, partKind: 'header' | 'footer'): Promise<void> {
+    let dom = this.pkg.parts.get(storyPart);
+    if (!dom) {
+      dom = parseXml(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:${partKind === 'header' ? 'hdr' : 'ftr'} ${NAMESPACE_DECLARATIONS}/>`);
+      this.pkg.parts.set(storyPart, dom);
+    }
+    const part: PartWriter = { partPath: storyPart, dom, rels: await Relationships.load(this.pkg.zip, storyPart) };
+    const root = dom.documentElement!;
+    while (root.firstChild) root.removeChild(root.firstChild);
+    const blocks = this.writeBlocks(story.blocks, part);
+    if (blocks.length === 0 || blocks[blocks.length - 1].localName !== 'p') blocks.push(createElement(dom, 'p'));
+    blocks.forEach(el => root.appendChild(el));
+    this.pkg.zip.file(storyPart, serializeXml(dom));
+    part.rels.save(this.pkg.zip);
+  }
+
+  /**
+   * Writes the style definitions into the styles part, adding the styles the part does not define yet.
+   */
+  writeStyles(): void {
+    const dom = this.pkg.stylesPart ? this.pkg.parts.get(this.pkg.stylesPart) : undefined;
+    if (!dom) return;
+    const root = dom.documentElement!;
+    const elements = new Map(children(root, 'style').map(el => [attr(el, 'styleId'), el]));
+    for (const style of this.doc.styles) {
+      if (elements.has(this.pkg.styles.nameToId.get(style.name) ?? null)) continue;
+      const base = style.name.replace(/[^A-Za-z0-9]/g, '') || 'Style';
+      let id = base;
+      for (let n = 1; elements.has(id); n++) id = `${base}${n}`;
+      const el = createElement(dom, 'style', { type: STYLE_TYPES[style.type] ?? 'paragraph', styleId: id });
+      if (!style.builtIn) setAttr(el, 'customStyle', '1');
+      el.appendChild(createElement(dom, 'name', { val: storedStyleName(style) }));
+      root.appendChild(el);
+      elements.set(id, el);
+      this.pkg.styles.idToName.set(id, style.name);
+      this.pkg.styles.nameToId.set(style.name, id);
+    }
+    for (const style of this.doc.styles) {
+      const el = elements.get(this.pkg.styles.nameToId.get(style.name)!)!;
+      setValueChild(el, 'basedOn', style.baseStyle === undefined ? undefined : styleId(this.pkg.styles, style.baseStyle), STYLE_ORDER);
+      setValueChild(el, 'next', style.nextParagraphStyle === undefined ? undefined : styleId(this.pkg.styles, style.nextParagraphStyle), STYLE_ORDER);
+      if (Object.keys(style.paragraphFormat).length > 0) {
+        writeParagraphFormat(ensureChild(el, 'pPr', STYLE_ORDER), style.paragraphFormat);
+      }
+      if (Object.keys(style.font).length > 0) {
+        writeRunFont(ensureChild(el, 'rPr', STYLE_ORDER), style.font);
+      }
+    }
+    this.pkg.zip.file(this.pkg.stylesPart!, serializeXml(dom));
+  }
+
+  /**
+   * Writes the list templates and lists to the numbering part, adding the part when the document gets its first list.
+   * Number formats the model does not know and level properties it does not cover are kept.
+   */
+  writeNumbering(part: PartWriter): void {
+    if (!this.pkg.numberingPart && this.doc.lists.length === 0) return;
+    if (!this.pkg.numberingPart) {
+      this.pkg.numberingPart = 'word/numbering.xml';
+      this.pkg.parts.set(this.pkg.numberingPart, parseXml(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:numbering ${NAMESPACE_DECLARATIONS}/>`));
+      this.newContentTypes.set(`/${this.pkg.numberingPart}`, CONTENT_TYPE.numbering);
+      part.rels.ensure(REL_TYPE.numbering, this.pkg.numberingPart);
+    }
+    const dom = this.pkg.parts.get(this.pkg.numberingPart)!;
+    const root = dom.documentElement!;
+    // Templates come before the lists, which come before numIdMacAtCleanup
+    for (const template of this.doc.listTemplates) {
+      let el = children(root, 'abstractNum').find(e => attr(e, 'abstractNumId') === String(template.id));
+      if (!el) {
+        el = createElement(dom, 'abstractNum', { abstractNumId: String(template.id) });
+        root.insertBefore(el, child(root, 'num') ?? child(root, 'numIdMacAtCleanup') ?? null);
+      }
+      template.levels.forEach((level, i) => {
+        let lvl = children(el!, 'lvl').find(e => attr(e, 'ilvl') === String(i));
+        if (!lvl) {
+          lvl = createElement(dom, 'lvl', { ilvl: String(i) });
+          el!.appendChild(lvl);
+        }
+        writeListLevel(lvl, level);
+      });
+    }
+    for (const list of this.doc.lists) {
+      let el = children(root, 'num').find(e => attr(e, 'numId') === String(list.id));
+      if (!el) {
+        el = createElement(dom, 'num', { numId: String(list.id) });
+        root.insertBefore(el, child(root, 'numIdMacAtCleanup') ?? null);
+      }
+      setValueChild(el, 'abstractNumId', String(list.templateId), ['abstractNumId', 'lvlOverride']);
+      let override = children(el, 'lvlOverride').find(o => attr(o, 'ilvl') === '0');
+      if (list.startAt !== undefined) {
+        if (!override) {
+          override = createElement(dom, 'lvlOverride', { ilvl: '0' });
+          el.appendChild(override);
+        }
+        setValueChild(override, 'startOverride', String(list.startAt), ['startOverride', 'lvl']);
+      } else if (override) {
+        removeChildren(override, 'startOverride');
+        if (childElements(override).length === 0) el.removeChild(override);
+      }
+    }
+    this.pkg.zip.file(this.pkg.numberingPart, serializeXml(dom));
+  }
+
+  /**
+   * Writes the comments anchored in the body to the comments part, adding the part for the first comment.
+   * Replies and the done state go to the comments extended part, linked through the id of each comment's last paragraph.
+   */
+  async writeComments(part: PartWriter): Promise<void> {
+    if (!this.pkg.commentsPart && this.comments.length === 0) return;
+    if (!this.pkg.commentsPart) {
+      this.pkg.commentsPart = 'word/comments.xml';
+      this.pkg.parts.set(this.pkg.commentsPart, parseXml(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:comments ${NAMESPACE_DECLARATIONS}/>`));
+      this.newContentTypes.set(`/${this.pkg.commentsPart}`, CONTENT_TYPE.comments);
+      part.rels.ensure(REL_TYPE.comments, this.pkg.commentsPart);
+    }
+    const dom = this.pkg.parts.get(this.pkg.commentsPart)!;
+    const commentsPart: PartWriter = { partPath: this.pkg.commentsPart, dom, rels: await Relationships.load(this.pkg.zip, this.pkg.commentsPart) };
+    const root = dom.documentElement!;
+    while (root.firstChild) root.removeChild(root.firstChild);
+    const paraIds = new Set(this.comments.map(comment => comment.paraId));
+    for (const comment of this.comments) {
+      const source = this.source(comment.sourceId, 'comment');
+      const el = source ? dom.importNode(source, false) as Element : createElement(dom, 'comment');
+      setAttr(el, 'id', String(comment.id));
+      setAttr(el, 'author', comment.author);
+      if (comment.date) setAttr(el, 'date', comment.date);
+      setAttr(el, 'initials', comment.initials);
+      const blocks = this.writeBlocks(comment.content.blocks, commentsPart);
+      if (blocks.length === 0 || blocks[blocks.length - 1].localName !== 'p') blocks.push(createElement(dom, 'p'));
+      if (!source) {
+        // New comments start with the annotation mark, as Word writes them
+        const [annotation] = parseFragment(dom, '<w:r><w:annotationRef/></w:r>');
+        const first = blocks.find(block => block.localName === 'p')!;
+        first.insertBefore(annotation, child(first, 'pPr')?.nextSibling ?? first.firstChild);
+      }
+      if (comment.paraId === undefined) {
+        let n = 0x10000000 + comment.id;
+        while (paraIds.has(n.toString(16).toUpperCase())) n++;
+        comment.paraId = n.toString(16).toUpperCase();
+        paraIds.add(comment.paraId);
+      }
+      setAttr(blocks[blocks.length - 1], 'paraId', comment.paraId, NS.w14, 'w14');
+      blocks.forEach(block => el.appendChild(block));
+      root.appendChild(el);
+    }
+    this.pkg.zip.file(this.pkg.commentsPart, serializeXml(dom));
+    commentsPart.rels.save(this.pkg.zip);
+    this.writeCommentsExtended(part);
+  }
+
+  private writeCommentsExtended(part: PartWriter): void {
+    if (!this.pkg.commentsExtendedPart && !this.comments.some(comment => comment.parentId !== undefined || comment.done)) return;
+    if (!this.pkg.commentsExtendedPart) {
+      this.pkg.commentsExtendedPart = 'word/commentsExtended.xml';
+      this.pkg.parts.set(this.pkg.commentsExtendedPart, parseXml(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w15:commentsEx xmlns:mc="${NS.mc}" xmlns:w15="${NS.w15}" mc:Ignorable="w15"/>`));
+      this.newContentTypes.set(`/${this.pkg.commentsExtendedPart}`, CONTENT_TYPE.commentsExtended);
+      part.rels.ensure(REL_TYPE.commentsExtended, this.pkg.commentsExtendedPart);
+    }
+    const dom = this.pkg.parts.get(this.pkg.commentsExtendedPart)!;
+    const root = dom.documentElement!;
+    while (root.firstChild) root.removeChild(root.firstChild);
+    for (const comment of this.comments) {
+      const el = dom.createElementNS(NS.w15, 'w15:commentEx');
+      setAttr(el, 'paraId', comment.paraId!, NS.w15, 'w15');
+      const parent = this.comments.find(c => c.id === comment.parentId);
+      if (parent) setAttr(el, 'paraIdParent', parent.paraId!, NS.w15, 'w15');
+      setAttr(el, 'done', comment.done ? '1' : '0', NS.w15, 'w15');
+      root.appendChild(el);
+    }
+    this.pkg.zip.file(this.pkg.commentsExtendedPart, serializeXml(dom));
+  }
+
+  /**
+   * Writes the footnotes or endnotes referenced in the body to their part, adding the part, with the separator notes
+   * Word expects, for the first note. Each note starts with its reference mark and a space, as Word writes them.
+   */
+  async writeNotes(kind: MemoryNoteKind, part: PartWriter): Promise<void> {
+    const notes = this.notes[kind];
+    const key = kind === 'footnote' ? 'footnotesPart' : 'endnotesPart';
+    if (!this.pkg[key] && notes.length === 0) return;
+    if (!this.pkg[key]) {
+      this.pkg[key] = `word/${kind}s.xml`;
+      const separator = (type: string, id: number) => `<w:${kind} w:type="${type}" w:id="${id}"><w:p><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:r><w:${type}/></w:r></w:p></w:${kind}>`;
+      this.pkg.parts.set(this.pkg[key]!, parseXml(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:${kind}s ${NAMESPACE_DECLARATIONS}>${separator('separator', -1)}${separator('continuationSeparator', 0)}</w:${kind}s>`));
+      this.newContentTypes.set(`/${this.pkg[key]}`, CONTENT_TYPE[`${kind}s`]);
+      part.rels.ensure(REL_TYPE[`${kind}s`], this.pkg[key]!);
+    }
+    const partPath = this.pkg[key]!;
+    const dom = this.pkg.parts.get(partPath)!;
+    const notesPart: PartWriter = { partPath, dom, rels: await Relationships.load(this.pkg.zip, partPath) };
+    const root = dom.documentElement!;
+    for (const el of children(root, kind)) {
+      if (!isSeparatorNote(el)) root.removeChild(el);
+    }
+    for (const note of notes) {
+      const source = this.source(note.sourceId, kind);
+      const el = source ? dom.importNode(source, false) as Element : createElement(dom, kind);
+      setAttr(el, 'id', String(note.id));
+      const blocks = this.writeBlocks(note.content.blocks, notesPart);
+      if (blocks.length === 0 || blocks[blocks.length - 1].localName !== 'p') blocks.push(createElement(dom, 'p'));
+      const first = blocks.find(block => block.localName === 'p')!;
+      const pPr = child(first, 'pPr');
+      const before = pPr ? pPr.nextSibling : first.firstChild;
+      first.insertBefore(this.writeNoteMarkRun(kind, `${kind}Ref`, {}, notesPart), before);
+      first.insertBefore(parseFragment(dom, '<w:r><w:t xml:space="preserve"> </w:t></w:r>')[0], before);
+      blocks.forEach(block => el.appendChild(block));
+      root.appendChild(el);
+    }
+    this.pkg.zip.file(partPath, serializeXml(dom));
+    notesPart.rels.save(this.pkg.zip);
+  }
+
+  async writeContentTypes(): Promise<void> {
+    if (this.newContentTypes.size === 0) return;
+    const file = this.pkg.zip.file('[Content_Types].xml');
+    const dom = parseXml(file ? await file.async('string') : `<Types xmlns="${NS.ct}"/>`);
+    const types = dom.documentElement!;
+    for (const [key, contentType] of this.newContentTypes) {
+      const isPart = key.startsWith('/');
+      const exists = childElements(types).some(el => isPart ? el.getAttribute('PartName') === key : el.getAttribute('Extension')?.toLowerCase() === key);
+      if (exists) continue;
+      const el = dom.createElementNS(NS.ct, isPart ? 'Override' : 'Default');
+      el.setAttribute(isPart ? 'PartName' : 'Extension', key);
+      el.setAttribute('ContentType', contentType);
+      types.appendChild(el);
+    }
+    this.pkg.zip.file('[Content_Types].xml', serializeXml(dom));
+  }
+
+  async writeSettings(): Promise<void> {
+    const settingsPath = await settingsPart(this.pkg);
+    const settings = settingsPath ? await readPart(this.pkg.zip, settingsPath) : undefined;
+    if (!settingsPath || !settings) return;
+    const root = settings.documentElement!;
+    removeChildren(root, 'evenAndOddHeaders');
+    if (this.doc.sections.some(section => section.pageSetup.oddAndEvenPagesHeaderFooter)) {
+      insertOrdered(root, createElement(settings, 'evenAndOddHeaders'), SETTINGS_ORDER);
+    }
+    if (!!this.doc.trackRevisions !== !!toggleValue(child(root, 'trackRevisions'))) {
+      removeChildren(root, 'trackRevisions');
+      if (this.doc.trackRevisions) insertOrdered(root, createElement(settings, 'trackRevisions'), SETTINGS_ORDER);
+    }
+    this.pkg.zip.file(settingsPath, serializeXml(settings));
+  }
+}
+
+function writeParagraphFormat(pPr: Element, format: ParagraphFormat): void {
+  if (format.alignment !== undefined) {
+    setValueChild(pPr, 'jc', ALIGNMENTS[format.alignment] ?? 'left', PPR_ORDER);
+  }
+  if (format.leftIndent !== undefined || format.rightIndent !== undefined || format.firstLineIndent !== undefined) {
+    const ind = ensureChild(pPr, 'ind', PPR_ORDER);
+    if (format.leftIndent !== undefined) {
+      ind.removeAttributeNS(NS.w, 'start');
+      setAttr(ind, 'left', pointsToTwips(format.leftIndent));
+    }
+    if (format.rightIndent !== undefined) {
+      ind.removeAttributeNS(NS.w, 'end');
+      setAttr(ind, 'right', pointsToTwips(format.rightIndent));
+    }
+    if (format.firstLineIndent !== undefined) {
+      ind.removeAttributeNS(NS.w, 'firstLine');
+      ind.removeAttributeNS(NS.w, 'hanging');
+      setAttr(ind, format.firstLineIndent < 0 ? 'hanging' : 'firstLine', pointsToTwips(Math.abs(format.firstLineIndent)));
+    }
+  }
+  if (format.spaceBefore !== undefined || format.spaceAfter !== undefined || format.lineSpacingRule !== undefined) {
+    const spacing = ensureChild(pPr, 'spacing', PPR_ORDER);
+    if (format.spaceBefore !== undefined) {
+      spacing.removeAttributeNS(NS.w, 'beforeAutospacing');
+      setAttr(spacing, 'before', pointsToTwips(format.spaceBefore));
+    }
+    if (format.spaceAfter !== undefined) {
+      spacing.removeAttributeNS(NS.w, 'afterAutospacing');
+      setAttr(spacing, 'after', pointsToTwips(format.spaceAfter));
+    }
+    if (format.lineSpacingRule !== undefined) {
+      const presets: { [rule: number]: number } = { 0: 240, 1: 360, 2: 480 };
+      if (format.lineSpacingRule in presets) {
+        setAttr(spacing, 'line', String(presets[format.lineSpacingRule]));
+        setAttr(spacing, 'lineRule', 'auto');
+      } else if (format.lineSpacingRule === 5) {
+        setAttr(spacing, 'line', String(Math.round((format.lineSpacing ?? 1) * 240)));
+        setAttr(spacing, 'lineRule', 'auto');
+      } else {
+        setAttr(spacing, 'line', pointsToTwips(format.lineSpacing ?? 12));
+        setAttr(spacing, 'lineRule', format.lineSpacingRule === 4 ? 'exact' : 'atLeast');
+      }
+    }
+  }
+}
+
+function writeListLevel(lvl: Element, level: MemoryListLevel): void {
+  const current = readListLevel(lvl, Number(attr(lvl, 'ilvl')) + 1);
+  setValueChild(lvl, 'start', String(level.startAt), LVL_ORDER);
+  if (current.numberStyle !== level.numberStyle || !child(lvl, 'numFmt')) {
+    setValueChild(lvl, 'numFmt', NUMBER_FORMATS[level.numberStyle] ?? 'decimal', LVL_ORDER);
+  }
+  setValueChild(lvl, 'lvlText', level.numberFormat, LVL_ORDER);
+  if (!child(lvl, 'lvlJc')) setValueChild(lvl, 'lvlJc', 'left', LVL_ORDER);
+  if (current.textPosition !== level.textPosition || !child(child(lvl, 'pPr'), 'ind')) {
+    const ind = ensureChild(ensureChild(lvl, 'pPr', LVL_ORDER), 'ind', PPR_ORDER);
+    ind.removeAttributeNS(NS.w, 'start');
+    setAttr(ind, 'left', pointsToTwips(level.textPosition));
+    setAttr(ind, 'hanging', pointsToTwips(LIST_HANGING_INDENT));
+  }
+  if (current.font !== level.font) {
+    const rPr = ensureChild(lvl, 'rPr', LVL_ORDER);
+    removeChildren(rPr, 'rFonts');
+    if (level.font) {
+      insertOrdered(rPr, createElement(lvl.ownerDocument!, 'rFonts', { ascii: level.font, hAnsi: level.font, hint: 'default' }), RPR_ORDER);
+    }
+  }
+}
+
+function writeRunFont(rPr: Element, font: RunFont): void {
+  for (const [name, value] of [['b', font.bold], ['i', font.italic]] as const) {
+    if (value === undefined) continue;
+    const el = ensureChild(rPr, name, RPR_ORDER);
+    if (value) {
+      el.removeAttributeNS(NS.w, 'val');
+    } else {
+      setAttr(el, 'val', '0');
+    }
+  }
+  if (font.underline !== undefined) {
+    setValueChild(rPr, 'u', UNDERLINES[font.underline] ?? 'single', RPR_ORDER);
+  }
+  if (font.size !== undefined) {
+    const size = String(Math.round(font.size * 2));
+    if (attr(child(rPr, 'sz'), 'val') !== size) {
+      setValueChild(rPr, 'sz', size, RPR_ORDER);
+      setValueChild(rPr, 'szCs', size, RPR_ORDER);
+    }
+  }
+  if (font.color !== undefined && attr(child(rPr, 'color'), 'val') !== font.color) {
+    const color = ensureChild(rPr, 'color', RPR_ORDER);
+    for (const name of ['themeColor', 'themeShade', 'themeTint']) {
+      color.removeAttributeNS(NS.w, name);
+    }
+    setAttr(color, 'val', font.color);
+  }
+  if (font.name !== undefined) {
+    const rFonts = ensureChild(rPr, 'rFonts', RPR_ORDER);
+    for (const name of ['asciiTheme', 'hAnsiTheme', 'cstheme']) {
+      rFonts.removeAttributeNS(NS.w, name);
+    }
+    setAttr(rFonts, 'ascii', font.name);
+    setAttr(rFonts, 'hAnsi', font.name);
+    setAttr(rFonts, 'cs', font.name);
+  }
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Writes a document model into its package and returns the .docx bytes.
+ * @param doc The document to write.
+ * @param pkg The package the document was read from (or created with createPackage).
+ */
+export async function writeDocx(doc: MemoryDocument, pkg: DocxPackage): Promise<Uint8Array> {
+  const writer = new DocxWriter(pkg, doc);
+  writer.writeStyles();
+  const dom = pkg.parts.get(pkg.documentPart)!;
+  const part: PartWriter = { partPath: pkg.documentPart, dom, rels: await Relationships.load(pkg.zip, pkg.documentPart) };
+  writer.writeNumbering(part);
+
+  const sectPrs: Element[] = [];
+  for (const section of doc.sections) {
+    sectPrs.push(await writer.writeSection(section, part));
+  }
+  const finalSectPr = sectPrs.pop()!;
+
+  const oldBody = child(dom.documentElement, 'body')!;
+  const body = part.dom.importNode(oldBody, false) as Element;
+  for (const el of writer.writeBlocks(doc.body.blocks, part, sectPrs)) {
+    body.appendChild(el);
+  }
+  body.appendChild(finalSectPr);
+  dom.documentElement!.replaceChild(body, oldBody);
+
+  await writer.writeComments(part);
+  await writer.writeNotes('footnote', part);
+  await writer.writeNotes('endnote', part);
+  pkg.zip.file(pkg.documentPart, serializeXml(dom));
+  part.rels.save(pkg.zip);
+  await writer.writeContentTypes();
+  await writer.writeSettings();
+  return pkg.zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
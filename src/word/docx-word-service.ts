@@ -0,0 +1,71 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { MemoryWordService } from './memory-word-service.js';
+import { MemoryDocument, storyText } from './memory-document.js';
+import { DocxPackage, readDocx, writeDocx, createPackage } from './docx-package.js';
+
+// WdSaveFormat values written as a .docx package
+const DOCX_FORMATS = [12, 16]; // wdFormatXMLDocument, wdFormatDocumentDefault
+// WdSaveFormat values written as plain text
+const TEXT_FORMATS = [2, 4, 7]; // wdFormatText, wdFormatDOSText, wdFormatUnicodeText
+
+/**
+ * Backend that reads and writes .docx files directly, without Microsoft Word.
+ * Documents are edited with the in-memory model; content the model does not cover
+ * (fields, comments, floating shapes, ...) is preserved as it was in the source file.
+ */
+export class DocxWordService extends MemoryWordService {
+  public readonly savesFiles: boolean = true;
+  private packages = new WeakMap<MemoryDocument, DocxPackage>();
+
+  /**
+   * Reads a .docx file into the document model.
+   * @param filePath Absolute path of the document.
+   */
+  protected async readDocumentFile(filePath: string): Promise<MemoryDocument> {
+    const data = await fs.readFile(filePath);
+    const { doc, pkg } = await readDocx(data, path.basename(filePath));
+    this.packages.set(doc, pkg);
+    return doc;
+  }
+
+  /**
+   * Writes a document as .docx, or as plain text for the text formats.
+   * @param doc The document to write.
+   * @param filePath Absolute path of the target file.
+   * @param fileFormat Optional WdSaveFormat value.
+   */
+  protected async writeDocumentFile(doc: MemoryDocument, filePath: string, fileFormat?: number): Promise<void> {
+    const extension = path.extname(filePath).toLowerCase();
+    if ((fileFormat !== undefined && TEXT_FORMATS.includes(fileFormat)) || (fileFormat === undefined && extension === '.txt')) {
+      await fs.writeFile(filePath, storyText(doc.body).replace(/\r/g, '\r\n').replace(/\u0001/g, ''), 'utf8');
+      return;
+    }
+    if (fileFormat !== undefined && !DOCX_FORMATS.includes(fileFormat)) {
+      throw new Error(`Save format ${fileFormat} is not supported by the docx backend. Use 12 (wdFormatXMLDocument) or 2 (wdFormatText).`);
+    }
+    await fs.writeFile(filePath, await writeDocx(doc, await this.packageOf(doc)));
+  }
+
+  /**
+   * Copies a document through its .docx form, so the copy keeps the content the model does not cover.
+   * @param doc The document to copy.
+   */
+  protected async copyDocument(doc: MemoryDocument): Promise<MemoryDocument> {
+    const { doc: copy, pkg } = await readDocx(await writeDocx(doc, await this.packageOf(doc)), doc.name);
+    this.packages.set(copy, pkg);
+    return copy;
+  }
+
+  /**
+   * The package a document was read from, or a new one for documents created in this session.
+   */
+  private async packageOf(doc: MemoryDocument): Promise<DocxPackage> {
+    let pkg = this.packages.get(doc);
+    if (!pkg) {
+      pkg = await createPackage();
+      this.packages.set(doc, pkg);
+    }
+    return pkg;
+  }
+}
@@ -0,0 +1,195 @@
+// WordprocessingML helpers shared by the .docx reader and writer.
+import { DOMParser, XMLSerializer, Document, Element, Node } from '@xmldom/xmldom';
+
+// --- Namespaces ---
+
+export const NS = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+  w14: 'http://schemas.microsoft.com/office/word/2010/wordml',
+  w15: 'http://schemas.microsoft.com/office/word/2012/wordml',
+  mc: 'http://schemas.openxmlformats.org/markup-compatibility/2006',
+  rel: 'http://schemas.openxmlformats.org/package/2006/relationships',
+  ct: 'http://schemas.openxmlformats.org/package/2006/content-types',
+};
+
+export const REL_TYPE = {
+  officeDocument: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+  styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+  settings: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings',
+  image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+  hyperlink: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink',
+  header: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/header',
+  footer: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer',
+  numbering: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering',
+  comments: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments',
+  commentsExtended: 'http://schemas.microsoft.com/office/2011/relationships/commentsExtended',
+  footnotes: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/footnotes',
+  endnotes: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/endnotes',
+};
+
+export const CONTENT_TYPE = {
+  document: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml',
+  styles: 'application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml',
+  settings: 'application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml',
+  header: 'application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml',
+  footer: 'application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml',
+  numbering: 'application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml',
+  comments: 'application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml',
+  commentsExtended: 'application/vnd.openxmlformats-officedocument.wordprocessingml.commentsExtended+xml',
+  footnotes: 'application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml',
+  endnotes: 'application/vnd.openxmlformats-officedocument.wordprocessingml.endnotes+xml',
+  relationships: 'application/vnd.openxmlformats-package.relationships+xml',
+};
+
+// Namespace declarations for parsing generated fragments and writing new parts
+export const NAMESPACE_DECLARATIONS = `xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:pic="${NS.pic}" xmlns:w14="${NS.w14}"`;
+
+// --- Units ---
+
+export const TWIPS_PER_POINT = 20;
+export const EMUS_PER_POINT = 12700;
+
+export function twipsToPoints(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const twips = Number(value);
+  return Number.isFinite(twips) ? twips / TWIPS_PER_POINT : undefined;
+}
+
+export function pointsToTwips(points: number): string {
+  return String(Math.round(points * TWIPS_PER_POINT));
+}
+
+// --- Child element order required by the schema (Word rejects out-of-order properties) ---
+
+export const PPR_ORDER = ['pStyle', 'keepNext', 'keepLines', 'pageBreakBefore', 'framePr', 'widowControl', 'numPr', 'suppressLineNumbers', 'pBdr', 'shd', 'tabs', 'suppressAutoHyphens', 'kinsoku', 'wordWrap', 'overflowPunct', 'topLinePunct', 'autoSpaceDE', 'autoSpaceDN', 'bidi', 'adjustRightInd', 'snapToGrid', 'spacing', 'ind', 'contextualSpacing', 'mirrorIndents', 'suppressOverlap', 'jc', 'textDirection', 'textAlignment', 'textboxTightWrap', 'outlineLvl', 'divId', 'cnfStyle', 'rPr', 'sectPr', 'pPrChange'];
+export const RPR_ORDER = ['rStyle', 'rFonts', 'b', 'bCs', 'i', 'iCs', 'caps', 'smallCaps', 'strike', 'dstrike', 'outline', 'shadow', 'emboss', 'imprint', 'noProof', 'snapToGrid', 'vanish', 'webHidden', 'color', 'spacing', 'w', 'kern', 'position', 'sz', 'szCs', 'highlight', 'u', 'effect', 'bdr', 'shd', 'fitText', 'vertAlign', 'rtl', 'cs', 'em', 'lang', 'eastAsianLayout', 'specVanish', 'oMath', 'rPrChange'];
+export const STYLE_ORDER = ['name', 'aliases', 'basedOn', 'next', 'link', 'autoRedefine', 'hidden', 'uiPriority', 'semiHidden', 'unhideWhenUsed', 'qFormat', 'locked', 'personal', 'personalCompose', 'personalReply', 'rsid', 'pPr', 'rPr', 'tblPr', 'trPr', 'tcPr', 'tblStylePr'];
+export const LVL_ORDER = ['start', 'numFmt', 'lvlRestart', 'pStyle', 'isLgl', 'suff', 'lvlText', 'lvlPicBulletId', 'legacy', 'lvlJc', 'pPr', 'rPr'];
+export const SECTPR_ORDER = ['headerReference', 'footerReference', 'footnotePr', 'endnotePr', 'type', 'pgSz', 'pgMar', 'paperSrc', 'pgBorders', 'lnNumType', 'pgNumType', 'cols', 'formProt', 'vAlign', 'noEndnote', 'titlePg', 'textDirection', 'bidi', 'rtlGutter', 'docGrid', 'printerSettings', 'sectPrChange'];
+export const TBLPR_ORDER = ['tblStyle', 'tblpPr', 'tblOverlap', 'bidiVisual', 'tblStyleRowBandSize', 'tblStyleColBandSize', 'tblW', 'jc', 'tblCellSpacing', 'tblInd', 'tblBorders', 'shd', 'tblLayout', 'tblCellMar', 'tblLook', 'tblCaption', 'tblDescription', 'tblPrChange'];
+export const TRPR_ORDER = ['cnfStyle', 'divId', 'gridBefore', 'gridAfter', 'wBefore', 'wAfter', 'cantSplit', 'trHeight', 'tblHeader', 'tblCellSpacing', 'jc', 'hidden', 'ins', 'del', 'trPrChange'];
+export const TCPR_ORDER = ['cnfStyle', 'tcW', 'gridSpan', 'hMerge', 'vMerge', 'tcBorders', 'shd', 'noWrap', 'tcMar', 'textDirection', 'tcFitText', 'vAlign', 'hideMark', 'tcPrChange'];
+export const SDTPR_ORDER = ['rPr', 'alias', 'tag', 'id', 'lock', 'placeholder', 'temporary', 'showingPlcHdr', 'dataBinding', 'label', 'tabIndex', 'docPartObj', 'docPartList', 'comboBox', 'date', 'dropDownList', 'equation', 'group', 'picture', 'richText', 'text', 'citation', 'bibliography'];
+export const SETTINGS_ORDER = ['writeProtection', 'view', 'zoom', 'removePersonalInformation', 'removeDateAndTime', 'doNotDisplayPageBoundaries', 'displayBackgroundShape', 'printPostScriptOverText', 'printFractionalCharacterWidth', 'printFormsData', 'embedTrueTypeFonts', 'embedSystemFonts', 'saveSubsetFonts', 'saveFormsData', 'mirrorMargins', 'alignBordersAndEdges', 'bordersDoNotSurroundHeader', 'bordersDoNotSurroundFooter', 'gutterAtTop', 'hideSpellingErrors', 'hideGrammaticalErrors', 'activeWritingStyle', 'proofState', 'formsDesign', 'attachedTemplate', 'linkStyles', 'stylePaneFormatFilter', 'stylePaneSortMethod', 'documentType', 'mailMerge', 'revisionView', 'trackRevisions', 'doNotTrackMoves', 'doNotTrackFormatting', 'documentProtection', 'autoFormatOverride', 'styleLockTheme', 'styleLockQFSet', 'defaultTabStop', 'autoHyphenation', 'consecutiveHyphenLimit', 'hyphenationZone', 'doNotHyphenateCaps', 'showEnvelope', 'summaryLength', 'clickAndTypeStyle', 'defaultTableStyle', 'evenAndOddHeaders'];
+
+// --- DOM Helpers ---
+
+export function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, 'text/xml');
+}
+
+export function serializeXml(node: Node): string {
+  return new XMLSerializer().serializeToString(node);
+}
+
+/**
+ * Parses a WordprocessingML fragment (using the usual prefixes) into elements owned by a document.
+ */
+export function parseFragment(owner: Document, xml: string): Element[] {
+  const wrapper = parseXml(`<root ${NAMESPACE_DECLARATIONS}>${xml}</root>`).documentElement!;
+  return childElements(wrapper).map(el => owner.importNode(el, true) as Element);
+}
+
+export function isElement(node: Node | null): node is Element {
+  return !!node && node.nodeType === 1;
+}
+
+export function childElements(parent: Node): Element[] {
+  const result: Element[] = [];
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    if (isElement(node)) result.push(node);
+  }
+  return result;
+}
+
+/**
+ * Returns the first direct child with the given local name (in the w namespace unless specified).
+ */
+export function child(parent: Node | null | undefined, localName: string, namespace: string = NS.w): Element | undefined {
+  if (!parent) return undefined;
+  return childElements(parent).find(el => el.localName === localName && el.namespaceURI === namespace);
+}
+
+export function children(parent: Node, localName: string, namespace: string = NS.w): Element[] {
+  return childElements(parent).filter(el => el.localName === localName && el.namespaceURI === namespace);
+}
+
+/**
+ * Returns all descendants with the given local name and namespace.
+ */
+export function descendants(parent: Element | Document, localName: string, namespace: string = NS.w): Element[] {
+  return Array.from(parent.getElementsByTagNameNS(namespace, localName));
+}
+
+/**
+ * Reads a w:-namespaced attribute (e.g. w:val).
+ */
+export function attr(el: Element | undefined, localName: string, namespace: string = NS.w): string | null {
+  if (!el) return null;
+  return el.getAttributeNS(namespace, localName);
+}
+
+export function setAttr(el: Element, localName: string, value: string, namespace: string = NS.w, prefix: string = 'w'): void {
+  el.setAttributeNS(namespace, `${prefix}:${localName}`, value);
+}
+
+/**
+ * Reads a boolean toggle property such as <w:b/> or <w:b w:val="0"/>.
+ */
+export function toggleValue(el: Element | undefined): boolean | undefined {
+  if (!el) return undefined;
+  const value = attr(el, 'val');
+  return value === null || !['0', 'false', 'off'].includes(value);
+}
+
+export function createElement(owner: Document, localName: string, attributes: { [name: string]: string } = {}): Element {
+  const el = owner.createElementNS(NS.w, `w:${localName}`);
+  for (const [name, value] of Object.entries(attributes)) {
+    setAttr(el, name, value);
+  }
+  return el;
+}
+
+/**
+ * Returns the child with the given name, creating it at the schema position if missing.
+ * @param order Local names of the allowed children in schema order.
+ */
+export function ensureChild(parent: Element, localName: string, order: string[]): Element {
+  const existing = child(parent, localName);
+  if (existing) return existing;
+  const created = createElement(parent.ownerDocument!, localName);
+  insertOrdered(parent, created, order);
+  return created;
+}
+
+/**
+ * Inserts a child before the first sibling that comes later in schema order.
+ */
+export function insertOrdered(parent: Element, el: Element, order: string[]): void {
+  const rank = order.indexOf(el.localName!);
+  const next = childElements(parent).find(sibling => sibling.namespaceURI === NS.w && order.indexOf(sibling.localName!) > rank);
+  parent.insertBefore(el, next ?? null);
+}
+
+/**
+ * Replaces (or removes, when value is undefined) a simple property element with a w:val attribute.
+ */
+export function setValueChild(parent: Element, localName: string, value: string | undefined, order: string[]): void {
+  const existing = child(parent, localName);
+  if (value === undefined) {
+    if (existing) parent.removeChild(existing);
+    return;
+  }
+  const el = existing ?? ensureChild(parent, localName, order);
+  setAttr(el, 'val', value);
+}
+
+export function removeChildren(parent: Element, localName: string): void {
+  for (const el of children(parent, localName)) {
+    parent.removeChild(el);
+  }
+}
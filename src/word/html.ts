@@ -0,0 +1,460 @@
+// Converts between backend-neutral document content and HTML.
+import { pathToFileURL } from 'url';
+import { parse, HTMLElement, Node, NodeType } from 'node-html-parser';
+import { ContentBlock, ContentParagraph, ContentRun, ContentTable, ContentPicture, isMonospaceFont } from './word-backend.js';
+import { contentParagraph, listStyleName, markListItem, plainText, sameFormat } from './content.js';
+import { readImageInfo, POINTS_PER_PIXEL } from './image-info.js';
+
+// WdParagraphAlignment values and their CSS text-align equivalents
+const ALIGNMENTS: { [alignment: number]: string } = { 0: 'left', 1: 'center', 2: 'right', 3: 'justify' };
+
+// --- Export ---
+
+export interface HtmlOptions {
+  fragment?: boolean; // Only the body content, without <html>/<head>
+  title?: string; // Document title, for full documents
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function pictureSource(picture: ContentPicture): string {
+  if (picture.data) {
+    const format = readImageInfo(picture.data)?.format ?? 'png';
+    return `data:image/${format};base64,${Buffer.from(picture.data).toString('base64')}`;
+  }
+  const filePath = picture.filePath ?? '';
+  return !filePath || /^[a-z][a-z0-9+.-]+:/i.test(filePath.replace(/^[a-z]:[\\/]/i, '')) ? filePath : pathToFileURL(filePath).href;
+}
+
+function renderPicture(picture: ContentPicture): string {
+  const attributes = [`src="${escapeHtml(pictureSource(picture))}"`, `alt="${escapeHtml(picture.altText ?? '')}"`];
+  if (picture.width > 0) attributes.push(`width="${Math.round(picture.width / POINTS_PER_PIXEL)}"`);
+  if (picture.height > 0) attributes.push(`height="${Math.round(picture.height / POINTS_PER_PIXEL)}"`);
+  return `<img ${attributes.join(' ')}>`;
+}
+
+function formatText(text: string, run: ContentRun): string {
+  let html = escapeHtml(plainText(text)).replace(/\v/g, '<br>');
+  if (!html) return '';
+  if (run.code) html = `<code>${html}</code>`;
+  if (run.underline) html = `<u>${html}</u>`;
+  if (run.italic) html = `<em>${html}</em>`;
+  if (run.bold) html = `<strong>${html}</strong>`;
+  return html;
+}
+
+/**
+ * Renders runs that share the same hyperlink (or none), merging neighbours with the same formatting.
+ */
+function renderSpan(runs: ContentRun[]): string {
+  let result = '';
+  let pending: ContentRun | undefined;
+  let pendingText = '';
+  for (const run of runs) {
+    if (run.picture) {
+      result += pending ? formatText(pendingText, pending) : '';
+      result += renderPicture(run.picture);
+      pending = undefined;
+      continue;
+    }
+    if (!run.text) continue;
+    if (pending && sameFormat(pending, run)) {
+      pendingText += run.text;
+    } else {
+      result += pending ? formatText(pendingText, pending) : '';
+      pending = run;
+      pendingText = run.text;
+    }
+  }
+  return result + (pending ? formatText(pendingText, pending) : '');
+}
+
+function renderInline(runs: ContentRun[]): string {
+  let result = '';
+  for (let i = 0; i < runs.length;) {
+    const hyperlink = runs[i].hyperlink;
+    let j = i;
+    while (j < runs.length && runs[j].hyperlink === hyperlink) j++;
+    const span = renderSpan(runs.slice(i, j));
+    result += hyperlink !== undefined && span ? `<a href="${escapeHtml(hyperlink)}">${span}</a>` : span;
+    i = j;
+  }
+  return result.trim();
+}
+
+function isCodeBlock(paragraph: ContentParagraph): boolean {
+  return !paragraph.headingLevel && !paragraph.list && paragraph.runs.some(run => run.text && !run.picture)
+    && paragraph.runs.every(run => run.code && !run.hyperlink);
+}
+
+function renderParagraph(paragraph: ContentParagraph): string {
+  if (isCodeBlock(paragraph)) {
+    return `<pre><code>${escapeHtml(plainText(paragraph.runs.map(run => run.text).join(''))).replace(/\v/g, '\n')}</code></pre>`;
+  }
+  const html = renderInline(paragraph.runs);
+  if (!html) return '';
+  const align = paragraph.alignment ? ALIGNMENTS[paragraph.alignment] : undefined;
+  const style = align ? ` style="text-align: ${align}"` : '';
+  if (paragraph.headingLevel) {
+    const tag = `h${Math.min(paragraph.headingLevel, 6)}`;
+    return `<${tag}${style}>${html}</${tag}>`;
+  }
+  return `<p${style}>${html}</p>`;
+}
+
+function renderCell(blocks: ContentBlock[], indent: string): string {
+  // A single paragraph is written without <p>, which keeps simple tables compact
+  if (blocks.length === 1 && blocks[0].type === 'paragraph' && !blocks[0].alignment && !isCodeBlock(blocks[0]) && !blocks[0].headingLevel && !blocks[0].list) {
+    return renderInline(blocks[0].runs);
+  }
+  return renderBlocks(blocks, indent);
+}
+
+function renderTable(table: ContentTable, indent: string): string {
+  const lines = [`${indent}<table>`];
+  for (const row of table.rows) {
+    lines.push(`${indent}  <tr>`);
+    for (const cell of row) {
+      const html = renderCell(cell.blocks, `${indent}      `);
+      lines.push(html.includes('\n') ? `${indent}    <td>\n${html}\n${indent}    </td>` : `${indent}    <td>${html}</td>`);
+    }
+    lines.push(`${indent}  </tr>`);
+  }
+  lines.push(`${indent}</table>`);
+  return lines.join('\n');
+}
+
+/**
+ * Renders blocks one element per line. List paragraphs are nested in <ul>/<ol> by level,
+ * consecutive Quote paragraphs share one <blockquote>.
+ */
+function renderBlocks(blocks: ContentBlock[], indent: string): string {
+  const lines: string[] = [];
+  const lists: { ordered: boolean; item?: number }[] = []; // Open lists, outermost first, with the line of their open <li>
+  let inQuote = false;
+  const pad = (depth: number) => indent + '  '.repeat(depth);
+  const closeItem = (list: { item?: number }, depth: number) => {
+    if (list.item === undefined) return;
+    // Items without a nested list are closed on the line of their <li>
+    if (list.item === lines.length - 1) lines[list.item] += '</li>';
+    else lines.push(`${pad(depth)}</li>`);
+    list.item = undefined;
+  };
+  const closeLists = (level: number) => {
+    while (lists.length > level) {
+      const list = lists.pop()!;
+      closeItem(list, lists.length * 2 + 1);
+      lines.push(`${pad(lists.length * 2)}</${list.ordered ? 'ol' : 'ul'}>`);
+    }
+  };
+  const closeQuote = () => {
+    if (inQuote) lines.push(`${indent}</blockquote>`);
+    inQuote = false;
+  };
+  for (const block of blocks) {
+    if (block.type === 'table') {
+      closeLists(0);
+      closeQuote();
+      lines.push(renderTable(block, indent));
+      continue;
+    }
+    const html = renderParagraph(block);
+    if (!html) continue;
+    if (block.list && !block.headingLevel) {
+      closeQuote();
+      const { level, ordered } = block.list;
+      closeLists(lists.length >= level && lists[level - 1].ordered !== ordered ? level - 1 : level);
+      if (lists.length === level) {
+        closeItem(lists[level - 1], level * 2 - 1);
+      }
+      while (lists.length < level) {
+        const parent = lists[lists.length - 1];
+        if (parent && parent.item === undefined) {
+          // A list nested deeper than its parent needs an item to live in
+          parent.item = lines.push(`${pad(lists.length * 2 - 1)}<li>`) - 1;
+        }
+        lines.push(`${pad(lists.length * 2)}<${ordered ? 'ol' : 'ul'}>`);
+        lists.push({ ordered });
+      }
+      lists[level - 1].item = lines.push(`${pad(level * 2 - 1)}<li>${html.replace(/^<p>(.*)<\/p>$/s, '$1')}`) - 1;
+      continue;
+    }
+    closeLists(0);
+    const quote = /^(Intense )?Quote$/.test(block.style) && !block.headingLevel;
+    if (quote && !inQuote) lines.push(`${indent}<blockquote>`);
+    if (!quote) closeQuote();
+    inQuote = quote;
+    lines.push(`${indent}${quote ? '  ' : ''}${html}`);
+  }
+  closeLists(0);
+  closeQuote();
+  return lines.join('\n');
+}
+
+/**
+ * Converts document content to HTML without presentational markup: headings become <h1>-<h6>,
+ * lists nested <ul>/<ol>, tables <table>, Quote paragraphs <blockquote>, paragraphs entirely in a monospace font <pre>,
+ * and run formatting <strong>/<em>/<u>/<code>. Only paragraph alignment is written as a style.
+ * Pictures with known data are embedded as data: URLs. Empty paragraphs are dropped.
+ */
+export function contentToHtml(blocks: ContentBlock[], options: HtmlOptions = {}): string {
+  const body = renderBlocks(blocks, options.fragment ? '' : '  ');
+  if (options.fragment) {
+    return body + (body ? '\n' : '');
+  }
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '  <meta charset="utf-8">',
+    `  <title>${escapeHtml(options.title ?? '')}</title>`,
+    '</head>',
+    '<body>',
+    ...(body ? [body] : []),
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+// --- Import ---
+
+interface InlineState {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  code?: boolean;
+  hyperlink?: string;
+}
+
+interface BlockContext {
+  style: string; // Style of plain paragraphs (e.g. Quote inside <blockquote>)
+  listLevel: number;
+  alignment?: number;
+  preformatted?: boolean; // Inside <pre>: whitespace is kept
+}
+
+const SKIPPED_TAGS = new Set(['head', 'title', 'script', 'style', 'template', 'noscript', 'meta', 'link', 'hr', 'colgroup', 'col']);
+const BLOCK_TAGS = new Set([
+  'html', 'body', 'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'nav', 'aside', 'figure', 'figcaption',
+  'address', 'center', 'form', 'fieldset', 'details', 'summary', 'dl', 'dt', 'dd',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'table', 'blockquote', 'pre',
+]);
+
+function tagName(node: Node): string {
+  return node instanceof HTMLElement ? node.rawTagName?.toLowerCase() ?? '' : '';
+}
+
+/**
+ * Parses an inline style attribute into lower-case property names and values.
+ */
+function parseStyle(element: HTMLElement): Map<string, string> {
+  const styles = new Map<string, string>();
+  for (const declaration of (element.getAttribute('style') ?? '').split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon > 0) {
+      styles.set(declaration.slice(0, colon).trim().toLowerCase(), declaration.slice(colon + 1).trim().toLowerCase());
+    }
+  }
+  return styles;
+}
+
+/**
+ * Run formatting of an element, from its tag and its inline style.
+ */
+function elementState(element: HTMLElement, state: InlineState): InlineState {
+  const result = { ...state };
+  const tag = tagName(element);
+  if (tag === 'b' || tag === 'strong' || tag === 'th') result.bold = true;
+  if (tag === 'i' || tag === 'em' || tag === 'cite' || tag === 'dfn' || tag === 'var') result.italic = true;
+  if (tag === 'u' || tag === 'ins') result.underline = true;
+  if (tag === 'code' || tag === 'kbd' || tag === 'samp' || tag === 'tt' || tag === 'pre') result.code = true;
+  if (tag === 'a' && element.getAttribute('href')) result.hyperlink = element.getAttribute('href');
+  const styles = parseStyle(element);
+  const weight = styles.get('font-weight');
+  if (weight) result.bold = /^(bold|bolder|[6-9]00)$/.test(weight) ? true : /^(normal|lighter|[1-5]00)$/.test(weight) ? false : result.bold;
+  const fontStyle = styles.get('font-style');
+  if (fontStyle) result.italic = /^(italic|oblique)/.test(fontStyle);
+  const decoration = styles.get('text-decoration-line') ?? styles.get('text-decoration');
+  if (decoration) result.underline = decoration.includes('underline');
+  const family = styles.get('font-family');
+  if (family) result.code = family.split(',').some(font => /^monospace$/.test(font.trim()) || isMonospaceFont(font.trim().replace(/^["']|["']$/g, '')));
+  return result;
+}
+
+function elementAlignment(element: HTMLElement, alignment: number | undefined): number | undefined {
+  const align = parseStyle(element).get('text-align') ?? element.getAttribute('align')?.toLowerCase() ?? (tagName(element) === 'center' ? 'center' : undefined);
+  const entry = Object.entries(ALIGNMENTS).find(([, name]) => align === name || (name === 'left' && align === 'start') || (name === 'right' && align === 'end'));
+  return entry ? Number(entry[0]) : alignment;
+}
+
+/**
+ * Size in points from a width/height attribute (pixels) or style value (px or pt).
+ */
+function pictureSize(element: HTMLElement, property: 'width' | 'height'): number {
+  const value = parseStyle(element).get(property) ?? element.getAttribute(property) ?? '';
+  const match = /^([\d.]+)\s*(px|pt)?$/.exec(value.trim());
+  if (!match) return 0;
+  const size = parseFloat(match[1]);
+  return match[2] === 'pt' ? size : size * POINTS_PER_PIXEL;
+}
+
+function textRun(text: string, state: InlineState): ContentRun {
+  return { text, bold: state.bold, italic: state.italic, underline: state.underline, code: state.code, hyperlink: state.hyperlink };
+}
+
+/**
+ * Converts inline nodes to runs. Block elements nested in inline elements are treated as inline.
+ */
+function inlineRuns(node: Node, state: InlineState, context: BlockContext, runs: ContentRun[]): void {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    const text = context.preformatted ? node.text.replace(/\r?\n/g, '\v') : node.text.replace(/[ \t\n\r\f]+/g, ' ');
+    if (text) runs.push(textRun(text, state));
+    return;
+  }
+  if (!(node instanceof HTMLElement) || SKIPPED_TAGS.has(tagName(node))) return;
+  const tag = tagName(node);
+  if (tag === 'br') {
+    runs.push(textRun('\v', state));
+  } else if (tag === 'img') {
+    const src = node.getAttribute('src');
+    if (src) {
+      const picture = { filePath: src, altText: node.getAttribute('alt') || undefined, width: pictureSize(node, 'width'), height: pictureSize(node, 'height') };
+      runs.push({ text: '', hyperlink: state.hyperlink, picture });
+    }
+  } else {
+    const childState = elementState(node, state);
+    node.childNodes.forEach(child => inlineRuns(child, childState, context, runs));
+  }
+}
+
+/**
+ * Collapses whitespace between runs the way a browser would, and drops empty runs.
+ */
+function trimRuns(runs: ContentRun[]): ContentRun[] {
+  const result: ContentRun[] = [];
+  let previous = '\v'; // Text before the first run counts as a line start
+  for (const run of runs) {
+    if (run.picture) {
+      result.push(run);
+      previous = 'x';
+      continue;
+    }
+    const text = /[ \v]$/.test(previous) ? run.text.replace(/^ /, '') : run.text;
+    if (!text) continue;
+    result.push({ ...run, text: text.replace(/ \v/g, '\v') });
+    previous = text;
+  }
+  while (result.length > 0) {
+    const last = result[result.length - 1];
+    if (last.picture) break;
+    last.text = last.text.replace(/ +$/, '');
+    if (last.text) break;
+    result.pop();
+  }
+  return result;
+}
+
+/**
+ * Converts nodes to content blocks. Inline content between block elements becomes a paragraph.
+ */
+function blocksFromNodes(nodes: Node[], context: BlockContext, state: InlineState): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let runs: ContentRun[] = [];
+  const flush = () => {
+    const trimmed = context.preformatted ? runs.filter(run => run.text || run.picture) : trimRuns(runs);
+    if (trimmed.length > 0) {
+      blocks.push(contentParagraph(context.style, trimmed, context.alignment !== undefined ? { alignment: context.alignment } : {}));
+    }
+    runs = [];
+  };
+  for (const node of nodes) {
+    const tag = tagName(node);
+    if (!(node instanceof HTMLElement) || !BLOCK_TAGS.has(tag)) {
+      inlineRuns(node, state, context, runs);
+      continue;
+    }
+    flush();
+    const childState = elementState(node, state);
+    const childContext = { ...context, alignment: elementAlignment(node, context.alignment) };
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      const level = Number(heading[1]);
+      blocks.push(...blocksFromNodes(node.childNodes, { ...childContext, style: `Heading ${level}` }, childState)
+        .map(block => block.type === 'paragraph' ? { ...block, headingLevel: level } : block));
+    } else if (tag === 'ul' || tag === 'ol') {
+      const level = context.listLevel + 1;
+      const ordered = tag === 'ol';
+      for (const item of node.childNodes) {
+        const itemNodes = tagName(item) === 'li' ? item.childNodes : [item];
+        const children = blocksFromNodes(itemNodes, { ...childContext, style: listStyleName(ordered, level), listLevel: level }, childState);
+        markListItem(children, ordered, level);
+        blocks.push(...children);
+      }
+    } else if (tag === 'table') {
+      blocks.push(...tableBlocks(node, childContext, childState));
+    } else if (tag === 'blockquote') {
+      blocks.push(...blocksFromNodes(node.childNodes, { ...childContext, style: 'Quote' }, childState));
+    } else if (tag === 'pre') {
+      // The line break right after <pre> is not content, nor is the one before </pre>
+      const code = blocksFromNodes(node.childNodes, { ...childContext, preformatted: true }, childState);
+      for (const block of code) {
+        if (block.type !== 'paragraph') continue;
+        const first = block.runs[0];
+        const last = block.runs[block.runs.length - 1];
+        if (first && !first.picture) first.text = first.text.replace(/^\v/, '');
+        if (last && !last.picture) last.text = last.text.replace(/\v$/, '');
+        block.runs = block.runs.filter(run => run.text || run.picture);
+      }
+      blocks.push(...code.filter(block => block.type === 'table' || block.runs.length > 0));
+    } else {
+      blocks.push(...blocksFromNodes(node.childNodes, childContext, childState));
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Converts a <table> to a table block, preceded by its caption. Cells of nested row groups (thead, tbody, tfoot) are included;
+ * <th> cells are bold.
+ */
+function tableBlocks(table: HTMLElement, context: BlockContext, state: InlineState): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  const rows: HTMLElement[] = [];
+  for (const child of table.childNodes) {
+    const tag = tagName(child);
+    if (tag === 'caption') {
+      blocks.push(...blocksFromNodes(child.childNodes, { ...context, style: 'Caption', listLevel: 0 }, state));
+    } else if (tag === 'tr') {
+      rows.push(child as HTMLElement);
+    } else if (tag === 'thead' || tag === 'tbody' || tag === 'tfoot') {
+      rows.push(...child.childNodes.filter((row): row is HTMLElement => tagName(row) === 'tr'));
+    }
+  }
+  const content = rows
+    .map(row => row.childNodes.filter((cell): cell is HTMLElement => tagName(cell) === 'td' || tagName(cell) === 'th').map(cell => {
+      const cellContext = { style: 'Normal', listLevel: 0, alignment: elementAlignment(cell, undefined) };
+      const cellBlocks = blocksFromNodes(cell.childNodes, cellContext, elementState(cell, state));
+      return { blocks: cellBlocks.length > 0 ? cellBlocks : [contentParagraph('Normal', [])] };
+    }))
+    .filter(row => row.length > 0);
+  if (content.length > 0) {
+    blocks.push({ type: 'table', rows: content });
+  }
+  return blocks;
+}
+
+/**
+ * Converts HTML (a full document or a fragment) to document content.
+ * Headings become Heading 1-6, lists the List Bullet/List Number styles, <blockquote> Quote, <pre> a monospace paragraph,
+ * <b>/<i>/<u>/<code> and the equivalent inline styles run formatting, text-align paragraph alignment.
+ * Scripts, styles and the <head> are ignored; other elements keep their text.
+ */
+export function htmlToContent(html: string): ContentBlock[] {
+  // The parser reads declarations such as <!DOCTYPE html> as text
+  const root = parse(html.replace(/<![a-z][^>]*>|<\?[^>]*\?>/gi, ''), { comment: false, blockTextElements: { script: true, style: true } });
+  return blocksFromNodes(root.childNodes, { style: 'Normal', listLevel: 0 }, {});
+}
@@ -0,0 +1,55 @@
+// Minimal image header parsing so backends without Word can size inserted pictures.
+
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'bmp';
+
+export interface ImageInfo {
+  format: ImageFormat;
+  widthPixels: number;
+  heightPixels: number;
+}
+
+// Word assumes 96 DPI for pictures without resolution info: 1 pixel = 0.75 points.
+export const POINTS_PER_PIXEL = 0.75;
+
+/**
+ * Reads the format and pixel dimensions from an image file's header.
+ * @param data Raw file contents.
+ * @returns The image info, or null if the format is not recognized.
+ */
+export function readImageInfo(data: Uint8Array): ImageInfo | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // PNG: signature, then IHDR chunk with big-endian width/height
+  if (data.length >= 24 && data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+    return { format: 'png', widthPixels: view.getUint32(16), heightPixels: view.getUint32(20) };
+  }
+
+  // GIF: "GIF8", little-endian logical screen width/height
+  if (data.length >= 10 && data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46 && data[3] === 0x38) {
+    return { format: 'gif', widthPixels: view.getUint16(6, true), heightPixels: view.getUint16(8, true) };
+  }
+
+  // BMP: "BM", BITMAPINFOHEADER width/height (height is negative for top-down bitmaps)
+  if (data.length >= 26 && data[0] === 0x42 && data[1] === 0x4d) {
+    return { format: 'bmp', widthPixels: view.getInt32(18, true), heightPixels: Math.abs(view.getInt32(22, true)) };
+  }
+
+  // JPEG: walk the marker segments until a start-of-frame marker
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) {
+        offset++;
+        continue;
+      }
+      const marker = data[offset + 1];
+      // SOF0..SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { format: 'jpeg', widthPixels: view.getUint16(offset + 7), heightPixels: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+
+  return null;
+}
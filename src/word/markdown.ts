@@ -0,0 +1,329 @@
+// Converts between backend-neutral document content and GitHub-flavoured Markdown.
+import { marked, Token, Tokens } from 'marked';
+import { ContentBlock, ContentParagraph, ContentRun, ContentTable } from './word-backend.js';
+import { contentParagraph, listStyleName, markListItem, plainText, sameFormat } from './content.js';
+
+// --- Export ---
+
+interface InlineOptions {
+  inTable: boolean; // Line breaks become <br> and pipes are escaped
+}
+
+function escapeText(text: string): string {
+  return text.replace(/([\\`*_[\]<>|~])/g, '\\$1');
+}
+
+/**
+ * Escapes characters that would start a block (heading, quote, list item) at the beginning of a line.
+ */
+function escapeLineStart(line: string): string {
+  return line.replace(/^(\s*)([#>+=-])/, '$1\\$2').replace(/^(\s*\d+)([.)])/, '$1\\$2');
+}
+
+function formatUrl(url: string): string {
+  return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+}
+
+function runText(text: string, options: InlineOptions): string {
+  return escapeText(plainText(text)).replace(/\v/g, options.inTable ? '<br>' : '\\\n');
+}
+
+/**
+ * Wraps text in a code span, using a backtick fence longer than any backtick run inside.
+ */
+function codeSpan(text: string): string {
+  const code = plainText(text).replace(/\v/g, ' ');
+  const fence = '`'.repeat(Math.max(0, ...(code.match(/`+/g) ?? []).map(m => m.length)) + 1);
+  const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${code}${padding}${fence}`;
+}
+
+/**
+ * Wraps text in emphasis markers, keeping surrounding whitespace outside (Markdown ignores "** text**").
+ */
+function emphasize(text: string, run: ContentRun): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+  let inner = match[2];
+  if (!inner) return text;
+  if (run.underline) inner = `<u>${inner}</u>`;
+  if (run.italic) inner = `*${inner}*`;
+  if (run.bold) inner = `**${inner}**`;
+  return `${match[1]}${inner}${match[3]}`;
+}
+
+function renderPicture(run: ContentRun): string {
+  const picture = run.picture!;
+  const alt = escapeText(picture.altText ?? picture.filePath?.split(/[\\/]/).pop() ?? 'image');
+  return `![${alt}](${picture.filePath ? formatUrl(picture.filePath.replace(/\\/g, '/')) : ''})`;
+}
+
+/**
+ * Renders runs that share the same hyperlink (or none).
+ */
+function renderSpan(runs: ContentRun[], options: InlineOptions): string {
+  let result = '';
+  let pending: ContentRun | undefined;
+  let pendingText = '';
+  const flush = () => {
+    if (pending && pendingText) {
+      result += emphasize(pending.code ? codeSpan(pendingText) : runText(pendingText, options), pending);
+    }
+    pending = undefined;
+    pendingText = '';
+  };
+  for (const run of runs) {
+    if (run.picture) {
+      flush();
+      result += renderPicture(run);
+      continue;
+    }
+    const text = run.text;
+    if (!text) continue;
+    if (pending && sameFormat(pending, run)) {
+      pendingText += text;
+    } else {
+      flush();
+      pending = run;
+      pendingText = text;
+    }
+  }
+  flush();
+  return result;
+}
+
+function renderInline(runs: ContentRun[], options: InlineOptions): string {
+  let result = '';
+  for (let i = 0; i < runs.length;) {
+    const hyperlink = runs[i].hyperlink;
+    let j = i;
+    while (j < runs.length && runs[j].hyperlink === hyperlink) j++;
+    const span = renderSpan(runs.slice(i, j), options);
+    result += hyperlink !== undefined && span.trim() ? `[${span}](${formatUrl(hyperlink)})` : span;
+    i = j;
+  }
+  return result.replace(/^\s+/, '').replace(/[ \t]+$/, '');
+}
+
+function renderParagraph(paragraph: ContentParagraph): string {
+  const textRuns = paragraph.runs.filter(run => !run.picture && run.text);
+  if (!paragraph.headingLevel && !paragraph.list && textRuns.length > 0 && paragraph.runs.every(run => run.code && !run.hyperlink)) {
+    // A paragraph entirely in the code font is a code block
+    const code = plainText(textRuns.map(run => run.text).join('')).replace(/\v/g, '\n');
+    const fence = '`'.repeat(Math.max(2, ...(code.match(/`+/g) ?? []).map(m => m.length)) + 1);
+    return `${fence}\n${code}\n${fence}`;
+  }
+  const text = renderInline(paragraph.runs, { inTable: false });
+  if (!text) return '';
+  if (paragraph.headingLevel) {
+    return `${'#'.repeat(Math.min(paragraph.headingLevel, 6))} ${text.replace(/\\\n/g, ' ')}`;
+  }
+  if (paragraph.list) {
+    // Three spaces per level nest under both "- " and "1. " items
+    const indent = '   '.repeat(Math.max(paragraph.list.level - 1, 0));
+    const marker = paragraph.list.ordered ? '1. ' : '- ';
+    return indent + marker + text.replace(/\n/g, `\n${indent}${' '.repeat(marker.length)}`);
+  }
+  const lines = text.split('\n').map(escapeLineStart);
+  return /^(Intense )?Quote$/.test(paragraph.style) ? lines.map(line => `> ${line}`).join('\n') : lines.join('\n');
+}
+
+/**
+ * Renders cell content on a single line: paragraphs are joined with <br>, nested tables reduced to their text.
+ */
+function renderCell(blocks: ContentBlock[]): string {
+  const parts: string[] = [];
+  for (const block of blocks) {
+    if (block.type === 'paragraph') {
+      const text = renderInline(block.runs, { inTable: true });
+      if (text) parts.push(text);
+    } else {
+      parts.push(...block.rows.map(row => row.map(cell => renderCell(cell.blocks)).join(' ')));
+    }
+  }
+  return parts.join('<br>');
+}
+
+function renderTable(table: ContentTable): string {
+  if (table.rows.length === 0) return '';
+  const columns = Math.max(...table.rows.map(row => row.length));
+  const lines = table.rows.map(row => {
+    const cells = row.map(cell => renderCell(cell.blocks));
+    while (cells.length < columns) cells.push(''); // Rows with merged cells are padded
+    return `| ${cells.join(' | ')} |`;
+  });
+  // GitHub tables require a header row; the first row is used
+  lines.splice(1, 0, `|${' --- |'.repeat(columns)}`);
+  return lines.join('\n');
+}
+
+/**
+ * Converts document content to GitHub-flavoured Markdown.
+ * Headings become #-headings, lists become -/1. items, tables become pipe tables (first row as header),
+ * Quote paragraphs become block quotes, paragraphs entirely in a monospace font become code blocks,
+ * underline is written as <u>. Empty paragraphs are dropped.
+ */
+export function contentToMarkdown(blocks: ContentBlock[]): string {
+  const output: string[] = [];
+  let previousWasList = false;
+  for (const block of blocks) {
+    const text = block.type === 'paragraph' ? renderParagraph(block) : renderTable(block);
+    if (!text) {
+      previousWasList = false;
+      continue;
+    }
+    const isList = block.type === 'paragraph' && !!block.list && !block.headingLevel;
+    // List items stay together; everything else is separated by a blank line
+    output.push(output.length === 0 ? text : (isList && previousWasList ? '\n' : '\n\n') + text);
+    previousWasList = isList;
+  }
+  return output.join('') + (output.length ? '\n' : '');
+}
+
+// --- Import ---
+
+interface InlineState {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  code?: boolean;
+  hyperlink?: string;
+}
+
+const ENTITIES: { [entity: string]: string } = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function textRun(text: string, state: InlineState): ContentRun {
+  return { text, bold: state.bold, italic: state.italic, underline: state.underline, code: state.code, hyperlink: state.hyperlink };
+}
+
+/**
+ * Converts inline tokens to runs. Inline HTML is limited to <u>, <b>/<strong>, <i>/<em> and <br>;
+ * other tags are dropped and their text kept.
+ */
+function inlineRuns(tokens: Token[], state: InlineState, runs: ContentRun[] = []): ContentRun[] {
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'strong':
+        inlineRuns(token.tokens ?? [], { ...state, bold: true }, runs);
+        break;
+      case 'em':
+        inlineRuns(token.tokens ?? [], { ...state, italic: true }, runs);
+        break;
+      case 'codespan':
+        runs.push(textRun(decodeEntities(token.text), { ...state, code: true }));
+        break;
+      case 'link':
+        inlineRuns(token.tokens ?? [], { ...state, hyperlink: token.href }, runs);
+        break;
+      case 'image':
+        runs.push({ text: '', hyperlink: state.hyperlink, picture: { filePath: token.href, altText: token.text || undefined, width: 0, height: 0 } });
+        break;
+      case 'br':
+        runs.push(textRun('\v', state));
+        break;
+      case 'html': {
+        const tag = /^<(\/?)([a-z]+)[^>]*>$/i.exec(token.text.trim());
+        const name = tag?.[2].toLowerCase();
+        const on = tag?.[1] !== '/';
+        if (name === 'u' || name === 'ins') state.underline = on;
+        else if (name === 'b' || name === 'strong') state.bold = on;
+        else if (name === 'i' || name === 'em') state.italic = on;
+        else if (name === 'br') runs.push(textRun('\v', state));
+        break;
+      }
+      case 'text':
+        if ('tokens' in token && token.tokens?.length) {
+          inlineRuns(token.tokens, state, runs);
+        } else {
+          runs.push(textRun(decodeEntities(token.text).replace(/\n/g, ' '), state));
+        }
+        break;
+      case 'escape':
+        runs.push(textRun(token.text, state));
+        break;
+      default:
+        // del, checkbox and other tokens keep their text without formatting
+        if ('tokens' in token && token.tokens) {
+          inlineRuns(token.tokens, state, runs);
+        } else if ('text' in token && typeof token.text === 'string') {
+          runs.push(textRun(decodeEntities(token.text), state));
+        }
+    }
+  }
+  return runs;
+}
+
+/**
+ * Converts block tokens to content blocks.
+ * @param context Style for plain paragraphs (e.g. Quote inside block quotes) and the current list level.
+ */
+function blocksFromTokens(tokens: Token[], context: { style: string; listLevel: number }): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'heading':
+        blocks.push(contentParagraph(`Heading ${token.depth}`, inlineRuns(token.tokens ?? [], {}), { headingLevel: token.depth }));
+        break;
+      case 'paragraph':
+        blocks.push(contentParagraph(context.style, inlineRuns(token.tokens ?? [], {})));
+        break;
+      case 'text':
+        // Text directly inside a tight list item
+        blocks.push(contentParagraph(context.style, inlineRuns('tokens' in token && token.tokens ? token.tokens : [token], {})));
+        break;
+      case 'list': {
+        const level = context.listLevel + 1;
+        for (const item of (token as Tokens.List).items) {
+          const children = blocksFromTokens(item.tokens, { style: listStyleName(token.ordered, level), listLevel: level });
+          // The first paragraph of the item carries the bullet; task items get a checkbox character
+          const first = markListItem(children, token.ordered, level);
+          if (first && item.task) {
+            first.runs.unshift(textRun(item.checked ? '☒ ' : '☐ ', {}));
+          }
+          blocks.push(...children);
+        }
+        break;
+      }
+      case 'table': {
+        const table = token as Tokens.Table;
+        const cell = (c: Tokens.TableCell, header: boolean) => ({ blocks: [contentParagraph('Normal', inlineRuns(c.tokens, header ? { bold: true } : {}))] });
+        blocks.push({ type: 'table', rows: [table.header.map(c => cell(c, true)), ...table.rows.map(row => row.map(c => cell(c, false)))] });
+        break;
+      }
+      case 'blockquote':
+        blocks.push(...blocksFromTokens(token.tokens ?? [], { ...context, style: 'Quote' }));
+        break;
+      case 'code':
+        // One paragraph per code block; lines are kept together with line breaks
+        blocks.push(contentParagraph(context.style, [{ text: token.text.replace(/\n/g, '\v'), code: true }]));
+        break;
+      case 'html': {
+        const text = decodeEntities(token.text.replace(/<[^>]*>/g, '')).trim();
+        if (text) blocks.push(contentParagraph(context.style, [{ text }]));
+        break;
+      }
+      default:
+        // space, hr, def: nothing to insert
+        break;
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Parses GitHub-flavoured Markdown into document content.
+ * Headings map to Heading 1-6, list items to the List Bullet/List Number styles (with their level),
+ * block quotes to Quote, code to the code font, and the first table row is bold.
+ */
+export function markdownToContent(markdown: string): ContentBlock[] {
+  return blocksFromTokens(marked.lexer(markdown, { gfm: true }), { style: 'Normal', listLevel: 0 });
+}
@@ -0,0 +1,208 @@
+// Compares two stories of the in-memory model and marks the differences as tracked changes, like Application.CompareDocuments.
+import {
+  MemoryStory,
+  MemoryRevision,
+  RunFont,
+  PARAGRAPH_MARK,
+  OBJECT_CHARACTER,
+  listParagraphs,
+  storyText,
+  insertText,
+  markRevision,
+} from './memory-document.js';
+
+export interface StoryComparison {
+  granularity: 'word' | 'character';
+  insertion: MemoryRevision; // Revision of text only in the revised story
+  deletion: MemoryRevision; // Revision of text only in the original story
+  ignores?: (story: 'original' | 'revised', start: number, end: number) => boolean; // Leaves changes in a range out
+}
+
+// --- Diff ---
+
+/**
+ * A stretch of differences: tokens start-end of the original replaced by tokens start-end of the revised sequence.
+ */
+interface Hunk {
+  originalStart: number;
+  originalEnd: number;
+  revisedStart: number;
+  revisedEnd: number;
+}
+
+/**
+ * Finds the shortest edit script between two token sequences (Myers' algorithm).
+ * @returns The stretches that differ, in order.
+ */
+function diff(a: string[], b: string[]): Hunk[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = []; // Furthest x for each diagonal k in [-d, d], per edit distance d
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[max + k - 1] < v[max + k + 1]) ? v[max + k + 1] : v[max + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[max + k] = x;
+      if (x >= n && y >= m) found = true;
+    }
+    trace.push(v.slice(max - d, max + d + 1));
+  }
+
+  // Walk back from the end, collecting the edits
+  const deleted: boolean[] = new Array(n).fill(false);
+  const inserted: boolean[] = new Array(m).fill(false);
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      x--;
+      y--;
+    }
+    if (x === previousX) {
+      inserted[previousY] = true;
+    } else {
+      deleted[previousX] = true;
+    }
+    x = previousX;
+    y = previousY;
+  }
+
+  const hunks: Hunk[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && !deleted[i] && !inserted[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    const hunk: Hunk = { originalStart: i, originalEnd: i, revisedStart: j, revisedEnd: j };
+    while (i < n && deleted[i]) i++;
+    while (j < m && inserted[j]) j++;
+    hunk.originalEnd = i;
+    hunk.revisedEnd = j;
+    hunks.push(hunk);
+  }
+  return hunks;
+}
+
+function tokenize(text: string, granularity: 'word' | 'character'): string[] {
+  return granularity === 'character' ? [...text] : text.match(/[\p{L}\p{N}_']+|[^\S\r]+|[^]/gu) ?? [];
+}
+
+/**
+ * Offsets of the tokens in the text they were split from, with the text length at the end.
+ */
+function offsets(tokens: string[]): number[] {
+  const result = [0];
+  for (const token of tokens) {
+    result.push(result[result.length - 1] + token.length);
+  }
+  return result;
+}
+
+/**
+ * Compares two texts paragraph by paragraph, then token by token within the paragraphs that changed.
+ * @returns The differing character ranges, in order.
+ */
+function compareText(original: string, revised: string, granularity: 'word' | 'character'): Hunk[] {
+  const originalParagraphs = original.match(/[^\r]*\r|[^\r]+$/g) ?? [];
+  const revisedParagraphs = revised.match(/[^\r]*\r|[^\r]+$/g) ?? [];
+  const originalOffsets = offsets(originalParagraphs);
+  const revisedOffsets = offsets(revisedParagraphs);
+  const result: Hunk[] = [];
+  for (const hunk of diff(originalParagraphs, revisedParagraphs)) {
+    const originalStart = originalOffsets[hunk.originalStart];
+    const revisedStart = revisedOffsets[hunk.revisedStart];
+    const originalTokens = tokenize(original.slice(originalStart, originalOffsets[hunk.originalEnd]), granularity);
+    const revisedTokens = tokenize(revised.slice(revisedStart, revisedOffsets[hunk.revisedEnd]), granularity);
+    const originalTokenOffsets = offsets(originalTokens);
+    const revisedTokenOffsets = offsets(revisedTokens);
+    for (const change of diff(originalTokens, revisedTokens)) {
+      result.push({
+        originalStart: originalStart + originalTokenOffsets[change.originalStart],
+        originalEnd: originalStart + originalTokenOffsets[change.originalEnd],
+        revisedStart: revisedStart + revisedTokenOffsets[change.revisedStart],
+        revisedEnd: revisedStart + revisedTokenOffsets[change.revisedEnd],
+      });
+    }
+  }
+  return result;
+}
+
+// --- Redline ---
+
+/**
+ * The text of a range split by formatting, without pictures (which cannot be restored as deleted text).
+ */
+function segments(story: MemoryStory, start: number, end: number): { text: string; font: RunFont }[] {
+  const result: { text: string; font: RunFont }[] = [];
+  for (const slot of listParagraphs(story)) {
+    if (slot.end < start || slot.start >= end) continue;
+    let position = slot.start;
+    let font: RunFont = {};
+    for (const run of slot.paragraph.runs) {
+      const text = run.text.slice(Math.max(start - position, 0), Math.max(end - position, 0)).replace(new RegExp(OBJECT_CHARACTER, 'g'), '');
+      if (!run.opaque && !run.picture) font = run.font;
+      if (text) result.push({ text, font: { ...run.font } });
+      position += run.text.length;
+    }
+    if (slot.end >= start && slot.end < end) {
+      result.push({ text: PARAGRAPH_MARK, font: { ...font } });
+    }
+  }
+  return result;
+}
+
+/**
+ * Turns the revised story into a redline against the original: text only in the revised story is marked as
+ * inserted, text only in the original story is put back as deleted text before it.
+ * @returns The number of insertions and deletions marked.
+ */
+export function compareStories(original: MemoryStory, revised: MemoryStory, options: StoryComparison): { insertions: number; deletions: number } {
+  const originalText = storyText(original);
+  const revisedText = storyText(revised);
+  const changes = compareText(originalText, revisedText, options.granularity);
+  let insertions = 0;
+  let deletions = 0;
+  // From the end, so the positions of earlier changes stay valid
+  for (const change of changes.reverse()) {
+    let { revisedStart, revisedEnd } = change;
+    if (revisedEnd > revisedStart && !options.ignores?.('revised', revisedStart, revisedEnd)) {
+      // Paragraphs added at the end: the new mark is the one before them, as the final mark cannot change
+      if (revisedEnd === revisedText.length && revisedText[revisedStart - 1] === PARAGRAPH_MARK) {
+        revisedStart--;
+        revisedEnd--;
+      }
+      markRevision(revised, revisedStart, revisedEnd, options.insertion);
+      insertions++;
+    }
+    if (change.originalEnd > change.originalStart && !options.ignores?.('original', change.originalStart, change.originalEnd)) {
+      const pieces = segments(original, change.originalStart, change.originalEnd);
+      let position = change.revisedStart;
+      if (position === revisedText.length && pieces[pieces.length - 1]?.text === PARAGRAPH_MARK) {
+        // Paragraphs removed from the end go before the final mark, with their own mark in front
+        position--;
+        pieces.unshift(pieces.pop()!);
+      }
+      for (const piece of pieces) {
+        position = insertText(revised, position, piece.text, piece.font, options.deletion);
+      }
+      deletions++;
+    }
+  }
+  return { insertions, deletions };
+}
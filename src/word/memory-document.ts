@@ -0,0 +1,1648 @@
+// In-memory document object model used by backends that run without Microsoft Word.
+// Mirrors the parts of the Word object model the tools rely on: a story is a flat run of
+// characters addressed by 0-based positions, where every paragraph (including paragraphs
+// inside table cells) ends with a paragraph mark, exactly like Range.Start/Range.End in Word.
+
+export const PARAGRAPH_MARK = '\r';
+export const OBJECT_CHARACTER = '\u0001'; // Character occupied by an inline picture
+export const CHECKBOX_CHECKED = '\u2612'; // Content of a checked checkbox content control
+export const CHECKBOX_UNCHECKED = '\u2610';
+
+// --- Model Types ---
+
+export interface RunFont {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: number; // WdUnderline value, 0/undefined = none
+  name?: string; // Font name, undefined = inherited from the style
+  size?: number; // points
+  color?: string; // RRGGBB or "auto"
+  style?: string; // Character style name
+}
+
+// Backends that load files record, on model nodes, the id of the element each node was read from
+// (sourceId), so properties the model does not cover are written back unchanged. Content the model
+// cannot represent at all is kept as opaque runs/blocks that occupy no characters.
+
+export interface MemoryPicture {
+  filePath: string;
+  linkToFile: boolean;
+  saveWithDocument: boolean;
+  width: number; // points
+  height: number; // points
+  lockAspectRatio: boolean;
+  altText?: string; // Description (alternative text)
+  data?: Uint8Array; // Embedded image bytes (absent for linked pictures not saved with the document)
+  sourceId?: number;
+  sourcePart?: string; // Package part the embedded image was read from or last written to
+}
+
+// Marks are zero-width runs delimiting ranges of the story, like the start, end and reference mark of a comment
+// or the start and end of a bookmark, content control or field, or marking the reference of a footnote or endnote.
+export interface RunMark {
+  type: 'commentStart' | 'commentEnd' | 'commentReference' | 'bookmarkStart' | 'bookmarkEnd' | 'contentControlStart' | 'contentControlEnd' | 'fieldStart' | 'fieldEnd' | 'footnoteReference' | 'endnoteReference';
+  id: number; // MemoryComment or MemoryNote id, or the id pairing the start and end mark of a bookmark, content control or field
+  name?: string; // Bookmark name, on the start mark
+  control?: MemoryContentControl; // On the start mark of a content control
+  field?: MemoryField; // On the start mark of a field
+}
+
+/**
+ * A content control (structured document tag). Its content is the text between its marks.
+ */
+export interface MemoryContentControl {
+  id: number; // ContentControl.ID
+  type: number; // WdContentControlType
+  tag?: string;
+  title?: string;
+  lockContents?: boolean;
+  lockControl?: boolean; // The control cannot be deleted
+  showingPlaceholder?: boolean; // The content is placeholder text
+  checked?: boolean; // Checkbox state
+  entries?: { text: string; value: string }[]; // Dropdown list and combo box items
+  dateFormat?: string; // Date picker display format, e.g. M/d/yyyy
+  date?: string; // Date picker value, ISO 8601
+  block?: boolean; // Spans whole paragraphs rather than text within a paragraph
+  sourceId?: number;
+}
+
+/**
+ * A field. Its result is the text between its marks; the field code is not part of the story text, as in Word
+ * with field codes hidden.
+ */
+export interface MemoryField {
+  code: string; // Field instruction without the surrounding spaces, e.g. MERGEFIELD LastName \* MERGEFORMAT
+  sourceIds?: number[]; // Elements the field was read from up to its result, kept while the code is unchanged
+  dirty?: boolean; // The result could not be calculated without Word; Word updates it when it opens the file
+}
+
+/**
+ * A tracked change. Runs (and paragraph marks) inserted or deleted together share the same object.
+ */
+export interface MemoryRevision {
+  type: 'insert' | 'delete';
+  author: string;
+  date: string; // ISO 8601
+  sourceId?: number;
+}
+
+export interface MemoryRun {
+  text: string;
+  font: RunFont;
+  picture?: MemoryPicture; // Picture runs always contain exactly one OBJECT_CHARACTER
+  hyperlink?: string; // Target URL, or "#bookmark" for links within the document
+  opaque?: boolean; // Unmodelled inline content or a mark (always empty text, requires sourceId or mark)
+  mark?: RunMark;
+  revision?: MemoryRevision; // Tracked insertion or deletion; deleted text stays in the story until accepted
+  sourceId?: number;
+}
+
+export interface ParagraphFormat {
+  alignment?: number; // WdParagraphAlignment
+  leftIndent?: number; // points
+  rightIndent?: number; // points
+  firstLineIndent?: number; // points
+  spaceBefore?: number; // points
+  spaceAfter?: number; // points
+  lineSpacingRule?: number; // WdLineSpacing
+  lineSpacing?: number; // points, or lines for wdLineSpaceMultiple
+}
+
+export interface MemoryParagraph {
+  type: 'paragraph';
+  style: string;
+  format: ParagraphFormat;
+  runs: MemoryRun[];
+  list?: ParagraphList; // The paragraph is a list item
+  sectionBreak?: boolean; // The paragraph ends a section (all but the last section end this way)
+  markRevision?: MemoryRevision; // The paragraph mark is a tracked insertion or deletion
+  sourceId?: number;
+}
+
+export interface ParagraphList {
+  listId: number; // MemoryList id
+  level: number; // 1-9
+}
+
+export interface BorderLine {
+  lineStyle: number; // WdLineStyle, 0 = none
+  lineWidth: number; // points
+  color: string; // RRGGBB or "auto"
+}
+
+export type BorderSide = 'top' | 'left' | 'bottom' | 'right' | 'insideHorizontal' | 'insideVertical';
+
+export type Borders = { [side in BorderSide]?: BorderLine }; // Sides not set come from the table style
+
+export interface MemoryCell {
+  blocks: MemoryBlock[]; // Always contains at least one paragraph
+  colSpan?: number; // Grid columns the cell spans (horizontally merged), default 1
+  verticalMerge?: 'restart' | 'continue'; // First cell of a vertically merged cell, or a cell merged into the one above
+  borders?: Borders;
+  shading?: string; // Background color RRGGBB
+  verticalAlignment?: number; // WdCellVerticalAlignment: 0 top, 1 center, 3 bottom
+  sourceId?: number;
+}
+
+export interface MemoryRow {
+  cells: MemoryCell[];
+  headingFormat?: boolean; // Header row, repeated at the top of each page
+  height?: number; // points
+  heightRule?: number; // WdRowHeightRule: 0 auto, 1 at least, 2 exactly
+  sourceId?: number;
+}
+
+export interface MemoryTable {
+  type: 'table';
+  rows: MemoryRow[];
+  style?: string;
+  borders?: Borders; // Outside and inside lines of the table
+  columnWidths?: number[]; // Points per grid column; spread evenly over the text width when unset
+  defaultTableBehavior?: number; // WdDefaultTableBehavior
+  autoFitBehavior?: number; // WdAutoFitBehavior
+  sourceId?: number;
+}
+
+export interface MemoryTableOfContents {
+  type: 'toc';
+  fieldCode: string; // TOC field instruction, e.g. TOC \o "1-3" \h \z \u
+  blocks: MemoryBlock[]; // Title paragraphs (TOC Heading style) followed by the entries; always contains a paragraph
+  dirty?: boolean; // Entries were built without Word's layout; Word refreshes them when it opens the file
+  sourceId?: number;
+}
+
+export interface MemoryOpaqueBlock {
+  type: 'opaque';
+  sourceId: number;
+}
+
+export type MemoryBlock = MemoryParagraph | MemoryTable | MemoryTableOfContents | MemoryOpaqueBlock;
+
+export interface MemoryStory {
+  blocks: MemoryBlock[]; // Always contains at least one paragraph
+}
+
+export interface PageSetup {
+  topMargin: number; // points
+  bottomMargin: number;
+  leftMargin: number;
+  rightMargin: number;
+  orientation: number; // WdOrientation
+  paperSize: number; // WdPaperSize
+  pageWidth: number; // points, already reflecting the orientation
+  pageHeight: number;
+  differentFirstPageHeaderFooter: boolean;
+  oddAndEvenPagesHeaderFooter: boolean;
+}
+
+export interface MemorySection {
+  pageSetup: PageSetup;
+  headers: { [headerFooterType: number]: MemoryStory }; // WdHeaderFooterIndex -> story
+  footers: { [headerFooterType: number]: MemoryStory };
+  sourceId?: number;
+}
+
+export interface MemoryStyle {
+  name: string;
+  type: number; // WdStyleType: 1 paragraph, 2 character, 3 table, 4 list
+  builtIn: boolean;
+  baseStyle?: string;
+  nextParagraphStyle?: string;
+  font: RunFont; // Formatting defined by the style itself, without what it inherits
+  paragraphFormat: ParagraphFormat;
+}
+
+// Lists follow the Word/WordprocessingML split: a template defines the numbering of the nine levels,
+// a list is one instance of a template; the items of one list number continuously across the document.
+
+export interface MemoryListLevel {
+  numberStyle: number; // WdListNumberStyle: 0 Arabic, 1 upper Roman, 2 lower Roman, 3 upper letter, 4 lower letter, 23 bullet, 255 none
+  numberFormat: string; // As ListLevel.NumberFormat: "%1." with %1-%9 standing for the level numbers, or the bullet character
+  startAt: number;
+  textPosition: number; // Left indent of the item text in points; the number hangs 18 points to the left of it
+  font?: string; // Font of the number or bullet, e.g. Symbol
+}
+
+export interface MemoryListTemplate {
+  id: number;
+  levels: MemoryListLevel[]; // Always 9 levels
+}
+
+export interface MemoryList {
+  id: number;
+  templateId: number;
+  startAt?: number; // Overrides the start of level 1 (numbering restarted at this list)
+}
+
+// A comment is anchored by marks in the body: its text lies between the start and end mark, and the
+// reference mark follows the end mark. The comment exists for as long as its reference mark does.
+export interface MemoryComment {
+  id: number;
+  author: string;
+  initials: string;
+  date: string; // ISO 8601
+  content: MemoryStory;
+  parentId?: number; // Id of the comment this one replies to
+  done?: boolean; // Resolved
+  paraId?: string; // Id of the last paragraph, which files use to link replies and the done state
+  sourceId?: number;
+}
+
+// A footnote or endnote is anchored by its reference mark in the body and exists for as long as the mark does.
+export interface MemoryNote {
+  id: number; // Unique among the notes of its kind
+  content: MemoryStory; // The note text, without the reference mark Word shows at its start
+  sourceId?: number;
+}
+
+export type MemoryNoteKind = 'footnote' | 'endnote';
+
+export interface MemorySelection {
+  start: number;
+  end: number;
+  font?: RunFont; // Formatting toggled on a collapsed selection, applied to the next typed text
+}
+
+export interface MemoryDocument {
+  name: string;
+  fullName: string; // Full path once saved, otherwise same as name
+  path?: string;
+  saved: boolean;
+  body: MemoryStory;
+  sections: MemorySection[];
+  styles: MemoryStyle[];
+  listTemplates: MemoryListTemplate[];
+  lists: MemoryList[];
+  comments: MemoryComment[];
+  footnotes: MemoryNote[];
+  endnotes: MemoryNote[];
+  trackRevisions?: boolean; // Edits are recorded as tracked changes
+  selection: MemorySelection;
+}
+
+// WdPaperSize -> portrait width/height in points
+export const PAPER_SIZES: { [paperSize: number]: [number, number] } = {
+  0: [720, 1008], // 10x14
+  1: [792, 1224], // 11x17
+  2: [612, 792], // Letter
+  3: [612, 792], // Letter small
+  4: [612, 1008], // Legal
+  5: [522, 756], // Executive
+  6: [841.9, 1190.55], // A3
+  7: [595.3, 841.9], // A4
+  8: [595.3, 841.9], // A4 small
+  9: [419.55, 595.3], // A5
+  10: [728.5, 1031.8], // B4
+  11: [515.9, 728.5], // B5
+};
+
+// --- Construction ---
+
+export function createParagraph(text: string = '', style: string = 'Normal', format: ParagraphFormat = {}, font: RunFont = {}): MemoryParagraph {
+  return {
+    type: 'paragraph',
+    style,
+    format: { ...format },
+    runs: text ? [{ text, font: { ...font } }] : [],
+  };
+}
+
+export function createCell(text: string = ''): MemoryCell {
+  return { blocks: [createParagraph(text)] };
+}
+
+export function createTable(numRows: number, numCols: number): MemoryTable {
+  const rows: MemoryRow[] = [];
+  for (let r = 0; r < numRows; r++) {
+    const cells: MemoryCell[] = [];
+    for (let c = 0; c < numCols; c++) {
+      cells.push(createCell());
+    }
+    rows.push({ cells });
+  }
+  return { type: 'table', rows };
+}
+
+export function createStory(text: string = ''): MemoryStory {
+  const story: MemoryStory = { blocks: [createParagraph()] };
+  setStoryText(story, text);
+  return story;
+}
+
+export function createPageSetup(): PageSetup {
+  const [width, height] = PAPER_SIZES[2];
+  return {
+    topMargin: 72,
+    bottomMargin: 72,
+    leftMargin: 72,
+    rightMargin: 72,
+    orientation: 0,
+    paperSize: 2,
+    pageWidth: width,
+    pageHeight: height,
+    differentFirstPageHeaderFooter: false,
+    oddAndEvenPagesHeaderFooter: false,
+  };
+}
+
+export function createSection(): MemorySection {
+  return {
+    pageSetup: createPageSetup(),
+    headers: { 1: createStory(), 2: createStory(), 3: createStory() },
+    footers: { 1: createStory(), 2: createStory(), 3: createStory() },
+  };
+}
+
+export function createDocument(name: string): MemoryDocument {
+  return {
+    name,
+    fullName: name,
+    saved: true,
+    body: createStory(),
+    sections: [createSection()],
+    styles: DEFAULT_STYLES.map(name => builtInStyle(name)!),
+    listTemplates: [],
+    lists: [],
+    comments: [],
+    footnotes: [],
+    endnotes: [],
+    selection: { start: 0, end: 0 },
+  };
+}
+
+// --- Styles ---
+
+type StyleDefinition = Omit<MemoryStyle, 'name' | 'builtIn' | 'font' | 'paragraphFormat'> & Partial<Pick<MemoryStyle, 'font' | 'paragraphFormat'>>;
+
+const BUILT_IN_STYLES: { [name: string]: StyleDefinition } = {
+  'Normal': { type: 1 },
+  'Title': { type: 1, baseStyle: 'Normal', nextParagraphStyle: 'Normal', font: { size: 28 }, paragraphFormat: { spaceAfter: 0, lineSpacingRule: 0 } },
+  'Subtitle': { type: 1, baseStyle: 'Normal', nextParagraphStyle: 'Normal', font: { color: '5A5A5A' } },
+  'Quote': { type: 1, baseStyle: 'Normal', nextParagraphStyle: 'Normal', font: { italic: true, color: '404040' }, paragraphFormat: { alignment: 1, leftIndent: 43.2, rightIndent: 43.2, spaceBefore: 10 } },
+  'Intense Quote': { type: 1, baseStyle: 'Normal', nextParagraphStyle: 'Normal', font: { italic: true, color: '4472C4' }, paragraphFormat: { alignment: 1, leftIndent: 43.2, rightIndent: 43.2, spaceBefore: 18, spaceAfter: 18 } },
+  'List Paragraph': { type: 1, baseStyle: 'Normal', paragraphFormat: { leftIndent: 36 } },
+  'Caption': { type: 1, baseStyle: 'Normal', nextParagraphStyle: 'Normal', font: { italic: true, size: 9, color: '44546A' }, paragraphFormat: { spaceAfter: 10, lineSpacingRule: 0 } },
+  'TOC Heading': { type: 1, baseStyle: 'Heading 1', nextParagraphStyle: 'Normal' },
+  'Default Paragraph Font': { type: 2 },
+  'Strong': { type: 2, baseStyle: 'Default Paragraph Font', font: { bold: true } },
+  'Emphasis': { type: 2, baseStyle: 'Default Paragraph Font', font: { italic: true } },
+  'Hyperlink': { type: 2, baseStyle: 'Default Paragraph Font', font: { underline: 1, color: '0563C1' } },
+  'Normal Table': { type: 3 },
+  'Table Grid': { type: 3, baseStyle: 'Normal Table', paragraphFormat: { spaceAfter: 0, lineSpacingRule: 0 } },
+  'No List': { type: 4 },
+};
+
+const HEADING_SIZES = [16, 13, 12, 11, 11, 11, 11, 11, 11];
+
+// Styles a new document starts with
+const DEFAULT_STYLES = [
+  'Normal',
+  ...HEADING_SIZES.map((_, i) => `Heading ${i + 1}`),
+  ...Object.keys(BUILT_IN_STYLES).filter(name => name !== 'Normal'),
+  'List Bullet',
+  'List Number',
+];
+
+/**
+ * Returns the definition of a built-in style, or undefined if the name is not a built-in style.
+ */
+export function builtInStyle(name: string): MemoryStyle | undefined {
+  const heading = /^Heading ([1-9])$/i.exec(name);
+  if (heading) {
+    const level = Number(heading[1]);
+    return {
+      name: `Heading ${level}`,
+      type: 1,
+      builtIn: true,
+      baseStyle: 'Normal',
+      nextParagraphStyle: 'Normal',
+      font: { bold: true, size: HEADING_SIZES[level - 1], color: '2F5496' },
+      paragraphFormat: { spaceBefore: level === 1 ? 24 : 10, spaceAfter: 0 },
+    };
+  }
+  const list = /^List (Bullet|Number)(?: ([2-5]))?$/i.exec(name);
+  if (list) {
+    const level = Number(list[2] ?? 1);
+    return {
+      name: `List ${list[1][0].toUpperCase()}${list[1].slice(1).toLowerCase()}${list[2] ? ` ${level}` : ''}`,
+      type: 1,
+      builtIn: true,
+      baseStyle: 'Normal',
+      font: {},
+      paragraphFormat: { leftIndent: 18 * level, firstLineIndent: -18 },
+    };
+  }
+  const toc = /^TOC ([1-9])$/i.exec(name);
+  if (toc) {
+    const level = Number(toc[1]);
+    return {
+      name: `TOC ${level}`,
+      type: 1,
+      builtIn: true,
+      baseStyle: 'Normal',
+      nextParagraphStyle: 'Normal',
+      font: {},
+      paragraphFormat: { leftIndent: 11 * (level - 1), spaceAfter: 5 },
+    };
+  }
+  const note = /^(Footnote|Endnote) Text$/i.exec(name);
+  if (note) {
+    return {
+      name: `${note[1][0].toUpperCase()}${note[1].slice(1).toLowerCase()} Text`,
+      type: 1,
+      builtIn: true,
+      baseStyle: 'Normal',
+      font: { size: 10 },
+      paragraphFormat: { spaceAfter: 0, lineSpacingRule: 0 },
+    };
+  }
+  const key = Object.keys(BUILT_IN_STYLES).find(key => key.toLowerCase() === name.toLowerCase());
+  if (!key) return undefined;
+  const { font, paragraphFormat, ...definition } = BUILT_IN_STYLES[key];
+  return { name: key, builtIn: true, ...definition, font: { ...font }, paragraphFormat: { ...paragraphFormat } };
+}
+
+/**
+ * Finds a style of the document by name (case-insensitive). Built-in styles the document
+ * does not define yet are added, as Word makes every built-in style available.
+ */
+export function ensureStyle(doc: MemoryDocument, name: string): MemoryStyle | undefined {
+  const existing = doc.styles.find(style => style.name.toLowerCase() === name.toLowerCase());
+  if (existing) return existing;
+  const style = builtInStyle(name);
+  if (style) doc.styles.push(style);
+  return style;
+}
+
+// --- Lists ---
+
+export const LIST_BULLET = 23; // wdListBullet
+export const LIST_HANGING_INDENT = 18; // points
+
+// Word's list galleries (Bullets, Numbering, Multilevel), by 1-based position
+const BULLET_GALLERY = ['•', 'o', '▪', '❖', '➢', '✓', '–'];
+const NUMBER_GALLERY: [string, number][] = [['%1.', 0], ['%1)', 0], ['%1.', 1], ['%1.', 3], ['%1)', 4], ['%1.', 4], ['%1.', 2]];
+const OUTLINE_GALLERY: ((level: number) => [string, number])[] = [
+  level => [level <= 3 ? `%${level})` : level <= 6 ? `(%${level})` : `%${level}.`, [0, 4, 2][(level - 1) % 3]],
+  level => [Array.from({ length: level }, (_, i) => `%${i + 1}.`).join(''), 0],
+  level => [Array.from({ length: level }, (_, i) => `%${i + 1}`).join('.'), 0],
+];
+
+/**
+ * Number of templates in a list gallery.
+ */
+export function listGallerySize(listType: 'bullet' | 'number' | 'outline'): number {
+  return { bullet: BULLET_GALLERY, number: NUMBER_GALLERY, outline: OUTLINE_GALLERY }[listType].length;
+}
+
+/**
+ * Adds a list template built from a gallery entry to the document.
+ * @param template 1-based position in the gallery of the list type.
+ */
+export function addListTemplate(doc: MemoryDocument, listType: 'bullet' | 'number' | 'outline', template: number): MemoryListTemplate {
+  const levels = Array.from({ length: 9 }, (_, i): MemoryListLevel => {
+    const level = i + 1;
+    const textPosition = 36 * level;
+    if (listType === 'bullet') {
+      // The first template alternates bullets by level, like Word's default bullets
+      const bullet = template === 1 ? BULLET_GALLERY[i % 3] : BULLET_GALLERY[template - 1];
+      return { numberStyle: LIST_BULLET, numberFormat: bullet, startAt: 1, textPosition };
+    }
+    const [numberFormat, numberStyle] = listType === 'outline'
+      ? OUTLINE_GALLERY[template - 1](level)
+      : level === 1 ? NUMBER_GALLERY[template - 1] : [`%${level}.`, [0, 4, 2][(level - 1) % 3]];
+    return { numberStyle, numberFormat, startAt: 1, textPosition };
+  });
+  const listTemplate: MemoryListTemplate = { id: Math.max(-1, ...doc.listTemplates.map(t => t.id)) + 1, levels };
+  doc.listTemplates.push(listTemplate);
+  return listTemplate;
+}
+
+/**
+ * Adds a list (an instance of a template) to the document.
+ */
+export function addList(doc: MemoryDocument, templateId: number, startAt?: number): MemoryList {
+  const list: MemoryList = { id: Math.max(0, ...doc.lists.map(l => l.id)) + 1, templateId };
+  if (startAt !== undefined) list.startAt = startAt;
+  doc.lists.push(list);
+  return list;
+}
+
+/**
+ * Returns the level definition a list item uses.
+ */
+export function listLevel(doc: MemoryDocument, item: ParagraphList): MemoryListLevel | undefined {
+  const list = doc.lists.find(l => l.id === item.listId);
+  return doc.listTemplates.find(t => t.id === list?.templateId)?.levels[item.level - 1];
+}
+
+const ROMAN_NUMERALS: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+
+function toRoman(value: number): string {
+  let result = '';
+  for (const [size, digits] of ROMAN_NUMERALS) {
+    for (; value >= size; value -= size) result += digits;
+  }
+  return result;
+}
+
+/**
+ * Writes a number in a WdListNumberStyle: 0 arabic, 1 and 2 upper and lower case roman, 3 and 4 upper and lower case letters.
+ */
+export function formatListNumber(value: number, numberStyle: number): string {
+  const roman = toRoman(value);
+  const letter = String.fromCharCode(97 + (value - 1) % 26).repeat(Math.ceil(value / 26)); // a..z, aa..zz, ...
+  switch (numberStyle) {
+    case 1: return roman.toUpperCase();
+    case 2: return roman;
+    case 3: return letter.toUpperCase();
+    case 4: return letter;
+    case 255: return '';
+    default: return String(value);
+  }
+}
+
+/**
+ * Computes the number (or bullet) Word shows in front of every list item of a story, like Range.ListFormat.ListString.
+ * Levels restart after an item of a higher level; bullets in symbol fonts (private use characters) read as "•".
+ */
+export function listStrings(doc: MemoryDocument, story: MemoryStory): Map<MemoryParagraph, string> {
+  const counters = new Map<number, number[]>();
+  const result = new Map<MemoryParagraph, string>();
+  for (const { paragraph } of listParagraphs(story)) {
+    const list = paragraph.list && doc.lists.find(l => l.id === paragraph.list!.listId);
+    const template = list && doc.listTemplates.find(t => t.id === list.templateId);
+    if (!list || !template) continue;
+    const start = (level: number) => level === 1 && list.startAt !== undefined ? list.startAt : template.levels[level - 1].startAt;
+    const level = paragraph.list!.level;
+    const counts = counters.get(list.id) ?? [];
+    counts[level - 1] = counts[level - 1] === undefined ? start(level) : counts[level - 1] + 1;
+    counts.length = level;
+    counters.set(list.id, counts);
+    const definition = template.levels[level - 1];
+    result.set(paragraph, definition.numberStyle === LIST_BULLET
+      ? definition.numberFormat.replace(/[\uf000-\uf0ff]/g, '•')
+      : definition.numberFormat.replace(/%([1-9])/g, (_, n) => formatListNumber(counts[n - 1] ?? start(Number(n)), template.levels[n - 1].numberStyle)));
+  }
+  return result;
+}
+
+/**
+ * Deep copies a document (used when reopening saved snapshots).
+ */
+export function cloneDocument(doc: MemoryDocument): MemoryDocument {
+  return structuredClone(doc);
+}
+
+// --- Reading ---
+
+export function paragraphText(paragraph: MemoryParagraph): string {
+  return paragraph.runs.map(run => run.text).join('');
+}
+
+/**
+ * A paragraph together with its position in the story and the array that holds it.
+ */
+export interface ParagraphSlot {
+  paragraph: MemoryParagraph;
+  start: number; // Position of the first character
+  end: number; // Position of the paragraph mark
+  container: MemoryBlock[];
+  table?: MemoryTable; // Innermost table containing the paragraph
+  cell?: MemoryCell; // Innermost cell containing the paragraph
+  toc?: MemoryTableOfContents; // Table of contents containing the paragraph
+}
+
+/**
+ * Lists all paragraphs of a story in document order, descending into table cells and tables of contents.
+ */
+export function listParagraphs(story: MemoryStory): ParagraphSlot[] {
+  const slots: ParagraphSlot[] = [];
+  let position = 0;
+  const walk = (blocks: MemoryBlock[], table?: MemoryTable, cell?: MemoryCell, toc?: MemoryTableOfContents) => {
+    for (const block of blocks) {
+      if (block.type === 'paragraph') {
+        const length = paragraphText(block).length;
+        slots.push({ paragraph: block, start: position, end: position + length, container: blocks, table, cell, toc });
+        position += length + 1;
+      } else if (block.type === 'table') {
+        for (const row of block.rows) {
+          for (const rowCell of row.cells) {
+            walk(rowCell.blocks, block, rowCell, toc);
+          }
+        }
+      } else if (block.type === 'toc') {
+        walk(block.blocks, table, cell, block);
+      }
+    }
+  };
+  walk(story.blocks);
+  return slots;
+}
+
+/**
+ * A table together with its character range and the array that holds it.
+ */
+export interface TableSlot {
+  table: MemoryTable;
+  start: number;
+  end: number; // Position after the last paragraph mark of the table
+  container: MemoryBlock[];
+  nestingLevel: number; // 1 for tables directly in the story
+}
+
+/**
+ * Lists all tables of a story in document order, including nested tables.
+ */
+export function listTables(story: MemoryStory): TableSlot[] {
+  const tables: TableSlot[] = [];
+  let position = 0;
+  const walk = (blocks: MemoryBlock[], nestingLevel: number) => {
+    for (const block of blocks) {
+      if (block.type === 'paragraph') {
+        position += paragraphText(block).length + 1;
+      } else if (block.type === 'table') {
+        const slot: TableSlot = { table: block, start: position, end: position, container: blocks, nestingLevel };
+        tables.push(slot);
+        for (const row of block.rows) {
+          for (const cell of row.cells) {
+            walk(cell.blocks, nestingLevel + 1);
+          }
+        }
+        slot.end = position;
+      } else if (block.type === 'toc') {
+        walk(block.blocks, nestingLevel);
+      }
+    }
+  };
+  walk(story.blocks, 1);
+  return tables;
+}
+
+/**
+ * A table of contents together with its character range and the array that holds it.
+ */
+export interface TocSlot {
+  toc: MemoryTableOfContents;
+  start: number;
+  end: number; // Position after the last paragraph mark of the table of contents
+  container: MemoryBlock[];
+}
+
+/**
+ * Lists the tables of contents of a story in document order.
+ */
+export function listTocs(story: MemoryStory): TocSlot[] {
+  const tocs: TocSlot[] = [];
+  const slots = listParagraphs(story);
+  const walk = (blocks: MemoryBlock[]) => {
+    for (const block of blocks) {
+      if (block.type === 'table') {
+        block.rows.forEach(row => row.cells.forEach(cell => walk(cell.blocks)));
+      } else if (block.type === 'toc') {
+        const entries = slots.filter(slot => slot.toc === block);
+        tocs.push({ toc: block, start: entries[0].start, end: entries[entries.length - 1].end + 1, container: blocks });
+      }
+    }
+  };
+  walk(story.blocks);
+  return tocs;
+}
+
+/**
+ * Returns the tables placed directly in the story (what Document.Tables enumerates).
+ */
+export function topLevelTables(story: MemoryStory): MemoryTable[] {
+  return story.blocks.filter((block): block is MemoryTable => block.type === 'table');
+}
+
+export function storyText(story: MemoryStory): string {
+  return listParagraphs(story).map(slot => paragraphText(slot.paragraph) + PARAGRAPH_MARK).join('');
+}
+
+export function storyLength(story: MemoryStory): number {
+  const slots = listParagraphs(story);
+  return slots[slots.length - 1].end + 1;
+}
+
+/**
+ * Finds the part of a story text that an edit changed: the text before and after it is the same in both versions.
+ * Where the change could sit at several places within a run of equal characters, the earliest one is taken.
+ * @returns Start of the change, its end in the old text and its end in the new text.
+ */
+export function changedRange(before: string, after: string): { start: number; end: number; newEnd: number } {
+  const common = Math.min(before.length, after.length);
+  let suffix = 0;
+  while (suffix < common && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+  let prefix = 0;
+  while (prefix < common - suffix && before[prefix] === after[prefix]) prefix++;
+  return { start: prefix, end: before.length - suffix, newEnd: after.length - suffix };
+}
+
+/**
+ * Finds the paragraph containing a position. Positions on a paragraph mark belong to that paragraph.
+ */
+export function locate(story: MemoryStory, position: number): ParagraphSlot {
+  const slots = listParagraphs(story);
+  for (const slot of slots) {
+    if (position <= slot.end) {
+      return slot;
+    }
+  }
+  return slots[slots.length - 1];
+}
+
+/**
+ * Lists the paragraphs touched by a range. A collapsed range touches the paragraph containing it.
+ */
+export function paragraphsInRange(story: MemoryStory, start: number, end: number): ParagraphSlot[] {
+  const slots = listParagraphs(story);
+  if (end <= start) {
+    return [locate(story, start)];
+  }
+  return slots.filter(slot => slot.start < end && slot.end >= start);
+}
+
+/**
+ * Returns the start position of the first paragraph inside a cell.
+ */
+export function cellStart(story: MemoryStory, cell: MemoryCell): number {
+  const slot = listParagraphs(story).find(s => s.cell === cell);
+  if (!slot) {
+    throw new Error("Cell is not part of this story.");
+  }
+  return slot.start;
+}
+
+/**
+ * Returns the fonts of all runs overlapping a range (excluding paragraph marks).
+ */
+export function fontsInRange(story: MemoryStory, start: number, end: number): RunFont[] {
+  const fonts: RunFont[] = [];
+  for (const slot of paragraphsInRange(story, start, end)) {
+    let offset = slot.start;
+    for (const run of slot.paragraph.runs) {
+      const runEnd = offset + run.text.length;
+      if (runEnd > start && offset < end) {
+        fonts.push(run.font);
+      }
+      offset = runEnd;
+    }
+  }
+  return fonts;
+}
+
+/**
+ * Returns the text run a character typed at the position would take its formatting from
+ * (the preceding character, or the first character of the paragraph).
+ */
+function templateRunAt(story: MemoryStory, position: number): MemoryRun | undefined {
+  const slot = locate(story, position);
+  const offset = position - slot.start;
+  let runStart = 0;
+  let previous: MemoryRun | undefined;
+  for (const run of slot.paragraph.runs) {
+    if (runStart >= offset && previous) {
+      break;
+    }
+    if (!run.picture && !run.opaque) {
+      previous = run;
+    }
+    runStart += run.text.length;
+  }
+  return previous;
+}
+
+/**
+ * Returns the font a character typed at the position would inherit.
+ */
+export function fontAt(story: MemoryStory, position: number): RunFont {
+  return { ...templateRunAt(story, position)?.font };
+}
+
+/**
+ * Returns a copy of a paragraph holding only the runs (or parts of runs) between two offsets.
+ */
+export function sliceParagraph(paragraph: MemoryParagraph, from: number, to: number): MemoryParagraph {
+  const runs: MemoryRun[] = [];
+  let runStart = 0;
+  for (const run of paragraph.runs) {
+    const runEnd = runStart + run.text.length;
+    const overlaps = run.opaque ? runStart >= from && runStart <= to : runEnd > from && runStart < to;
+    if (overlaps) {
+      runs.push({ ...run, text: run.text.slice(Math.max(from - runStart, 0), Math.max(to - runStart, 0)) });
+    }
+    runStart = runEnd;
+  }
+  return { ...paragraph, runs };
+}
+
+// --- Editing ---
+
+function sameFont(a: RunFont, b: RunFont): boolean {
+  return a.bold === b.bold && a.italic === b.italic && a.underline === b.underline && a.name === b.name
+    && a.size === b.size && a.color === b.color && a.style === b.style;
+}
+
+function isPlainText(run: MemoryRun): boolean {
+  return !run.picture && !run.opaque;
+}
+
+/**
+ * Merges adjacent text runs with identical formatting and drops empty runs.
+ */
+export function normalizeRuns(paragraph: MemoryParagraph): void {
+  const runs: MemoryRun[] = [];
+  for (const run of paragraph.runs) {
+    if (!run.text && !run.opaque) continue;
+    const last = runs[runs.length - 1];
+    if (last && isPlainText(last) && isPlainText(run) && sameFont(last.font, run.font)
+      && last.hyperlink === run.hyperlink && last.revision === run.revision && last.sourceId === run.sourceId) {
+      last.text += run.text;
+    } else {
+      runs.push(run);
+    }
+  }
+  paragraph.runs = runs;
+}
+
+/**
+ * Splits runs so that a run boundary falls on the offset.
+ * @returns Index of the first run starting at or after the offset.
+ */
+function splitRunsAt(paragraph: MemoryParagraph, offset: number): number {
+  let runStart = 0;
+  for (let i = 0; i < paragraph.runs.length; i++) {
+    const run = paragraph.runs[i];
+    if (offset <= runStart) {
+      return i;
+    }
+    const runEnd = runStart + run.text.length;
+    if (offset < runEnd) {
+      const tail: MemoryRun = { ...run, text: run.text.slice(offset - runStart), font: { ...run.font } };
+      run.text = run.text.slice(0, offset - runStart);
+      paragraph.runs.splice(i + 1, 0, tail);
+      return i + 1;
+    }
+    runStart = runEnd;
+  }
+  return paragraph.runs.length;
+}
+
+/**
+ * Splits the runs of a paragraph for content inserted at an offset. Content goes after the end marks of fields
+ * ending there, as text typed right after a field is not part of its result, and before fields starting there.
+ * @returns Index of the run the content goes before.
+ */
+function contentIndexAt(paragraph: MemoryParagraph, offset: number): number {
+  const index = splitRunsAt(paragraph, offset);
+  let after = index;
+  for (let i = index; i < paragraph.runs.length && !paragraph.runs[i].text && paragraph.runs[i].mark?.type !== 'fieldStart'; i++) {
+    if (paragraph.runs[i].mark?.type === 'fieldEnd') after = i + 1;
+  }
+  return after;
+}
+
+/**
+ * Splits a paragraph at an offset. The text after the offset moves into a new paragraph
+ * with the same style and format, inserted right after the original one.
+ */
+function splitParagraph(paragraph: MemoryParagraph, offset: number, container: MemoryBlock[]): MemoryParagraph {
+  const index = contentIndexAt(paragraph, offset);
+  const tail: MemoryParagraph = {
+    type: 'paragraph',
+    style: paragraph.style,
+    format: { ...paragraph.format },
+    runs: paragraph.runs.splice(index),
+    list: paragraph.list && { ...paragraph.list },
+    sectionBreak: paragraph.sectionBreak,
+    markRevision: paragraph.markRevision,
+    sourceId: paragraph.sourceId,
+  };
+  // The section break and the revision stay with the paragraph mark
+  paragraph.sectionBreak = undefined;
+  paragraph.markRevision = undefined;
+  container.splice(container.indexOf(paragraph) + 1, 0, tail);
+  return tail;
+}
+
+/**
+ * Inserts a run at an offset: a mark before the other marks there, content as placed by contentIndexAt.
+ */
+function insertRun(paragraph: MemoryParagraph, offset: number, run: MemoryRun): void {
+  const index = run.mark ? splitRunsAt(paragraph, offset) : contentIndexAt(paragraph, offset);
+  paragraph.runs.splice(index, 0, run);
+  normalizeRuns(paragraph);
+}
+
+/**
+ * Inserts text at a position. Line breaks (\r, \n or \r\n) start new paragraphs.
+ * @param font Formatting for the new text; defaults to the formatting of the preceding character.
+ * @param revision Records the new text and paragraph marks as a tracked insertion.
+ * @returns Position right after the inserted text.
+ */
+export function insertText(story: MemoryStory, position: number, text: string, font?: RunFont, revision?: MemoryRevision): number {
+  const slot = locate(story, position);
+  const template = templateRunAt(story, position);
+  const runFont = font ?? { ...template?.font };
+  const lines = text.split(/\r\n|\r|\n/);
+  let paragraph = slot.paragraph;
+  let offset = position - slot.start;
+  lines.forEach((line, i) => {
+    if (i > 0) {
+      const head = paragraph;
+      paragraph = splitParagraph(paragraph, offset, slot.container);
+      head.markRevision = revision;
+      offset = 0;
+    }
+    if (line) {
+      insertRun(paragraph, offset, { text: line, font: { ...runFont }, revision, sourceId: template?.sourceId });
+      offset += line.length;
+    }
+  });
+  return position + lines.join(PARAGRAPH_MARK).length;
+}
+
+/**
+ * Inserts an inline picture at a position.
+ * @param revision Records the picture as a tracked insertion.
+ * @returns Position right after the picture.
+ */
+export function insertPictureRun(story: MemoryStory, position: number, picture: MemoryPicture, revision?: MemoryRevision): number {
+  const slot = locate(story, position);
+  insertRun(slot.paragraph, position - slot.start, { text: OBJECT_CHARACTER, font: {}, picture, revision });
+  return position + 1;
+}
+
+/**
+ * Deletes a range. Tables and tables of contents entirely inside the range are removed; paragraph marks inside the
+ * range merge their paragraph with the following one when both share the same container.
+ * The final paragraph mark of a story or cell is never deleted, as in Word.
+ */
+export function deleteRange(story: MemoryStory, start: number, end: number): void {
+  if (end <= start) return;
+  const slots = listParagraphs(story);
+  const coveredTables = listTables(story).filter(t => t.start >= start && t.end <= end);
+  const removedTables = coveredTables.filter(t => !coveredTables.some(outer => outer !== t && outer.start <= t.start && outer.end >= t.end && outer.nestingLevel < t.nestingLevel));
+  const removedTocs = listTocs(story).filter(t => t.start >= start && t.end <= end);
+  const insideRemoved = (slot: ParagraphSlot) => [...removedTables, ...removedTocs].some(t => slot.start >= t.start && slot.end < t.end);
+
+  const merges: ParagraphSlot[] = [];
+  for (const slot of slots) {
+    if (slot.start > end || slot.end < start || insideRemoved(slot)) continue;
+    const from = Math.max(start, slot.start) - slot.start;
+    const to = Math.min(end, slot.end) - slot.start;
+    if (to > from) {
+      const first = splitRunsAt(slot.paragraph, from);
+      const last = splitRunsAt(slot.paragraph, to);
+      // Start and end marks stay, so a comment keeps whatever is left of its text; reference marks go with the text
+      const removed = slot.paragraph.runs.splice(first, last - first);
+      const kept = removed.filter(run => run.mark && !run.mark.type.endsWith('Reference'));
+      slot.paragraph.runs.splice(first, 0, ...kept);
+      // A field whose whole result is deleted goes with it
+      for (const run of kept) {
+        if (run.mark!.type === 'fieldStart') removeEmptyField(slot.paragraph, run.mark!.id);
+      }
+    }
+    if (slot.end >= start && slot.end < end) {
+      merges.push(slot);
+    }
+  }
+
+  for (const removed of removedTables) {
+    removed.container.splice(removed.container.indexOf(removed.table), 1);
+  }
+  for (const removed of removedTocs) {
+    removed.container.splice(removed.container.indexOf(removed.toc), 1);
+  }
+
+  for (const slot of merges.reverse()) {
+    const index = slot.container.indexOf(slot.paragraph);
+    const next = slot.container[index + 1];
+    if (next && next.type === 'paragraph') {
+      // The merged paragraph keeps the formatting stored in the surviving paragraph mark
+      next.runs = [...slot.paragraph.runs, ...next.runs];
+      slot.container.splice(index, 1);
+      normalizeRuns(next);
+    }
+  }
+
+  for (const slot of slots) {
+    normalizeRuns(slot.paragraph);
+  }
+}
+
+/**
+ * Removes the marks of a field whose start and end mark follow each other in a paragraph with no text between them.
+ */
+function removeEmptyField(paragraph: MemoryParagraph, id: number): void {
+  const start = paragraph.runs.findIndex(run => run.mark?.type === 'fieldStart' && run.mark.id === id);
+  const end = paragraph.runs.findIndex(run => run.mark?.type === 'fieldEnd' && run.mark.id === id);
+  if (start < 0 || end < start || paragraph.runs.slice(start, end).some(run => run.text)) return;
+  paragraph.runs.splice(end, 1);
+  paragraph.runs.splice(start, 1);
+}
+
+/**
+ * Applies a formatting change to all text runs in a range.
+ */
+export function applyFont(story: MemoryStory, start: number, end: number, update: (font: RunFont) => RunFont): void {
+  for (const slot of paragraphsInRange(story, start, end)) {
+    const from = Math.max(start, slot.start) - slot.start;
+    const to = Math.min(end, slot.end) - slot.start;
+    if (to <= from) continue;
+    const first = splitRunsAt(slot.paragraph, from);
+    const last = splitRunsAt(slot.paragraph, to);
+    for (let i = first; i < last; i++) {
+      const run = slot.paragraph.runs[i];
+      if (!run.picture) {
+        run.font = update({ ...run.font });
+      }
+    }
+    normalizeRuns(slot.paragraph);
+  }
+}
+
+/**
+ * Replaces the content of a block container with text, one paragraph per line.
+ * The first paragraph's style, format and font are kept, like Range.Text in Word.
+ */
+export function setBlocksText(blocks: MemoryBlock[], text: string): void {
+  const first = blocks.find((block): block is MemoryParagraph => block.type === 'paragraph');
+  const style = first?.style ?? 'Normal';
+  const format = first?.format ?? {};
+  const firstRun = first?.runs.find(isPlainText);
+  const lines = text.split(/\r\n|\r|\n/);
+  const paragraphs = lines.map(line => {
+    const paragraph = createParagraph(line, style, format, firstRun?.font);
+    paragraph.sourceId = first?.sourceId;
+    paragraph.runs.forEach(run => run.sourceId = firstRun?.sourceId);
+    return paragraph;
+  });
+  blocks.splice(0, blocks.length, ...paragraphs);
+}
+
+export function setStoryText(story: MemoryStory, text: string): void {
+  setBlocksText(story.blocks, text);
+}
+
+/**
+ * Inserts a block (e.g. a table) at a position, splitting the paragraph there if needed.
+ * At the start of a paragraph the block goes before it; otherwise the paragraph is split around it.
+ */
+export function insertBlock(story: MemoryStory, position: number, block: MemoryBlock): void {
+  const slot = locate(story, position);
+  const offset = position - slot.start;
+  if (offset === 0) {
+    slot.container.splice(slot.container.indexOf(slot.paragraph), 0, block);
+  } else {
+    const tail = splitParagraph(slot.paragraph, offset, slot.container);
+    slot.container.splice(slot.container.indexOf(tail), 0, block);
+  }
+}
+
+/**
+ * Inserts whole blocks at a position. The paragraph at the position is split there, so the blocks
+ * stand on their own; an empty paragraph at the position is replaced when the last block is a paragraph.
+ * @returns Position after the inserted content: the end of the last paragraph's text, or after the last table.
+ */
+export function insertBlocks(story: MemoryStory, position: number, blocks: MemoryBlock[]): number {
+  if (blocks.length === 0) {
+    return position;
+  }
+  const slot = locate(story, position);
+  const offset = position - slot.start;
+  const target = offset === 0 ? slot.paragraph : splitParagraph(slot.paragraph, offset, slot.container);
+  slot.container.splice(slot.container.indexOf(target), 0, ...blocks);
+  const last = blocks[blocks.length - 1];
+  if (last.type === 'paragraph' && target.runs.length === 0 && !target.sectionBreak) {
+    slot.container.splice(slot.container.indexOf(target), 1);
+  }
+  const slots = listParagraphs(story);
+  if (last.type === 'paragraph') {
+    return slots.find(s => s.paragraph === last)!.end;
+  }
+  return slots.find(s => s.paragraph === slot.container[slot.container.indexOf(last) + 1])?.start ?? position;
+}
+
+// --- Marks and Comments ---
+
+/**
+ * A mark together with its position in the story and the paragraph that holds it.
+ */
+export interface MarkSlot {
+  run: MemoryRun;
+  mark: RunMark;
+  position: number;
+  paragraph: MemoryParagraph;
+}
+
+/**
+ * Lists the marks of a story in document order.
+ */
+export function listMarks(story: MemoryStory): MarkSlot[] {
+  const marks: MarkSlot[] = [];
+  for (const slot of listParagraphs(story)) {
+    let position = slot.start;
+    for (const run of slot.paragraph.runs) {
+      if (run.mark) marks.push({ run, mark: run.mark, position, paragraph: slot.paragraph });
+      position += run.text.length;
+    }
+  }
+  return marks;
+}
+
+function markRun(mark: RunMark): MemoryRun {
+  return { text: '', font: {}, opaque: true, mark };
+}
+
+/**
+ * A comment together with the character range of the text it comments on.
+ */
+export interface CommentSlot {
+  comment: MemoryComment;
+  start: number;
+  end: number;
+}
+
+/**
+ * Lists the comments of a document in the order of their reference marks, like Document.Comments.
+ * Comments whose start or end mark was lost collapse to their reference mark.
+ */
+export function listComments(doc: MemoryDocument): CommentSlot[] {
+  const marks = listMarks(doc.body);
+  const position = (id: number, type: RunMark['type']) => marks.find(m => m.mark.id === id && m.mark.type === type)?.position;
+  return marks.filter(m => m.mark.type === 'commentReference').flatMap(reference => {
+    const comment = doc.comments.find(c => c.id === reference.mark.id);
+    if (!comment) return [];
+    const end = position(comment.id, 'commentEnd') ?? reference.position;
+    return [{ comment, start: Math.min(position(comment.id, 'commentStart') ?? reference.position, end), end }];
+  });
+}
+
+/**
+ * Anchors a comment to a range of the body. A range ending at the start of a paragraph ends with the paragraph before.
+ */
+export function addCommentMarks(story: MemoryStory, start: number, end: number, id: number): void {
+  const endSlot = locate(story, end);
+  const endPosition = end > start && endSlot.start === end && end > 0 ? end - 1 : end;
+  const endParagraph = locate(story, endPosition);
+  // Inserting at the same offset places the new run first, so the reference goes in before the end mark
+  insertRun(endParagraph.paragraph, endPosition - endParagraph.start, markRun({ type: 'commentReference', id }));
+  insertRun(endParagraph.paragraph, endPosition - endParagraph.start, markRun({ type: 'commentEnd', id }));
+  const startSlot = locate(story, start);
+  insertRun(startSlot.paragraph, start - startSlot.start, markRun({ type: 'commentStart', id }));
+}
+
+/**
+ * Anchors a reply to the text of the comment it answers: its start mark follows the comment's start mark,
+ * its end and reference marks follow the last reference mark of the thread.
+ */
+export function addReplyMarks(story: MemoryStory, threadIds: number[], id: number): void {
+  const marks = listMarks(story);
+  const lastReference = marks.filter(m => m.mark.type === 'commentReference' && threadIds.includes(m.mark.id)).pop();
+  if (!lastReference) {
+    throw new Error("The comment has no reference mark.");
+  }
+  const references = lastReference.paragraph.runs;
+  references.splice(references.indexOf(lastReference.run) + 1, 0, markRun({ type: 'commentEnd', id }), markRun({ type: 'commentReference', id }));
+  const parentStart = marks.find(m => m.mark.type === 'commentStart' && m.mark.id === threadIds[0]);
+  if (parentStart) {
+    const runs = parentStart.paragraph.runs;
+    runs.splice(runs.indexOf(parentStart.run) + 1, 0, markRun({ type: 'commentStart', id }));
+  }
+}
+
+/**
+ * Removes the marks of comments from a story.
+ */
+export function removeCommentMarks(story: MemoryStory, ids: number[]): void {
+  for (const { run, mark, paragraph } of listMarks(story)) {
+    if (mark.type.startsWith('comment') && ids.includes(mark.id)) paragraph.runs.splice(paragraph.runs.indexOf(run), 1);
+  }
+}
+
+// --- Footnotes and Endnotes ---
+
+/**
+ * A note together with its reference mark.
+ */
+export interface NoteSlot {
+  note: MemoryNote;
+  reference: MarkSlot;
+}
+
+/**
+ * Lists the notes of a kind in the order of their reference marks, like Document.Footnotes and Document.Endnotes.
+ */
+export function listNotes(doc: MemoryDocument, kind: MemoryNoteKind): NoteSlot[] {
+  const notes = doc[`${kind}s` as const];
+  return listMarks(doc.body).filter(m => m.mark.type === `${kind}Reference`).flatMap(reference => {
+    const note = notes.find(n => n.id === reference.mark.id);
+    return note ? [{ note, reference }] : [];
+  });
+}
+
+/**
+ * Adds the reference mark of a note at a position of the body. Like text, it goes after fields ending there,
+ * and after the references of notes added there before.
+ */
+export function addNoteReference(story: MemoryStory, position: number, kind: MemoryNoteKind, id: number): void {
+  const { paragraph, start } = locate(story, position);
+  let index = contentIndexAt(paragraph, position - start);
+  while (paragraph.runs[index]?.mark?.type.endsWith('noteReference')) index++;
+  paragraph.runs.splice(index, 0, markRun({ type: `${kind}Reference`, id }));
+  normalizeRuns(paragraph);
+}
+
+// --- Bookmarks, Content Controls and Fields ---
+
+// Bookmarks, content controls and fields span the text between a start and an end mark sharing an id.
+type RangeMarkKind = 'bookmark' | 'contentControl' | 'field';
+
+/**
+ * A range delimited by a start and an end mark, with the character range between them.
+ */
+export interface MarkRange {
+  id: number;
+  start: number;
+  end: number;
+  startMark: MarkSlot;
+  endMark?: MarkSlot; // Missing when the end lies outside the modelled content; the range collapses to its start
+}
+
+export interface BookmarkSlot extends MarkRange {
+  name: string;
+}
+
+export interface ContentControlSlot extends MarkRange {
+  control: MemoryContentControl;
+}
+
+export interface FieldSlot extends MarkRange {
+  field: MemoryField;
+}
+
+/**
+ * Lists the ranges of a kind in the order of their start marks.
+ */
+function listMarkRanges(story: MemoryStory, kind: RangeMarkKind): MarkRange[] {
+  const marks = listMarks(story);
+  return marks.filter(m => m.mark.type === `${kind}Start`).map(startMark => {
+    const endMark = marks.find(m => m.mark.type === `${kind}End` && m.mark.id === startMark.mark.id);
+    const end = Math.max(endMark?.position ?? startMark.position, startMark.position);
+    return { id: startMark.mark.id, start: startMark.position, end, startMark, endMark };
+  });
+}
+
+/**
+ * Places a start and an end mark around a range. A range ending at the start of a paragraph
+ * ends with the paragraph before.
+ */
+function placeMarks(story: MemoryStory, start: number, end: number, startRun: MemoryRun, endRun: MemoryRun): void {
+  const endSlot = locate(story, end);
+  const endPosition = end > start && endSlot.start === end && end > 0 ? end - 1 : end;
+  const endParagraph = locate(story, endPosition);
+  // Inserting at the same offset places the new run first, so the start of a collapsed range goes in last
+  insertRun(endParagraph.paragraph, endPosition - endParagraph.start, endRun);
+  const startSlot = locate(story, start);
+  const { runs } = startSlot.paragraph;
+  let index = splitRunsAt(startSlot.paragraph, start - startSlot.start);
+  // Ranges ending where this one starts close before it
+  while (index < runs.length && !runs[index].text && runs[index] !== endRun && runs[index].mark?.type.endsWith('End')) index++;
+  runs.splice(index, 0, startRun);
+  normalizeRuns(startSlot.paragraph);
+}
+
+/**
+ * Removes the start and end mark of a range from a story.
+ */
+function removeMarks(story: MemoryStory, kind: RangeMarkKind, id: number): void {
+  for (const { run, mark, paragraph } of listMarks(story)) {
+    if (mark.type.startsWith(kind) && mark.id === id) paragraph.runs.splice(paragraph.runs.indexOf(run), 1);
+  }
+}
+
+/**
+ * Moves a range to new positions, keeping its marks (and so the elements they were read from) when it has both.
+ * The range may have been listed before edits to the story.
+ */
+function moveMarks(story: MemoryStory, kind: RangeMarkKind, range: MarkRange, start: number, end: number): void {
+  removeMarks(story, kind, range.id);
+  const [startRun, endRun] = range.endMark
+    ? [range.startMark.run, range.endMark.run]
+    : [markRun({ ...range.startMark.mark }), markRun({ type: `${kind}End`, id: range.id })];
+  placeMarks(story, start, end, startRun, endRun);
+}
+
+function nextMarkId(story: MemoryStory, kind: RangeMarkKind): number {
+  return listMarks(story).reduce((max, m) => m.mark.type.startsWith(kind) ? Math.max(max, m.mark.id) : max, -1) + 1;
+}
+
+/**
+ * Lists the bookmarks of a story in the order of their start marks.
+ */
+export function listBookmarks(story: MemoryStory): BookmarkSlot[] {
+  return listMarkRanges(story, 'bookmark').map(range => ({ ...range, name: range.startMark.mark.name ?? '' }));
+}
+
+/**
+ * Adds a bookmark over a range of a story, with an id not used by the other bookmarks.
+ */
+export function addBookmarkMarks(story: MemoryStory, start: number, end: number, name: string): void {
+  const id = nextMarkId(story, 'bookmark');
+  placeMarks(story, start, end, markRun({ type: 'bookmarkStart', id, name }), markRun({ type: 'bookmarkEnd', id }));
+}
+
+export function removeBookmarkMarks(story: MemoryStory, id: number): void {
+  removeMarks(story, 'bookmark', id);
+}
+
+export function moveBookmarkMarks(story: MemoryStory, bookmark: BookmarkSlot, start: number, end: number): void {
+  moveMarks(story, 'bookmark', bookmark, start, end);
+}
+
+/**
+ * Lists the content controls of a story in the order of their start marks; a control inside another follows it.
+ */
+export function listContentControls(story: MemoryStory): ContentControlSlot[] {
+  return listMarkRanges(story, 'contentControl').flatMap(range => range.startMark.mark.control ? [{ ...range, control: range.startMark.mark.control }] : []);
+}
+
+/**
+ * Adds a content control around a range of a story. A block-level control spans whole paragraphs.
+ */
+export function addContentControlMarks(story: MemoryStory, start: number, end: number, control: MemoryContentControl): void {
+  const id = nextMarkId(story, 'contentControl');
+  placeMarks(story, start, end, markRun({ type: 'contentControlStart', id, control }), markRun({ type: 'contentControlEnd', id }));
+}
+
+export function moveContentControlMarks(story: MemoryStory, slot: ContentControlSlot, start: number, end: number): void {
+  moveMarks(story, 'contentControl', slot, start, end);
+}
+
+/**
+ * Lists the fields of a story in the order of their start marks.
+ */
+export function listFields(story: MemoryStory): FieldSlot[] {
+  return listMarkRanges(story, 'field').flatMap(range => range.startMark.mark.field ? [{ ...range, field: range.startMark.mark.field }] : []);
+}
+
+/**
+ * Inserts a field with its result at a position.
+ * @param revision Records the field, its marks and result together, as one tracked insertion.
+ * @returns Position right after the field.
+ */
+export function insertField(story: MemoryStory, position: number, field: MemoryField, result: string, font?: RunFont, revision?: MemoryRevision): number {
+  const id = nextMarkId(story, 'field');
+  const end = insertText(story, position, result, font, revision);
+  placeMarks(story, position, end, { ...markRun({ type: 'fieldStart', id, field }), revision }, { ...markRun({ type: 'fieldEnd', id }), revision });
+  return end;
+}
+
+/**
+ * Replaces the result of a field, in the formatting of its first character. The result of a tracked field
+ * stays part of its insertion.
+ */
+export function setFieldResult(story: MemoryStory, slot: FieldSlot, result: string): void {
+  const font = fontAt(story, slot.end > slot.start ? slot.start + 1 : slot.start);
+  // Zero-width runs right before the field, such as the code of an enclosing field, would be deleted with the result
+  const runs = slot.startMark.paragraph.runs;
+  const index = runs.indexOf(slot.startMark.run);
+  let first = index;
+  while (first > 0 && !runs[first - 1].text) first--;
+  const before = runs.splice(first, index - first);
+  removeMarks(story, 'field', slot.id);
+  deleteRange(story, slot.start, slot.end);
+  const end = insertText(story, slot.start, result, font, slot.startMark.run.revision);
+  placeMarks(story, slot.start, end, slot.startMark.run, slot.endMark?.run ?? markRun({ type: 'fieldEnd', id: slot.id }));
+  const { paragraph } = listMarks(story).find(m => m.run === slot.startMark.run)!;
+  paragraph.runs.splice(paragraph.runs.indexOf(slot.startMark.run), 0, ...before);
+}
+
+/**
+ * Removes the marks of a field, leaving its result as plain text (like Field.Unlink).
+ */
+export function removeFieldMarks(story: MemoryStory, id: number): void {
+  removeMarks(story, 'field', id);
+}
+
+// --- Revisions ---
+
+/**
+ * A tracked change: adjacent runs and paragraph marks changed the same way by the same author at the same time.
+ */
+export interface RevisionSlot {
+  revision: MemoryRevision;
+  start: number;
+  end: number; // Includes the paragraph mark when it is part of the change
+}
+
+function sameRevision(a: MemoryRevision | undefined, b: MemoryRevision): boolean {
+  return !!a && a.type === b.type && a.author === b.author && a.date === b.date;
+}
+
+/**
+ * Lists the tracked changes of a story in document order, like Document.Revisions.
+ */
+export function listRevisions(story: MemoryStory): RevisionSlot[] {
+  const slots: RevisionSlot[] = [];
+  const add = (revision: MemoryRevision, start: number, end: number) => {
+    const last = slots[slots.length - 1];
+    if (last && last.end === start && sameRevision(last.revision, revision)) {
+      last.end = end;
+    } else {
+      slots.push({ revision, start, end });
+    }
+  };
+  for (const slot of listParagraphs(story)) {
+    let position = slot.start;
+    for (const run of slot.paragraph.runs) {
+      // Marks go with the revision of the text around them
+      if (run.revision && !run.mark) add(run.revision, position, position + run.text.length);
+      position += run.text.length;
+    }
+    if (slot.paragraph.markRevision) add(slot.paragraph.markRevision, slot.end, slot.end + 1);
+  }
+  return slots;
+}
+
+/**
+ * Marks the content of a range as a tracked change: its text runs, and the paragraph marks that deleting would
+ * merge with the next paragraph (the last mark of a story or cell cannot change).
+ * @param keeps Tells which revisions already on the content stay as they are.
+ */
+export function markRevision(story: MemoryStory, start: number, end: number, revision: MemoryRevision, keeps: (existing?: MemoryRevision) => boolean = () => false): void {
+  if (end <= start) return;
+  for (const slot of paragraphsInRange(story, start, end)) {
+    const from = Math.max(start, slot.start) - slot.start;
+    const to = Math.min(end, slot.end) - slot.start;
+    if (to > from) {
+      const first = splitRunsAt(slot.paragraph, from);
+      const last = splitRunsAt(slot.paragraph, to);
+      for (const run of slot.paragraph.runs.slice(first, last)) {
+        if (!run.opaque && !keeps(run.revision)) run.revision = revision;
+      }
+      normalizeRuns(slot.paragraph);
+    }
+    const next = slot.container[slot.container.indexOf(slot.paragraph) + 1];
+    if (slot.end < end && next?.type === 'paragraph' && !keeps(slot.paragraph.markRevision)) {
+      slot.paragraph.markRevision = revision;
+    }
+  }
+}
+
+/**
+ * Records the deletion of a range as a tracked change instead of removing it. Tracked insertions of the
+ * same author are removed right away, as in Word; text that is already deleted keeps its revision.
+ * @returns The end of the range once those insertions are gone.
+ */
+export function trackDeletion(story: MemoryStory, start: number, end: number, revision: MemoryRevision): number {
+  if (end <= start) return end;
+  const own = (r: MemoryRevision | undefined) => r?.type === 'insert' && r.author === revision.author;
+  const ownInsertions = listRevisions(story)
+    .filter(slot => own(slot.revision))
+    .map(slot => ({ start: Math.max(slot.start, start), end: Math.min(slot.end, end) }))
+    .filter(span => span.end > span.start);
+  markRevision(story, start, end, revision, existing => existing?.type === 'delete' || own(existing));
+  for (const span of [...ownInsertions].reverse()) {
+    deleteRange(story, span.start, span.end);
+  }
+  return end - ownInsertions.reduce((length, span) => length + span.end - span.start, 0);
+}
+
+/**
+ * Accepts or rejects a tracked change. Accepting an insertion or rejecting a deletion keeps the content
+ * as ordinary text; accepting a deletion or rejecting an insertion removes it.
+ */
+export function resolveRevision(story: MemoryStory, target: RevisionSlot, accept: boolean): void {
+  const keep = (target.revision.type === 'insert') === accept;
+  for (const slot of listParagraphs(story)) {
+    if (slot.start > target.end || slot.end < target.start) continue;
+    const runs: MemoryRun[] = [];
+    let position = slot.start;
+    for (const run of slot.paragraph.runs) {
+      const inside = position >= target.start && position + run.text.length <= target.end && sameRevision(run.revision, target.revision);
+      position += run.text.length;
+      if (inside && (keep || run.mark)) delete run.revision;
+      if (inside && !keep && !run.text && !run.mark) continue; // deleteRange below removes the text but keeps empty runs at the edges
+      runs.push(run);
+    }
+    slot.paragraph.runs = runs;
+    const next = slot.container[slot.container.indexOf(slot.paragraph) + 1];
+    const mergeable = !keep && next?.type === 'paragraph';
+    if (slot.end >= target.start && slot.end < target.end && sameRevision(slot.paragraph.markRevision, target.revision) && !mergeable) {
+      delete slot.paragraph.markRevision;
+    }
+    normalizeRuns(slot.paragraph);
+  }
+  if (!keep) deleteRange(story, target.start, target.end);
+}
+
+// --- Table Grid ---
+
+/**
+ * A cell placed on the table grid. A merged cell covers rowSpan x colSpan grid positions; the cells merged
+ * into it from the rows below (verticalMerge 'continue') are kept as continuations.
+ */
+export interface GridCell {
+  cell: MemoryCell;
+  row: number; // 0-based
+  column: number; // 0-based grid column
+  rowSpan: number;
+  colSpan: number;
+  colIndex: number; // 1-based position of the cell in its row
+  continuations: MemoryCell[];
+}
+
+/**
+ * Lays the cells of a table out on its grid.
+ */
+export function tableGrid(table: MemoryTable): { cells: GridCell[]; columns: number } {
+  const cells: GridCell[] = [];
+  const above = new Map<number, GridCell>(); // Cell that a vertical merge at a grid column continues
+  let columns = 0;
+  table.rows.forEach((row, r) => {
+    let column = 0;
+    row.cells.forEach((cell, c) => {
+      const colSpan = cell.colSpan ?? 1;
+      const merged = cell.verticalMerge === 'continue' ? above.get(column) : undefined;
+      if (merged && merged.row + merged.rowSpan === r) {
+        merged.rowSpan++;
+        merged.continuations.push(cell);
+      } else {
+        const item: GridCell = { cell, row: r, column, rowSpan: 1, colSpan, colIndex: c + 1, continuations: [] };
+        cells.push(item);
+        above.set(column, item);
+      }
+      column += colSpan;
+    });
+    columns = Math.max(columns, column);
+  });
+  return { cells, columns };
+}
+
+/**
+ * Rebuilds the rows of a table from grid cells, e.g. after merging or splitting them on the grid.
+ * Cells are ordered by grid column in every row they cover; rows missing from the table are added.
+ */
+export function setTableGrid(table: MemoryTable, cells: GridCell[], rowCount: number): void {
+  const rows = Array.from({ length: rowCount }, (_, r) => table.rows[r] ?? { cells: [] });
+  rows.forEach(row => row.cells = []);
+  for (const item of [...cells].sort((a, b) => a.column - b.column)) {
+    for (let r = item.row; r < item.row + item.rowSpan; r++) {
+      const cell = r === item.row ? item.cell : item.continuations[r - item.row - 1] ?? createCell();
+      cell.colSpan = item.colSpan > 1 ? item.colSpan : undefined;
+      cell.verticalMerge = item.rowSpan === 1 ? undefined : r === item.row ? 'restart' : 'continue';
+      rows[r].cells.push(cell);
+    }
+  }
+  table.rows = rows.filter(row => row.cells.length > 0);
+}
+
+// --- Navigation ---
+
+function boundaries(text: string, pattern: RegExp): number[] {
+  const result: number[] = [];
+  for (const match of text.matchAll(pattern)) {
+    result.push(match.index!);
+  }
+  result.push(text.length);
+  return result;
+}
+
+/**
+ * Moves a position by a number of units, clamped to the story.
+ * @param unit WdUnits value (1=Character, 2=Word, 3=Sentence, 4=Paragraph, 5=Line, 6=Story).
+ * @param count Positive moves forward, negative moves backward.
+ */
+export function movePosition(story: MemoryStory, position: number, unit: number, count: number): number {
+  const text = storyText(story);
+  const last = text.length - 1; // The insertion point cannot move past the final paragraph mark
+  let stops: number[];
+  switch (unit) {
+    case 1: // wdCharacter
+      return Math.min(Math.max(position + count, 0), last);
+    case 2: // wdWord - a word includes its trailing spaces
+      stops = boundaries(text, /[\p{L}\p{N}_']+[ \t]*|[^\p{L}\p{N}_'\s][ \t]*|\r|[ \t]+/gu);
+      break;
+    case 3: // wdSentence
+      stops = [0, ...boundaries(text, /(?<=[.!?]+[ \t]+|\r)(?=[^\r])/g)];
+      break;
+    case 4: // wdParagraph
+    case 5: // wdLine - without layout information, lines are treated as paragraphs
+      stops = [0, ...listParagraphs(story).slice(1).map(slot => slot.start), text.length];
+      break;
+    case 6: // wdStory
+      return count < 0 ? 0 : last;
+    default:
+      throw new Error(`Unit ${unit} is not supported without Word.`);
+  }
+  let result = position;
+  for (let i = 0; i < Math.abs(count); i++) {
+    const next = count > 0 ? stops.find(stop => stop > result) : [...stops].reverse().find(stop => stop < result);
+    if (next === undefined) break;
+    result = next;
+  }
+  return Math.min(Math.max(result, 0), last);
+}
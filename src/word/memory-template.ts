@@ -0,0 +1,273 @@
+// Renders the template tags of the in-memory model (see template.ts for the syntax): value tags are replaced with data,
+// each sections repeat paragraphs or table rows and if sections keep one of their branches.
+import {
+  MemoryStory,
+  MemoryBlock,
+  MemoryParagraph,
+  MemoryTable,
+  MemoryRow,
+  MemoryCell,
+  createParagraph,
+  paragraphText,
+  listParagraphs,
+  locate,
+  fontAt,
+  insertText,
+  deleteRange,
+} from './memory-document.js';
+import { TemplateData } from './word-backend.js';
+import {
+  TemplateTag,
+  TemplateScope,
+  findTemplateTags,
+  matchTemplateSection,
+  lookupTemplateValue,
+  isTemplateTruthy,
+  templateText,
+  templateItems,
+} from './template.js';
+
+/**
+ * A tag in a paragraph placed directly in a block container (a story, a table cell or repeated content).
+ */
+interface PlacedTag {
+  tag: TemplateTag;
+  paragraph: MemoryParagraph;
+  block: number; // Index of the paragraph in its container
+  alone: boolean; // The paragraph holds nothing but the tag
+  row?: number; // For tags in table cells: index of the row
+  cell?: MemoryCell;
+}
+
+interface Section {
+  open: PlacedTag;
+  elseTag?: PlacedTag;
+  close: PlacedTag;
+}
+
+/**
+ * Renders the tags of a story with the data.
+ * @param unresolved Collects the data paths of tags the data has no value for.
+ */
+export function renderStoryTemplate(story: MemoryStory, data: TemplateData, unresolved: string[]): void {
+  renderBlocks(story.blocks, [{ value: data }], unresolved);
+  endWithParagraph(story.blocks);
+}
+
+function placeTags(paragraph: MemoryParagraph, block: number, from: number = 0, cell?: { row: number; cell: MemoryCell }): PlacedTag[] {
+  const text = paragraphText(paragraph);
+  return findTemplateTags(text, from).map(tag => ({ tag, paragraph, block, alone: text.trim() === tag.text, ...cell }));
+}
+
+/**
+ * Renders the tags of the blocks of a container in order. Content produced by a tag is not searched for tags again.
+ */
+function renderBlocks(blocks: MemoryBlock[], scopes: TemplateScope[], unresolved: string[]): void {
+  let index = 0;
+  let offset = 0;
+  while (index < blocks.length) {
+    const block = blocks[index];
+    if (block.type === 'table') {
+      renderTable(block, scopes, unresolved);
+      if (block.rows.length === 0) blocks.splice(index, 1);
+      else index++;
+      continue;
+    }
+    const tag = block.type === 'paragraph' ? findTemplateTags(paragraphText(block), offset)[0] : undefined;
+    if (!tag) {
+      index++;
+      offset = 0;
+    } else if (tag.kind === 'value') {
+      [index, offset] = replaceValue(blocks, index, tag, scopes, unresolved);
+    } else if (tag.kind === 'each' || tag.kind === 'if') {
+      [index, offset] = renderSection(blocks, index, tag, scopes, unresolved);
+    } else {
+      throw new Error(`${tag.text} has no matching ${tag.kind === 'endEach' ? '{{#each ...}}' : '{{#if ...}}'}.`);
+    }
+  }
+}
+
+/**
+ * Replaces a value tag with its text, in the formatting of the tag.
+ * @returns Where rendering goes on: the block index and offset after the inserted text.
+ */
+function replaceValue(blocks: MemoryBlock[], index: number, tag: TemplateTag, scopes: TemplateScope[], unresolved: string[]): [number, number] {
+  // A story of its own, so line breaks in the value split the paragraph within the container
+  const story: MemoryStory = { blocks: [blocks[index]] };
+  const font = fontAt(story, tag.start + 1);
+  deleteRange(story, tag.start, tag.end);
+  const end = insertText(story, tag.start, templateText(lookupTemplateValue(scopes, tag.path, unresolved)), font);
+  blocks.splice(index, 1, ...story.blocks);
+  const slot = locate(story, end);
+  return [index + story.blocks.indexOf(slot.paragraph), end - slot.start];
+}
+
+/**
+ * Renders an each or if section opened in a paragraph of the container. It spans the paragraphs from the opening
+ * to the closing tag; an if section within one paragraph only spans the text between its tags.
+ * @returns Where rendering goes on.
+ */
+function renderSection(blocks: MemoryBlock[], index: number, tag: TemplateTag, scopes: TemplateScope[], unresolved: string[]): [number, number] {
+  const tags = [
+    ...placeTags(blocks[index] as MemoryParagraph, index, tag.start),
+    ...blocks.slice(index + 1).flatMap((block, i) => block.type === 'paragraph' ? placeTags(block, index + 1 + i) : []),
+  ];
+  const section = matchTemplateSection(tags, 0);
+  if (!section) {
+    throw new Error(`${tag.text} has no matching {{/${tag.kind}}} in the same story, table cell or table row.`);
+  }
+  const open = tags[0];
+  const { elseTag, close } = section;
+  // Merging or copying the paragraphs would lose or repeat the section break
+  const spanned = blocks.slice(index, tag.kind === 'each' ? close.block + 1 : close.block);
+  if (spanned.some(block => block.type === 'paragraph' && block.sectionBreak)) {
+    throw new Error(`${tag.text} spans a section break, which template sections cannot.`);
+  }
+
+  const story: MemoryStory = { blocks: blocks.slice(index, close.block + 1) };
+  if (tag.kind === 'if') {
+    if (isTemplateTruthy(lookupTemplateValue(scopes, tag.path, unresolved))) {
+      removeTags(story, elseTag ?? close, close);
+      removeTags(story, open, open);
+    } else {
+      if (elseTag) removeTags(story, close, close);
+      removeTags(story, open, elseTag ?? close);
+    }
+    // The kept branch is rendered in the same scope, from where the section was
+    blocks.splice(index, close.block + 1 - index, ...story.blocks);
+    return [index, open.alone ? 0 : tag.start];
+  }
+
+  removeTags(story, close, close);
+  removeTags(story, open, open);
+  const items = templateItems(lookupTemplateValue(scopes, tag.path, unresolved), tag.path);
+  const copies = items.map((_, i) => i === 0 ? story.blocks : copyContent(story.blocks));
+  const rendered = copies.flatMap((copy, i) => {
+    renderBlocks(copy, [...scopes, { value: items[i], index: i }], unresolved);
+    return copy;
+  });
+  blocks.splice(index, close.block + 1 - index, ...rendered);
+  return [index + rendered.length, 0];
+}
+
+/**
+ * Deletes the text from the start of a tag to the end of a later (or the same) tag. When both tags were alone in
+ * their paragraphs, the paragraph this leaves is removed too.
+ */
+function removeTags(story: MemoryStory, from: PlacedTag, to: PlacedTag): void {
+  const slots = listParagraphs(story);
+  const fromSlot = slots.find(slot => slot.paragraph === from.paragraph)!;
+  const toSlot = slots.find(slot => slot.paragraph === to.paragraph)!;
+  const whole = from.alone && to.alone;
+  const start = whole ? fromSlot.start : fromSlot.start + from.tag.start;
+  deleteRange(story, start, whole ? toSlot.end : toSlot.start + to.tag.end);
+  const { paragraph } = locate(story, start);
+  if (whole && !paragraphText(paragraph) && !paragraph.sectionBreak) {
+    story.blocks.splice(story.blocks.indexOf(paragraph), 1);
+  }
+}
+
+/**
+ * Renders the rows of a table. Sections whose tags are in different cells, and each sections within one cell
+ * paragraph, repeat or remove the rows from the opening to the closing tag.
+ */
+function renderTable(table: MemoryTable, scopes: TemplateScope[], unresolved: string[]): void {
+  let index = 0;
+  while (index < table.rows.length) {
+    const section = rowSection(table, index);
+    if (section) {
+      index += renderRows(table, section, scopes, unresolved);
+      continue;
+    }
+    for (const cell of table.rows[index].cells) {
+      renderBlocks(cell.blocks, scopes, unresolved);
+      endWithParagraph(cell.blocks);
+    }
+    index++;
+  }
+}
+
+/**
+ * Finds the first section opened in a row that spans rows; sections within a cell are left to the cell.
+ */
+function rowSection(table: MemoryTable, index: number): Section | undefined {
+  const tags = table.rows.slice(index).flatMap((row, i) => row.cells.flatMap(cell => cell.blocks.flatMap((block, b) =>
+    block.type === 'paragraph' ? placeTags(block, b, 0, { row: index + i, cell }) : [])));
+  for (let i = 0; i < tags.length && tags[i].row === index; i++) {
+    const open = tags[i];
+    if (open.tag.kind !== 'each' && open.tag.kind !== 'if') continue;
+    const section = matchTemplateSection(tags, i);
+    if (!section) continue;
+    if (section.close.cell === open.cell && (section.close.paragraph !== open.paragraph || open.tag.kind === 'if')) {
+      i = tags.indexOf(section.close);
+      continue;
+    }
+    return { open, ...section };
+  }
+  return undefined;
+}
+
+/**
+ * Renders a section spanning table rows.
+ * @returns The number of rows it was rendered into.
+ */
+function renderRows(table: MemoryTable, { open, elseTag, close }: Section, scopes: TemplateScope[], unresolved: string[]): number {
+  if (elseTag && elseTag.row === open.row) {
+    throw new Error(`The {{else}} of ${open.tag.text} must be in a later row of the table.`);
+  }
+  for (const placed of [close, elseTag, open]) {
+    if (!placed) continue;
+    deleteRange({ blocks: [placed.paragraph] }, placed.tag.start, placed.tag.end);
+    const { blocks } = placed.cell!;
+    if (placed.alone && blocks.length > 1) blocks.splice(blocks.indexOf(placed.paragraph), 1);
+  }
+  const rows = table.rows.slice(open.row!, close.row! + 1);
+  const renderPart = (part: MemoryRow[], partScopes: TemplateScope[]) => {
+    const partTable: MemoryTable = { ...table, rows: part };
+    renderTable(partTable, partScopes, unresolved);
+    return partTable.rows;
+  };
+  let rendered: MemoryRow[];
+  if (open.tag.kind === 'each') {
+    const items = templateItems(lookupTemplateValue(scopes, open.tag.path, unresolved), open.tag.path);
+    const copies = items.map((_, i) => i === 0 ? rows : copyContent(rows));
+    rendered = copies.flatMap((copy, i) => renderPart(copy, [...scopes, { value: items[i], index: i }]));
+  } else {
+    const split = elseTag ? elseTag.row! - open.row! : rows.length;
+    const keep = isTemplateTruthy(lookupTemplateValue(scopes, open.tag.path, unresolved));
+    rendered = renderPart(keep ? rows.slice(0, split) : rows.slice(split), scopes);
+  }
+  table.rows.splice(open.row!, rows.length, ...rendered);
+  return rendered.length;
+}
+
+/**
+ * Copies repeated content. Bookmarks, comments and notes stay with the original, as their names and ids must be unique.
+ */
+function copyContent<T extends MemoryBlock[] | MemoryRow[]>(content: T): T {
+  const copy = structuredClone(content);
+  const strip = (blocks: MemoryBlock[]) => {
+    for (const block of blocks) {
+      if (block.type === 'paragraph') {
+        block.runs = block.runs.filter(run => !run.mark || run.mark.type.startsWith('field') || run.mark.type.startsWith('contentControl'));
+      } else if (block.type === 'table') {
+        block.rows.forEach(row => row.cells.forEach(cell => strip(cell.blocks)));
+      } else if (block.type === 'toc') {
+        strip(block.blocks);
+      }
+    }
+  };
+  for (const item of copy as (MemoryBlock | MemoryRow)[]) {
+    if ('cells' in item) item.cells.forEach(cell => strip(cell.blocks));
+    else strip([item]);
+  }
+  return copy;
+}
+
+/**
+ * Adds an empty paragraph to a story or cell left without a paragraph at its end.
+ */
+function endWithParagraph(blocks: MemoryBlock[]): void {
+  const last = blocks[blocks.length - 1];
+  if (!last || last.type === 'table') blocks.push(createParagraph());
+}
@@ -0,0 +1,3725 @@
+import fs from 'fs/promises';
+import { AsyncLocalStorage } from 'async_hooks';
+import os from 'os';
+import path from 'path';
+import { WordBackend, SelectionInfo, DocumentInfo, RangeDescriptor, ParagraphInfo, ParagraphPage, HeadingInfo, StyleInfo, StyleSettings, TableOfContentsOptions, TableOfContentsInfo, TableInfo, TableData, TableFromDataOptions, TableCellFormat, TableSortOptions, ListFormatOptions, CommentInfo, RevisionInfo, BookmarkInfo, ContentControlInfo, ContentControlOptions, MergeRecord, TemplateData, TemplateRendering, FieldInfo, NoteKind, NoteInfo, NOTE_CONTEXT_LENGTH, CompareOptions, formatDate, fieldType, mergeFieldCode, mergeFieldName, ContentBlock, ContentTable, ContentParagraph, ContentRun, CODE_FONT, isMonospaceFont, initialsOf } from './word-backend.js';
+import { readImageInfo, POINTS_PER_PIXEL } from './image-info.js';
+import { isListStyleName } from './content.js';
+import {
+  MemoryDocument,
+  MemorySelection,
+  MemoryStory,
+  MemoryBlock,
+  MemoryParagraph,
+  MemoryRun,
+  MemoryTable,
+  MemoryCell,
+  MemoryPicture,
+  MemoryStyle,
+  MemoryTableOfContents,
+  MemoryList,
+  ParagraphList,
+  MemoryComment,
+  MemoryRevision,
+  MemorySection,
+  MemoryField,
+  MemoryNote,
+  CommentSlot,
+  NoteSlot,
+  RevisionSlot,
+  BookmarkSlot,
+  MemoryContentControl,
+  ContentControlSlot,
+  FieldSlot,
+  TocSlot,
+  ParagraphFormat,
+  RunFont,
+  PAPER_SIZES,
+  createDocument,
+  cloneDocument,
+  createTable,
+  createCell,
+  createParagraph,
+  createStory,
+  listParagraphs,
+  sliceParagraph,
+  ParagraphSlot,
+  topLevelTables,
+  listTables,
+  tableGrid,
+  setTableGrid,
+  GridCell,
+  listTocs,
+  locate,
+  storyText,
+  storyLength,
+  changedRange,
+  paragraphText,
+  paragraphsInRange,
+  fontsInRange,
+  fontAt,
+  insertText,
+  insertPictureRun,
+  insertBlock,
+  insertBlocks,
+  deleteRange,
+  applyFont,
+  setBlocksText,
+  setStoryText,
+  cellStart,
+  movePosition,
+  normalizeRuns,
+  ensureStyle,
+  addListTemplate,
+  addList,
+  listGallerySize,
+  listLevel,
+  listStrings,
+  formatListNumber,
+  listComments,
+  addCommentMarks,
+  addReplyMarks,
+  removeCommentMarks,
+  listRevisions,
+  trackDeletion,
+  resolveRevision,
+  listBookmarks,
+  addBookmarkMarks,
+  moveBookmarkMarks,
+  removeBookmarkMarks,
+  listContentControls,
+  addContentControlMarks,
+  moveContentControlMarks,
+  listFields,
+  insertField,
+  setFieldResult,
+  removeFieldMarks,
+  listMarks,
+  listNotes,
+  addNoteReference,
+  CHECKBOX_CHECKED,
+  CHECKBOX_UNCHECKED,
+  LIST_BULLET,
+  OBJECT_CHARACTER,
+} from './memory-document.js';
+import { StoryComparison, compareStories } from './memory-compare.js';
+import { renderStoryTemplate } from './memory-template.js';
+
+// A field of the document as listed by listFields: a field of a story or a table of contents
+interface DocumentField {
+  story: MemoryStory;
+  location: Pick<FieldInfo, 'story' | 'sectionIndex' | 'headerFooterType'>;
+  code: string;
+  start: number;
+  end: number;
+  field?: FieldSlot;
+  toc?: TocSlot;
+}
+
+// The range withRange acts on, standing in for the selection of its document
+interface RangeTarget {
+  doc: MemoryDocument;
+  selection: MemorySelection;
+}
+
+// Paragraph style of the text of each kind of note
+const NOTE_STYLES: { [kind in NoteKind]: string } = { footnote: 'Footnote Text', endnote: 'Endnote Text' };
+
+/**
+ * Reference backend that keeps documents in memory, following the Word object model semantics
+ * (selection, paragraphs, tables, sections) without requiring Microsoft Word.
+ * Saved documents are kept as snapshots in memory and can be reopened by path during the session.
+ */
+export class MemoryWordService implements WordBackend {
+  public readonly savesFiles: boolean = false;
+  protected documents: MemoryDocument[] = [];
+  protected activeDocument: MemoryDocument | null = null;
+  private targetDocument = new AsyncLocalStorage<MemoryDocument>(); // Set for the calls made within withDocument
+  private targetRange = new AsyncLocalStorage<RangeTarget>(); // Set for the calls made within withRange
+  private rangeTargets = new Set<RangeTarget>(); // Ranges of the withRange calls in progress
+  private bodyTexts = new WeakMap<MemoryDocument, string>(); // Body text at the last edit
+  private placedSelections = new WeakSet<MemorySelection>(); // Selections set by the edit in progress
+  private documentIds = new WeakMap<MemoryDocument, string>();
+  private idCounter = 0;
+  private documentCounter = 0;
+  private compareCounter = 0;
+  private mergeCounter = 0;
+  private savedFiles = new Map<string, MemoryDocument>();
+
+  /**
+   * Loads a document from storage. Subclasses override this to read real files.
+   * @param filePath Absolute path of the document.
+   */
+  protected async readDocumentFile(filePath: string): Promise<MemoryDocument> {
+    const snapshot = this.savedFiles.get(filePath);
+    if (!snapshot) {
+      throw new Error(`Document not found: ${filePath}. The in-memory backend can only open documents saved during this session.`);
+    }
+    return cloneDocument(snapshot);
+  }
+
+  /**
+   * Writes a document to storage. Subclasses override this to write real files.
+   * @param doc The document to write.
+   * @param filePath Absolute path of the target file.
+   * @param fileFormat Optional WdSaveFormat value.
+   */
+  protected async writeDocumentFile(doc: MemoryDocument, filePath: string, fileFormat?: number): Promise<void> {
+    this.savedFiles.set(filePath, cloneDocument(doc));
+  }
+
+  /**
+   * Copies a document into a new, unsaved one. Subclasses override this to copy what the model does not hold.
+   * @param doc The document to copy.
+   */
+  protected async copyDocument(doc: MemoryDocument): Promise<MemoryDocument> {
+    return cloneDocument(doc);
+  }
+
+  /**
+   * Gets the active document, or the document targeted by withDocument.
+   * Throws an error if no document is open.
+   */
+  public async getActiveDocument(): Promise<MemoryDocument> {
+    const doc = this.targetDocument.getStore() ?? this.activeDocument;
+    if (!doc) {
+      throw new Error("No active document found.");
+    }
+    return doc;
+  }
+
+  /**
+   * Makes a document the active one and adds it to the open documents.
+   */
+  protected activate(doc: MemoryDocument): MemoryDocument {
+    if (!this.documents.includes(doc)) {
+      this.documents.push(doc);
+    }
+    if (!this.bodyTexts.has(doc)) {
+      this.bodyTexts.set(doc, storyText(doc.body));
+    }
+    this.activeDocument = doc;
+    return doc;
+  }
+
+  /**
+   * Sets the selection of a document, clamped to its body. Clears formatting pending on the old insertion point.
+   * Set after an edit, the selection already refers to the changed body, so touch leaves it in place.
+   */
+  protected select(doc: MemoryDocument, start: number, end: number = start): void {
+    const length = storyLength(doc.body);
+    const clampedStart = Math.min(Math.max(start, 0), length - 1);
+    const selection = { start: clampedStart, end: Math.min(Math.max(end, clampedStart), length) };
+    const before = this.bodyTexts.get(doc);
+    if (before !== undefined && before.length !== length) {
+      this.placedSelections.add(selection);
+    }
+    const target = this.targetRange.getStore();
+    if (target?.doc === doc) {
+      target.selection = selection;
+    } else {
+      doc.selection = selection;
+    }
+  }
+
+  /**
+   * Gets the selection of a document, or the range standing in for it while withRange runs on the document.
+   */
+  protected selectionOf(doc: MemoryDocument): MemorySelection {
+    const target = this.targetRange.getStore();
+    return target?.doc === doc ? target.selection : doc.selection;
+  }
+
+  /**
+   * Gets the body paragraphs touched by the selection.
+   */
+  protected selectedParagraphs(doc: MemoryDocument): ParagraphSlot[] {
+    const { start, end } = this.selectionOf(doc);
+    return paragraphsInRange(doc.body, start, end);
+  }
+
+  /**
+   * Marks a document as changed. Called after each edit, once per changed place for edits in several places.
+   * Like Word's live Selection and Range objects, the selection and the ranges of withRange calls in progress
+   * move with the text: they shift by the length of text inserted or deleted before them and shrink with text
+   * deleted across them. A selection the edit set itself stays where it was put.
+   */
+  protected touch(doc: MemoryDocument): void {
+    doc.saved = false;
+    const text = storyText(doc.body);
+    const before = this.bodyTexts.get(doc);
+    const selections = [doc.selection, ...[...this.rangeTargets].filter(target => target.doc === doc).map(target => target.selection)];
+    if (before !== undefined && before.length !== text.length) {
+      const { end, newEnd } = changedRange(before, text);
+      const shift = (position: number) => position >= end ? position + newEnd - end : Math.min(position, newEnd);
+      for (const selection of selections.filter(selection => !this.placedSelections.has(selection))) {
+        selection.start = shift(selection.start);
+        selection.end = shift(selection.end);
+      }
+    }
+    for (const selection of selections) {
+      this.placedSelections.delete(selection);
+    }
+    this.bodyTexts.set(doc, text);
+  }
+
+  // --- Document Methods ---
+
+  /**
+   * Creates a new document and makes it active.
+   */
+  public async createDocument(): Promise<MemoryDocument> {
+    this.documentCounter++;
+    return this.activate(createDocument(`Document${this.documentCounter}`));
+  }
+
+  /**
+   * Opens a document and makes it active. Reopening an already open path activates it.
+   * @param filePath The path to the document file.
+   */
+  public async openDocument(filePath: string): Promise<MemoryDocument> {
+    const fullName = path.resolve(filePath);
+    try {
+      const open = this.documents.find(d => d.fullName === fullName);
+      if (open) {
+        return this.activate(open);
+      }
+      const doc = await this.readDocumentFile(fullName);
+      doc.name = path.basename(fullName);
+      doc.fullName = fullName;
+      doc.path = path.dirname(fullName);
+      doc.saved = true;
+      doc.selection = { start: 0, end: 0 };
+      return this.activate(doc);
+    } catch (error) {
+      console.error(`Failed to open document at path: ${filePath}`, error);
+      throw new Error(`Failed to open document: ${filePath}. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Saves the active document to its current path.
+   */
+  public async saveActiveDocument(): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (!doc.path) {
+        throw new Error(`Document '${doc.name}' has never been saved. Use saveActiveDocumentAs to choose a path.`);
+      }
+      await this.writeDocumentFile(doc, doc.fullName);
+      doc.saved = true;
+    } catch (error) {
+      console.error("Failed to save active document:", error);
+      throw new Error(`Failed to save active document. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Saves the active document under a new path.
+   * @param filePath The new path for the document.
+   * @param fileFormat Optional WdSaveFormat value.
+   */
+  public async saveActiveDocumentAs(filePath: string, fileFormat?: any): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const fullName = path.resolve(filePath);
+      await this.writeDocumentFile(doc, fullName, fileFormat);
+      doc.name = path.basename(fullName);
+      doc.fullName = fullName;
+      doc.path = path.dirname(fullName);
+      doc.saved = true;
+    } catch (error) {
+      console.error(`Failed to save document as: ${filePath}`, error);
+      throw new Error(`Failed to save document as: ${filePath}. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Closes a document. The most recently opened remaining document becomes active.
+   * @param doc The document to close.
+   * @param saveChanges Optional WdSaveOptions value (0=No, -1=Yes, -2=Prompt). Prompting is treated as not saving.
+   */
+  public async closeDocument(doc: MemoryDocument, saveChanges?: any): Promise<void> {
+    try {
+      if (saveChanges === -1 && !doc.saved) {
+        if (!doc.path) {
+          throw new Error(`Document '${doc.name}' has never been saved and cannot be saved on close.`);
+        }
+        await this.writeDocumentFile(doc, doc.fullName);
+      }
+      this.documents = this.documents.filter(d => d !== doc);
+      if (this.activeDocument === doc) {
+        this.activeDocument = this.documents[this.documents.length - 1] ?? null;
+      }
+    } catch (error) {
+      console.error("Failed to close document:", error);
+      throw new Error(`Failed to close document. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Discards all open documents, like quitting Word without saving.
+   */
+  public async quitWord(): Promise<void> {
+    this.documents = [];
+    this.activeDocument = null;
+  }
+
+  /**
+   * Lists the open documents in the order they were opened.
+   */
+  public async listDocuments(): Promise<DocumentInfo[]> {
+    return this.documents.map(doc => ({
+      id: this.documentId(doc),
+      name: doc.name,
+      fullName: doc.fullName,
+      saved: doc.saved,
+      isActive: doc === this.activeDocument,
+    }));
+  }
+
+  /**
+   * Gets the id of a document, which stays the same until it is closed.
+   * @param doc The document.
+   */
+  public async getDocumentId(doc: MemoryDocument): Promise<string> {
+    return this.documentId(doc);
+  }
+
+  private documentId(doc: MemoryDocument): string {
+    let id = this.documentIds.get(doc);
+    if (!id) {
+      id = `doc${++this.idCounter}`;
+      this.documentIds.set(doc, id);
+    }
+    return id;
+  }
+
+  /**
+   * Finds an open document by id, name or full path.
+   */
+  protected findDocument(documentId: string): MemoryDocument {
+    const doc = this.documents.find(d => this.documentIds.get(d) === documentId)
+      ?? this.documents.find(d => d.name === documentId || d.fullName === documentId);
+    if (!doc) {
+      throw new Error(`Document not found: ${documentId}. It is not open.`);
+    }
+    return doc;
+  }
+
+  /**
+   * Makes an open document the active one.
+   * @param documentId Id, name or full path of the document.
+   */
+  public async activateDocument(documentId: string): Promise<void> {
+    this.activate(this.findDocument(documentId));
+  }
+
+  /**
+   * Runs an action with an open document as the target of all methods, without activating it.
+   * The target is scoped to the calls made within the action, so concurrent actions each keep their own.
+   * @param documentId Id, name or full path of the open document.
+   * @param action The operations to run on the document.
+   */
+  public async withDocument<T>(documentId: string, action: () => Promise<T>): Promise<T> {
+    const doc = this.findDocument(documentId);
+    return this.targetDocument.run(doc, action);
+  }
+
+  /**
+   * Compares two saved documents into a new document that becomes active: the revised document with text only in
+   * it marked as inserted and text only in the original put back as deleted. Formatting differences are not detected.
+   * @param originalPath Path of the original document.
+   * @param revisedPath Path of the revised document.
+   * @param options Granularity, what to compare and the author of the revisions.
+   */
+  public async compareDocuments(originalPath: string, revisedPath: string, options: CompareOptions = {}): Promise<MemoryDocument> {
+    try {
+      const original = await this.readDocumentFile(path.resolve(originalPath));
+      const result = await this.readDocumentFile(path.resolve(revisedPath));
+      const author = options.author ?? userName();
+      const date = timestamp();
+      const comparison = (ignoreTables: boolean): StoryComparison => ({
+        granularity: options.granularity ?? 'word',
+        insertion: { type: 'insert', author, date },
+        deletion: { type: 'delete', author, date },
+        ignores: ignoreTables ? (story, start, end) => {
+          const slots = listParagraphs(story === 'original' ? original.body : result.body);
+          return slots.some(slot => slot.table && slot.start < end && slot.end >= start);
+        } : undefined,
+      });
+
+      compareStories(original.body, result.body, comparison(options.compareTables === false));
+      if (options.compareHeaders !== false) {
+        result.sections.forEach((section, i) => {
+          const originalSection = original.sections[i];
+          if (!originalSection) return;
+          for (const [stories, originalStories] of [[section.headers, originalSection.headers], [section.footers, originalSection.footers]]) {
+            for (const type of Object.keys(stories)) {
+              if (originalStories[+type]) compareStories(originalStories[+type], stories[+type], comparison(false));
+            }
+          }
+        });
+      }
+      if (options.compareComments === false) {
+        removeCommentMarks(result.body, result.comments.map(c => c.id));
+        result.comments = [];
+      }
+
+      this.compareCounter++;
+      result.name = `Compare Result ${this.compareCounter}`;
+      result.fullName = result.name;
+      result.path = undefined;
+      result.saved = false;
+      result.trackRevisions = undefined;
+      result.selection = { start: 0, end: 0 };
+      return this.activate(result);
+    } catch (error) {
+      console.error(`Failed to compare documents: ${originalPath} and ${revisedPath}`, error);
+      throw new Error(`Failed to compare documents. Error: ${error}`);
+    }
+  }
+
+  // --- Text Manipulation Methods ---
+
+  /**
+   * Returns a new revision for an edit while the document tracks changes.
+   */
+  private revision(doc: MemoryDocument, type: 'insert' | 'delete'): MemoryRevision | undefined {
+    return doc.trackRevisions ? { type, author: userName(), date: timestamp() } : undefined;
+  }
+
+  /**
+   * Deletes a range of the body, as a tracked change while the document tracks changes.
+   * @returns Where content replacing the range goes: after the deleted text when it stays as a revision.
+   */
+  private removeRange(doc: MemoryDocument, start: number, end: number): number {
+    const revision = this.revision(doc, 'delete');
+    if (revision) {
+      return trackDeletion(doc.body, start, end, revision);
+    }
+    deleteRange(doc.body, start, end);
+    return start;
+  }
+
+  /**
+   * Inserts text at the selection, replacing selected text, and moves the insertion point after it.
+   * @param text The text to insert.
+   */
+  public async insertText(text: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { start, end, font } = this.selectionOf(doc);
+      const runFont = { ...fontAt(doc.body, start), ...font };
+      const at = this.removeRange(doc, start, end);
+      const after = insertText(doc.body, at, text, runFont, this.revision(doc, 'insert'));
+      this.select(doc, after);
+      this.touch(doc);
+    } catch (error) {
+      console.error("Failed to insert text:", error);
+      throw new Error(`Failed to insert text. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Deletes the selection, or a number of units around a collapsed selection.
+   * @param count Number of units to delete (default: 1). Positive deletes forward, negative deletes backward.
+   * @param unit WdUnits value (default: 1 = character).
+   */
+  public async deleteText(count: number = 1, unit: number = 1 /* wdCharacter */): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      let { start, end } = this.selectionOf(doc);
+      if (count > 0 && start === end) {
+        end = movePosition(doc.body, start, unit, count);
+        if (end === start && start < storyLength(doc.body) - 1) {
+          end = start + 1; // Clamped at a boundary: delete the paragraph mark like Word does
+        }
+      } else if (count < 0) {
+        start = movePosition(doc.body, start, unit, count);
+      } else if (count === 0) {
+        return;
+      }
+      this.select(doc, this.removeRange(doc, start, end));
+      this.touch(doc);
+    } catch (error) {
+      console.error("Failed to delete text:", error);
+      throw new Error(`Failed to delete text. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Finds and replaces text in the document body.
+   * @param findText Text to find.
+   * @param replaceText Text to replace with.
+   * @param matchCase Match case sensitivity.
+   * @param matchWholeWord Match whole words only.
+   * @param replaceAll Replace all occurrences or just the first.
+   */
+  public async findAndReplace(
+    findText: string,
+    replaceText: string,
+    matchCase: boolean = false,
+    matchWholeWord: boolean = false,
+    replaceAll: boolean = true
+  ): Promise<boolean> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (!findText) {
+        return false;
+      }
+      let found = false;
+      // Replace from the end so earlier positions stay valid
+      const hits = this.findText(doc, findText, matchCase, matchWholeWord);
+      const targets = replaceAll ? hits : hits.slice(0, 1);
+      for (const hit of targets.reverse()) {
+        const font = fontAt(doc.body, hit.start + 1);
+        const at = this.removeRange(doc, hit.start, hit.end);
+        insertText(doc.body, at, replaceText, font, this.revision(doc, 'insert'));
+        this.touch(doc);
+        found = true;
+      }
+      if (found) {
+        this.select(doc, this.selectionOf(doc).start);
+      }
+      return found;
+    } catch (error) {
+      console.error("Failed to find and replace text:", error);
+      throw new Error(`Failed to find and replace text. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Finds all occurrences of a text in the body, in document order. Matches never span paragraphs.
+   */
+  private findText(doc: MemoryDocument, text: string, matchCase: boolean, matchWholeWord: boolean): { start: number; end: number }[] {
+    const escaped = text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(matchWholeWord ? `(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])` : escaped, matchCase ? 'gu' : 'giu');
+    const hits: { start: number; end: number }[] = [];
+    for (const slot of listParagraphs(doc.body)) {
+      for (const match of paragraphText(slot.paragraph).matchAll(pattern)) {
+        hits.push({ start: slot.start + match.index!, end: slot.start + match.index! + match[0].length });
+      }
+    }
+    return hits;
+  }
+
+  /**
+   * Toggles a font property on the selection. A collapsed selection keeps the change for the next typed text.
+   */
+  private async toggleFont(isSet: (font: RunFont) => boolean, update: (font: RunFont, on: boolean) => RunFont): Promise<void> {
+    const doc = await this.getActiveDocument();
+    const selection = this.selectionOf(doc);
+    const { start, end } = selection;
+    if (start === end) {
+      const current = { ...fontAt(doc.body, start), ...selection.font };
+      selection.font = update(selection.font ?? {}, !isSet(current));
+      return;
+    }
+    const fonts = fontsInRange(doc.body, start, end);
+    const on = !(fonts.length > 0 && fonts.every(isSet)); // wdToggle: clear only if the whole selection has it
+    applyFont(doc.body, start, end, font => update(font, on));
+    this.touch(doc);
+  }
+
+  /**
+   * Toggles bold formatting for the current selection.
+   */
+  public async toggleBold(): Promise<void> {
+    try {
+      await this.toggleFont(font => !!font.bold, (font, on) => ({ ...font, bold: on }));
+    } catch (error) {
+      console.error("Failed to toggle bold:", error);
+      throw new Error(`Failed to toggle bold formatting. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Toggles italic formatting for the current selection.
+   */
+  public async toggleItalic(): Promise<void> {
+    try {
+      await this.toggleFont(font => !!font.italic, (font, on) => ({ ...font, italic: on }));
+    } catch (error) {
+      console.error("Failed to toggle italic:", error);
+      throw new Error(`Failed to toggle italic formatting. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Toggles underline formatting for the current selection.
+   * @param underlineStyle Optional WdUnderline value (default: 1 = single).
+   */
+  public async toggleUnderline(underlineStyle: number = 1 /* wdUnderlineSingle */): Promise<void> {
+    try {
+      await this.toggleFont(font => font.underline === underlineStyle, (font, on) => ({ ...font, underline: on ? underlineStyle : 0 }));
+    } catch (error) {
+      console.error("Failed to toggle underline:", error);
+      throw new Error(`Failed to toggle underline formatting. Error: ${error}`);
+    }
+  }
+
+  // --- Paragraph Formatting Methods ---
+
+  /**
+   * Applies paragraph format settings to all paragraphs touched by the selection.
+   */
+  private async updateParagraphFormat(format: ParagraphFormat): Promise<void> {
+    const doc = await this.getActiveDocument();
+    for (const slot of this.selectedParagraphs(doc)) {
+      Object.assign(slot.paragraph.format, format);
+    }
+    this.touch(doc);
+  }
+
+  /**
+   * Sets the alignment for the selected paragraphs.
+   * @param alignment WdParagraphAlignment value (0=Left, 1=Center, 2=Right, 3=Justify).
+   */
+  public async setParagraphAlignment(alignment: number): Promise<void> {
+    try {
+      await this.updateParagraphFormat({ alignment });
+    } catch (error) {
+      console.error("Failed to set paragraph alignment:", error);
+      throw new Error(`Failed to set paragraph alignment. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the left indent for the selected paragraphs.
+   * @param indentPoints Indentation value in points.
+   */
+  public async setParagraphLeftIndent(indentPoints: number): Promise<void> {
+    try {
+      await this.updateParagraphFormat({ leftIndent: indentPoints });
+    } catch (error) {
+      console.error("Failed to set left indent:", error);
+      throw new Error(`Failed to set left indent. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the right indent for the selected paragraphs.
+   * @param indentPoints Indentation value in points.
+   */
+  public async setParagraphRightIndent(indentPoints: number): Promise<void> {
+    try {
+      await this.updateParagraphFormat({ rightIndent: indentPoints });
+    } catch (error) {
+      console.error("Failed to set right indent:", error);
+      throw new Error(`Failed to set right indent. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the first line indent for the selected paragraphs.
+   * @param indentPoints Indentation value in points (negative for a hanging indent).
+   */
+  public async setParagraphFirstLineIndent(indentPoints: number): Promise<void> {
+    try {
+      await this.updateParagraphFormat({ firstLineIndent: indentPoints });
+    } catch (error) {
+      console.error("Failed to set first line indent:", error);
+      throw new Error(`Failed to set first line indent. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the space before the selected paragraphs.
+   * @param spacePoints Space value in points.
+   */
+  public async setParagraphSpaceBefore(spacePoints: number): Promise<void> {
+    try {
+      await this.updateParagraphFormat({ spaceBefore: spacePoints });
+    } catch (error) {
+      console.error("Failed to set space before:", error);
+      throw new Error(`Failed to set space before paragraph. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the space after the selected paragraphs.
+   * @param spacePoints Space value in points.
+   */
+  public async setParagraphSpaceAfter(spacePoints: number): Promise<void> {
+    try {
+      await this.updateParagraphFormat({ spaceAfter: spacePoints });
+    } catch (error) {
+      console.error("Failed to set space after:", error);
+      throw new Error(`Failed to set space after paragraph. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the line spacing for the selected paragraphs.
+   * @param lineSpacingRule WdLineSpacing value (0=Single, 1=1.5 lines, 2=Double, 3=AtLeast, 4=Exactly, 5=Multiple).
+   * @param lineSpacingValue Value for AtLeast, Exactly (points) or Multiple (lines).
+   */
+  public async setParagraphLineSpacing(lineSpacingRule: number, lineSpacingValue?: number): Promise<void> {
+    try {
+      const format: ParagraphFormat = { lineSpacingRule };
+      if (lineSpacingValue !== undefined && lineSpacingRule >= 3) {
+        format.lineSpacing = lineSpacingValue;
+      } else {
+        format.lineSpacing = undefined;
+      }
+      await this.updateParagraphFormat(format);
+    } catch (error) {
+      console.error("Failed to set line spacing:", error);
+      throw new Error(`Failed to set line spacing. Error: ${error}`);
+    }
+  }
+
+  // --- Table Methods ---
+
+  /**
+   * Gets a top-level table by its 1-based index, like Document.Tables.Item.
+   */
+  protected getTable(doc: MemoryDocument, tableIndex: number): MemoryTable {
+    const tables = topLevelTables(doc.body);
+    if (tableIndex <= 0 || tableIndex > tables.length) {
+      throw new Error(`Table index ${tableIndex} is out of bounds.`);
+    }
+    return tables[tableIndex - 1];
+  }
+
+  /**
+   * Adds a table at the selection, replacing selected text. The insertion point moves into the first cell.
+   * @param numRows Number of rows.
+   * @param numCols Number of columns.
+   * @param defaultTableBehavior Optional WdDefaultTableBehavior value.
+   * @param autoFitBehavior Optional WdAutoFitBehavior value.
+   */
+  public async addTable(numRows: number, numCols: number, defaultTableBehavior?: number, autoFitBehavior?: number): Promise<MemoryTable> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { start, end } = this.selectionOf(doc);
+      const at = this.removeRange(doc, start, end);
+      const table = createTable(numRows, numCols);
+      table.defaultTableBehavior = defaultTableBehavior;
+      table.autoFitBehavior = autoFitBehavior;
+      insertBlock(doc.body, at, table);
+      this.select(doc, cellStart(doc.body, table.rows[0].cells[0]));
+      this.touch(doc);
+      return table;
+    } catch (error) {
+      console.error("Failed to add table:", error);
+      throw new Error(`Failed to add table. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Gets a specific cell in a table.
+   * @param tableIndex Index of the table in the document (1-based).
+   * @param rowIndex Row index (1-based).
+   * @param colIndex Column index (1-based).
+   */
+  public async getTableCell(tableIndex: number, rowIndex: number, colIndex: number): Promise<any /* MemoryCell */> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTable(doc, tableIndex);
+      const cell = table.rows[rowIndex - 1]?.cells[colIndex - 1];
+      if (!cell) {
+        throw new Error(`The requested member of the collection does not exist: cell (${rowIndex}, ${colIndex}).`);
+      }
+      return cell;
+    } catch (error) {
+      console.error(`Failed to get cell (${rowIndex}, ${colIndex}) in table ${tableIndex}:`, error);
+      throw new Error(`Failed to get cell. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the top-level tables with their size and the text of their first row.
+   */
+  public async listTables(): Promise<TableInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      return topLevelTables(doc.body).map((table, i) => {
+        const data = tableData(table);
+        return {
+          index: i + 1,
+          rows: data.rows,
+          columns: data.columns,
+          nestedTables: listTables({ blocks: [table] }).filter(slot => slot.nestingLevel === 2).length,
+          uniform: data.cells.every(cell => cell.rowSpan === 1 && cell.colSpan === 1),
+          firstRow: data.cells.filter(cell => cell.rowIndex === 1).map(cell => cell.text),
+        };
+      });
+    } catch (error) {
+      console.error("Failed to list tables:", error);
+      throw new Error(`Failed to list tables. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Reads the cells of a table with their position on the table grid and the cells they are merged with.
+   * @param tableIndex Index of the table (1-based).
+   */
+  public async getTableData(tableIndex: number): Promise<TableData> {
+    const doc = await this.getActiveDocument();
+    try {
+      return tableData(this.getTable(doc, tableIndex));
+    } catch (error) {
+      console.error(`Failed to get data of table ${tableIndex}:`, error);
+      throw new Error(`Failed to get table data. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the text in a specific table cell.
+   * @param tableIndex Index of the table in the document (1-based).
+   * @param rowIndex Row index (1-based).
+   * @param colIndex Column index (1-based).
+   * @param text Text to set.
+   */
+  public async setTableCellText(tableIndex: number, rowIndex: number, colIndex: number, text: string): Promise<void> {
+    try {
+      const doc = await this.getActiveDocument();
+      const cell = await this.getTableCell(tableIndex, rowIndex, colIndex);
+      setBlocksText(cell.blocks, text);
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to set text in cell (${rowIndex}, ${colIndex}) of table ${tableIndex}:`, error);
+      throw new Error(`Failed to set cell text. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Inserts a row in a table, with as many cells as the row it is copied from.
+   * @param tableIndex Index of the table (1-based).
+   * @param beforeRowIndex Optional index of the row to insert before (1-based). If omitted, adds to the end.
+   */
+  public async insertTableRow(tableIndex: number, beforeRowIndex?: number): Promise<any /* MemoryRow */> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTable(doc, tableIndex);
+      let index = table.rows.length;
+      if (beforeRowIndex !== undefined) {
+        if (beforeRowIndex <= 0 || beforeRowIndex > table.rows.length + 1) { // Allow inserting after last row
+          throw new Error(`Row index ${beforeRowIndex} is out of bounds for insertion.`);
+        }
+        index = beforeRowIndex - 1;
+      }
+      const template = table.rows[Math.min(index, table.rows.length - 1)];
+      const newRow = { cells: template.cells.map(() => createCell()) };
+      table.rows.splice(index, 0, newRow);
+      this.touch(doc);
+      return newRow;
+    } catch (error) {
+      console.error(`Failed to insert row into table ${tableIndex}:`, error);
+      throw new Error(`Failed to insert table row. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Inserts a column in a table.
+   * @param tableIndex Index of the table (1-based).
+   * @param beforeColIndex Optional index of the column to insert before (1-based). If omitted, adds to the right end.
+   */
+  public async insertTableColumn(tableIndex: number, beforeColIndex?: number): Promise<any /* MemoryCell[] */> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTable(doc, tableIndex);
+      const columnCount = Math.max(...table.rows.map(row => row.cells.length));
+      if (beforeColIndex !== undefined && (beforeColIndex <= 0 || beforeColIndex > columnCount + 1)) { // Allow inserting after last col
+        throw new Error(`Column index ${beforeColIndex} is out of bounds for insertion.`);
+      }
+      const newCells = table.rows.map(row => {
+        const cell = createCell();
+        const index = beforeColIndex !== undefined ? Math.min(beforeColIndex - 1, row.cells.length) : row.cells.length;
+        row.cells.splice(index, 0, cell);
+        return cell;
+      });
+      this.touch(doc);
+      return newCells;
+    } catch (error) {
+      console.error(`Failed to insert column into table ${tableIndex}:`, error);
+      throw new Error(`Failed to insert table column. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Applies a table style to a table.
+   * @param tableIndex Index of the table (1-based).
+   * @param formatName Name of the table style or a WdTableFormat enum value.
+   * @param applyFormatting Ignored; the whole style is applied.
+   */
+  public async applyTableAutoFormat(tableIndex: number, formatName: string | number, applyFormatting?: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTable(doc, tableIndex);
+      table.style = String(formatName);
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to apply auto format to table ${tableIndex}:`, error);
+      throw new Error(`Failed to apply table auto format. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Builds a table from rows of cell texts at the selection, replacing selected text. The insertion point moves after the table.
+   * @param rows Cell texts row by row; shorter rows are padded with empty cells.
+   * @param options Header row, table style, column widths and behaviors.
+   */
+  public async insertTableFromData(rows: string[][], options: TableFromDataOptions = {}): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const columns = Math.max(0, ...rows.map(row => row.length));
+      if (columns === 0) {
+        throw new Error("The data has no cells.");
+      }
+      const { start, end } = this.selectionOf(doc);
+      const at = this.removeRange(doc, start, end);
+      const table = createTable(rows.length, columns);
+      table.defaultTableBehavior = options.defaultTableBehavior;
+      table.autoFitBehavior = options.autoFitBehavior;
+      fillTable(table, rows, 0, options);
+      insertBlock(doc.body, at, table);
+      this.select(doc, listTables(doc.body).find(slot => slot.table === table)!.end);
+      this.touch(doc);
+      return topLevelTables(doc.body).indexOf(table) + 1;
+    } catch (error) {
+      console.error("Failed to insert table from data:", error);
+      throw new Error(`Failed to insert table from data. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Writes rows of cell texts into a table, adding rows and columns as needed. Cells outside the data keep their text.
+   * @param tableIndex Index of the table (1-based).
+   * @param rows Cell texts row by row.
+   * @param append Add the rows after the last row instead of writing from the first row.
+   * @param options Header row (not when appending), table style, column widths and autofit behavior.
+   */
+  public async setTableData(tableIndex: number, rows: string[][], append: boolean = false, options: TableFromDataOptions = {}): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (rows.length === 0) {
+        throw new Error("The data has no rows.");
+      }
+      const table = this.getTable(doc, tableIndex);
+      fillTable(table, rows, append ? table.rows.length : 0, append ? { ...options, headerRow: false } : options);
+      if (options.autoFitBehavior !== undefined) table.autoFitBehavior = options.autoFitBehavior;
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to set data of table ${tableIndex}:`, error);
+      throw new Error(`Failed to set table data. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Finds a cell on the table grid by its address (row and position in the row, like getTableCell).
+   */
+  private gridCell(cells: GridCell[], rowIndex: number, colIndex: number): GridCell {
+    const item = cells.find(item => item.row === rowIndex - 1 && item.colIndex === colIndex);
+    if (!item) {
+      const covered = cells.some(item => item.row < rowIndex - 1 && item.row + item.rowSpan > rowIndex - 1 && item.colIndex === colIndex);
+      throw new Error(covered
+        ? `Cell (${rowIndex}, ${colIndex}) is merged into the cell above it.`
+        : `The requested member of the collection does not exist: cell (${rowIndex}, ${colIndex}).`);
+    }
+    return item;
+  }
+
+  /**
+   * Removes a table from the document, as Word does when its last row or column is deleted.
+   */
+  private removeTable(doc: MemoryDocument, table: MemoryTable): void {
+    const slot = listTables(doc.body).find(slot => slot.table === table)!;
+    slot.container.splice(slot.container.indexOf(table), 1);
+    this.select(doc, Math.min(slot.start, storyLength(doc.body) - 1));
+  }
+
+  /**
+   * Merges the rectangle of cells spanned by two cells into one. The text of every cell that has any is kept,
+   * one cell after the other, as Word does.
+   * @param tableIndex Index of the table (1-based).
+   * @param rowIndex Row of the first cell (1-based).
+   * @param colIndex Position of the first cell in its row (1-based).
+   * @param endRowIndex Row of the last cell (1-based).
+   * @param endColIndex Position of the last cell in its row (1-based).
+   */
+  public async mergeTableCells(tableIndex: number, rowIndex: number, colIndex: number, endRowIndex: number, endColIndex: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTable(doc, tableIndex);
+      const { cells } = tableGrid(table);
+      const first = this.gridCell(cells, rowIndex, colIndex);
+      const last = this.gridCell(cells, endRowIndex, endColIndex);
+      const top = Math.min(first.row, last.row);
+      const bottom = Math.max(first.row + first.rowSpan, last.row + last.rowSpan) - 1;
+      const left = Math.min(first.column, last.column);
+      const right = Math.max(first.column + first.colSpan, last.column + last.colSpan) - 1;
+      const inside = cells.filter(item => item.row <= bottom && item.row + item.rowSpan > top && item.column <= right && item.column + item.colSpan > left);
+      if (inside.some(item => item.row < top || item.row + item.rowSpan - 1 > bottom || item.column < left || item.column + item.colSpan - 1 > right)) {
+        throw new Error("The cells to merge must form a rectangle that does not cut through other merged cells.");
+      }
+      const [target, ...merged] = inside.sort((a, b) => a.row - b.row || a.column - b.column);
+      const withText = inside.filter(item => cellText(item.cell) !== '');
+      if (withText.length > 0) {
+        target.cell.blocks = withText.flatMap(item => item.cell.blocks);
+      }
+      Object.assign(target, { row: top, column: left, rowSpan: bottom - top + 1, colSpan: right - left + 1, continuations: [] });
+      setTableGrid(table, cells.filter(item => !merged.includes(item)), table.rows.length);
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to merge cells of table ${tableIndex}:`, error);
+      throw new Error(`Failed to merge table cells. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Splits a cell into rows and columns. A merged cell is divided among the rows and columns it spans;
+   * rows and grid columns are added when it is split into more than it spans. The text stays in the first cell.
+   * @param tableIndex Index of the table (1-based).
+   * @param rowIndex Row of the cell (1-based).
+   * @param colIndex Position of the cell in its row (1-based).
+   * @param numRows Number of rows to split the cell into.
+   * @param numCols Number of columns to split the cell into.
+   */
+  public async splitTableCell(tableIndex: number, rowIndex: number, colIndex: number, numRows: number, numCols: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTable(doc, tableIndex);
+      const { cells, columns } = tableGrid(table);
+      const target = this.gridCell(cells, rowIndex, colIndex);
+      const others = cells.filter(item => item !== target);
+      if (numCols > target.colSpan) {
+        const extra = numCols - target.colSpan;
+        const lastColumn = target.column + target.colSpan - 1;
+        for (const item of others) {
+          if (item.column > lastColumn) item.column += extra;
+          else if (item.column + item.colSpan > lastColumn) item.colSpan += extra;
+        }
+        if (table.columnWidths?.length === columns) {
+          table.columnWidths.splice(lastColumn, 1, ...Array(extra + 1).fill(table.columnWidths[lastColumn] / (extra + 1)));
+        }
+        target.colSpan = numCols;
+      }
+      if (numRows > target.rowSpan) {
+        const extra = numRows - target.rowSpan;
+        const lastRow = target.row + target.rowSpan - 1;
+        for (const item of others) {
+          if (item.row > lastRow) item.row += extra;
+          else if (item.row + item.rowSpan > lastRow) item.rowSpan += extra;
+        }
+        table.rows.splice(lastRow + 1, 0, ...Array.from({ length: extra }, () => ({ cells: [] })));
+        target.rowSpan = numRows;
+      }
+      // Share the spans out as evenly as Word does, the first rows and columns taking the remainder
+      const share = (total: number, parts: number, i: number) => Math.floor(total / parts) + (i < total % parts ? 1 : 0);
+      const { borders, verticalAlignment } = target.cell;
+      let row = target.row;
+      for (let r = 0; r < numRows; r++) {
+        const rowSpan = share(target.rowSpan, numRows, r);
+        let column = target.column;
+        for (let c = 0; c < numCols; c++) {
+          const colSpan = share(target.colSpan, numCols, c);
+          const first = r === 0 && c === 0;
+          const cell = first ? target.cell : { ...createCell(), borders, verticalAlignment };
+          others.push({ cell, row, column, rowSpan, colSpan, colIndex: 0, continuations: first ? target.continuations : [] });
+          column += colSpan;
+        }
+        row += rowSpan;
+      }
+      setTableGrid(table, others, table.rows.length);
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to split cell (${rowIndex}, ${colIndex}) of table ${tableIndex}:`, error);
+      throw new Error(`Failed to split table cell. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Deletes a row. Merged cells that span it get shorter; deleting the only row deletes the table.
+   * @param tableIndex Index of the table (1-based).
+   * @param rowIndex Row to delete (1-based).
+   */
+  public async deleteTableRow(tableIndex: number, rowIndex: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTable(doc, tableIndex);
+      if (rowIndex <= 0 || rowIndex > table.rows.length) {
+        throw new Error(`Row index ${rowIndex} is out of bounds.`);
+      }
+      if (table.rows.length === 1) {
+        this.removeTable(doc, table);
+      } else {
+        const r = rowIndex - 1;
+        const remaining = tableGrid(table).cells.filter(item => item.row !== r || item.rowSpan > 1);
+        for (const item of remaining) {
+          if (item.row === r) {
+            item.rowSpan--;
+            item.continuations.shift();
+          } else if (item.row < r && item.row + item.rowSpan > r) {
+            item.rowSpan--;
+            item.continuations.splice(r - item.row - 1, 1);
+          } else if (item.row > r) {
+            item.row--;
+          }
+        }
+        table.rows.splice(r, 1);
+        setTableGrid(table, remaining, table.rows.length);
+      }
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to delete row ${rowIndex} of table ${tableIndex}:`, error);
+      throw new Error(`Failed to delete table row. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Deletes a grid column. Merged cells that span it get narrower; deleting the only column deletes the table.
+   * @param tableIndex Index of the table (1-based).
+   * @param column Grid column to delete (1-based).
+   */
+  public async deleteTableColumn(tableIndex: number, column: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTable(doc, tableIndex);
+      const { cells, columns } = tableGrid(table);
+      if (column <= 0 || column > columns) {
+        throw new Error(`Column index ${column} is out of bounds.`);
+      }
+      if (columns === 1) {
+        this.removeTable(doc, table);
+      } else {
+        const c = column - 1;
+        const remaining = cells.filter(item => item.column !== c || item.colSpan > 1);
+        for (const item of remaining) {
+          if (item.column <= c && item.column + item.colSpan > c) item.colSpan--;
+          else if (item.column > c) item.column--;
+        }
+        if (table.columnWidths?.length === columns) table.columnWidths.splice(c, 1);
+        setTableGrid(table, remaining, table.rows.length);
+      }
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to delete column ${column} of table ${tableIndex}:`, error);
+      throw new Error(`Failed to delete table column. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the width of a grid column. Columns without a width so far share the text width evenly.
+   * @param tableIndex Index of the table (1-based).
+   * @param column Grid column (1-based).
+   * @param width Width in points.
+   */
+  public async setTableColumnWidth(tableIndex: number, column: number, width: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTable(doc, tableIndex);
+      const { columns } = tableGrid(table);
+      if (column <= 0 || column > columns) {
+        throw new Error(`Column index ${column} is out of bounds.`);
+      }
+      if (table.columnWidths?.length !== columns) {
+        const { pageWidth, leftMargin, rightMargin } = doc.sections[0].pageSetup;
+        table.columnWidths = Array(columns).fill((pageWidth - leftMargin - rightMargin) / columns);
+      }
+      table.columnWidths[column - 1] = width;
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to set width of column ${column} of table ${tableIndex}:`, error);
+      throw new Error(`Failed to set table column width. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the height of a row.
+   * @param tableIndex Index of the table (1-based).
+   * @param rowIndex Row (1-based).
+   * @param height Height in points.
+   * @param heightRule WdRowHeightRule: 0 auto (height ignored), 1 at least (default), 2 exactly.
+   */
+  public async setTableRowHeight(tableIndex: number, rowIndex: number, height: number, heightRule: number = 1): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const row = this.getTable(doc, tableIndex).rows[rowIndex - 1];
+      if (!row) {
+        throw new Error(`Row index ${rowIndex} is out of bounds.`);
+      }
+      if (heightRule === 0) {
+        delete row.height;
+        delete row.heightRule;
+      } else {
+        row.height = height;
+        row.heightRule = heightRule;
+      }
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to set height of row ${rowIndex} of table ${tableIndex}:`, error);
+      throw new Error(`Failed to set table row height. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Applies borders, shading and vertical alignment to a cell, or to the whole table.
+   * Table borders go on the table (including the inside lines); shading and alignment go on every cell.
+   * @param tableIndex Index of the table (1-based).
+   * @param format What to change.
+   * @param cell Optional cell address; the whole table when omitted.
+   */
+  public async formatTableCells(tableIndex: number, format: TableCellFormat, cell?: { rowIndex: number; colIndex: number }): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTable(doc, tableIndex);
+      const { cells } = tableGrid(table);
+      // A merged cell is formatted together with the cells merged into it
+      const targets = cell ? (item => [item.cell, ...item.continuations])(this.gridCell(cells, cell.rowIndex, cell.colIndex)) : table.rows.flatMap(row => row.cells);
+      if (format.borders) {
+        const { lineStyle, lineWidth = 0.5, color = 'auto' } = format.borders;
+        const line = lineStyle === 0 ? { lineStyle: 0, lineWidth: 0, color: 'auto' } : { lineStyle, lineWidth, color };
+        const sides = format.borders.sides ?? (cell ? ['top', 'left', 'bottom', 'right'] : ['top', 'left', 'bottom', 'right', 'insideHorizontal', 'insideVertical']);
+        if (cell) {
+          targets.forEach(target => target.borders = { ...target.borders, ...Object.fromEntries(sides.map(side => [side, line])) });
+        } else {
+          table.borders = { ...table.borders, ...Object.fromEntries(sides.map(side => [side, line])) };
+        }
+      }
+      for (const target of targets) {
+        if (format.shading !== undefined) target.shading = format.shading ?? undefined;
+        if (format.verticalAlignment !== undefined) target.verticalAlignment = format.verticalAlignment;
+      }
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to format table ${tableIndex}:`, error);
+      throw new Error(`Failed to format table cells. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Marks the first rows of a table as header rows and clears the mark on the others.
+   * @param tableIndex Index of the table (1-based).
+   * @param count Number of header rows (0 for none).
+   */
+  public async setTableHeaderRows(tableIndex: number, count: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTable(doc, tableIndex);
+      if (count < 0 || count > table.rows.length) {
+        throw new Error(`The table has ${table.rows.length} row(s); cannot make ${count} of them header rows.`);
+      }
+      table.rows.forEach((row, i) => row.headingFormat = i < count || undefined);
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to set header rows of table ${tableIndex}:`, error);
+      throw new Error(`Failed to set table header rows. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sorts the rows of a table by the text of a grid column. Rows with equal keys keep their order.
+   * @param tableIndex Index of the table (1-based).
+   * @param column Grid column to sort by (1-based).
+   * @param options Sort type, order and whether the first row is a header that stays in place.
+   */
+  public async sortTable(tableIndex: number, column: number, options: TableSortOptions = {}): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTable(doc, tableIndex);
+      const { cells, columns } = tableGrid(table);
+      if (column <= 0 || column > columns) {
+        throw new Error(`Column index ${column} is out of bounds.`);
+      }
+      const first = options.headerRow ? 1 : 0;
+      if (cells.some(item => item.rowSpan > 1 && item.row + item.rowSpan > first)) {
+        throw new Error("Tables with vertically merged cells cannot be sorted.");
+      }
+      const keys = new Map(table.rows.map((row, r) => {
+        const item = cells.find(item => item.row === r && item.column <= column - 1 && item.column + item.colSpan > column - 1);
+        return [row, item ? cellText(item.cell) : ''];
+      }));
+      const { sortType = 'text', descending = false } = options;
+      // Numbers and dates that cannot be read sort after all others, in either order
+      const value = (text: string) => sortType === 'number' ? parseFloat(text.replace(/[^\d.eE+-]/g, '')) : Date.parse(text);
+      const compare = (a: string, b: string) => {
+        if (sortType === 'text') return a.localeCompare(b, undefined, { sensitivity: 'base' }) * (descending ? -1 : 1);
+        const [x, y] = [value(a), value(b)];
+        if (isNaN(x) || isNaN(y)) return Number(isNaN(x)) - Number(isNaN(y));
+        return (x - y) * (descending ? -1 : 1);
+      };
+      table.rows = [...table.rows.slice(0, first), ...table.rows.slice(first).sort((a, b) => compare(keys.get(a)!, keys.get(b)!))];
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to sort table ${tableIndex}:`, error);
+      throw new Error(`Failed to sort table. Error: ${error}`);
+    }
+  }
+
+  // --- Image Methods ---
+
+  /**
+   * Inserts a picture at the selection as an inline shape, replacing selected text.
+   * The file is read to determine the picture's size, as Word does.
+   * @param filePath Path to the image file.
+   * @param linkToFile Link to the file instead of embedding (optional).
+   * @param saveWithDocument Save the image with the document (optional, relevant if linked).
+   */
+  public async insertPicture(filePath: string, linkToFile: boolean = false, saveWithDocument: boolean = true): Promise<MemoryPicture> {
+    const doc = await this.getActiveDocument();
+    try {
+      const picture = await this.loadPicture(filePath, linkToFile, saveWithDocument);
+      const { start, end } = this.selectionOf(doc);
+      const at = this.removeRange(doc, start, end);
+      this.select(doc, insertPictureRun(doc.body, at, picture, this.revision(doc, 'insert')));
+      this.touch(doc);
+      return picture;
+    } catch (error) {
+      console.error(`Failed to insert picture from ${filePath}:`, error);
+      throw new Error(`Failed to insert picture. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Reads an image file into a picture at its natural size (96 dpi).
+   */
+  protected async loadPicture(filePath: string, linkToFile: boolean = false, saveWithDocument: boolean = true): Promise<MemoryPicture> {
+    return this.createPicture(new Uint8Array(await fs.readFile(filePath)), filePath, linkToFile, saveWithDocument);
+  }
+
+  /**
+   * Creates a picture from image bytes at its natural size (96 dpi).
+   */
+  protected createPicture(data: Uint8Array, filePath: string, linkToFile: boolean = false, saveWithDocument: boolean = true): MemoryPicture {
+    const info = readImageInfo(data);
+    if (!info) {
+      throw new Error(`Unsupported image format: ${filePath}`);
+    }
+    return {
+      filePath,
+      linkToFile,
+      saveWithDocument: linkToFile ? saveWithDocument : true,
+      width: info.widthPixels * POINTS_PER_PIXEL,
+      height: info.heightPixels * POINTS_PER_PIXEL,
+      lockAspectRatio: true,
+      data: !linkToFile || saveWithDocument ? data : undefined,
+    };
+  }
+
+  /**
+   * Lists the inline pictures of a story in document order, like Document.InlineShapes.
+   */
+  protected listPictures(story: MemoryStory): MemoryPicture[] {
+    return listParagraphs(story).flatMap(slot => slot.paragraph.runs.filter(run => run.picture).map(run => run.picture!));
+  }
+
+  /**
+   * Sets the size of an inline picture identified by its 1-based index.
+   * @param shapeIndex 1-based index of the inline picture.
+   * @param heightPoints Height in points. Values <= 0 leave the height to the aspect ratio.
+   * @param widthPoints Width in points. Values <= 0 leave the width to the aspect ratio.
+   * @param lockAspectRatio Lock aspect ratio when resizing (default: true).
+   */
+  public async setInlinePictureSize(shapeIndex: number, heightPoints: number, widthPoints: number, lockAspectRatio: boolean = true): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const pictures = this.listPictures(doc.body);
+      if (shapeIndex <= 0 || shapeIndex > pictures.length) {
+        throw new Error(`InlineShape index ${shapeIndex} is out of bounds.`);
+      }
+      const picture = pictures[shapeIndex - 1];
+      const ratio = picture.width / picture.height;
+      picture.lockAspectRatio = lockAspectRatio;
+
+      const setHeight = (height: number) => {
+        picture.height = height;
+        if (lockAspectRatio) picture.width = height * ratio;
+      };
+      const setWidth = (width: number) => {
+        picture.width = width;
+        if (lockAspectRatio) picture.height = width / ratio;
+      };
+
+      if (heightPoints > 0 && widthPoints > 0) {
+        if (lockAspectRatio) {
+          // The dominant dimension change wins, the other one follows the aspect ratio
+          if (widthPoints / picture.width > heightPoints / picture.height) {
+            setWidth(widthPoints);
+          } else {
+            setHeight(heightPoints);
+          }
+        } else {
+          picture.height = heightPoints;
+          picture.width = widthPoints;
+        }
+      } else if (heightPoints > 0) {
+        setHeight(heightPoints);
+      } else if (widthPoints > 0) {
+        setWidth(widthPoints);
+      }
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to set size for inline shape ${shapeIndex}:`, error);
+      throw new Error(`Failed to set inline picture size. Error: ${error}`);
+    }
+  }
+
+  // --- Header/Footer Methods ---
+
+  /**
+   * Gets the story of a specific header or footer.
+   * Like Word, first page and even page headers/footers only exist when enabled in the page setup.
+   * @param sectionIndex 1-based index of the section.
+   * @param headerFooterType WdHeaderFooterIndex value (1=Primary, 2=FirstPage, 3=EvenPages).
+   * @param isHeader True for header, false for footer.
+   */
+  public async getHeaderFooter(sectionIndex: number, headerFooterType: number, isHeader: boolean): Promise<MemoryStory> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (sectionIndex <= 0 || sectionIndex > doc.sections.length) {
+        throw new Error(`Section index ${sectionIndex} is out of bounds.`);
+      }
+      const section = doc.sections[sectionIndex - 1];
+      if (headerFooterType < 1 || headerFooterType > 3) {
+        throw new Error(`Invalid header/footer type: ${headerFooterType}. Use 1, 2, or 3.`);
+      }
+      if (!headerFooterExists(section, headerFooterType)) {
+        throw new Error(`The requested ${isHeader ? 'header' : 'footer'} type (${headerFooterType}) does not exist or is not active for section ${sectionIndex}. Check document settings.`);
+      }
+      return (isHeader ? section.headers : section.footers)[headerFooterType];
+    } catch (error) {
+      console.error(`Failed to get ${isHeader ? 'header' : 'footer'} type ${headerFooterType} for section ${sectionIndex}:`, error);
+      throw new Error(`Failed to get header/footer. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the text for a specific header or footer. Replaces existing content.
+   * @param sectionIndex 1-based index of the section.
+   * @param headerFooterType WdHeaderFooterIndex value (1=Primary, 2=FirstPage, 3=EvenPages).
+   * @param isHeader True for header, false for footer.
+   * @param text The text to set.
+   */
+  public async setHeaderFooterText(sectionIndex: number, headerFooterType: number, isHeader: boolean, text: string): Promise<void> {
+    const story = await this.getHeaderFooter(sectionIndex, headerFooterType, isHeader);
+    setStoryText(story, text);
+    this.touch(await this.getActiveDocument());
+  }
+
+  // --- Page Setup Methods ---
+
+  /**
+   * Sets the page margins for all sections of the active document.
+   * @param topPoints Top margin in points.
+   * @param bottomPoints Bottom margin in points.
+   * @param leftPoints Left margin in points.
+   * @param rightPoints Right margin in points.
+   */
+  public async setPageMargins(topPoints: number, bottomPoints: number, leftPoints: number, rightPoints: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      for (const section of doc.sections) {
+        Object.assign(section.pageSetup, { topMargin: topPoints, bottomMargin: bottomPoints, leftMargin: leftPoints, rightMargin: rightPoints });
+      }
+      this.touch(doc);
+    } catch (error) {
+      console.error("Failed to set page margins:", error);
+      throw new Error(`Failed to set page margins. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the page orientation for all sections, swapping page width and height when it changes.
+   * @param orientation WdOrientation value (0=Portrait, 1=Landscape).
+   */
+  public async setPageOrientation(orientation: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (orientation !== 0 && orientation !== 1) {
+        throw new Error(`Invalid orientation: ${orientation}. Use 0 or 1.`);
+      }
+      for (const { pageSetup } of doc.sections) {
+        if (pageSetup.orientation !== orientation) {
+          [pageSetup.pageWidth, pageSetup.pageHeight] = [pageSetup.pageHeight, pageSetup.pageWidth];
+          pageSetup.orientation = orientation;
+        }
+      }
+      this.touch(doc);
+    } catch (error) {
+      console.error("Failed to set page orientation:", error);
+      throw new Error(`Failed to set page orientation. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the paper size for all sections.
+   * @param paperSize WdPaperSize value (e.g., 2=Letter, 7=A4).
+   */
+  public async setPaperSize(paperSize: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const size = PAPER_SIZES[paperSize];
+      if (!size) {
+        throw new Error(`Paper size ${paperSize} is not supported without Word.`);
+      }
+      for (const { pageSetup } of doc.sections) {
+        const [width, height] = size;
+        pageSetup.paperSize = paperSize;
+        pageSetup.pageWidth = pageSetup.orientation === 1 ? height : width;
+        pageSetup.pageHeight = pageSetup.orientation === 1 ? width : height;
+      }
+      this.touch(doc);
+    } catch (error) {
+      console.error("Failed to set paper size:", error);
+      throw new Error(`Failed to set paper size. Error: ${error}`);
+    }
+  }
+
+  // --- Cursor/Selection Methods ---
+
+  /**
+   * Moves the cursor to the start of the document.
+   */
+  public async moveCursorToStart(): Promise<void> {
+    const doc = await this.getActiveDocument();
+    this.select(doc, 0);
+  }
+
+  /**
+   * Moves the cursor to the end of the document (before the final paragraph mark).
+   */
+  public async moveCursorToEnd(): Promise<void> {
+    const doc = await this.getActiveDocument();
+    this.select(doc, storyLength(doc.body) - 1);
+  }
+
+  /**
+   * Moves the cursor by the specified unit and count.
+   * @param unit WdUnits value (1=Character, 2=Word, 3=Sentence, 4=Paragraph, 5=Line, 6=Story).
+   * @param count Number of units to move. Positive moves forward, negative moves backward.
+   * @param extend Whether to extend the selection (true) or move the insertion point (false).
+   */
+  public async moveCursor(unit: number, count: number, extend: boolean = false): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { start, end } = this.selectionOf(doc);
+      if (extend) {
+        const moved = movePosition(doc.body, end, unit, count);
+        this.select(doc, Math.min(start, moved), Math.max(start, moved));
+      } else {
+        // A non-collapsed selection collapses in the direction of movement first
+        const origin = count >= 0 ? end : start;
+        this.select(doc, start === end ? movePosition(doc.body, origin, unit, count) : movePosition(doc.body, origin, unit, count - Math.sign(count)));
+      }
+    } catch (error) {
+      console.error("Failed to move cursor:", error);
+      throw new Error(`Failed to move cursor. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Selects the entire document.
+   */
+  public async selectAll(): Promise<void> {
+    const doc = await this.getActiveDocument();
+    this.select(doc, 0, storyLength(doc.body));
+  }
+
+  /**
+   * Selects a specific paragraph by index, including its paragraph mark.
+   * @param paragraphIndex 1-based index of the paragraph to select.
+   */
+  public async selectParagraph(paragraphIndex: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const slots = listParagraphs(doc.body);
+      if (paragraphIndex <= 0 || paragraphIndex > slots.length) {
+        throw new Error(`Paragraph index ${paragraphIndex} is out of bounds.`);
+      }
+      const slot = slots[paragraphIndex - 1];
+      this.select(doc, slot.start, slot.end + 1);
+    } catch (error) {
+      console.error(`Failed to select paragraph ${paragraphIndex}:`, error);
+      throw new Error(`Failed to select paragraph. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Collapses the current selection to its start or end point.
+   * @param toStart If true, collapse to start; if false, collapse to end.
+   */
+  public async collapseSelection(toStart: boolean = true): Promise<void> {
+    const doc = await this.getActiveDocument();
+    const { start, end } = this.selectionOf(doc);
+    this.select(doc, toStart ? start : end);
+  }
+
+  /**
+   * Gets the current selection text.
+   */
+  public async getSelectionText(): Promise<string> {
+    const doc = await this.getActiveDocument();
+    const { start, end } = this.selectionOf(doc);
+    if (start === end) {
+      // Like Word, a collapsed selection reports the character after the insertion point
+      return storyText(doc.body).charAt(start);
+    }
+    return storyText(doc.body).slice(start, end);
+  }
+
+  /**
+   * Gets information about the current selection.
+   */
+  public async getSelectionInfo(): Promise<SelectionInfo> {
+    const doc = await this.getActiveDocument();
+    const { start, end } = this.selectionOf(doc);
+    const type = start === end ? 1 /* wdSelectionIP */ : 2 /* wdSelectionNormal */;
+    return {
+      text: await this.getSelectionText(),
+      start,
+      end,
+      isActive: true,
+      type,
+    };
+  }
+
+  // --- Style Methods ---
+
+  /**
+   * Lists the styles defined in the active document.
+   */
+  public async listStyles(): Promise<StyleInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const used = new Set<string>();
+      for (const story of documentStories(doc)) {
+        for (const slot of listParagraphs(story)) {
+          used.add(slot.paragraph.style);
+          slot.paragraph.runs.forEach(run => run.font.style && used.add(run.font.style));
+          if (slot.table?.style) used.add(slot.table.style);
+        }
+      }
+      return doc.styles.map(style => ({
+        name: style.name,
+        type: style.type,
+        builtIn: style.builtIn,
+        inUse: used.has(style.name),
+        baseStyle: style.baseStyle,
+      }));
+    } catch (error) {
+      console.error("Failed to list styles:", error);
+      throw new Error(`Failed to list styles. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Finds a style of the document, adding built-in styles on first use.
+   */
+  private getStyle(doc: MemoryDocument, styleName: string): MemoryStyle {
+    const style = ensureStyle(doc, styleName);
+    if (!style) {
+      throw new Error(`Style "${styleName}" does not exist in the document.`);
+    }
+    return style;
+  }
+
+  /**
+   * Applies a style to the selection: paragraph styles to the selected paragraphs, character styles
+   * to the selected text, table styles to the table containing the selection.
+   * @param styleName Name of the style.
+   */
+  public async applyStyle(styleName: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const style = this.getStyle(doc, styleName);
+      const { start, end } = this.selectionOf(doc);
+      const slots = paragraphsInRange(doc.body, start, end);
+      switch (style.type) {
+        case 1:
+          slots.forEach(slot => slot.paragraph.style = style.name);
+          break;
+        case 2: {
+          // Default Paragraph Font removes the character style, like Word
+          const characterStyle = style.name === 'Default Paragraph Font' ? undefined : style.name;
+          if (start === end) {
+            const selection = this.selectionOf(doc);
+            selection.font = { ...selection.font, style: characterStyle };
+          } else {
+            applyFont(doc.body, start, end, font => ({ ...font, style: characterStyle }));
+          }
+          break;
+        }
+        case 3: {
+          const table = slots.find(slot => slot.table)?.table;
+          if (!table) {
+            throw new Error(`"${style.name}" is a table style and the selection is not in a table.`);
+          }
+          table.style = style.name;
+          break;
+        }
+        default:
+          throw new Error(`"${style.name}" is a list style and cannot be applied to text.`);
+      }
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to apply style ${styleName}:`, error);
+      throw new Error(`Failed to apply style. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Updates a style definition with the given settings.
+   */
+  private updateStyle(doc: MemoryDocument, style: MemoryStyle, settings: StyleSettings): void {
+    if (settings.paragraphFormat && (style.type === 2 || style.type === 4)) {
+      throw new Error(`"${style.name}" is a ${style.type === 2 ? 'character' : 'list'} style and has no paragraph settings.`);
+    }
+    if (settings.baseStyle !== undefined) {
+      const base = this.getStyle(doc, settings.baseStyle);
+      if (base.type !== style.type) {
+        throw new Error(`Base style "${base.name}" is not of the same type as "${style.name}".`);
+      }
+      style.baseStyle = base.name;
+    }
+    if (settings.nextParagraphStyle !== undefined) {
+      const next = this.getStyle(doc, settings.nextParagraphStyle);
+      if (style.type !== 1 || next.type !== 1) {
+        throw new Error("The next paragraph style can only be set between paragraph styles.");
+      }
+      style.nextParagraphStyle = next.name;
+    }
+    assignDefined(style.font, settings.font ?? {});
+    assignDefined(style.paragraphFormat, settings.paragraphFormat ?? {});
+    this.touch(doc);
+  }
+
+  /**
+   * Creates a new style in the active document.
+   * @param styleName Name of the new style.
+   * @param styleType WdStyleType value (1=Paragraph, 2=Character, 3=Table, 4=List).
+   * @param settings Base style, next paragraph style, font and paragraph settings.
+   */
+  public async createStyle(styleName: string, styleType: number, settings: StyleSettings): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (ensureStyle(doc, styleName)) {
+        throw new Error(`Style "${styleName}" already exists.`);
+      }
+      if (![1, 2, 3, 4].includes(styleType)) {
+        throw new Error(`Invalid style type: ${styleType}.`);
+      }
+      const style: MemoryStyle = { name: styleName, type: styleType, builtIn: false, font: {}, paragraphFormat: {} };
+      const defaultBase: { [styleType: number]: string } = { 1: 'Normal', 2: 'Default Paragraph Font', 3: 'Normal Table' };
+      const baseStyle = settings.baseStyle ?? defaultBase[styleType];
+      this.updateStyle(doc, style, { ...settings, baseStyle });
+      doc.styles.push(style);
+    } catch (error) {
+      console.error(`Failed to create style ${styleName}:`, error);
+      throw new Error(`Failed to create style. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Changes the definition of an existing style in the active document.
+   * @param styleName Name of the style.
+   * @param settings Base style, next paragraph style, font and paragraph settings to change.
+   */
+  public async modifyStyle(styleName: string, settings: StyleSettings): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      this.updateStyle(doc, this.getStyle(doc, styleName), settings);
+    } catch (error) {
+      console.error(`Failed to modify style ${styleName}:`, error);
+      throw new Error(`Failed to modify style. Error: ${error}`);
+    }
+  }
+
+  // --- Outline Methods ---
+
+  /**
+   * Locates the section of a heading among the top-level blocks of the body.
+   * @returns The block indices of the section (end exclusive) and the heading level.
+   */
+  private headingSection(doc: MemoryDocument, paragraphIndex: number): { first: number; last: number; level: number } {
+    const slots = listParagraphs(doc.body);
+    if (paragraphIndex <= 0 || paragraphIndex > slots.length) {
+      throw new Error(`Paragraph index ${paragraphIndex} is out of bounds.`);
+    }
+    const slot = slots[paragraphIndex - 1];
+    const level = headingLevel(slot.paragraph);
+    if (!level) {
+      throw new Error(`Paragraph ${paragraphIndex} is not a heading.`);
+    }
+    if (slot.container !== doc.body.blocks) {
+      throw new Error(`Paragraph ${paragraphIndex} is a heading inside a table.`);
+    }
+    const blocks = doc.body.blocks;
+    const first = blocks.indexOf(slot.paragraph);
+    let last = first + 1;
+    while (last < blocks.length) {
+      const block = blocks[last];
+      if (block.type === 'paragraph' && (headingLevel(block) ?? 10) <= level) break;
+      last++;
+    }
+    return { first, last, level };
+  }
+
+  /**
+   * Inserts a heading paragraph after the paragraph containing the end of the selection.
+   * An empty paragraph is turned into the heading instead. The cursor is placed at the end of the heading.
+   * @param text Heading text.
+   * @param level Heading level (1-9).
+   * @returns The paragraph index of the heading.
+   */
+  public async insertHeading(text: string, level: number): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (level < 1 || level > 9) {
+        throw new Error(`Invalid heading level: ${level}. Use 1-9.`);
+      }
+      const style = ensureStyle(doc, `Heading ${level}`)!.name;
+      const line = text.replace(/\r\n|\r|\n/g, ' ');
+      const slots = this.selectedParagraphs(doc);
+      const slot = slots[slots.length - 1];
+      let heading = slot.paragraph;
+      if (paragraphText(slot.paragraph) === '') {
+        heading.style = style;
+        insertText(doc.body, slot.start, line, {});
+      } else {
+        heading = createParagraph(line, style);
+        slot.container.splice(slot.container.indexOf(slot.paragraph) + 1, 0, heading);
+      }
+      const index = listParagraphs(doc.body).findIndex(s => s.paragraph === heading);
+      this.select(doc, listParagraphs(doc.body)[index].end);
+      this.touch(doc);
+      return index + 1;
+    } catch (error) {
+      console.error("Failed to insert heading:", error);
+      throw new Error(`Failed to insert heading. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Changes the level of a heading and of all headings in its section; body text is unchanged.
+   * @param paragraphIndex 1-based index of the heading paragraph.
+   * @param levelDelta Levels to move: negative promotes (Heading 2 -> Heading 1), positive demotes.
+   * @returns The number of headings changed.
+   */
+  public async changeHeadingLevel(paragraphIndex: number, levelDelta: number): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { first, last } = this.headingSection(doc, paragraphIndex);
+      const headings = doc.body.blocks.slice(first, last)
+        .filter((block): block is MemoryParagraph => block.type === 'paragraph' && headingLevel(block) !== undefined);
+      for (const heading of headings) {
+        const level = headingLevel(heading)! + levelDelta;
+        if (level < 1 || level > 9) {
+          throw new Error(`"${paragraphText(heading)}" cannot be moved to level ${level}. Heading levels are 1-9.`);
+        }
+      }
+      for (const heading of headings) {
+        heading.style = ensureStyle(doc, `Heading ${headingLevel(heading)! + levelDelta}`)!.name;
+      }
+      this.touch(doc);
+      return headings.length;
+    } catch (error) {
+      console.error(`Failed to change level of heading ${paragraphIndex}:`, error);
+      throw new Error(`Failed to change heading level. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Moves a heading's section before or after the section of another heading and selects it.
+   * @param paragraphIndex 1-based index of the heading to move.
+   * @param targetParagraphIndex 1-based index of the heading to move it next to.
+   * @param position Whether to place it before the target heading or after the target's section.
+   * @returns The new paragraph index of the moved heading.
+   */
+  public async moveHeadingSection(paragraphIndex: number, targetParagraphIndex: number, position: 'before' | 'after'): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const source = this.headingSection(doc, paragraphIndex);
+      const target = this.headingSection(doc, targetParagraphIndex);
+      if (target.first >= source.first && target.first < source.last) {
+        throw new Error(`Heading ${targetParagraphIndex} is part of the section being moved.`);
+      }
+      const blocks = doc.body.blocks;
+      const moved = blocks.slice(source.first, source.last);
+      if (moved.some(block => block.type === 'paragraph' && block.sectionBreak)) {
+        throw new Error("The section contains a section break and cannot be moved.");
+      }
+      let insertAt = position === 'before' ? target.first : target.last;
+      blocks.splice(source.first, moved.length);
+      if (insertAt > source.first) insertAt -= moved.length;
+      blocks.splice(insertAt, 0, ...moved);
+      if (blocks[blocks.length - 1].type !== 'paragraph') {
+        blocks.push(createParagraph()); // The body ends with a paragraph, as in Word
+      }
+      const slots = listParagraphs(doc.body);
+      const movedSlots = slots.filter(slot => moved.some(block => block === slot.paragraph || (block.type === 'table' && block === slot.table) || (block.type === 'toc' && block === slot.toc)));
+      this.select(doc, movedSlots[0].start, movedSlots[movedSlots.length - 1].end + 1);
+      this.touch(doc);
+      return slots.indexOf(movedSlots[0]) + 1;
+    } catch (error) {
+      console.error(`Failed to move heading ${paragraphIndex}:`, error);
+      throw new Error(`Failed to move heading section. Error: ${error}`);
+    }
+  }
+
+  // --- Table of Contents Methods ---
+
+  private getToc(doc: MemoryDocument, tocIndex: number): MemoryTableOfContents {
+    const tocs = listTocs(doc.body);
+    if (tocIndex <= 0 || tocIndex > tocs.length) {
+      throw new Error(`Table of contents index ${tocIndex} is out of bounds (1-${tocs.length}).`);
+    }
+    return tocs[tocIndex - 1].toc;
+  }
+
+  /**
+   * Rebuilds the entries of a table of contents from the headings of the body, keeping its title paragraphs.
+   * Entries use the TOC 1-9 styles; their page numbers come from the same page count as getOutline.
+   * @param pageNumbersOnly Only rewrite the page numbers of entries that still match a heading by level and text.
+   */
+  private refreshToc(doc: MemoryDocument, toc: MemoryTableOfContents, pageNumbersOnly: boolean = false): void {
+    const options = parseTocFieldCode(toc.fieldCode);
+    const headings = this.outline(doc).filter(h => h.level >= options.upperHeadingLevel && h.level <= options.lowerHeadingLevel);
+    const separator = options.rightAlignPageNumbers ? '\t' : ' ';
+    const titleCount = toc.blocks.findIndex(block => block.type !== 'paragraph' || block.style !== 'TOC Heading');
+    const titles = titleCount < 0 ? toc.blocks : toc.blocks.slice(0, titleCount);
+    if (pageNumbersOnly) {
+      if (!options.includePageNumbers) return;
+      const remaining = [...headings];
+      for (const block of toc.blocks.slice(titles.length)) {
+        if (block.type !== 'paragraph') continue;
+        const text = paragraphText(block);
+        const page = /[\t ](\d+)$/.exec(text);
+        const level = /^TOC ([1-9])$/i.exec(block.style);
+        if (!page || !level) continue;
+        const match = remaining.findIndex(h => h.level === Number(level[1]) && h.text === text.slice(0, page.index));
+        if (match < 0) continue;
+        const [heading] = remaining.splice(match, 1);
+        const entry: MemoryStory = { blocks: [block] };
+        deleteRange(entry, page.index + 1, text.length);
+        insertText(entry, page.index + 1, String(heading.page));
+      }
+    } else {
+      const entries = headings.map(h =>
+        createParagraph(options.includePageNumbers ? `${h.text}${separator}${h.page}` : h.text, ensureStyle(doc, `TOC ${h.level}`)!.name));
+      if (entries.length === 0) {
+        entries.push(createParagraph("No table of contents entries found."));
+      }
+      toc.blocks = [...titles, ...entries];
+    }
+    // Word recalculates the field (real page numbers) when it next opens the document
+    toc.dirty = true;
+  }
+
+  /**
+   * Inserts a table of contents built from the Heading 1-9 paragraphs at the selection.
+   * The cursor is placed after it.
+   * @returns The 1-based index of the new table of contents.
+   */
+  public async insertTableOfContents(options: TableOfContentsOptions): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { upperHeadingLevel: upper, lowerHeadingLevel: lower } = options;
+      if (upper < 1 || lower > 9 || upper > lower) {
+        throw new Error(`Invalid heading levels: ${upper}-${lower}. Use 1-9 with the upper level not below the lower level.`);
+      }
+      if (locate(doc.body, this.selectionOf(doc).start).toc) {
+        throw new Error("The selection is inside a table of contents.");
+      }
+      const toc: MemoryTableOfContents = { type: 'toc', fieldCode: tocFieldCode(options), blocks: [] };
+      this.refreshToc(doc, toc);
+      insertBlock(doc.body, this.selectionOf(doc).start, toc);
+      const tocs = listTocs(doc.body);
+      const index = tocs.findIndex(slot => slot.toc === toc);
+      this.select(doc, tocs[index].end);
+      this.touch(doc);
+      return index + 1;
+    } catch (error) {
+      console.error("Failed to insert table of contents:", error);
+      throw new Error(`Failed to insert table of contents. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the tables of contents of the body with the options read from their field codes.
+   */
+  public async listTablesOfContents(): Promise<TableOfContentsInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const slots = listParagraphs(doc.body);
+      return listTocs(doc.body).map((slot, i) => ({
+        index: i + 1,
+        ...parseTocFieldCode(slot.toc.fieldCode),
+        start: slot.start,
+        end: slot.end,
+        entryCount: slots.filter(s => s.toc === slot.toc && /^TOC [1-9]$/i.test(s.paragraph.style)).length,
+      }));
+    } catch (error) {
+      console.error("Failed to list tables of contents:", error);
+      throw new Error(`Failed to list tables of contents. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Refreshes a table of contents from the current headings.
+   * @param tocIndex 1-based index of the table of contents.
+   * @param pageNumbersOnly Only update page numbers, keeping the existing entries.
+   */
+  public async updateTableOfContents(tocIndex: number, pageNumbersOnly: boolean = false): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      this.refreshToc(doc, this.getToc(doc, tocIndex), pageNumbersOnly);
+      this.touch(doc);
+      this.select(doc, this.selectionOf(doc).start);
+    } catch (error) {
+      console.error(`Failed to update table of contents ${tocIndex}:`, error);
+      throw new Error(`Failed to update table of contents. Error: ${error}`);
+    }
+  }
+
+  // --- List Methods ---
+
+  private isBulletList(doc: MemoryDocument, listId: number): boolean {
+    return listLevel(doc, { listId, level: 1 })?.numberStyle === LIST_BULLET;
+  }
+
+  /**
+   * Finds the nearest list of the same kind (bullets or numbers) before a paragraph, other than the paragraph's own list.
+   */
+  private previousList(doc: MemoryDocument, paragraph: MemoryParagraph, bullet: boolean): MemoryList | undefined {
+    const slots = listParagraphs(doc.body);
+    for (let i = slots.findIndex(slot => slot.paragraph === paragraph) - 1; i >= 0; i--) {
+      const item = slots[i].paragraph.list;
+      if (item && item.listId !== paragraph.list?.listId && this.isBulletList(doc, item.listId) === bullet) {
+        return doc.lists.find(list => list.id === item.listId);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Moves a list item and the items of the same list after it to another list.
+   */
+  private moveListItems(doc: MemoryDocument, paragraph: MemoryParagraph, listId: number): void {
+    const slots = listParagraphs(doc.body);
+    const from = paragraph.list!.listId;
+    for (const { paragraph: item } of slots.slice(slots.findIndex(slot => slot.paragraph === paragraph))) {
+      if (item.list?.listId === from) item.list.listId = listId;
+    }
+  }
+
+  private selectedListItems(doc: MemoryDocument): MemoryParagraph[] {
+    return this.selectedParagraphs(doc).map(slot => slot.paragraph).filter(paragraph => paragraph.list);
+  }
+
+  /**
+   * Turns the paragraphs of the selection into list items. Items already in a list keep their level;
+   * paragraphs in the Normal style get the List Paragraph style, as in Word.
+   * @param options List gallery and template, custom level 1 format, and whether to continue the previous list.
+   */
+  public async applyListFormat(options: ListFormatOptions): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { listType, template = 1 } = options;
+      const gallerySize = listGallerySize(listType);
+      if (template < 1 || template > gallerySize) {
+        throw new Error(`Invalid ${listType} list template: ${template}. Use 1-${gallerySize}.`);
+      }
+      if (options.numberFormat !== undefined && (listType === 'bullet' ? options.numberFormat === '' : !options.numberFormat.includes('%1'))) {
+        throw new Error(`Invalid number format "${options.numberFormat}". ${listType === 'bullet' ? 'Give the bullet character.' : 'Use %1 for the number, e.g. "%1." or "(%1)".'}`);
+      }
+      const slots = this.selectedParagraphs(doc);
+      let list = options.continuePreviousList ? this.previousList(doc, slots[0].paragraph, listType === 'bullet') : undefined;
+      if (!list) {
+        const listTemplate = addListTemplate(doc, listType, template);
+        const first = listTemplate.levels[0];
+        if (options.numberFormat !== undefined) first.numberFormat = options.numberFormat;
+        if (options.numberStyle !== undefined && listType !== 'bullet') first.numberStyle = options.numberStyle;
+        if (options.startAt !== undefined) first.startAt = options.startAt;
+        list = addList(doc, listTemplate.id);
+      }
+      for (const { paragraph } of slots) {
+        paragraph.list = { listId: list.id, level: paragraph.list?.level ?? 1 };
+        delete paragraph.format.leftIndent; // The list level defines the indents
+        delete paragraph.format.firstLineIndent;
+        if (paragraph.style === 'Normal') {
+          paragraph.style = ensureStyle(doc, 'List Paragraph')!.name;
+        }
+      }
+      this.touch(doc);
+    } catch (error) {
+      console.error("Failed to apply list format:", error);
+      throw new Error(`Failed to apply list format. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Moves the list items of the selection to a deeper or higher list level.
+   * @param levelDelta Levels to move: positive indents (level 1 -> level 2), negative outdents.
+   * @returns The number of list items changed.
+   */
+  public async changeListLevel(levelDelta: number): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const items = this.selectedListItems(doc);
+      if (items.length === 0) {
+        throw new Error("The selection contains no list items.");
+      }
+      for (const item of items) {
+        const level = item.list!.level + levelDelta;
+        if (level < 1 || level > 9) {
+          throw new Error(`"${paragraphText(item)}" cannot be moved to list level ${level}. List levels are 1-9.`);
+        }
+      }
+      for (const item of items) {
+        item.list!.level += levelDelta;
+      }
+      this.touch(doc);
+      return items.length;
+    } catch (error) {
+      console.error("Failed to change list level:", error);
+      throw new Error(`Failed to change list level. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Starts numbering again at the first list item of the selection; that item and the
+   * items of its list after it become a new list.
+   * @param startAt Number of the first item (level 1).
+   */
+  public async restartListNumbering(startAt: number = 1): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const [item] = this.selectedListItems(doc);
+      if (!item) {
+        throw new Error("The selection contains no list items.");
+      }
+      const current = doc.lists.find(list => list.id === item.list!.listId)!;
+      const isFirstItem = listParagraphs(doc.body).find(slot => slot.paragraph.list?.listId === current.id)!.paragraph === item;
+      const list = isFirstItem ? current : addList(doc, current.templateId);
+      list.startAt = startAt;
+      this.moveListItems(doc, item, list.id);
+      this.touch(doc);
+    } catch (error) {
+      console.error("Failed to restart list numbering:", error);
+      throw new Error(`Failed to restart list numbering. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Joins the list at the selection, from its first selected item on, to the previous list of the same kind.
+   */
+  public async continueListNumbering(): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const [item] = this.selectedListItems(doc);
+      if (!item) {
+        throw new Error("The selection contains no list items.");
+      }
+      const previous = this.previousList(doc, item, this.isBulletList(doc, item.list!.listId));
+      if (!previous) {
+        throw new Error("There is no previous list of the same kind to continue.");
+      }
+      this.moveListItems(doc, item, previous.id);
+      this.touch(doc);
+    } catch (error) {
+      console.error("Failed to continue list numbering:", error);
+      throw new Error(`Failed to continue list numbering. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Removes list formatting from the paragraphs of the selection. List Paragraph items go back to Normal.
+   * @returns The number of list items changed.
+   */
+  public async removeListFormat(): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const items = this.selectedListItems(doc);
+      for (const item of items) {
+        delete item.list;
+        if (item.style === 'List Paragraph') {
+          item.style = ensureStyle(doc, 'Normal')!.name;
+        }
+      }
+      this.touch(doc);
+      return items.length;
+    } catch (error) {
+      console.error("Failed to remove list format:", error);
+      throw new Error(`Failed to remove list format. Error: ${error}`);
+    }
+  }
+
+  // --- Comment Methods ---
+
+  private getComment(doc: MemoryDocument, commentIndex: number): CommentSlot {
+    const comments = listComments(doc);
+    if (commentIndex <= 0 || commentIndex > comments.length) {
+      throw new Error(`Comment index ${commentIndex} is out of bounds (1-${comments.length}).`);
+    }
+    return comments[commentIndex - 1];
+  }
+
+  private createComment(doc: MemoryDocument, text: string, author?: string, initials?: string): MemoryComment {
+    const name = author ?? userName();
+    return {
+      id: Math.max(-1, ...doc.comments.map(comment => comment.id)) + 1,
+      author: name,
+      initials: initials ?? initialsOf(name),
+      date: timestamp(),
+      content: createStory(text),
+    };
+  }
+
+  /**
+   * Adds a comment on the selection. A collapsed selection comments on the word it is in, as in Word.
+   * @param text The comment text; line breaks start new paragraphs.
+   * @param author Optional author name (default: the user name).
+   * @param initials Optional author initials (default: derived from the author name).
+   * @returns The 1-based index of the new comment.
+   */
+  public async addComment(text: string, author?: string, initials?: string): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      let { start, end } = this.selectionOf(doc);
+      if (start === end) {
+        const slot = locate(doc.body, start);
+        const word = [...paragraphText(slot.paragraph).matchAll(/[\p{L}\p{N}_']+/gu)]
+          .find(match => match.index! <= start - slot.start && match.index! + match[0].length >= start - slot.start);
+        if (!word) {
+          throw new Error("There is no text to comment on at the selection. Select the text to comment on.");
+        }
+        start = slot.start + word.index!;
+        end = start + word[0].length;
+      }
+      const comment = this.createComment(doc, text, author, initials);
+      doc.comments.push(comment);
+      addCommentMarks(doc.body, start, end, comment.id);
+      this.touch(doc);
+      return listComments(doc).findIndex(slot => slot.comment === comment) + 1;
+    } catch (error) {
+      console.error("Failed to add comment:", error);
+      throw new Error(`Failed to add comment. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the comments of the document in document order, replies right after the comment they answer.
+   */
+  public async listComments(): Promise<CommentInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const comments = listComments(doc);
+      const text = storyText(doc.body);
+      return comments.map(({ comment, start, end }, i) => {
+        const info: CommentInfo = {
+          index: i + 1,
+          author: comment.author,
+          initials: comment.initials,
+          date: comment.date,
+          text: storyText(comment.content).slice(0, -1).replace(/\r/g, '\n'),
+          scopeText: text.slice(start, end).replace(/\r/g, '\n'),
+          start,
+          end,
+          done: !!comment.done,
+        };
+        const parent = comments.findIndex(slot => slot.comment.id === comment.parentId);
+        if (comment.parentId !== undefined && parent >= 0) info.parentIndex = parent + 1;
+        return info;
+      });
+    } catch (error) {
+      console.error("Failed to list comments:", error);
+      throw new Error(`Failed to list comments. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Replies to a comment. A reply to a reply joins the thread of the comment the reply answers.
+   * @param commentIndex 1-based index of the comment.
+   * @returns The 1-based index of the reply.
+   */
+  public async replyToComment(commentIndex: number, text: string, author?: string, initials?: string): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { comment } = this.getComment(doc, commentIndex);
+      const parent = doc.comments.find(c => c.id === comment.parentId) ?? comment;
+      const thread = [parent.id, ...doc.comments.filter(c => c.parentId === parent.id).map(c => c.id)];
+      const reply = this.createComment(doc, text, author, initials);
+      reply.parentId = parent.id;
+      doc.comments.push(reply);
+      addReplyMarks(doc.body, thread, reply.id);
+      this.touch(doc);
+      return listComments(doc).findIndex(slot => slot.comment === reply) + 1;
+    } catch (error) {
+      console.error(`Failed to reply to comment ${commentIndex}:`, error);
+      throw new Error(`Failed to reply to comment. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Marks a comment as done (resolved), or open again.
+   * @param commentIndex 1-based index of the comment.
+   */
+  public async setCommentDone(commentIndex: number, done: boolean): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { comment } = this.getComment(doc, commentIndex);
+      if (done) {
+        comment.done = true;
+      } else {
+        delete comment.done;
+      }
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to set done state of comment ${commentIndex}:`, error);
+      throw new Error(`Failed to set comment done state. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Deletes a comment together with its replies.
+   * @param commentIndex 1-based index of the comment.
+   */
+  public async deleteComment(commentIndex: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { comment } = this.getComment(doc, commentIndex);
+      const ids = [comment.id, ...doc.comments.filter(c => c.parentId === comment.id).map(c => c.id)];
+      removeCommentMarks(doc.body, ids);
+      doc.comments = doc.comments.filter(c => !ids.includes(c.id));
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to delete comment ${commentIndex}:`, error);
+      throw new Error(`Failed to delete comment. Error: ${error}`);
+    }
+  }
+
+  // --- Revision Methods ---
+
+  private getRevision(doc: MemoryDocument, revisionIndex: number): RevisionSlot {
+    const revisions = listRevisions(doc.body);
+    if (revisionIndex <= 0 || revisionIndex > revisions.length) {
+      throw new Error(`Revision index ${revisionIndex} is out of bounds (1-${revisions.length}).`);
+    }
+    return revisions[revisionIndex - 1];
+  }
+
+  /**
+   * Turns tracking of changes on or off. While on, inserted and deleted text is recorded as revisions.
+   */
+  public async setTrackRevisions(enabled: boolean): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      doc.trackRevisions = enabled;
+      this.touch(doc);
+    } catch (error) {
+      console.error("Failed to set track revisions:", error);
+      throw new Error(`Failed to set track revisions. Error: ${error}`);
+    }
+  }
+
+  public async getTrackRevisions(): Promise<boolean> {
+    const doc = await this.getActiveDocument();
+    return !!doc.trackRevisions;
+  }
+
+  /**
+   * Lists the tracked changes of the document in document order.
+   * @param inSelection Only list revisions overlapping the selection (a collapsed selection: the character after it).
+   */
+  public async listRevisions(inSelection: boolean = false): Promise<RevisionInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const text = storyText(doc.body);
+      const { start, end } = this.selectionOf(doc);
+      return listRevisions(doc.body)
+        .map((slot, i): RevisionInfo => ({
+          index: i + 1,
+          type: slot.revision.type === 'insert' ? 1 : 2,
+          author: slot.revision.author,
+          date: slot.revision.date,
+          text: text.slice(slot.start, slot.end).replace(/\r/g, '\n'),
+          start: slot.start,
+          end: slot.end,
+        }))
+        .filter(info => !inSelection || (info.start < Math.max(end, start + 1) && info.end > start));
+    } catch (error) {
+      console.error("Failed to list revisions:", error);
+      throw new Error(`Failed to list revisions. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Accepts a tracked change: inserted text becomes ordinary text, deleted text is removed.
+   * @param revisionIndex 1-based index of the revision.
+   */
+  public async acceptRevision(revisionIndex: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      resolveRevision(doc.body, this.getRevision(doc, revisionIndex), true);
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to accept revision ${revisionIndex}:`, error);
+      throw new Error(`Failed to accept revision. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Rejects a tracked change: inserted text is removed, deleted text is restored.
+   * @param revisionIndex 1-based index of the revision.
+   */
+  public async rejectRevision(revisionIndex: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      resolveRevision(doc.body, this.getRevision(doc, revisionIndex), false);
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to reject revision ${revisionIndex}:`, error);
+      throw new Error(`Failed to reject revision. Error: ${error}`);
+    }
+  }
+
+  // --- Bookmark Methods ---
+
+  /**
+   * Finds a bookmark of the body by name, ignoring case like Word.
+   */
+  private getBookmark(doc: MemoryDocument, name: string): BookmarkSlot {
+    const bookmark = listBookmarks(doc.body).find(b => b.name.toLowerCase() === name.toLowerCase());
+    if (!bookmark) {
+      throw new Error(`Bookmark not found: ${name}`);
+    }
+    return bookmark;
+  }
+
+  /**
+   * Bookmarks the selection. Adding a name that already exists moves that bookmark, as in Word.
+   * @param name Starts with a letter, then letters, digits and underscores; at most 40 characters.
+   */
+  public async addBookmark(name: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (!/^\p{L}[\p{L}\p{N}_]{0,39}$/u.test(name)) {
+        throw new Error(`Bad bookmark name: "${name}". Names start with a letter, contain only letters, digits and underscores, and have at most 40 characters.`);
+      }
+      const { start, end } = this.selectionOf(doc);
+      const existing = listBookmarks(doc.body).find(b => b.name.toLowerCase() === name.toLowerCase());
+      if (existing) {
+        existing.startMark.mark.name = name;
+        moveBookmarkMarks(doc.body, existing, start, end);
+      } else {
+        addBookmarkMarks(doc.body, start, end, name);
+      }
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to add bookmark ${name}:`, error);
+      throw new Error(`Failed to add bookmark. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the bookmarks of the document in document order.
+   * @param includeHidden Include hidden bookmarks (names starting with "_"), like Bookmarks.ShowHidden.
+   */
+  public async listBookmarks(includeHidden: boolean = false): Promise<BookmarkInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const text = storyText(doc.body);
+      return listBookmarks(doc.body)
+        .filter(bookmark => includeHidden || !bookmark.name.startsWith('_'))
+        .map(({ name, start, end }) => ({ name, start, end, text: text.slice(start, end).replace(/\r/g, '\n') }));
+    } catch (error) {
+      console.error("Failed to list bookmarks:", error);
+      throw new Error(`Failed to list bookmarks. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Selects the text of a bookmark.
+   */
+  public async selectBookmark(name: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { start, end } = this.getBookmark(doc, name);
+      this.select(doc, start, end);
+    } catch (error) {
+      console.error(`Failed to select bookmark ${name}:`, error);
+      throw new Error(`Failed to select bookmark. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Replaces the text of a bookmark. The bookmark then spans the new text; while changes are tracked,
+   * the old text stays before it as a deletion.
+   * @param text The new text. Line breaks (\n) start new paragraphs.
+   */
+  public async setBookmarkText(name: string, text: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const bookmark = this.getBookmark(doc, name);
+      const start = this.removeRange(doc, bookmark.start, bookmark.end);
+      const end = insertText(doc.body, start, text, undefined, this.revision(doc, 'insert'));
+      moveBookmarkMarks(doc.body, bookmark, start, end);
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to set text of bookmark ${name}:`, error);
+      throw new Error(`Failed to set bookmark text. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Deletes a bookmark. Its text stays in the document.
+   */
+  public async deleteBookmark(name: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      removeBookmarkMarks(doc.body, this.getBookmark(doc, name).id);
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to delete bookmark ${name}:`, error);
+      throw new Error(`Failed to delete bookmark. Error: ${error}`);
+    }
+  }
+
+  // --- Content Control Methods ---
+
+  private getContentControl(doc: MemoryDocument, index: number): ContentControlSlot {
+    const controls = listContentControls(doc.body);
+    if (index <= 0 || index > controls.length) {
+      throw new Error(`Content control index ${index} is out of bounds (1-${controls.length}).`);
+    }
+    return controls[index - 1];
+  }
+
+  /**
+   * Lists the content controls of the document in document order.
+   */
+  public async listContentControls(): Promise<ContentControlInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const text = storyText(doc.body);
+      return listContentControls(doc.body).map(({ control, start, end }, i) => {
+        const info: ContentControlInfo = {
+          index: i + 1,
+          id: String(control.id),
+          type: control.type,
+          tag: control.tag ?? '',
+          title: control.title ?? '',
+          text: text.slice(start, end).replace(/\r/g, '\n'),
+          start,
+          end,
+          lockContents: !!control.lockContents,
+          lockControl: !!control.lockControl,
+          showingPlaceholder: !!control.showingPlaceholder,
+        };
+        if (control.type === 8) info.checked = !!control.checked;
+        if (control.entries) info.entries = control.entries.map(entry => entry.text);
+        return info;
+      });
+    } catch (error) {
+      console.error("Failed to list content controls:", error);
+      throw new Error(`Failed to list content controls. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the content of a content control, replacing its text (or placeholder).
+   * @param index 1-based index of the control.
+   * @param value Text; a yyyy-MM-dd date for date pickers (other text is used as is); an item (text or value)
+   *   of a dropdown list; true or false for a checkbox.
+   */
+  public async setContentControlValue(index: number, value: string | boolean): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const slot = this.getContentControl(doc, index);
+      const { control } = slot;
+      if (control.lockContents) {
+        throw new Error(`Content control ${index} is locked for editing.`);
+      }
+      if ((control.type === 8) !== (typeof value === 'boolean')) {
+        throw new Error(control.type === 8 ? "A checkbox takes true or false." : "Only checkboxes take true or false, other content controls take text.");
+      }
+      let text: string;
+      switch (control.type) {
+        case 8: // wdContentControlCheckBox
+          control.checked = value as boolean;
+          text = control.checked ? CHECKBOX_CHECKED : CHECKBOX_UNCHECKED;
+          break;
+        case 4: { // wdContentControlDropdownList
+          const entry = control.entries?.find(e => [e.text, e.value].some(v => v.toLowerCase() === (value as string).toLowerCase()));
+          if (!entry) {
+            throw new Error(`"${value}" is not an item of the dropdown list (${(control.entries ?? []).map(e => e.text).join(', ')}).`);
+          }
+          text = entry.text;
+          break;
+        }
+        case 6: { // wdContentControlDate
+          const date = /^\d{4}-\d{2}-\d{2}$/.test(value as string) ? new Date(`${value}T00:00:00Z`) : undefined;
+          control.date = date && !isNaN(date.getTime()) ? date.toISOString().replace('.000', '') : undefined;
+          text = date && control.date ? formatDate(date, control.dateFormat ?? 'M/d/yyyy') : value as string;
+          break;
+        }
+        case 0: // wdContentControlRichText
+        case 1: // wdContentControlText
+        case 3: // wdContentControlComboBox
+          text = value as string;
+          break;
+        default:
+          throw new Error(`Content controls of type ${control.type} cannot be set.`);
+      }
+      // Text within a paragraph breaks lines, a block-level control holds paragraphs
+      if (!control.block) text = text.replace(/\r\n|\r|\n/g, '\v');
+
+      // The new text takes the formatting of the old one, but not the style of placeholder text
+      const font = fontAt(doc.body, slot.start + 1);
+      if (control.showingPlaceholder && font.style === 'Placeholder Text') delete font.style;
+      const start = this.removeRange(doc, slot.start, slot.end);
+      const end = insertText(doc.body, start, text, font, this.revision(doc, 'insert'));
+      moveContentControlMarks(doc.body, slot, start, end);
+      delete control.showingPlaceholder;
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to set value of content control ${index}:`, error);
+      throw new Error(`Failed to set content control value. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Puts a content control around the selection. A selection including a paragraph mark gets a block-level
+   * control spanning its whole paragraphs. A checkbox is inserted at the start of the selection.
+   * @param type WdContentControlType: 0 rich text, 1 plain text, 3 combo box, 4 dropdown list, 6 date or 8 checkbox.
+   * @returns The 1-based index of the new control.
+   */
+  public async insertContentControl(type: number, options: ContentControlOptions = {}): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (![0, 1, 3, 4, 6, 8].includes(type)) {
+        throw new Error(`Unsupported content control type: ${type}.`);
+      }
+      let { start, end } = this.selectionOf(doc);
+      const controls = listContentControls(doc.body);
+      const control: MemoryContentControl = {
+        id: controls.reduce((max, slot) => Math.max(max, slot.control.id), 0) + 1,
+        type,
+        tag: options.tag,
+        title: options.title,
+      };
+      if (options.lockContents) control.lockContents = true;
+      if (options.lockControl) control.lockControl = true;
+      if (type === 3 || type === 4) control.entries = (options.entries ?? []).map(text => ({ text, value: text }));
+      if (type === 6) control.dateFormat = options.dateFormat ?? 'M/d/yyyy';
+
+      const slots = paragraphsInRange(doc.body, start, end);
+      if (type === 8) {
+        control.checked = !!options.checked;
+        end = insertText(doc.body, start, control.checked ? CHECKBOX_CHECKED : CHECKBOX_UNCHECKED, { ...fontAt(doc.body, start), name: 'MS Gothic' }, this.revision(doc, 'insert'));
+      } else if (slots.some(slot => slot.end >= start && slot.end < end)) {
+        const first = slots[0];
+        const last = slots[slots.length - 1];
+        if (first.container !== last.container) {
+          throw new Error("A content control cannot span paragraphs of different table cells.");
+        }
+        control.block = true;
+        start = first.start;
+        end = last.end;
+      }
+      addContentControlMarks(doc.body, start, end, control);
+      this.touch(doc);
+      return listContentControls(doc.body).findIndex(slot => slot.control === control) + 1;
+    } catch (error) {
+      console.error("Failed to insert content control:", error);
+      throw new Error(`Failed to insert content control. Error: ${error}`);
+    }
+  }
+
+  // --- Mail Merge Methods ---
+
+  /**
+   * Inserts a merge field at the selection, replacing selected text. Until merged it shows «FieldName», as in Word.
+   * @param fieldName Name of the data source column.
+   */
+  public async insertMergeField(fieldName: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const name = fieldName.trim();
+      if (!name) {
+        throw new Error("The merge field name is empty.");
+      }
+      const { start, end, font } = this.selectionOf(doc);
+      const runFont = { ...fontAt(doc.body, start), ...font };
+      const at = this.removeRange(doc, start, end);
+      const after = insertField(doc.body, at, { code: mergeFieldCode(name) }, `\u00ab${name}\u00bb`, runFont, this.revision(doc, 'insert'));
+      this.select(doc, after);
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to insert merge field: ${fieldName}`, error);
+      throw new Error(`Failed to insert merge field. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the names of the merge fields in the body, headers and footers, in order of first use.
+   */
+  public async listMergeFields(): Promise<string[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const names: string[] = [];
+      for (const story of documentStories(doc)) {
+        for (const { field } of listFields(story)) {
+          const name = mergeFieldName(field.code);
+          if (name !== undefined && !names.some(n => n.toLowerCase() === name.toLowerCase())) names.push(name);
+        }
+      }
+      return names;
+    } catch (error) {
+      console.error("Failed to list merge fields:", error);
+      throw new Error(`Failed to list merge fields. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Merges the active document with data records into a new document and makes it active. Each record gets a copy
+   * of the document in its own section, with the merge fields replaced by the record's values.
+   * @param records The values of each record by merge field name.
+   */
+  public async mailMerge(records: MergeRecord[]): Promise<MemoryDocument> {
+    const main = await this.getActiveDocument();
+    try {
+      if (records.length === 0) {
+        throw new Error("The data source has no records.");
+      }
+      const result = await this.copyDocument(main);
+      const template = cloneDocument(result);
+      records.forEach((record, i) => {
+        const merged = i === 0 ? result : cloneDocument(template);
+        const values = new Map(Object.entries(record).map(([name, value]) => [name.toLowerCase(), value]));
+        for (const story of documentStories(merged)) {
+          for (const slot of listFields(story).reverse()) {
+            const name = mergeFieldName(slot.field.code);
+            if (name === undefined) continue;
+            setFieldResult(story, slot, values.get(name.toLowerCase()) ?? '');
+            removeFieldMarks(story, slot.id);
+          }
+        }
+        if (i > 0) appendSections(result, merged);
+      });
+
+      this.mergeCounter++;
+      result.name = `Letters${this.mergeCounter}`;
+      result.fullName = result.name;
+      result.path = undefined;
+      result.saved = false;
+      result.trackRevisions = undefined;
+      result.selection = { start: 0, end: 0 };
+      return this.activate(result);
+    } catch (error) {
+      console.error("Failed to merge document:", error);
+      throw new Error(`Failed to merge document. Error: ${error}`);
+    }
+  }
+
+  // --- Template Methods ---
+
+  /**
+   * Renders the template tags of the active document into a new document and makes it active.
+   * The template itself is left unchanged.
+   * @param data The values, objects and arrays the tags refer to.
+   */
+  public async renderTemplate(data: TemplateData): Promise<TemplateRendering> {
+    const template = await this.getActiveDocument();
+    try {
+      const result = await this.copyDocument(template);
+      const unresolved: string[] = [];
+      for (const story of documentStories(result)) {
+        renderStoryTemplate(story, data, unresolved);
+      }
+
+      this.documentCounter++;
+      result.name = `Document${this.documentCounter}`;
+      result.fullName = result.name;
+      result.path = undefined;
+      result.saved = false;
+      result.trackRevisions = undefined;
+      result.selection = { start: 0, end: 0 };
+      return { document: this.activate(result), unresolved };
+    } catch (error) {
+      console.error("Failed to render template:", error);
+      throw new Error(`Failed to render template. Error: ${error}`);
+    }
+  }
+
+  // --- Field Methods ---
+
+  /**
+   * Lists the fields of the body, then of the headers and footers each section shows, in document order within
+   * each story. A table of contents precedes the fields of its entries. Fields the model keeps as opaque content
+   * (nested fields, fields spanning paragraphs) are not listed.
+   */
+  private listDocumentFields(doc: MemoryDocument): DocumentField[] {
+    const stories: { story: MemoryStory; location: DocumentField['location'] }[] = [{ story: doc.body, location: { story: 'body' } }];
+    doc.sections.forEach((section, i) => {
+      for (const isHeader of [true, false]) {
+        for (const headerFooterType of [1, 2, 3]) {
+          if (!headerFooterExists(section, headerFooterType)) continue;
+          const story = (isHeader ? section.headers : section.footers)[headerFooterType];
+          stories.push({ story, location: { story: isHeader ? 'header' : 'footer', sectionIndex: i + 1, headerFooterType } });
+        }
+      }
+    });
+    return stories.flatMap(({ story, location }) => [
+      ...listTocs(story).map(toc => ({ story, location, code: toc.toc.fieldCode, start: toc.start, end: toc.end - 1, toc })),
+      ...listFields(story).map(field => ({ story, location, code: field.field.code, start: field.start, end: field.end, field })),
+    ].sort((a, b) => a.start - b.start));
+  }
+
+  /**
+   * The pages of the body, counted like getOutline from manual page breaks and section breaks:
+   * the position each page starts at and the 1-based index of its section.
+   */
+  private pages(doc: MemoryDocument): { start: number; section: number }[] {
+    const pages = [{ start: 0, section: 1 }];
+    for (const slot of listParagraphs(doc.body)) {
+      const text = paragraphText(slot.paragraph);
+      const section = pages[pages.length - 1].section;
+      for (let i = text.indexOf('\f'); i >= 0; i = text.indexOf('\f', i + 1)) {
+        pages.push({ start: slot.start + i + 1, section });
+      }
+      if (slot.paragraph.sectionBreak) pages.push({ start: slot.end + 1, section: section + 1 });
+    }
+    return pages;
+  }
+
+  /**
+   * Calculates the result of a field. Fields only Word can calculate (document properties, ...) are marked dirty
+   * instead, so Word updates them when it opens the file.
+   * @param place Where the field is: a body position, or the section of a header or footer, whose fields show
+   *   the values of the section's first page.
+   * @returns The result, or undefined for fields left to Word.
+   */
+  private calculateField(doc: MemoryDocument, field: MemoryField, place: { position?: number; sectionIndex?: number }): string | undefined {
+    const { code } = field;
+    const type = fieldType(code);
+    const argument = /^\s*\S+\s+(?:"([^"]*)"|([^\s\\"]+))/.exec(code);
+    const name = argument ? argument[1] ?? argument[2] : '';
+    const picture = /\\@\s*(?:"([^"]*)"|(\S+))/.exec(code);
+    const pages = this.pages(doc);
+    const pageAt = (position: number) => pages.filter(page => page.start <= position).length;
+    const page = place.position !== undefined ? pageAt(place.position) : pages.findIndex(p => p.section === place.sectionIndex) + 1;
+    const bookmark = listBookmarks(doc.body).find(b => b.name.toLowerCase() === name.toLowerCase());
+    let result: string;
+    switch (type) {
+      case 'DATE':
+      case 'TIME': {
+        // formatDate reads the UTC fields of the date, shifted here to show local time
+        const now = new Date();
+        const local = new Date(now.getTime() - now.getTimezoneOffset() * 60000);
+        result = formatDate(local, picture ? picture[1] ?? picture[2] : type === 'DATE' ? 'M/d/yyyy' : 'h:mm am/pm');
+        break;
+      }
+      case 'PAGE':
+        result = String(page);
+        break;
+      case 'NUMPAGES':
+        result = String(pages.length);
+        break;
+      case 'SECTIONPAGES':
+        result = String(pages.filter(p => p.section === pages[page - 1].section).length);
+        break;
+      case 'REF':
+        result = bookmark
+          ? storyText(doc.body).slice(bookmark.start, bookmark.end).replace(/\r$/, '').replace(/\r/g, '\v').replace(/\f/g, '')
+          : 'Error! Reference source not found.';
+        break;
+      case 'PAGEREF':
+        result = bookmark ? String(pageAt(bookmark.start)) : 'Error! Reference source not found.';
+        break;
+      case 'FILENAME':
+        result = /\\p\b/i.test(code) ? doc.fullName : doc.name;
+        break;
+      case 'MERGEFIELD':
+        // Shown as «FieldName» until merged, as in Word
+        return `\u00ab${mergeFieldName(code) ?? ''}\u00bb`;
+      default:
+        field.dirty = true;
+        return undefined;
+    }
+    delete field.dirty;
+    return applyFormatSwitches(result, code);
+  }
+
+  /**
+   * Trims a field code to insert, refusing codes the field tools do not insert.
+   */
+  private checkFieldCode(code: string): string {
+    const trimmed = code.trim();
+    if (!trimmed) {
+      throw new Error("The field code is empty.");
+    }
+    if (fieldType(trimmed) === 'TOC') {
+      throw new Error("Insert tables of contents with insertTableOfContents.");
+    }
+    return trimmed;
+  }
+
+  /**
+   * Inserts a field at the selection, replacing selected text, and places the cursor after it.
+   * @param code Field code such as PAGE or DATE \@ "MMMM d, yyyy".
+   * @returns The result of the field; empty for fields Word calculates when it opens the document.
+   */
+  public async insertField(code: string): Promise<string> {
+    const doc = await this.getActiveDocument();
+    try {
+      const field: MemoryField = { code: this.checkFieldCode(code) };
+      const { start, end, font } = this.selectionOf(doc);
+      const runFont = { ...fontAt(doc.body, start), ...font };
+      const at = this.removeRange(doc, start, end);
+      const result = this.calculateField(doc, field, { position: at }) ?? '';
+      const after = insertField(doc.body, at, field, result, runFont, this.revision(doc, 'insert'));
+      this.select(doc, after);
+      this.touch(doc);
+      return result;
+    } catch (error) {
+      console.error(`Failed to insert field: ${code}`, error);
+      throw new Error(`Failed to insert field. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Inserts a field at the end of a header or footer, such as the page number of a "Page X of Y" footer.
+   * @param headerFooterType WdHeaderFooterIndex value (1=Primary, 2=FirstPage, 3=EvenPages).
+   * @param textBefore Text to insert before the field, e.g. "Page ".
+   * @returns The result of the field.
+   */
+  public async insertHeaderFooterField(sectionIndex: number, headerFooterType: number, isHeader: boolean, code: string, textBefore: string = ''): Promise<string> {
+    const story = await this.getHeaderFooter(sectionIndex, headerFooterType, isHeader);
+    const doc = await this.getActiveDocument();
+    try {
+      const field: MemoryField = { code: this.checkFieldCode(code) };
+      const at = insertText(story, storyLength(story) - 1, textBefore);
+      const result = this.calculateField(doc, field, { sectionIndex }) ?? '';
+      insertField(story, at, field, result);
+      this.touch(doc);
+      return result;
+    } catch (error) {
+      console.error(`Failed to insert field in ${isHeader ? 'header' : 'footer'} type ${headerFooterType} of section ${sectionIndex}: ${code}`, error);
+      throw new Error(`Failed to insert header/footer field. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the fields of the body, headers and footers with their codes and results.
+   */
+  public async listFields(): Promise<FieldInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const texts = new Map<MemoryStory, string>();
+      return this.listDocumentFields(doc).map((item, i) => {
+        if (!texts.has(item.story)) texts.set(item.story, storyText(item.story));
+        return {
+          index: i + 1,
+          type: fieldType(item.code),
+          code: item.code,
+          result: texts.get(item.story)!.slice(item.start, item.end).replace(/\r/g, '\n'),
+          ...item.location,
+          start: item.start,
+          end: item.end,
+        };
+      });
+    } catch (error) {
+      console.error("Failed to list fields:", error);
+      throw new Error(`Failed to list fields. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Updates the fields of the body, headers and footers and rebuilds the tables of contents. Fields only Word can
+   * calculate are flagged for Word to update when it opens the document; they count as updated.
+   * @returns The number of fields updated.
+   */
+  public async updateFields(): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const fields = this.listDocumentFields(doc);
+      // Later fields first, so the positions of the earlier ones stay valid
+      for (const { story, location, toc, field } of [...fields].reverse()) {
+        if (toc) {
+          this.refreshToc(doc, toc.toc);
+        } else {
+          const place = location.story === 'body' ? { position: field!.start } : { sectionIndex: location.sectionIndex };
+          const result = this.calculateField(doc, field!.field, place);
+          if (result !== undefined) setFieldResult(story, field!, result);
+        }
+        this.touch(doc);
+      }
+      doc.saved = false;
+      this.select(doc, this.selectionOf(doc).start);
+      return fields.length;
+    } catch (error) {
+      console.error("Failed to update fields:", error);
+      throw new Error(`Failed to update fields. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Replaces fields with their results as plain text, like Field.Unlink. A table of contents becomes plain paragraphs.
+   * @param indices 1-based indices as returned by listFields; all fields when omitted.
+   * @returns The number of fields unlinked.
+   */
+  public async unlinkFields(indices?: number[]): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const fields = this.listDocumentFields(doc);
+      for (const index of indices ?? []) {
+        if (index <= 0 || index > fields.length) {
+          throw new Error(`Field index ${index} is out of bounds (1-${fields.length}).`);
+        }
+      }
+      const selected = indices ? fields.filter((_, i) => indices.includes(i + 1)) : fields;
+      for (const { story, toc, field } of [...selected].reverse()) {
+        if (toc) {
+          // The fields of its entries go with it
+          for (const entryField of listFields({ blocks: toc.toc.blocks })) removeFieldMarks({ blocks: toc.toc.blocks }, entryField.id);
+          toc.container.splice(toc.container.indexOf(toc.toc), 1, ...toc.toc.blocks);
+        } else {
+          removeFieldMarks(story, field!.id);
+        }
+      }
+      this.touch(doc);
+      return selected.length;
+    } catch (error) {
+      console.error("Failed to unlink fields:", error);
+      throw new Error(`Failed to unlink fields. Error: ${error}`);
+    }
+  }
+
+  // --- Footnote and Endnote Methods ---
+
+  private getNote(doc: MemoryDocument, kind: NoteKind, index: number): NoteSlot {
+    const notes = listNotes(doc, kind);
+    if (index <= 0 || index > notes.length) {
+      throw new Error(`${kind === 'footnote' ? 'Footnote' : 'Endnote'} index ${index} is out of bounds (1-${notes.length}).`);
+    }
+    return notes[index - 1];
+  }
+
+  private nextNoteId(doc: MemoryDocument, kind: NoteKind): number {
+    // Ids -1 and 0 are taken by the separator notes of files
+    return Math.max(0, ...doc[`${kind}s` as const].map(note => note.id)) + 1;
+  }
+
+  /**
+   * Inserts a footnote or endnote. Its reference mark goes at the end of the selection, as with Footnotes.Add.
+   * @param text The note text; line breaks start new paragraphs.
+   * @returns The 1-based index of the new note among the notes of its kind.
+   */
+  public async insertNote(kind: NoteKind, text: string): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { start, end } = this.selectionOf(doc);
+      // A selection ending with a paragraph mark gets the reference before the mark
+      const position = end > start && locate(doc.body, end).start === end ? end - 1 : end;
+      const content: MemoryStory = { blocks: [createParagraph('', ensureStyle(doc, NOTE_STYLES[kind])!.name)] };
+      setStoryText(content, text);
+      const note: MemoryNote = { id: this.nextNoteId(doc, kind), content };
+      doc[`${kind}s` as const].push(note);
+      addNoteReference(doc.body, position, kind, note.id);
+      this.touch(doc);
+      return listNotes(doc, kind).findIndex(slot => slot.note === note) + 1;
+    } catch (error) {
+      console.error(`Failed to insert ${kind}:`, error);
+      throw new Error(`Failed to insert ${kind}. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the footnotes, then the endnotes, each in the order of their reference marks.
+   * @param kind Only list the notes of this kind.
+   */
+  public async listNotes(kind?: NoteKind): Promise<NoteInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const kinds: NoteKind[] = kind ? [kind] : ['footnote', 'endnote'];
+      return kinds.flatMap(k => listNotes(doc, k).map(({ note, reference }, i) => {
+        const slot = locate(doc.body, reference.position);
+        return {
+          kind: k,
+          index: i + 1,
+          reference: reference.position,
+          context: paragraphText(slot.paragraph).slice(0, reference.position - slot.start).slice(-NOTE_CONTEXT_LENGTH),
+          text: storyText(note.content).slice(0, -1).replace(/\r/g, '\n'),
+        };
+      }));
+    } catch (error) {
+      console.error("Failed to list notes:", error);
+      throw new Error(`Failed to list notes. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Replaces the text of a note, keeping the style of its first paragraph.
+   * @param index 1-based index among the notes of its kind.
+   */
+  public async setNoteText(kind: NoteKind, index: number, text: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      setStoryText(this.getNote(doc, kind, index).note.content, text);
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to set text of ${kind} ${index}:`, error);
+      throw new Error(`Failed to set ${kind} text. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Deletes a note together with its reference mark.
+   * @param index 1-based index among the notes of its kind.
+   */
+  public async deleteNote(kind: NoteKind, index: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { note, reference } = this.getNote(doc, kind, index);
+      reference.paragraph.runs.splice(reference.paragraph.runs.indexOf(reference.run), 1);
+      const notes = doc[`${kind}s` as const];
+      notes.splice(notes.indexOf(note), 1);
+      this.touch(doc);
+    } catch (error) {
+      console.error(`Failed to delete ${kind} ${index}:`, error);
+      throw new Error(`Failed to delete ${kind}. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Converts footnotes to endnotes or endnotes to footnotes, like Footnotes.Convert. Paragraphs in the note text
+   * style of the old kind take the one of the new kind.
+   * @param index 1-based index of the note to convert; all notes of the kind when omitted.
+   * @returns The number of notes converted.
+   */
+  public async convertNotes(kind: NoteKind, index?: number): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const selected = index === undefined ? listNotes(doc, kind) : [this.getNote(doc, kind, index)];
+      const target: NoteKind = kind === 'footnote' ? 'endnote' : 'footnote';
+      const style = ensureStyle(doc, NOTE_STYLES[target])!.name;
+      const notes = doc[`${kind}s` as const];
+      for (const { note, reference } of selected) {
+        notes.splice(notes.indexOf(note), 1);
+        note.id = this.nextNoteId(doc, target);
+        reference.mark.type = `${target}Reference`;
+        reference.mark.id = note.id;
+        for (const { paragraph } of listParagraphs(note.content)) {
+          if (paragraph.style === NOTE_STYLES[kind]) paragraph.style = style;
+        }
+        doc[`${target}s` as const].push(note);
+      }
+      this.touch(doc);
+      return selected.length;
+    } catch (error) {
+      console.error(`Failed to convert ${kind}s:`, error);
+      throw new Error(`Failed to convert ${kind}s. Error: ${error}`);
+    }
+  }
+
+  // --- Range Methods ---
+
+  /**
+   * Resolves a range descriptor to character positions in the body.
+   */
+  private resolveRange(doc: MemoryDocument, range: RangeDescriptor): { start: number; end: number } {
+    switch (range.type) {
+      case 'characters': {
+        const length = storyLength(doc.body);
+        if (range.start < 0 || range.end < range.start || range.end > length) {
+          throw new Error(`Character range ${range.start}-${range.end} is outside the document (0-${length}).`);
+        }
+        return { start: range.start, end: range.end };
+      }
+      case 'paragraphs': {
+        const slots = listParagraphs(doc.body);
+        const last = range.end ?? range.start;
+        if (range.start < 1 || last < range.start || last > slots.length) {
+          throw new Error(`Paragraph range ${range.start}-${last} is out of bounds (1-${slots.length}).`);
+        }
+        return { start: slots[range.start - 1].start, end: slots[last - 1].end + 1 };
+      }
+      case 'bookmark': {
+        const { start, end } = this.getBookmark(doc, range.name);
+        return { start, end };
+      }
+      case 'tableCell': {
+        const cell = this.getTable(doc, range.tableIndex).rows[range.rowIndex - 1]?.cells[range.colIndex - 1];
+        if (!cell) {
+          throw new Error(`The requested member of the collection does not exist: cell (${range.rowIndex}, ${range.colIndex}).`);
+        }
+        const slots = listParagraphs(doc.body).filter(slot => slot.cell === cell);
+        return { start: slots[0].start, end: slots[slots.length - 1].end };
+      }
+      case 'search': {
+        const occurrence = range.occurrence ?? 1;
+        const hit = range.text ? this.findText(doc, range.text, !!range.matchCase, !!range.matchWholeWord)[occurrence - 1] : undefined;
+        if (!hit) {
+          throw new Error(`Occurrence ${occurrence} of "${range.text}" not found.`);
+        }
+        return hit;
+      }
+    }
+  }
+
+  /**
+   * Runs an action with a range of the active document as the target of the selection-based methods
+   * (text, font and paragraph formatting, table and picture insertion). The range stands in for the selection
+   * only for the calls made within the action; the selection stays in place, shifted by the length of text
+   * they inserted or deleted before it.
+   * @param range The range to act on.
+   * @param action The operations to run on the range.
+   */
+  public async withRange<T>(range: RangeDescriptor, action: () => Promise<T>): Promise<T> {
+    const doc = await this.getActiveDocument();
+    let target: { start: number; end: number };
+    try {
+      target = this.resolveRange(doc, range);
+    } catch (error) {
+      console.error("Failed to resolve range:", error);
+      throw new Error(`Failed to resolve range. Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const context: RangeTarget = { doc, selection: { ...target } };
+    this.rangeTargets.add(context);
+    try {
+      return await this.targetRange.run(context, action);
+    } finally {
+      this.rangeTargets.delete(context);
+    }
+  }
+
+  // --- Document Content Methods ---
+
+  /**
+   * Gets a page of body paragraphs with their style, text and character range.
+   * @param offset Number of paragraphs to skip (0-based).
+   * @param limit Maximum number of paragraphs to return.
+   * @param maxChars Optional budget for the total text length. At least one paragraph is returned, truncated if needed.
+   */
+  public async getParagraphs(offset: number = 0, limit: number = 50, maxChars?: number): Promise<ParagraphPage> {
+    const doc = await this.getActiveDocument();
+    try {
+      const slots = listParagraphs(doc.body);
+      const numbers = listStrings(doc, doc.body);
+      const paragraphs: ParagraphInfo[] = [];
+      let used = 0;
+      for (const [i, slot] of slots.slice(offset, offset + limit).entries()) {
+        const info: ParagraphInfo = {
+          index: offset + i + 1,
+          style: slot.paragraph.style,
+          text: paragraphText(slot.paragraph),
+          start: slot.start,
+          end: slot.end + 1,
+          inTable: !!slot.table,
+        };
+        if (numbers.has(slot.paragraph)) {
+          info.list = { level: slot.paragraph.list!.level, listString: numbers.get(slot.paragraph)! };
+        }
+        if (maxChars !== undefined && used + info.text.length > maxChars) {
+          if (paragraphs.length > 0) break;
+          info.text = info.text.slice(0, maxChars);
+          info.truncated = true;
+        }
+        used += info.text.length;
+        paragraphs.push(info);
+      }
+      return { totalParagraphs: slots.length, paragraphs };
+    } catch (error) {
+      console.error("Failed to get paragraphs:", error);
+      throw new Error(`Failed to get paragraphs. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Reads the body of the active document, or the current selection, as backend-neutral content (paragraphs, runs, tables).
+   * @param selectionOnly Only read the selection. Paragraphs are cut at the selection edges; tables touched by it are read whole.
+   */
+  public async getDocumentContent(selectionOnly: boolean = false): Promise<ContentBlock[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (!selectionOnly) {
+        return this.toContentBlocks(doc, doc.body.blocks);
+      }
+      const { start, end } = this.selectionOf(doc);
+      if (start === end) {
+        return [];
+      }
+      return this.toContentBlocks(doc, doc.body.blocks, { start, end, slots: new Map(listParagraphs(doc.body).map(slot => [slot.paragraph, slot])) });
+    } catch (error) {
+      console.error("Failed to get document content:", error);
+      throw new Error(`Failed to get document content. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the headings of the body: paragraphs in the Heading 1-9 styles.
+   */
+  public async getOutline(): Promise<HeadingInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      return this.outline(doc);
+    } catch (error) {
+      console.error("Failed to get outline:", error);
+      throw new Error(`Failed to get outline. Error: ${error}`);
+    }
+  }
+
+  private outline(doc: MemoryDocument): HeadingInfo[] {
+    const headings: HeadingInfo[] = [];
+    // Without page layout, pages are counted from manual page breaks and section breaks
+    let page = 1;
+    listParagraphs(doc.body).forEach((slot, i) => {
+      const text = paragraphText(slot.paragraph);
+      const level = headingLevel(slot.paragraph);
+      if (level) {
+        const leadingBreaks = /^\f*/.exec(text)![0].length;
+        headings.push({ level, text: text.replace(/[\u0001\f]/g, ''), paragraphIndex: i + 1, page: page + leadingBreaks });
+      }
+      page += text.split('\f').length - 1 + (slot.paragraph.sectionBreak ? 1 : 0);
+    });
+    return headings;
+  }
+
+  /**
+   * Reads a top-level table as backend-neutral content.
+   * @param tableIndex 1-based index of the table.
+   */
+  public async getTableContent(tableIndex: number): Promise<ContentTable> {
+    const doc = await this.getActiveDocument();
+    try {
+      return this.toContentBlocks(doc, [this.getTable(doc, tableIndex)])[0] as ContentTable;
+    } catch (error) {
+      console.error(`Failed to get content of table ${tableIndex}:`, error);
+      throw new Error(`Failed to get table content. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Inserts content (paragraphs, runs, tables) at the selection as document structure.
+   * The paragraph at the selection is split so the content stands on its own paragraphs.
+   * @param blocks The content to insert. Pictures are read from their filePath; pictures that
+   * cannot be read are inserted as their alt text.
+   */
+  public async insertContent(blocks: ContentBlock[]): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const memoryBlocks = await this.fromContentBlocks(doc, blocks);
+      const { start, end } = this.selectionOf(doc);
+      const at = this.removeRange(doc, start, end);
+      this.select(doc, insertBlocks(doc.body, at, memoryBlocks));
+      this.touch(doc);
+    } catch (error) {
+      console.error("Failed to insert content:", error);
+      throw new Error(`Failed to insert content. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Converts content to document blocks. List items become items of real lists.
+   * @param lists The lists in progress by level (index 0 for level 1), shared by the blocks of one container.
+   */
+  protected async fromContentBlocks(doc: MemoryDocument, blocks: ContentBlock[], lists: MemoryList[] = []): Promise<MemoryBlock[]> {
+    const result: MemoryBlock[] = [];
+    for (const block of blocks) {
+      if (block.type === 'paragraph') {
+        const style = ensureStyle(doc, block.style)?.name ?? block.style;
+        const paragraph = createParagraph('', style, block.alignment !== undefined ? { alignment: block.alignment } : {});
+        for (const run of block.runs) {
+          paragraph.runs.push(await this.fromContentRun(run));
+        }
+        normalizeRuns(paragraph);
+        if (block.list) {
+          paragraph.list = this.contentListItem(doc, block.list, lists);
+        } else if (!isListStyleName(block.style)) {
+          lists.length = 0; // A paragraph outside the items ends the lists
+        }
+        result.push(paragraph);
+      } else if (block.rows.length > 0) {
+        const columns = Math.max(...block.rows.map(row => row.length));
+        const table = createTable(block.rows.length, columns);
+        table.style = 'Table Grid';
+        for (const [r, row] of block.rows.entries()) {
+          for (const [c, cell] of row.entries()) {
+            const cellBlocks = await this.fromContentBlocks(doc, cell.blocks);
+            if (cellBlocks.some(b => b.type === 'paragraph')) {
+              table.rows[r].cells[c].blocks = cellBlocks;
+            }
+          }
+        }
+        result.push(table);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Places a converted list item in a list: items of the same kind at the same level share a list until an item
+   * of a lower level ends it, so each nested list numbers from its start.
+   * @param lists The lists in progress by level, updated for the item.
+   */
+  private contentListItem(doc: MemoryDocument, item: { level: number; ordered: boolean }, lists: MemoryList[]): ParagraphList {
+    const level = Math.min(Math.max(item.level, 1), 9);
+    lists.length = Math.min(lists.length, level);
+    let list = lists[level - 1];
+    if (!list || this.isBulletList(doc, list.id) === item.ordered) {
+      list = addList(doc, addListTemplate(doc, item.ordered ? 'number' : 'bullet', 1).id);
+      lists[level - 1] = list;
+    }
+    return { listId: list.id, level };
+  }
+
+  private async fromContentRun(run: ContentRun): Promise<MemoryRun> {
+    const font: RunFont = {};
+    if (run.bold) font.bold = true;
+    if (run.italic) font.italic = true;
+    if (run.underline) font.underline = 1; // wdUnderlineSingle
+    if (run.code) font.name = CODE_FONT;
+    if (run.picture) {
+      const { filePath, altText, width, height, data } = run.picture;
+      try {
+        if (!filePath && !data) throw new Error("Picture has no file path.");
+        const picture = data ? this.createPicture(data, filePath ?? '') : await this.loadPicture(filePath!);
+        if (width > 0 && height > 0) {
+          [picture.width, picture.height] = [width, height];
+        } else if (width > 0 || height > 0) {
+          const scale = width > 0 ? width / picture.width : height / picture.height;
+          [picture.width, picture.height] = [picture.width * scale, picture.height * scale];
+        }
+        picture.altText = altText;
+        return { text: OBJECT_CHARACTER, font, picture, hyperlink: run.hyperlink };
+      } catch (error) {
+        console.error(`Inserting alt text for picture ${filePath}:`, error);
+        return { text: altText || filePath || '', font, hyperlink: run.hyperlink ?? (filePath && /^https?:/.test(filePath) ? filePath : undefined) };
+      }
+    }
+    return { text: run.text.replace(/\r\n|\r|\n/g, '\v'), font, hyperlink: run.hyperlink };
+  }
+
+  /**
+   * Converts model blocks to content, optionally clipped to a range of the story.
+   */
+  protected toContentBlocks(doc: MemoryDocument, blocks: MemoryBlock[], clip?: { start: number; end: number; slots: Map<MemoryParagraph, ParagraphSlot> }): ContentBlock[] {
+    const result: ContentBlock[] = [];
+    const overlaps = (slot: ParagraphSlot) => !clip || (slot.start < clip.end && slot.end >= clip.start);
+    for (const block of blocks) {
+      if (block.type === 'paragraph') {
+        const slot = clip?.slots.get(block);
+        if (!clip || !slot) {
+          result.push(this.toContentParagraph(doc, block));
+        } else if (overlaps(slot)) {
+          result.push(this.toContentParagraph(doc, sliceParagraph(block, clip.start - slot.start, clip.end - slot.start)));
+        }
+      } else if (block.type === 'table') {
+        if (clip && !listParagraphs({ blocks: [block] }).some(s => overlaps(clip.slots.get(s.paragraph)!))) {
+          continue;
+        }
+        result.push({ type: 'table', rows: block.rows.map(row => row.cells.map(cell => ({ blocks: this.toContentBlocks(doc, cell.blocks) }))) });
+      } else if (block.type === 'toc') {
+        result.push(...this.toContentBlocks(doc, block.blocks, clip)); // Entries read as the paragraphs they are
+      }
+      // Opaque blocks (content the model does not cover) are left out
+    }
+    return result;
+  }
+
+  protected toContentParagraph(doc: MemoryDocument, paragraph: MemoryParagraph): ContentParagraph {
+    const level = headingLevel(paragraph);
+    // Built-in list styles ("List Bullet", "List Number 2", ...) stand in for list formatting
+    const listStyle = /^List (Bullet|Number)(?: ([2-5]))?$/.exec(paragraph.style);
+    const listItem = paragraph.list && listLevel(doc, paragraph.list);
+    return {
+      type: 'paragraph',
+      style: paragraph.style,
+      headingLevel: level,
+      list: listItem ? { level: paragraph.list!.level, ordered: listItem.numberStyle !== LIST_BULLET }
+        : listStyle ? { level: Number(listStyle[2] ?? 1), ordered: listStyle[1] === 'Number' } : undefined,
+      alignment: paragraph.format.alignment,
+      runs: paragraph.runs.filter(run => !run.opaque).map(run => ({
+        text: run.picture ? '' : run.text,
+        bold: !!run.font.bold,
+        italic: !!run.font.italic,
+        underline: !!run.font.underline,
+        code: isMonospaceFont(run.font.name),
+        hyperlink: run.hyperlink,
+        picture: run.picture ? { filePath: run.picture.filePath || undefined, altText: run.picture.altText, width: run.picture.width, height: run.picture.height, data: run.picture.data } : undefined,
+      })),
+    };
+  }
+}
+
+/**
+ * The name new comments and revisions are attributed to when no author is given, like Application.UserName.
+ */
+function userName(): string {
+  try {
+    return os.userInfo().username || 'Author';
+  } catch {
+    return 'Author';
+  }
+}
+
+/**
+ * Copies the settings that are given onto formatting, leaving the properties set to undefined unchanged.
+ */
+function assignDefined<T extends object>(target: T, settings: Partial<T>): void {
+  for (const key of Object.keys(settings) as (keyof T)[]) {
+    const value = settings[key];
+    if (value !== undefined) target[key] = value;
+  }
+}
+
+/**
+ * The current time as stored with comments and revisions, to the second.
+ */
+function timestamp(): string {
+  return new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Outline level of a paragraph in one of the built-in heading styles.
+ */
+function headingLevel(paragraph: MemoryParagraph): number | undefined {
+  const heading = /^Heading ([1-9])$/.exec(paragraph.style);
+  return heading ? Number(heading[1]) : undefined;
+}
+
+/**
+ * Builds the TOC field instruction for the given options, as Word's Table of Contents dialog does.
+ */
+function tocFieldCode(options: TableOfContentsOptions): string {
+  let code = `TOC \\o "${options.upperHeadingLevel}-${options.lowerHeadingLevel}"`;
+  if (options.useHyperlinks) code += ' \\h';
+  code += ' \\z \\u';
+  if (!options.includePageNumbers) code += ' \\n';
+  if (!options.rightAlignPageNumbers) code += ' \\p " "';
+  return code;
+}
+
+/**
+ * Reads the options of a TOC field instruction. Without a level range, all heading levels are included.
+ */
+function parseTocFieldCode(code: string): TableOfContentsOptions {
+  const levels = /\\o\s*"(\d)-(\d)"/.exec(code);
+  return {
+    upperHeadingLevel: levels ? Number(levels[1]) : 1,
+    lowerHeadingLevel: levels ? Number(levels[2]) : 9,
+    useHyperlinks: /\\h\b/.test(code),
+    includePageNumbers: !/\\n\b/.test(code),
+    rightAlignPageNumbers: !/\\p\b/.test(code),
+  };
+}
+
+/**
+ * Applies the format switches of a field code (\* Upper, \* roman, ...) to its result.
+ */
+function applyFormatSwitches(result: string, code: string): string {
+  let text = result;
+  for (const [, format] of code.matchAll(/\\\*\s*(\w+)/g)) {
+    const number = /^\d+$/.test(text) ? Number(text) : 0;
+    switch (format.toLowerCase()) {
+      case 'upper': text = text.toUpperCase(); break;
+      case 'lower': text = text.toLowerCase(); break;
+      case 'firstcap': text = text.charAt(0).toUpperCase() + text.slice(1); break;
+      case 'caps': text = text.replace(/\p{L}+/gu, word => word.charAt(0).toUpperCase() + word.slice(1)); break;
+      case 'roman': if (number) text = formatListNumber(number, format === 'ROMAN' ? 1 : 2); break;
+      case 'alphabetic': if (number) text = formatListNumber(number, format === 'ALPHABETIC' ? 3 : 4); break;
+    }
+  }
+  return text;
+}
+
+/**
+ * Whether a section shows a header/footer type: first page and even page headers/footers only when enabled.
+ */
+function headerFooterExists(section: MemorySection, headerFooterType: number): boolean {
+  return headerFooterType === 1
+    || (headerFooterType === 2 && section.pageSetup.differentFirstPageHeaderFooter)
+    || (headerFooterType === 3 && section.pageSetup.oddAndEvenPagesHeaderFooter);
+}
+
+/**
+ * The body followed by the headers and footers of every section.
+ */
+function documentStories(doc: MemoryDocument): MemoryStory[] {
+  return [doc.body, ...doc.sections.flatMap(section => [...Object.values(section.headers), ...Object.values(section.footers)])];
+}
+
+/**
+ * Appends the sections of another document, starting them on a new section. Its comments and notes are renumbered
+ * and its bookmarks dropped, as their names would clash with those of the document.
+ */
+function appendSections(doc: MemoryDocument, other: MemoryDocument): void {
+  let last = doc.body.blocks[doc.body.blocks.length - 1];
+  if (last.type !== 'paragraph') {
+    last = createParagraph();
+    doc.body.blocks.push(last);
+  }
+  last.sectionBreak = true;
+  const offset = doc.comments.reduce((max, comment) => Math.max(max, comment.id), -1) + 1;
+  const noteOffsets: { [kind in NoteKind]: number } = {
+    footnote: doc.footnotes.reduce((max, note) => Math.max(max, note.id), 0),
+    endnote: doc.endnotes.reduce((max, note) => Math.max(max, note.id), 0),
+  };
+  for (const { mark, run, paragraph } of listMarks(other.body)) {
+    if (mark.type.startsWith('comment')) mark.id += offset;
+    if (mark.type === 'footnoteReference' || mark.type === 'endnoteReference') mark.id += noteOffsets[mark.type === 'footnoteReference' ? 'footnote' : 'endnote'];
+    if (mark.type.startsWith('bookmark')) paragraph.runs.splice(paragraph.runs.indexOf(run), 1);
+  }
+  for (const comment of other.comments) {
+    comment.id += offset;
+    if (comment.parentId !== undefined) comment.parentId += offset;
+    comment.paraId = undefined;
+  }
+  doc.body.blocks.push(...other.body.blocks);
+  doc.sections.push(...other.sections);
+  doc.comments.push(...other.comments);
+  for (const kind of ['footnote', 'endnote'] as const) {
+    for (const note of other[`${kind}s`]) note.id += noteOffsets[kind];
+    doc[`${kind}s`].push(...other[`${kind}s`]);
+  }
+}
+
+/**
+ * Writes cell texts into a table from a row on, growing the table to fit, then applies the layout options.
+ */
+function fillTable(table: MemoryTable, rows: string[][], firstRow: number, options: TableFromDataOptions): void {
+  const columns = Math.max(...table.rows.map(row => row.cells.length), ...rows.map(row => row.length));
+  for (const row of table.rows) {
+    while (row.cells.length < columns) row.cells.push(createCell());
+  }
+  while (table.rows.length < firstRow + rows.length) {
+    table.rows.push({ cells: Array.from({ length: columns }, () => createCell()) });
+  }
+  rows.forEach((values, r) => {
+    values.forEach((text, c) => setBlocksText(table.rows[firstRow + r].cells[c].blocks, text));
+  });
+  if (options.headerRow) {
+    table.rows[0].headingFormat = true;
+    for (const slot of listParagraphs({ blocks: table.rows[0].cells.flatMap(cell => cell.blocks) })) {
+      slot.paragraph.runs.forEach(run => run.font.bold = true);
+    }
+  }
+  if (options.style !== undefined) table.style = options.style;
+  if (options.columnWidths) {
+    const gridColumns = tableData(table).columns;
+    if (options.columnWidths.length !== gridColumns) {
+      throw new Error(`Give one width per column: the table has ${gridColumns} column(s), ${options.columnWidths.length} width(s) were given.`);
+    }
+    table.columnWidths = [...options.columnWidths];
+  }
+}
+
+function cellText(cell: MemoryCell): string {
+  return listParagraphs({ blocks: cell.blocks }).map(slot => paragraphText(slot.paragraph)).join('\n');
+}
+
+/**
+ * Reads the cells of a table as laid out on its grid.
+ */
+function tableData(table: MemoryTable): TableData {
+  const { cells, columns } = tableGrid(table);
+  return {
+    rows: table.rows.length,
+    columns,
+    cells: cells.map(item => ({ rowIndex: item.row + 1, colIndex: item.colIndex, column: item.column + 1, rowSpan: item.rowSpan, colSpan: item.colSpan, text: cellText(item.cell) })),
+  };
+}
@@ -0,0 +1,151 @@
+// Tag syntax of the templates rendered by renderTemplate, shared by the backends:
+// {{name}} or {{customer.name}} is replaced with a value, {{#each items}}...{{/each}} repeats its content for each
+// element of an array and {{#if flag}}...{{else}}...{{/if}} keeps one of its branches.
+import { TemplateData } from './word-backend.js';
+
+export interface TemplateTag {
+  kind: 'value' | 'each' | 'if' | 'else' | 'endEach' | 'endIf';
+  path: string; // Data path of value, each and if tags
+  text: string; // The tag as written
+  start: number; // Offset in the searched text
+  end: number;
+}
+
+/**
+ * A data context of a template: the data object, or an element of an array repeated by an each tag.
+ */
+export interface TemplateScope {
+  value: unknown;
+  index?: number; // 0-based position of the element in the array
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * Finds the tags in a text, from an offset on.
+ */
+export function findTemplateTags(text: string, from: number = 0): TemplateTag[] {
+  const tags: TemplateTag[] = [];
+  const pattern = new RegExp(TAG_PATTERN);
+  pattern.lastIndex = from;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const [tagText, prefix, content] = match;
+    if (!content) continue;
+    const [keyword, ...rest] = content.split(/\s+/);
+    const path = rest.join(' ');
+    let kind: TemplateTag['kind'];
+    if (prefix === '#') {
+      if (keyword !== 'each' && keyword !== 'if') {
+        throw new Error(`Unknown tag ${tagText}: sections start with {{#each ...}} or {{#if ...}}.`);
+      }
+      if (!path) {
+        throw new Error(`${tagText} needs a data path, e.g. {{#${keyword} items}}.`);
+      }
+      kind = keyword;
+    } else if (prefix === '/') {
+      if (content !== 'each' && content !== 'if') {
+        throw new Error(`Unknown tag ${tagText}: sections end with {{/each}} or {{/if}}.`);
+      }
+      kind = content === 'each' ? 'endEach' : 'endIf';
+    } else {
+      kind = content === 'else' ? 'else' : 'value';
+    }
+    tags.push({ kind, path: kind === 'value' ? content : path, text: tagText, start: match.index, end: match.index + tagText.length });
+  }
+  return tags;
+}
+
+/**
+ * Finds the {{else}} and the closing tag of the section opened by tags[open], skipping nested sections.
+ * @returns Undefined when the section is not closed.
+ */
+export function matchTemplateSection<T extends { tag: TemplateTag }>(tags: T[], open: number): { elseTag?: T; close: T } | undefined {
+  const opening = tags[open].tag;
+  let depth = 0;
+  let elseTag: T | undefined;
+  for (const placed of tags.slice(open + 1)) {
+    const { tag } = placed;
+    if (tag.kind === 'each' || tag.kind === 'if') {
+      depth++;
+    } else if (tag.kind === 'endEach' || tag.kind === 'endIf') {
+      if (depth > 0) {
+        depth--;
+      } else if (tag.kind !== (opening.kind === 'each' ? 'endEach' : 'endIf')) {
+        throw new Error(`${opening.text} is closed by ${tag.text}.`);
+      } else {
+        return { elseTag, close: placed };
+      }
+    } else if (tag.kind === 'else' && depth === 0) {
+      if (opening.kind === 'each') {
+        throw new Error(`{{else}} is not allowed in ${opening.text}.`);
+      }
+      if (elseTag) {
+        throw new Error(`${opening.text} has more than one {{else}}.`);
+      }
+      elseTag = placed;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Looks up a data path such as customer.name. Names are looked up in the innermost scope defining them;
+ * "this" (or ".") is the current array element, @index its 0-based and @number its 1-based position.
+ * @param unresolved Collects the paths without a value.
+ */
+export function lookupTemplateValue(scopes: TemplateScope[], path: string, unresolved: string[]): unknown {
+  const value = lookupPath(scopes, path);
+  if (value === undefined && !unresolved.includes(path)) unresolved.push(path);
+  return value;
+}
+
+function lookupPath(scopes: TemplateScope[], path: string): unknown {
+  const current = scopes[scopes.length - 1];
+  if (path === '@index' || path === '@number') {
+    const loop = [...scopes].reverse().find(scope => scope.index !== undefined);
+    return loop ? loop.index! + (path === '@number' ? 1 : 0) : undefined;
+  }
+  const [name, ...properties] = path === '.' ? ['this'] : path.split('.');
+  const own = (value: unknown, key: string) => value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key);
+  let value: unknown;
+  if (name === 'this') {
+    value = current.value;
+  } else {
+    const scope = [...scopes].reverse().find(s => own(s.value, name));
+    if (!scope) return undefined;
+    value = (scope.value as TemplateData)[name];
+  }
+  for (const property of properties) {
+    if (!own(value, property)) return undefined;
+    value = (value as TemplateData)[property];
+  }
+  return value;
+}
+
+/**
+ * Whether an if section keeps its content: false, 0, "", null, missing values and empty arrays do not.
+ */
+export function isTemplateTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+/**
+ * The text a value tag is replaced with. Arrays are joined with commas, objects written as JSON.
+ */
+export function templateText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(templateText).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * The elements an each section repeats for; missing values and null repeat it zero times.
+ */
+export function templateItems(value: unknown, path: string): unknown[] {
+  if (value === undefined || value === null || value === false) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`{{#each ${path}}} needs an array, but ${path} is ${typeof value === 'object' ? 'an object' : `the ${typeof value} ${JSON.stringify(value)}`}.`);
+  }
+  return value;
+}
@@ -0,0 +1,683 @@
+// Backend contract shared by every document implementation the tools can talk to.
+// The COM interop service (word-service.ts) is the original implementation; other
+// backends mirror its behaviour so the same MCP tools work without Microsoft Word.
+
+/**
+ * Information about the current selection, as returned by getSelectionInfo.
+ */
+export interface SelectionInfo {
+  text: string;
+  start: number;
+  end: number;
+  isActive: boolean;
+  type: number; // WdSelectionType value
+}
+
+/**
+ * An open document, as returned by listDocuments.
+ */
+export interface DocumentInfo {
+  id: string; // Stable for as long as the document stays open
+  name: string;
+  fullName: string; // Full path once saved, otherwise same as name
+  saved: boolean;
+  isActive: boolean;
+}
+
+/**
+ * A part of the document body that tools can act on instead of the selection.
+ */
+export type RangeDescriptor =
+  | { type: 'characters'; start: number; end: number } // Character positions, as reported by getParagraphs
+  | { type: 'paragraphs'; start: number; end?: number } // 1-based paragraph indices, end inclusive (default: start)
+  | { type: 'bookmark'; name: string }
+  | { type: 'tableCell'; tableIndex: number; rowIndex: number; colIndex: number } // 1-based; the cell text without the end-of-cell mark
+  | { type: 'search'; text: string; occurrence?: number; matchCase?: boolean; matchWholeWord?: boolean }; // occurrence is 1-based (default: 1)
+
+/**
+ * A paragraph of the document body, as returned by getParagraphs.
+ */
+export interface ParagraphInfo {
+  index: number; // 1-based, same numbering as selectParagraph
+  style: string; // Paragraph style name
+  text: string; // Text without the paragraph mark
+  start: number; // Character position of the paragraph start
+  end: number; // Character position after the paragraph mark
+  inTable: boolean;
+  list?: { level: number; listString: string }; // List item: level 1-9 and the number or bullet shown, e.g. "2." or "•"
+  truncated?: boolean; // Text was cut to fit the character budget
+}
+
+/**
+ * One page of body paragraphs.
+ */
+export interface ParagraphPage {
+  totalParagraphs: number;
+  paragraphs: ParagraphInfo[];
+}
+
+/**
+ * A heading of the document body, as returned by getOutline.
+ */
+export interface HeadingInfo {
+  level: number; // Outline level 1-9
+  text: string;
+  paragraphIndex: number; // 1-based, same numbering as getParagraphs
+  page: number; // 1-based page the heading is on
+}
+
+/**
+ * Settings of a table of contents built from the heading styles.
+ */
+export interface TableOfContentsOptions {
+  upperHeadingLevel: number; // 1-9
+  lowerHeadingLevel: number; // 1-9
+  useHyperlinks: boolean;
+  includePageNumbers: boolean;
+  rightAlignPageNumbers: boolean;
+}
+
+/**
+ * A table of contents, as returned by listTablesOfContents.
+ */
+export interface TableOfContentsInfo extends TableOfContentsOptions {
+  index: number; // 1-based
+  start: number; // Character position of the first entry
+  end: number;
+  entryCount: number; // Paragraphs in the table of contents
+}
+
+/**
+ * How to lay out a table filled from data.
+ */
+export interface TableFromDataOptions {
+  headerRow?: boolean; // The first row is a header: bold and repeated at the top of each page
+  style?: string; // Table style, e.g. "Table Grid"
+  columnWidths?: number[]; // Points, one per column
+  defaultTableBehavior?: number; // WdDefaultTableBehavior, new tables only
+  autoFitBehavior?: number; // WdAutoFitBehavior
+}
+
+/**
+ * Border lines to set on a table or a cell.
+ */
+export interface TableBorderOptions {
+  lineStyle: number; // WdLineStyle: 0 none, 1 single, 2 dotted, 3 dashed (small gaps), 4 dashed (large gaps), 7 double
+  lineWidth?: number; // points, default 0.5
+  color?: string; // RRGGBB, default automatic
+  sides?: ('top' | 'left' | 'bottom' | 'right' | 'insideHorizontal' | 'insideVertical')[]; // Default: all sides of the cell or table
+}
+
+/**
+ * Formatting to apply to one cell or every cell of a table. Unset properties are left unchanged.
+ */
+export interface TableCellFormat {
+  borders?: TableBorderOptions;
+  shading?: string | null; // Background color RRGGBB, null removes it
+  verticalAlignment?: number; // WdCellVerticalAlignment: 0 top, 1 center, 3 bottom
+}
+
+/**
+ * How to sort the rows of a table.
+ */
+export interface TableSortOptions {
+  sortType?: 'text' | 'number' | 'date'; // Default text
+  descending?: boolean;
+  headerRow?: boolean; // Keep the first row in place
+}
+
+/**
+ * A top-level table of the document, as returned by listTables.
+ */
+export interface TableInfo {
+  index: number; // 1-based, as used by the table methods
+  rows: number;
+  columns: number; // Grid columns
+  nestedTables: number; // Tables directly inside its cells
+  uniform: boolean; // No merged cells
+  firstRow: string[]; // Text of the cells of the first row
+}
+
+/**
+ * A cell of a table, as returned by getTableData. Cells covered by a merged cell are not listed.
+ */
+export interface TableCellData {
+  rowIndex: number; // 1-based
+  colIndex: number; // 1-based position in the row, as getTableCell addresses it
+  column: number; // 1-based grid column the cell starts at; differs from colIndex after merged cells
+  rowSpan: number;
+  colSpan: number;
+  text: string; // Paragraphs separated by \n
+}
+
+/**
+ * The cells of a table laid out on its grid.
+ */
+export interface TableData {
+  rows: number;
+  columns: number;
+  cells: TableCellData[]; // Row by row
+}
+
+/**
+ * How to format paragraphs as a list, following Word's list galleries.
+ */
+export interface ListFormatOptions {
+  listType: 'bullet' | 'number' | 'outline'; // Bullets, Numbering or Multilevel list gallery
+  template?: number; // 1-based position in the gallery, default 1
+  numberFormat?: string; // Custom level 1 format: "%1." style for numbers, the bullet character for bullets
+  numberStyle?: number; // WdListNumberStyle of level 1 for numbered lists (0 Arabic, 1 upper Roman, 2 lower Roman, 3 upper letter, 4 lower letter)
+  startAt?: number; // First number of level 1
+  continuePreviousList?: boolean; // Join the nearest list of the same kind before the paragraphs instead of starting a new one
+}
+
+/**
+ * A comment of the document, as returned by listComments.
+ */
+export interface CommentInfo {
+  index: number; // 1-based, in document order like Document.Comments; replies follow the comment they answer
+  author: string;
+  initials: string;
+  date: string; // ISO 8601
+  text: string; // Paragraphs separated by \n
+  scopeText: string; // The commented text
+  start: number; // Character range of the commented text
+  end: number;
+  done: boolean; // Resolved
+  parentIndex?: number; // Index of the comment this one replies to
+}
+
+/**
+ * A bookmark, as returned by listBookmarks.
+ */
+export interface BookmarkInfo {
+  name: string;
+  start: number; // Character range of the bookmarked text
+  end: number;
+  text: string;
+}
+
+/**
+ * A content control, as returned by listContentControls.
+ */
+export interface ContentControlInfo {
+  index: number; // 1-based, in document order like Document.ContentControls
+  id: string;
+  type: number; // WdContentControlType: 0 rich text, 1 plain text, 2 picture, 3 combo box, 4 dropdown list, 6 date, 8 checkbox, ...
+  tag: string;
+  title: string;
+  text: string; // Paragraphs separated by \n; the placeholder text while showingPlaceholder
+  start: number;
+  end: number;
+  lockContents: boolean;
+  lockControl: boolean; // The control cannot be deleted
+  showingPlaceholder: boolean;
+  checked?: boolean; // Checkbox controls
+  entries?: string[]; // Dropdown list and combo box items
+}
+
+/**
+ * Settings of a new content control.
+ */
+export interface ContentControlOptions {
+  tag?: string;
+  title?: string;
+  entries?: string[]; // Dropdown list and combo box items
+  dateFormat?: string; // Date picker display format, default M/d/yyyy
+  checked?: boolean; // Checkbox state, default false
+  lockContents?: boolean;
+  lockControl?: boolean;
+}
+
+/**
+ * A field, as returned by listFields.
+ */
+export interface FieldInfo {
+  index: number; // 1-based: the fields of the body in document order, then those of each section's headers and footers
+  type: string; // First word of the code, e.g. PAGE
+  code: string; // e.g. DATE \@ "MMMM d, yyyy"
+  result: string; // Paragraphs separated by \n
+  story: 'body' | 'header' | 'footer';
+  sectionIndex?: number; // Headers and footers
+  headerFooterType?: number; // Headers and footers: WdHeaderFooterIndex
+  start: number; // Character range of the result within its story
+  end: number;
+}
+
+export type NoteKind = 'footnote' | 'endnote';
+
+/**
+ * A footnote or endnote, as returned by listNotes.
+ */
+export interface NoteInfo {
+  kind: NoteKind;
+  index: number; // 1-based among the notes of its kind, in document order like Document.Footnotes and Document.Endnotes
+  reference: number; // Character position of the reference mark in the body
+  context: string; // Text of the paragraph before the reference mark, at most NOTE_CONTEXT_LENGTH characters
+  text: string; // Paragraphs separated by \n
+}
+
+// Characters of body text before a note reference that listNotes returns
+export const NOTE_CONTEXT_LENGTH = 40;
+
+/**
+ * The values of one data source record for mailMerge, by merge field name (case-insensitive).
+ * Merge fields without a value are left empty, as in Word.
+ */
+export type MergeRecord = { [fieldName: string]: string };
+
+/**
+ * The data of renderTemplate: values, nested objects and arrays, as parsed from JSON.
+ */
+export type TemplateData = { [key: string]: unknown };
+
+/**
+ * The result of renderTemplate.
+ */
+export interface TemplateRendering {
+  document: any; // Handle of the new document
+  unresolved: string[]; // Data paths of tags the data has no value for, in order of first use
+}
+
+/**
+ * Options of compareDocuments, following Application.CompareDocuments.
+ */
+export interface CompareOptions {
+  granularity?: 'word' | 'character'; // Unit of the marked changes, default word
+  compareFormatting?: boolean; // Default true
+  compareComments?: boolean; // Keep the comments of the revised document, default true
+  compareTables?: boolean; // Default true
+  compareHeaders?: boolean; // Headers and footers, default true
+  author?: string; // Author of the revisions, default the user name
+}
+
+/**
+ * A tracked change, as returned by listRevisions.
+ */
+export interface RevisionInfo {
+  index: number; // 1-based, in document order like Document.Revisions
+  type: number; // WdRevisionType: 1 insert, 2 delete, 3 property, ...
+  author: string;
+  date: string; // ISO 8601
+  text: string; // The inserted or deleted text, paragraphs separated by \n
+  start: number;
+  end: number;
+}
+
+/**
+ * A style of the document, as returned by listStyles.
+ */
+export interface StyleInfo {
+  name: string;
+  type: number; // WdStyleType: 1 paragraph, 2 character, 3 table, 4 list
+  builtIn: boolean;
+  inUse: boolean;
+  baseStyle?: string;
+}
+
+/**
+ * Settings for createStyle and modifyStyle; omitted properties keep their current (or inherited) value.
+ */
+export interface StyleSettings {
+  baseStyle?: string;
+  nextParagraphStyle?: string; // Paragraph styles only
+  font?: {
+    name?: string;
+    size?: number; // points
+    bold?: boolean;
+    italic?: boolean;
+    underline?: number; // WdUnderline
+    color?: string; // RRGGBB
+  };
+  paragraphFormat?: { // Paragraph and table styles only
+    alignment?: number; // WdParagraphAlignment
+    leftIndent?: number; // points
+    rightIndent?: number; // points
+    firstLineIndent?: number; // points, negative for a hanging indent
+    spaceBefore?: number; // points
+    spaceAfter?: number; // points
+    lineSpacingRule?: number; // WdLineSpacing
+    lineSpacing?: number; // points, or lines for wdLineSpaceMultiple
+  };
+}
+
+/**
+ * An inline picture inside document content.
+ */
+export interface ContentPicture {
+  filePath?: string; // Source or link path, when the backend knows it
+  altText?: string;
+  width: number; // points, 0 = natural size when inserting
+  height: number; // points, 0 = natural size when inserting
+  data?: Uint8Array; // Embedded image bytes, when the backend can read them
+}
+
+/**
+ * A run of uniformly formatted text inside document content.
+ */
+export interface ContentRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  code?: boolean; // Monospace font (Markdown `code`)
+  hyperlink?: string; // Target URL, or "#bookmark" for links within the document
+  picture?: ContentPicture; // Picture runs have empty text
+}
+
+export interface ContentParagraph {
+  type: 'paragraph';
+  style: string;
+  headingLevel?: number; // 1-9 for headings (outline level), undefined for body text
+  list?: { level: number; ordered: boolean }; // level is 1-based
+  alignment?: number; // WdParagraphAlignment, undefined = as defined by the style
+  runs: ContentRun[];
+}
+
+export interface ContentCell {
+  blocks: ContentBlock[];
+}
+
+export interface ContentTable {
+  type: 'table';
+  rows: ContentCell[][];
+}
+
+/**
+ * Backend-neutral structure of the document body, used by the exporters (Markdown, ...).
+ * Content a backend cannot map (fields, floating shapes, ...) is left out or reduced to its text.
+ */
+export type ContentBlock = ContentParagraph | ContentTable;
+
+// Font used for code runs; runs in any of the monospace fonts read back as code
+export const CODE_FONT = 'Consolas';
+const MONOSPACE_FONTS = [CODE_FONT, 'Courier New', 'Courier', 'Lucida Console', 'Cascadia Code', 'Cascadia Mono', 'Menlo', 'Monaco'];
+
+export function isMonospaceFont(name: string | undefined): boolean {
+  return !!name && MONOSPACE_FONTS.some(font => font.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Initials of a name, as Word derives them for comments: the first letter of each word.
+ */
+export function initialsOf(name: string): string {
+  return name.split(/\s+/).filter(Boolean).map(word => word[0].toUpperCase()).join('');
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Formats a date with a Word date-time picture such as M/d/yyyy, dddd, MMMM d, yyyy or h:mm am/pm. Text in single quotes is literal.
+ */
+export function formatDate(date: Date, format: string): string {
+  return format.replace(/AM\/PM|am\/pm|yyyy|yy|MMMM|MMM|MM|M|dddd|ddd|dd|d|HH|H|hh|h|mm|m|ss|s|'[^']*'/g, token => {
+    const hours = date.getUTCHours();
+    switch (token) {
+      case 'yyyy': return String(date.getUTCFullYear());
+      case 'yy': return String(date.getUTCFullYear() % 100).padStart(2, '0');
+      case 'MMMM': return MONTH_NAMES[date.getUTCMonth()];
+      case 'MMM': return MONTH_NAMES[date.getUTCMonth()].slice(0, 3);
+      case 'MM': return String(date.getUTCMonth() + 1).padStart(2, '0');
+      case 'M': return String(date.getUTCMonth() + 1);
+      case 'dddd': return DAY_NAMES[date.getUTCDay()];
+      case 'ddd': return DAY_NAMES[date.getUTCDay()].slice(0, 3);
+      case 'dd': return String(date.getUTCDate()).padStart(2, '0');
+      case 'd': return String(date.getUTCDate());
+      case 'HH': return String(hours).padStart(2, '0');
+      case 'H': return String(hours);
+      case 'hh': return String(hours % 12 || 12).padStart(2, '0');
+      case 'h': return String(hours % 12 || 12);
+      case 'mm': return String(date.getUTCMinutes()).padStart(2, '0');
+      case 'm': return String(date.getUTCMinutes());
+      case 'ss': return String(date.getUTCSeconds()).padStart(2, '0');
+      case 's': return String(date.getUTCSeconds());
+      case 'AM/PM': return hours < 12 ? 'AM' : 'PM';
+      case 'am/pm': return hours < 12 ? 'am' : 'pm';
+      default: return token.slice(1, -1);
+    }
+  });
+}
+
+/**
+ * Builds a field code from the field type, its argument (a bookmark or property name, quoted when needed) and switches.
+ */
+export function buildFieldCode(type: string, argument?: string, switches?: string): string {
+  const quoted = argument && /[\s"]/.test(argument) ? `"${argument.replace(/"/g, '')}"` : argument;
+  return [type, quoted, switches?.trim()].filter(Boolean).join(' ');
+}
+
+/**
+ * The type of a field: the first word of its code, in upper case.
+ */
+export function fieldType(code: string): string {
+  return /^\s*([^\s\\]*)/.exec(code)![1].toUpperCase();
+}
+
+/**
+ * The field code of a merge field, as Word's Insert Merge Field writes it.
+ */
+export function mergeFieldCode(fieldName: string): string {
+  return `MERGEFIELD ${/[\s"]/.test(fieldName) ? `"${fieldName.replace(/"/g, '')}"` : fieldName} \\* MERGEFORMAT`;
+}
+
+/**
+ * The data source column a field code refers to, for MERGEFIELD fields.
+ */
+export function mergeFieldName(code: string): string | undefined {
+  const match = /^\s*MERGEFIELD\s+(?:"([^"]*)"|([^\s\\]+))/i.exec(code);
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+/**
+ * Operations the MCP tools need from a Word document backend.
+ * Numeric arguments use the same Word object model enum values (WdUnits, WdParagraphAlignment, ...)
+ * regardless of the backend, so tool schemas stay identical.
+ */
+export interface WordBackend {
+  // Whether saving writes files to disk; the in-memory backend keeps saved documents in memory instead
+  readonly savesFiles: boolean;
+
+  // --- Document Methods ---
+  getActiveDocument(): Promise<any /* document handle */>;
+  createDocument(): Promise<any /* document handle */>;
+  openDocument(filePath: string): Promise<any /* document handle */>;
+  saveActiveDocument(): Promise<void>;
+  saveActiveDocumentAs(filePath: string, fileFormat?: any): Promise<void>;
+  closeDocument(doc: any, saveChanges?: any): Promise<void>;
+  quitWord(): Promise<void>;
+  listDocuments(): Promise<DocumentInfo[]>;
+  getDocumentId(doc: any /* document handle */): Promise<string>;
+  activateDocument(documentId: string): Promise<void>;
+  // Runs the action with an open document (id, name or full path) as the target of the calls made within it, without activating it
+  withDocument<T>(documentId: string, action: () => Promise<T>): Promise<T>;
+  // Compares two saved documents into a new, active document marking the differences as tracked changes
+  compareDocuments(originalPath: string, revisedPath: string, options?: CompareOptions): Promise<any /* document handle */>;
+
+  // --- Text Manipulation Methods ---
+  insertText(text: string): Promise<void>;
+  deleteText(count?: number, unit?: number): Promise<void>;
+  findAndReplace(findText: string, replaceText: string, matchCase?: boolean, matchWholeWord?: boolean, replaceAll?: boolean): Promise<boolean>;
+  toggleBold(): Promise<void>;
+  toggleItalic(): Promise<void>;
+  toggleUnderline(underlineStyle?: number): Promise<void>;
+
+  // --- Paragraph Formatting Methods ---
+  setParagraphAlignment(alignment: number): Promise<void>;
+  setParagraphLeftIndent(indentPoints: number): Promise<void>;
+  setParagraphRightIndent(indentPoints: number): Promise<void>;
+  setParagraphFirstLineIndent(indentPoints: number): Promise<void>;
+  setParagraphSpaceBefore(spacePoints: number): Promise<void>;
+  setParagraphSpaceAfter(spacePoints: number): Promise<void>;
+  setParagraphLineSpacing(lineSpacingRule: number, lineSpacingValue?: number): Promise<void>;
+
+  // --- Table Methods ---
+  addTable(numRows: number, numCols: number, defaultTableBehavior?: number, autoFitBehavior?: number): Promise<any /* table handle */>;
+  getTableCell(tableIndex: number, rowIndex: number, colIndex: number): Promise<any /* cell handle */>;
+  setTableCellText(tableIndex: number, rowIndex: number, colIndex: number, text: string): Promise<void>;
+  insertTableRow(tableIndex: number, beforeRowIndex?: number): Promise<any /* row handle */>;
+  insertTableColumn(tableIndex: number, beforeColIndex?: number): Promise<any /* column handle */>;
+  applyTableAutoFormat(tableIndex: number, formatName: string | number, applyFormatting?: number): Promise<void>;
+  // Builds a table from rows of cell texts at the selection in one operation; returns its 1-based index
+  insertTableFromData(rows: string[][], options?: TableFromDataOptions): Promise<number>;
+  // Writes rows of cell texts into a table from its first row, or after its last row, adding rows and columns as needed
+  setTableData(tableIndex: number, rows: string[][], append?: boolean, options?: TableFromDataOptions): Promise<void>;
+  // Merges the rectangle of cells between two cells (cell addresses as getTableCell), keeping the text of all of them
+  mergeTableCells(tableIndex: number, rowIndex: number, colIndex: number, endRowIndex: number, endColIndex: number): Promise<void>;
+  splitTableCell(tableIndex: number, rowIndex: number, colIndex: number, numRows: number, numCols: number): Promise<void>;
+  deleteTableRow(tableIndex: number, rowIndex: number): Promise<void>;
+  deleteTableColumn(tableIndex: number, column: number): Promise<void>;
+  setTableColumnWidth(tableIndex: number, column: number, width: number): Promise<void>;
+  setTableRowHeight(tableIndex: number, rowIndex: number, height: number, heightRule?: number): Promise<void>;
+  // Applies borders, shading or vertical alignment to one cell, or to the whole table when cell is omitted
+  formatTableCells(tableIndex: number, format: TableCellFormat, cell?: { rowIndex: number; colIndex: number }): Promise<void>;
+  // Marks the first rows as header rows, repeated at the top of each page
+  setTableHeaderRows(tableIndex: number, count: number): Promise<void>;
+  sortTable(tableIndex: number, column: number, options?: TableSortOptions): Promise<void>;
+  listTables(): Promise<TableInfo[]>;
+  getTableData(tableIndex: number): Promise<TableData>;
+
+  // --- Image Methods ---
+  insertPicture(filePath: string, linkToFile?: boolean, saveWithDocument?: boolean): Promise<any /* inline shape handle */>;
+  setInlinePictureSize(shapeIndex: number, heightPoints: number, widthPoints: number, lockAspectRatio?: boolean): Promise<void>;
+
+  // --- Header/Footer Methods ---
+  getHeaderFooter(sectionIndex: number, headerFooterType: number, isHeader: boolean): Promise<any /* header/footer handle */>;
+  setHeaderFooterText(sectionIndex: number, headerFooterType: number, isHeader: boolean, text: string): Promise<void>;
+
+  // --- Page Setup Methods ---
+  setPageMargins(topPoints: number, bottomPoints: number, leftPoints: number, rightPoints: number): Promise<void>;
+  setPageOrientation(orientation: number): Promise<void>;
+  setPaperSize(paperSize: number): Promise<void>;
+
+  // --- Cursor/Selection Methods ---
+  moveCursorToStart(): Promise<void>;
+  moveCursorToEnd(): Promise<void>;
+  moveCursor(unit: number, count: number, extend?: boolean): Promise<void>;
+  selectAll(): Promise<void>;
+  selectParagraph(paragraphIndex: number): Promise<void>;
+  collapseSelection(toStart?: boolean): Promise<void>;
+  getSelectionText(): Promise<string>;
+  getSelectionInfo(): Promise<SelectionInfo>;
+
+  // --- Style Methods ---
+  listStyles(): Promise<StyleInfo[]>;
+  // Applies a paragraph or character style to the selection, or a table style to the table containing it
+  applyStyle(styleName: string): Promise<void>;
+  createStyle(styleName: string, styleType: number, settings: StyleSettings): Promise<void>;
+  modifyStyle(styleName: string, settings: StyleSettings): Promise<void>;
+
+  // --- Outline Methods ---
+  // A heading's section is the heading and everything up to the next heading of the same or a higher level
+  // Inserts a heading after the paragraph containing the selection (an empty paragraph becomes the heading); returns its paragraph index
+  insertHeading(text: string, level: number): Promise<number>;
+  // Changes the level of a heading and of every heading in its section (negative delta promotes); returns the number of headings changed
+  changeHeadingLevel(paragraphIndex: number, levelDelta: number): Promise<number>;
+  // Moves a heading's section before or after the section of another heading; returns the heading's new paragraph index
+  moveHeadingSection(paragraphIndex: number, targetParagraphIndex: number, position: 'before' | 'after'): Promise<number>;
+
+  // --- Table of Contents Methods ---
+  // Inserts a table of contents at the selection; returns its 1-based index
+  insertTableOfContents(options: TableOfContentsOptions): Promise<number>;
+  listTablesOfContents(): Promise<TableOfContentsInfo[]>;
+  // Rebuilds the entries from the current headings, or only refreshes their page numbers
+  updateTableOfContents(tocIndex: number, pageNumbersOnly?: boolean): Promise<void>;
+
+  // --- List Methods ---
+  // Turns the paragraphs of the selection into list items; items already in a list keep their level
+  applyListFormat(options: ListFormatOptions): Promise<void>;
+  // Moves the list items of the selection by levels (positive indents, negative outdents); returns the number of items changed
+  changeListLevel(levelDelta: number): Promise<number>;
+  // Starts numbering again at the first list item of the selection
+  restartListNumbering(startAt?: number): Promise<void>;
+  // Joins the list at the selection to the previous list of the same kind
+  continueListNumbering(): Promise<void>;
+  // Removes list formatting from the paragraphs of the selection; returns the number of items changed
+  removeListFormat(): Promise<number>;
+
+  // --- Comment Methods ---
+  // Adds a comment on the selection (on the word at a collapsed selection); returns its 1-based index
+  addComment(text: string, author?: string, initials?: string): Promise<number>;
+  listComments(): Promise<CommentInfo[]>;
+  // Replies to a comment (replies to a reply join the thread of the comment it answers); returns the index of the reply
+  replyToComment(commentIndex: number, text: string, author?: string, initials?: string): Promise<number>;
+  // Marks a comment as done (resolved), or open again
+  setCommentDone(commentIndex: number, done: boolean): Promise<void>;
+  // Deletes a comment together with its replies
+  deleteComment(commentIndex: number): Promise<void>;
+
+  // --- Revision Methods ---
+  // Turns recording of edits as tracked changes (Document.TrackRevisions) on or off
+  setTrackRevisions(enabled: boolean): Promise<void>;
+  getTrackRevisions(): Promise<boolean>;
+  // Lists the tracked changes of the document; with inSelection only those overlapping the selection
+  listRevisions(inSelection?: boolean): Promise<RevisionInfo[]>;
+  // Accepts or rejects a tracked change by its document index
+  acceptRevision(revisionIndex: number): Promise<void>;
+  rejectRevision(revisionIndex: number): Promise<void>;
+
+  // --- Bookmark Methods ---
+  // Bookmarks the selection; adding a name that exists moves that bookmark
+  addBookmark(name: string): Promise<void>;
+  // Lists the bookmarks in document order; hidden bookmarks (names starting with "_") only with includeHidden
+  listBookmarks(includeHidden?: boolean): Promise<BookmarkInfo[]>;
+  selectBookmark(name: string): Promise<void>;
+  // Replaces the bookmarked text, the bookmark then spans the new text
+  setBookmarkText(name: string, text: string): Promise<void>;
+  // Deletes a bookmark, leaving its text in place
+  deleteBookmark(name: string): Promise<void>;
+
+  // --- Content Control Methods ---
+  listContentControls(): Promise<ContentControlInfo[]>;
+  // Sets the content of a control: text, a yyyy-MM-dd date for date pickers, an item of a dropdown list, or true/false for a checkbox
+  setContentControlValue(index: number, value: string | boolean): Promise<void>;
+  // Puts a content control (WdContentControlType) around the selection; returns its index
+  insertContentControl(type: number, options?: ContentControlOptions): Promise<number>;
+
+  // --- Mail Merge Methods ---
+  // Inserts a MERGEFIELD for a data source column at the selection, replacing the selected text
+  insertMergeField(fieldName: string): Promise<void>;
+  // Names of the merge fields in the body, headers and footers, in order of first use
+  listMergeFields(): Promise<string[]>;
+  // Merges the active document with the records into a new, active document holding one section per record
+  mailMerge(records: MergeRecord[]): Promise<any /* document handle */>;
+
+  // --- Template Methods ---
+  // Renders the template tags of the active document with the data into a new, active document
+  renderTemplate(data: TemplateData): Promise<TemplateRendering>;
+
+  // --- Field Methods ---
+  // Inserts a field at the selection, replacing the selected text; returns its result
+  insertField(code: string): Promise<string>;
+  // Inserts a field at the end of a header or footer, after the optional text; returns its result
+  insertHeaderFooterField(sectionIndex: number, headerFooterType: number, isHeader: boolean, code: string, textBefore?: string): Promise<string>;
+  // Lists the fields of the body, then of the headers and footers, including tables of contents
+  listFields(): Promise<FieldInfo[]>;
+  // Updates every field of the body, headers and footers, tables of contents included; returns the number updated
+  updateFields(): Promise<number>;
+  // Replaces fields (by listFields index, default all) with their results as plain text; returns the number unlinked
+  unlinkFields(indices?: number[]): Promise<number>;
+
+  // --- Footnote and Endnote Methods ---
+  // Inserts a footnote or endnote with its reference mark at the end of the selection; returns its 1-based index
+  insertNote(kind: NoteKind, text: string): Promise<number>;
+  // Lists the footnotes, then the endnotes, or only the notes of one kind
+  listNotes(kind?: NoteKind): Promise<NoteInfo[]>;
+  // Replaces the text of a note
+  setNoteText(kind: NoteKind, index: number, text: string): Promise<void>;
+  // Deletes a note together with its reference mark
+  deleteNote(kind: NoteKind, index: number): Promise<void>;
+  // Converts a note (by index, default all notes of the kind) to the other kind; returns the number converted
+  convertNotes(kind: NoteKind, index?: number): Promise<number>;
+
+  // --- Range Methods ---
+  // Runs the action with the range as the target of the selection-based methods called within it, without moving the selection
+  withRange<T>(range: RangeDescriptor, action: () => Promise<T>): Promise<T>;
+
+  // --- Document Content Methods ---
+  getParagraphs(offset?: number, limit?: number, maxChars?: number): Promise<ParagraphPage>;
+  getDocumentContent(selectionOnly?: boolean): Promise<ContentBlock[]>;
+  getOutline(): Promise<HeadingInfo[]>;
+  getTableContent(tableIndex: number): Promise<ContentTable>;
+  insertContent(blocks: ContentBlock[]): Promise<void>;
+}
@@ -1,11 +1,19 @@
-import winax from 'winax';
-const { Object: WinaxObject } = winax; // Destructure and rename Object
+import fs from 'fs/promises';
+import { AsyncLocalStorage } from 'async_hooks';
+import os from 'os';
+import path from 'path';
+import { readImageInfo } from './image-info.js';
+import { WordBackend, SelectionInfo, DocumentInfo, RangeDescriptor, ParagraphInfo, ParagraphPage, HeadingInfo, StyleInfo, StyleSettings, TableOfContentsOptions, TableOfContentsInfo, TableInfo, TableData, TableCellData, TableFromDataOptions, TableCellFormat, TableSortOptions, ListFormatOptions, CommentInfo, RevisionInfo, BookmarkInfo, ContentControlInfo, ContentControlOptions, MergeRecord, TemplateData, TemplateRendering, FieldInfo, NoteKind, NoteInfo, NOTE_CONTEXT_LENGTH, CompareOptions, formatDate, fieldType, mergeFieldCode, mergeFieldName, ContentBlock, ContentParagraph, ContentRun, ContentCell, ContentPicture, ContentTable, CODE_FONT, isMonospaceFont, initialsOf } from './word-backend.js';
+import { TemplateTag, TemplateScope, findTemplateTags, matchTemplateSection, lookupTemplateValue, isTemplateTruthy, templateText, templateItems } from './template.js';
 
 // Basic interface for Word Application object (replace with more specific types later if possible)
 interface WordApplication {
   Documents: any; // Word.Documents collection
   ActiveDocument: any; // Word.Document
   Visible: boolean;
+  ListGalleries: any; // Word.ListGalleries
+  UserName: string;
+  CompareDocuments(OriginalDocument: any, RevisedDocument: any, Destination?: any, Granularity?: any, CompareFormatting?: any, CompareCaseChanges?: any, CompareWhitespace?: any, CompareTables?: any, CompareHeaders?: any, CompareFootnotes?: any, CompareTextboxes?: any, CompareFields?: any, CompareComments?: any, CompareMoves?: any, RevisedAuthor?: any, IgnoreAllComparisonWarnings?: any): any; // Word.Document
   Quit(SaveChanges?: any, OriginalFormat?: any, RouteDocument?: any): void;
   // Add other necessary properties and methods
 }
@@ -15,19 +23,62 @@ interface WordDocument {
   Save(): void;
   SaveAs2(FileName?: any, FileFormat?: any, LockComments?: any, Password?: any, AddToRecentFiles?: any, WritePassword?: any, ReadOnlyRecommended?: any, EmbedTrueTypeFonts?: any, SaveNativePictureFormat?: any, SaveFormsData?: any, SaveAsAOCELetter?: any, Encoding?: any, InsertLineBreaks?: any, AllowSubstitutions?: any, LineEnding?: any, AddBiDiMarks?: any, CompatibilityMode?: any): void;
   Close(SaveChanges?: any, OriginalFormat?: any, RouteDocument?: any): void;
+  Activate(): void;
+  Name: string;
+  FullName: string;
+  Saved: boolean;
   Content: any; // Word.Range
   Paragraphs: any; // Word.Paragraphs
   Tables: any; // Word.Tables
   InlineShapes: any; // Word.InlineShapes
   Shapes: any; // Word.Shapes
   Sections: any; // Word.Sections
+  Bookmarks: any; // Word.Bookmarks
+  ContentControls: any; // Word.ContentControls
+  Fields: any; // Word.Fields
+  MailMerge: any; // Word.MailMerge
+  Styles: any; // Word.Styles
+  TablesOfContents: any; // Word.TablesOfContents
+  ListTemplates: any; // Word.ListTemplates
+  Comments: any; // Word.Comments
+  Footnotes: any; // Word.Footnotes
+  Endnotes: any; // Word.Endnotes
+  Revisions: any; // Word.Revisions
+  TrackRevisions: boolean;
+  Range(Start?: number, End?: number): any; // Word.Range
   ActiveWindow: any; // Word.Window
   PageSetup: any; // Word.PageSetup
+  Repaginate(): void;
   // Add other necessary properties and methods
 }
 
-class WordService {
+// A template tag found in a document
+interface TemplateTagRange {
+  tag: TemplateTag; // Start and end are story positions
+  range: any; // Word.Range
+}
+
+// A template section spanning table rows, with the cells of its tags
+type TemplateCellTag = TemplateTagRange & { cell: { table: number; row: number; cell: number } };
+interface TemplateRowSection {
+  open: TemplateCellTag;
+  elseTag?: TemplateCellTag;
+  close: TemplateCellTag;
+}
+
+// The fields of a story, with where listFields reports them
+interface FieldCollection {
+  fields: any; // Word.Fields
+  location: Pick<FieldInfo, 'story' | 'sectionIndex' | 'headerFooterType'>;
+}
+
+export class WordService implements WordBackend {
+  public readonly savesFiles: boolean = true;
   private wordApp: WordApplication | null = null;
+  private targetDocument = new AsyncLocalStorage<WordDocument>(); // Set for the calls made within withDocument
+  private targetRange = new AsyncLocalStorage<any>(); // Word.Range, set for the calls made within withRange
+  private documentIds = new Map<string, WordDocument>(); // Ids handed out this session
+  private idCounter = 0;
 
   /**
    * Gets the currently running Word application instance or creates a new one.
@@ -54,9 +105,10 @@ class WordService {
 
     try {
       console.log("Attempting to get or create Word.Application instance...");
+      // winax is loaded lazily so other backends can run where the native module is unavailable
+      const { default: winax } = await import('winax');
       // Try to get an existing instance first, then create if not found
-      // Use the destructured WinaxObject constructor
-      this.wordApp = new WinaxObject("Word.Application", { activate: true }) as WordApplication;
+      this.wordApp = new winax.Object("Word.Application", { activate: true }) as WordApplication;
       this.wordApp.Visible = true; // Make sure Word is visible for interaction
       console.log("Word.Application instance obtained successfully.");
       return this.wordApp;
@@ -67,10 +119,14 @@ class WordService {
   }
 
   /**
-   * Gets the active document in the Word application.
+   * Gets the active document in the Word application, or the document targeted by withDocument.
    * Throws an error if Word is not running or no document is active.
    */
   public async getActiveDocument(): Promise<WordDocument> {
+    const target = this.targetDocument.getStore();
+    if (target) {
+      return target;
+    }
     const app = await this.getWordApplication();
     try {
       const activeDoc = app.ActiveDocument;
@@ -188,6 +244,148 @@ class WordService {
     }
   }
 
+  /**
+   * Lists the documents open in Word (Application.Documents).
+   */
+  public async listDocuments(): Promise<DocumentInfo[]> {
+    const app = await this.getWordApplication();
+    try {
+      const count = app.Documents.Count;
+      const activeName = count > 0 ? app.ActiveDocument.FullName : undefined;
+      const documents: DocumentInfo[] = [];
+      for (let i = 1; i <= count; i++) {
+        const doc = app.Documents.Item(i);
+        documents.push({ id: this.documentId(doc), name: doc.Name, fullName: doc.FullName, saved: doc.Saved, isActive: doc.FullName === activeName });
+      }
+      return documents;
+    } catch (error) {
+      console.error("Failed to list documents:", error);
+      throw new Error(`Failed to list documents. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Gets the id of a document, which stays the same until it is closed (also across Save As).
+   * @param doc The document.
+   */
+  public async getDocumentId(doc: WordDocument): Promise<string> {
+    try {
+      return this.documentId(doc);
+    } catch (error) {
+      console.error("Failed to get document id:", error);
+      throw new Error(`Failed to get document id. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Looks up the id of a document. COM hands out a new wrapper object on every access,
+   * so documents are matched by their full name, which Word keeps unique among open documents.
+   */
+  private documentId(doc: WordDocument): string {
+    const fullName = doc.FullName;
+    for (const [id, known] of this.documentIds) {
+      let knownName: string;
+      try {
+        knownName = known.FullName;
+      } catch {
+        this.documentIds.delete(id); // Closed
+        continue;
+      }
+      if (knownName === fullName) return id;
+    }
+    const id = `doc${++this.idCounter}`;
+    this.documentIds.set(id, doc);
+    return id;
+  }
+
+  /**
+   * Finds an open document by id, name or full path.
+   */
+  private async findDocument(documentId: string): Promise<WordDocument> {
+    const app = await this.getWordApplication();
+    const known = this.documentIds.get(documentId);
+    try {
+      if (known) {
+        known.FullName; // Throws if the document was closed
+        return known;
+      }
+      return app.Documents.Item(documentId); // Documents.Item accepts the name or the full path
+    } catch (error) {
+      this.documentIds.delete(documentId);
+      console.error(`Failed to find document: ${documentId}`, error);
+      throw new Error(`Document not found: ${documentId}. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Activates an open document and its window.
+   * @param documentId Id, name or full path of the document.
+   */
+  public async activateDocument(documentId: string): Promise<void> {
+    const doc = await this.findDocument(documentId);
+    try {
+      doc.Activate();
+    } catch (error) {
+      console.error(`Failed to activate document: ${documentId}`, error);
+      throw new Error(`Failed to activate document: ${documentId}. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Runs an action with an open document as the target of all methods, without activating its window.
+   * The target is scoped to the calls made within the action, so concurrent actions each keep their own.
+   * @param documentId Id, name or full path of the open document.
+   * @param action The operations to run on the document.
+   */
+  public async withDocument<T>(documentId: string, action: () => Promise<T>): Promise<T> {
+    const doc = await this.findDocument(documentId);
+    return this.targetDocument.run(doc, action);
+  }
+
+  /**
+   * Compares two saved documents into a new document with the differences as tracked changes, and activates it.
+   * @param originalPath Path of the original document.
+   * @param revisedPath Path of the revised document.
+   * @param options Granularity, what to compare and the author of the revisions.
+   */
+  public async compareDocuments(originalPath: string, revisedPath: string, options: CompareOptions = {}): Promise<WordDocument> {
+    const app = await this.getWordApplication();
+    const opened: WordDocument[] = [];
+    try {
+      // Open both read-only and hidden, they are closed again once compared
+      for (const filePath of [originalPath, revisedPath]) {
+        opened.push(app.Documents.Open(path.resolve(filePath), false, true, false, "", "", false, "", "", 0, undefined, false));
+      }
+      const result = app.CompareDocuments(
+        opened[0],
+        opened[1],
+        2, // wdCompareDestinationNew
+        options.granularity === 'character' ? 0 : 1, // wdGranularityCharLevel / wdGranularityWordLevel
+        options.compareFormatting ?? true,
+        true, // CompareCaseChanges
+        true, // CompareWhitespace
+        options.compareTables ?? true,
+        options.compareHeaders ?? true,
+        true, // CompareFootnotes
+        true, // CompareTextboxes
+        true, // CompareFields
+        options.compareComments ?? true,
+        true, // CompareMoves
+        options.author ?? app.UserName,
+        true // IgnoreAllComparisonWarnings
+      ) as WordDocument;
+      result.Activate();
+      return result;
+    } catch (error) {
+      console.error(`Failed to compare documents: ${originalPath} and ${revisedPath}`, error);
+      throw new Error(`Failed to compare documents. Error: ${error}`);
+    } finally {
+      for (const doc of opened) {
+        doc.Close(0); // wdDoNotSaveChanges
+      }
+    }
+  }
+
   // --- Text Manipulation Methods ---
 
   /**
@@ -195,9 +393,14 @@ class WordService {
    * @param text The text to insert.
    */
   public async insertText(text: string): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      app.ActiveDocument.ActiveWindow.Selection.TypeText(text);
+      const range = this.targetRange.getStore();
+      if (range) {
+        range.Text = text; // Replaces the range, like typing over a selection
+      } else {
+        doc.ActiveWindow.Selection.TypeText(text);
+      }
     } catch (error) {
       console.error("Failed to insert text:", error);
       throw new Error(`Failed to insert text. Error: ${error}`);
@@ -210,17 +413,17 @@ class WordService {
    * @param unit The unit to delete (default: character). Use WdUnits enum values (e.g., 1 for character, 2 for word).
    */
   public async deleteText(count: number = 1, unit: number = 1 /* wdCharacter */): Promise<void> {
-      const app = await this.getWordApplication();
+      const doc = await this.getActiveDocument();
       try {
           // WdUnits enumeration: wdCharacter = 1, wdWord = 2, etc.
           // Positive count deletes forward, negative count deletes backward from the start of the selection.
           // If selection is collapsed, positive deletes after insertion point, negative deletes before.
           if (count > 0) {
-              app.ActiveDocument.ActiveWindow.Selection.Delete(unit, count);
+              this.selectionOrRange(doc).Delete(unit, count);
           } else if (count < 0) {
               // Move start back and then delete forward
-              app.ActiveDocument.ActiveWindow.Selection.MoveStart(unit, count); // Move start back
-              app.ActiveDocument.ActiveWindow.Selection.Delete(unit, Math.abs(count)); // Delete forward
+              this.selectionOrRange(doc).MoveStart(unit, count); // Move start back
+              this.selectionOrRange(doc).Delete(unit, Math.abs(count)); // Delete forward
           }
           // If count is 0, do nothing
       } catch (error) {
@@ -280,9 +483,9 @@ class WordService {
    * Toggles bold formatting for the current selection.
    */
   public async toggleBold(): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      const font = app.ActiveDocument.ActiveWindow.Selection.Font;
+      const font = this.selectionOrRange(doc).Font;
       // wdToggle = 9999998
       font.Bold = 9999998;
     } catch (error) {
@@ -295,9 +498,9 @@ class WordService {
    * Toggles italic formatting for the current selection.
    */
   public async toggleItalic(): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      const font = app.ActiveDocument.ActiveWindow.Selection.Font;
+      const font = this.selectionOrRange(doc).Font;
       // wdToggle = 9999998
       font.Italic = 9999998;
     } catch (error) {
@@ -311,9 +514,9 @@ class WordService {
    * @param underlineStyle Optional WdUnderline value (e.g., 1 for single underline). Default toggles single underline.
    */
   public async toggleUnderline(underlineStyle: number = 1 /* wdUnderlineSingle */): Promise<void> {
-      const app = await this.getWordApplication();
+      const doc = await this.getActiveDocument();
       try {
-          const font = app.ActiveDocument.ActiveWindow.Selection.Font;
+          const font = this.selectionOrRange(doc).Font;
           // WdUnderline enumeration: wdUnderlineNone = 0, wdUnderlineSingle = 1, etc.
           // wdToggle = 9999998
           if (font.Underline === underlineStyle) {
@@ -334,10 +537,10 @@ class WordService {
    * @param alignment Alignment type (WdParagraphAlignment enum value: 0=Left, 1=Center, 2=Right, 3=Justify).
    */
   public async setParagraphAlignment(alignment: number): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
       // WdParagraphAlignment: wdAlignParagraphLeft = 0, wdAlignParagraphCenter = 1, wdAlignParagraphRight = 2, wdAlignParagraphJustify = 3
-      app.ActiveDocument.ActiveWindow.Selection.ParagraphFormat.Alignment = alignment;
+      this.selectionOrRange(doc).ParagraphFormat.Alignment = alignment;
     } catch (error) {
       console.error("Failed to set paragraph alignment:", error);
       throw new Error(`Failed to set paragraph alignment. Error: ${error}`);
@@ -349,9 +552,9 @@ class WordService {
    * @param indentPoints Indentation value in points.
    */
   public async setParagraphLeftIndent(indentPoints: number): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      app.ActiveDocument.ActiveWindow.Selection.ParagraphFormat.LeftIndent = indentPoints;
+      this.selectionOrRange(doc).ParagraphFormat.LeftIndent = indentPoints;
     } catch (error) {
       console.error("Failed to set left indent:", error);
       throw new Error(`Failed to set left indent. Error: ${error}`);
@@ -363,9 +566,9 @@ class WordService {
    * @param indentPoints Indentation value in points.
    */
   public async setParagraphRightIndent(indentPoints: number): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      app.ActiveDocument.ActiveWindow.Selection.ParagraphFormat.RightIndent = indentPoints;
+      this.selectionOrRange(doc).ParagraphFormat.RightIndent = indentPoints;
     } catch (error) {
       console.error("Failed to set right indent:", error);
       throw new Error(`Failed to set right indent. Error: ${error}`);
@@ -377,9 +580,9 @@ class WordService {
    * @param indentPoints Indentation value in points (positive for indent, negative for hanging indent).
    */
     public async setParagraphFirstLineIndent(indentPoints: number): Promise<void> {
-        const app = await this.getWordApplication();
+        const doc = await this.getActiveDocument();
         try {
-            app.ActiveDocument.ActiveWindow.Selection.ParagraphFormat.FirstLineIndent = indentPoints;
+            this.selectionOrRange(doc).ParagraphFormat.FirstLineIndent = indentPoints;
         } catch (error) {
             console.error("Failed to set first line indent:", error);
             throw new Error(`Failed to set first line indent. Error: ${error}`);
@@ -391,9 +594,9 @@ class WordService {
    * @param spacePoints Space value in points.
    */
   public async setParagraphSpaceBefore(spacePoints: number): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      app.ActiveDocument.ActiveWindow.Selection.ParagraphFormat.SpaceBefore = spacePoints;
+      this.selectionOrRange(doc).ParagraphFormat.SpaceBefore = spacePoints;
     } catch (error) {
       console.error("Failed to set space before:", error);
       throw new Error(`Failed to set space before paragraph. Error: ${error}`);
@@ -405,9 +608,9 @@ class WordService {
    * @param spacePoints Space value in points.
    */
   public async setParagraphSpaceAfter(spacePoints: number): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      app.ActiveDocument.ActiveWindow.Selection.ParagraphFormat.SpaceAfter = spacePoints;
+      this.selectionOrRange(doc).ParagraphFormat.SpaceAfter = spacePoints;
     } catch (error) {
       console.error("Failed to set space after:", error);
       throw new Error(`Failed to set space after paragraph. Error: ${error}`);
@@ -420,11 +623,11 @@ class WordService {
    * @param lineSpacingValue Value for AtLeast, Exactly, or Multiple spacing (in points for AtLeast/Exactly, multiplier for Multiple).
    */
   public async setParagraphLineSpacing(lineSpacingRule: number, lineSpacingValue?: number): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
       // WdLineSpacing: wdLineSpaceSingle = 0, wdLineSpace1pt5 = 1, wdLineSpaceDouble = 2,
       // wdLineSpaceAtLeast = 3, wdLineSpaceExactly = 4, wdLineSpaceMultiple = 5
-      const paraFormat = app.ActiveDocument.ActiveWindow.Selection.ParagraphFormat;
+      const paraFormat = this.selectionOrRange(doc).ParagraphFormat;
       paraFormat.LineSpacingRule = lineSpacingRule;
       if (lineSpacingValue !== undefined && lineSpacingRule >= 3) { // Only set LineSpacing if rule requires it
         paraFormat.LineSpacing = lineSpacingValue;
@@ -445,12 +648,12 @@ class WordService {
    * @param autoFitBehavior Optional WdAutoFitBehavior value.
    */
   public async addTable(numRows: number, numCols: number, defaultTableBehavior?: number, autoFitBehavior?: number): Promise<any /* Word.Table */> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      const selection = app.ActiveDocument.ActiveWindow.Selection;
+      const range = this.targetRange.getStore() ?? doc.ActiveWindow.Selection.Range;
       // WdDefaultTableBehavior: wdWord8TableBehavior = 0, wdWord9TableBehavior = 1
       // WdAutoFitBehavior: wdAutoFitFixed = 0, wdAutoFitContent = 1, wdAutoFitWindow = 2
-      const table = selection.Tables.Add(selection.Range, numRows, numCols, defaultTableBehavior, autoFitBehavior);
+      const table = doc.Tables.Add(range, numRows, numCols, defaultTableBehavior, autoFitBehavior);
       return table;
     } catch (error) {
       console.error("Failed to add table:", error);
@@ -479,6 +682,60 @@ class WordService {
     }
   }
 
+  /**
+   * Lists the tables of the document with their size and the text of their first row.
+   */
+  public async listTables(): Promise<TableInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const tables: TableInfo[] = [];
+      for (let i = 1; i <= doc.Tables.Count; i++) {
+        const table = doc.Tables.Item(i);
+        const firstRow: string[] = [];
+        const cells = table.Range.Cells;
+        for (let j = 1; j <= cells.Count && cells.Item(j).RowIndex === 1; j++) {
+          firstRow.push(cellText(cells.Item(j)));
+        }
+        tables.push({
+          index: i,
+          rows: table.Rows.Count,
+          columns: table.Columns.Count,
+          nestedTables: table.Tables.Count,
+          uniform: table.Uniform,
+          firstRow,
+        });
+      }
+      return tables;
+    } catch (error) {
+      console.error("Failed to list tables:", error);
+      throw new Error(`Failed to list tables. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Reads the cells of a table with their position on the table grid and the cells they are merged with.
+   * @param tableIndex Index of the table (1-based).
+   */
+  public async getTableData(tableIndex: number): Promise<TableData> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (tableIndex <= 0 || tableIndex > doc.Tables.Count) {
+        throw new Error(`Table index ${tableIndex} is out of bounds.`);
+      }
+      // Walk Range.Cells rather than Rows/Columns, which fail on tables with merged cells
+      const cells = doc.Tables.Item(tableIndex).Range.Cells;
+      const rows: { colIndex: number; width: number; text: string }[][] = [];
+      for (let i = 1; i <= cells.Count; i++) {
+        const cell = cells.Item(i);
+        (rows[cell.RowIndex - 1] ??= []).push({ colIndex: cell.ColumnIndex, width: cell.Width, text: cellText(cell) });
+      }
+      return layoutTableCells(rows.filter(row => row));
+    } catch (error) {
+      console.error(`Failed to get data of table ${tableIndex}:`, error);
+      throw new Error(`Failed to get table data. Error: ${error}`);
+    }
+  }
+
   /**
    * Sets the text in a specific table cell.
    * @param tableIndex Index of the table in the document (1-based).
@@ -578,6 +835,291 @@ class WordService {
       }
   }
 
+  /**
+   * Builds a table from rows of cell texts at the selection, replacing selected text. The insertion point moves after the table.
+   * @param rows Cell texts row by row; shorter rows are padded with empty cells.
+   * @param options Header row, table style, column widths and behaviors.
+   */
+  public async insertTableFromData(rows: string[][], options: TableFromDataOptions = {}): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const columns = Math.max(0, ...rows.map(row => row.length));
+      if (columns === 0) {
+        throw new Error("The data has no cells.");
+      }
+      const range = this.targetRange.getStore() ?? doc.ActiveWindow.Selection.Range;
+      // Type the data as tab-separated paragraphs and convert them in one go instead of filling cell by cell.
+      // Tabs inside values become spaces and line breaks manual line breaks, so they do not split cells.
+      const lines = rows.map(row => Array.from({ length: columns }, (_, c) => (row[c] ?? '').replace(/\t/g, ' ').replace(/\r\n|\r|\n/g, '\v')).join('\t'));
+      const before = range.Start > range.Paragraphs.Item(1).Range.Start ? '\r' : ''; // Keep text before the selection out of the table
+      range.Text = before + lines.join('\r') + '\r';
+      range.SetRange(range.Start + before.length, range.End);
+      // ConvertToTable(Separator, NumRows, NumColumns, InitialColumnWidth, Format, ApplyBorders, ApplyShading, ApplyFont, ApplyColor,
+      //   ApplyHeadingRows, ApplyLastRow, ApplyFirstColumn, ApplyLastColumn, AutoFit, AutoFitBehavior, DefaultTableBehavior); wdSeparateByTabs = 1
+      const table = range.ConvertToTable(1, rows.length, columns, undefined, undefined, undefined, undefined, undefined, undefined,
+        undefined, undefined, undefined, undefined, undefined, options.autoFitBehavior, options.defaultTableBehavior);
+      this.formatTableData(table, options);
+      if (!this.targetRange.getStore()) {
+        const tableEnd = table.Range.End;
+        doc.Range(tableEnd, tableEnd).Select();
+      }
+      return table.NestingLevel === 1 ? doc.Range(0, table.Range.End).Tables.Count : 0;
+    } catch (error) {
+      console.error("Failed to insert table from data:", error);
+      throw new Error(`Failed to insert table from data. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Writes rows of cell texts into a table, adding rows and columns as needed. Cells outside the data keep their text.
+   * @param tableIndex Index of the table (1-based).
+   * @param rows Cell texts row by row.
+   * @param append Add the rows after the last row instead of writing from the first row.
+   * @param options Header row (not when appending), table style, column widths and autofit behavior.
+   */
+  public async setTableData(tableIndex: number, rows: string[][], append: boolean = false, options: TableFromDataOptions = {}): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (rows.length === 0) {
+        throw new Error("The data has no rows.");
+      }
+      if (tableIndex <= 0 || tableIndex > doc.Tables.Count) {
+        throw new Error(`Table index ${tableIndex} is out of bounds.`);
+      }
+      const table = doc.Tables.Item(tableIndex);
+      const firstRow = append ? table.Rows.Count : 0;
+      const columns = Math.max(...rows.map(row => row.length));
+      while (table.Columns.Count < columns) table.Columns.Add();
+      while (table.Rows.Count < firstRow + rows.length) table.Rows.Add();
+      rows.forEach((values, r) => values.forEach((text, c) => {
+        table.Cell(firstRow + r + 1, c + 1).Range.Text = text;
+      }));
+      this.formatTableData(table, append ? { ...options, headerRow: false } : options);
+      if (options.autoFitBehavior !== undefined) table.AutoFitBehavior(options.autoFitBehavior);
+    } catch (error) {
+      console.error(`Failed to set data of table ${tableIndex}:`, error);
+      throw new Error(`Failed to set table data. Error: ${error}`);
+    }
+  }
+
+  private getTableItem(doc: any, tableIndex: number): any /* Word.Table */ {
+    if (tableIndex <= 0 || tableIndex > doc.Tables.Count) {
+      throw new Error(`Table index ${tableIndex} is out of bounds.`);
+    }
+    return doc.Tables.Item(tableIndex);
+  }
+
+  /**
+   * Merges the rectangle of cells spanned by two cells into one, like Cell.Merge.
+   * @param tableIndex Index of the table (1-based).
+   * @param rowIndex Row of the first cell (1-based).
+   * @param colIndex Position of the first cell in its row (1-based).
+   * @param endRowIndex Row of the last cell (1-based).
+   * @param endColIndex Position of the last cell in its row (1-based).
+   */
+  public async mergeTableCells(tableIndex: number, rowIndex: number, colIndex: number, endRowIndex: number, endColIndex: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTableItem(doc, tableIndex);
+      table.Cell(rowIndex, colIndex).Merge(table.Cell(endRowIndex, endColIndex));
+    } catch (error) {
+      console.error(`Failed to merge cells of table ${tableIndex}:`, error);
+      throw new Error(`Failed to merge table cells. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Splits a cell into rows and columns, like Cell.Split.
+   * @param tableIndex Index of the table (1-based).
+   * @param rowIndex Row of the cell (1-based).
+   * @param colIndex Position of the cell in its row (1-based).
+   * @param numRows Number of rows to split the cell into.
+   * @param numCols Number of columns to split the cell into.
+   */
+  public async splitTableCell(tableIndex: number, rowIndex: number, colIndex: number, numRows: number, numCols: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      this.getTableItem(doc, tableIndex).Cell(rowIndex, colIndex).Split(numRows, numCols);
+    } catch (error) {
+      console.error(`Failed to split cell (${rowIndex}, ${colIndex}) of table ${tableIndex}:`, error);
+      throw new Error(`Failed to split table cell. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Deletes a row; deleting the only row deletes the table.
+   * @param tableIndex Index of the table (1-based).
+   * @param rowIndex Row to delete (1-based).
+   */
+  public async deleteTableRow(tableIndex: number, rowIndex: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTableItem(doc, tableIndex);
+      if (rowIndex <= 0 || rowIndex > table.Rows.Count) {
+        throw new Error(`Row index ${rowIndex} is out of bounds.`);
+      }
+      table.Rows.Item(rowIndex).Delete();
+    } catch (error) {
+      console.error(`Failed to delete row ${rowIndex} of table ${tableIndex}:`, error);
+      throw new Error(`Failed to delete table row. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Deletes a column; deleting the only column deletes the table.
+   * @param tableIndex Index of the table (1-based).
+   * @param column Column to delete (1-based).
+   */
+  public async deleteTableColumn(tableIndex: number, column: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTableItem(doc, tableIndex);
+      if (column <= 0 || column > table.Columns.Count) {
+        throw new Error(`Column index ${column} is out of bounds.`);
+      }
+      table.Columns.Item(column).Delete();
+    } catch (error) {
+      console.error(`Failed to delete column ${column} of table ${tableIndex}:`, error);
+      throw new Error(`Failed to delete table column. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the width of a column without resizing the other columns.
+   * @param tableIndex Index of the table (1-based).
+   * @param column Column (1-based).
+   * @param width Width in points.
+   */
+  public async setTableColumnWidth(tableIndex: number, column: number, width: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTableItem(doc, tableIndex);
+      if (column <= 0 || column > table.Columns.Count) {
+        throw new Error(`Column index ${column} is out of bounds.`);
+      }
+      table.Columns.Item(column).SetWidth(width, 0); // wdAdjustNone = 0
+    } catch (error) {
+      console.error(`Failed to set width of column ${column} of table ${tableIndex}:`, error);
+      throw new Error(`Failed to set table column width. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the height of a row.
+   * @param tableIndex Index of the table (1-based).
+   * @param rowIndex Row (1-based).
+   * @param height Height in points.
+   * @param heightRule WdRowHeightRule: 0 auto (height ignored), 1 at least (default), 2 exactly.
+   */
+  public async setTableRowHeight(tableIndex: number, rowIndex: number, height: number, heightRule: number = 1): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTableItem(doc, tableIndex);
+      if (rowIndex <= 0 || rowIndex > table.Rows.Count) {
+        throw new Error(`Row index ${rowIndex} is out of bounds.`);
+      }
+      const row = table.Rows.Item(rowIndex);
+      row.HeightRule = heightRule;
+      if (heightRule !== 0) row.Height = height;
+    } catch (error) {
+      console.error(`Failed to set height of row ${rowIndex} of table ${tableIndex}:`, error);
+      throw new Error(`Failed to set table row height. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Applies borders, shading and vertical alignment to a cell, or to the whole table.
+   * @param tableIndex Index of the table (1-based).
+   * @param format What to change.
+   * @param cell Optional cell address; the whole table when omitted.
+   */
+  public async formatTableCells(tableIndex: number, format: TableCellFormat, cell?: { rowIndex: number; colIndex: number }): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTableItem(doc, tableIndex);
+      const target = cell ? table.Cell(cell.rowIndex, cell.colIndex) : table;
+      if (format.borders) {
+        const { lineStyle, lineWidth = 0.5, color } = format.borders;
+        const sides = format.borders.sides ?? (cell ? ['top', 'left', 'bottom', 'right'] : Object.keys(BORDER_TYPES));
+        for (const side of sides) {
+          const border = target.Borders.Item(BORDER_TYPES[side]);
+          border.LineStyle = lineStyle;
+          if (lineStyle !== 0) {
+            // WdLineWidth is in eighths of a point and only takes these values
+            border.LineWidth = [2, 4, 6, 8, 12, 18, 24, 36, 48].reduce((best, w) => Math.abs(w - lineWidth * 8) < Math.abs(best - lineWidth * 8) ? w : best);
+            border.Color = color ? wdColor(color) : WD_COLOR_AUTOMATIC;
+          }
+        }
+      }
+      if (format.shading !== undefined) {
+        target.Shading.BackgroundPatternColor = format.shading ? wdColor(format.shading) : WD_COLOR_AUTOMATIC;
+      }
+      if (format.verticalAlignment !== undefined) {
+        (cell ? target : table.Range.Cells).VerticalAlignment = format.verticalAlignment;
+      }
+    } catch (error) {
+      console.error(`Failed to format table ${tableIndex}:`, error);
+      throw new Error(`Failed to format table cells. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Marks the first rows of a table as header rows and clears the mark on the others.
+   * @param tableIndex Index of the table (1-based).
+   * @param count Number of header rows (0 for none).
+   */
+  public async setTableHeaderRows(tableIndex: number, count: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTableItem(doc, tableIndex);
+      const rowCount = table.Rows.Count;
+      if (count < 0 || count > rowCount) {
+        throw new Error(`The table has ${rowCount} row(s); cannot make ${count} of them header rows.`);
+      }
+      for (let i = 1; i <= rowCount; i++) {
+        table.Rows.Item(i).HeadingFormat = i <= count;
+      }
+    } catch (error) {
+      console.error(`Failed to set header rows of table ${tableIndex}:`, error);
+      throw new Error(`Failed to set table header rows. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sorts the rows of a table by a column, like Table.Sort.
+   * @param tableIndex Index of the table (1-based).
+   * @param column Column to sort by (1-based).
+   * @param options Sort type, order and whether the first row is a header that stays in place.
+   */
+  public async sortTable(tableIndex: number, column: number, options: TableSortOptions = {}): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const table = this.getTableItem(doc, tableIndex);
+      // WdSortFieldType: wdSortFieldAlphanumeric = 2, wdSortFieldNumeric = 0, wdSortFieldDate = 1
+      const fieldType = { text: 2, number: 0, date: 1 }[options.sortType ?? 'text'];
+      // Sort(ExcludeHeader, FieldNumber, SortFieldType, SortOrder); wdSortOrderAscending = 0, wdSortOrderDescending = 1
+      table.Sort(!!options.headerRow, column, fieldType, options.descending ? 1 : 0);
+    } catch (error) {
+      console.error(`Failed to sort table ${tableIndex}:`, error);
+      throw new Error(`Failed to sort table. Error: ${error}`);
+    }
+  }
+
+  private formatTableData(table: any, options: TableFromDataOptions): void {
+    if (options.style !== undefined) table.Style = options.style;
+    if (options.headerRow) {
+      const header = table.Rows.Item(1);
+      header.HeadingFormat = true;
+      header.Range.Font.Bold = true;
+    }
+    if (options.columnWidths) {
+      if (options.columnWidths.length !== table.Columns.Count) {
+        throw new Error(`Give one width per column: the table has ${table.Columns.Count} column(s), ${options.columnWidths.length} width(s) were given.`);
+      }
+      options.columnWidths.forEach((width, i) => table.Columns.Item(i + 1).Width = width);
+    }
+  }
+
   // --- Image Methods ---
 
   /**
@@ -587,10 +1129,10 @@ class WordService {
    * @param saveWithDocument Save the image with the document (optional, relevant if linked).
    */
   public async insertPicture(filePath: string, linkToFile: boolean = false, saveWithDocument: boolean = true): Promise<any /* Word.InlineShape */> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      const selection = app.ActiveDocument.ActiveWindow.Selection;
-      const inlineShape = selection.InlineShapes.AddPicture(filePath, linkToFile, saveWithDocument, selection.Range);
+      const range = this.targetRange.getStore() ?? doc.ActiveWindow.Selection.Range;
+      const inlineShape = doc.InlineShapes.AddPicture(filePath, linkToFile, saveWithDocument, range);
       return inlineShape;
     } catch (error) {
       console.error(`Failed to insert picture from ${filePath}:`, error);
@@ -765,9 +1307,9 @@ class WordService {
    * Moves the cursor to the start of the document.
    */
   public async moveCursorToStart(): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      const selection = app.ActiveDocument.ActiveWindow.Selection;
+      const selection = doc.ActiveWindow.Selection;
       selection.HomeKey(6); // wdStory = 6
     } catch (error) {
       console.error("Failed to move cursor to start:", error);
@@ -779,9 +1321,9 @@ class WordService {
    * Moves the cursor to the end of the document.
    */
   public async moveCursorToEnd(): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      const selection = app.ActiveDocument.ActiveWindow.Selection;
+      const selection = doc.ActiveWindow.Selection;
       selection.EndKey(6); // wdStory = 6
     } catch (error) {
       console.error("Failed to move cursor to end:", error);
@@ -796,9 +1338,9 @@ class WordService {
    * @param extend Whether to extend the selection (true) or move the insertion point (false).
    */
   public async moveCursor(unit: number, count: number, extend: boolean = false): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      const selection = app.ActiveDocument.ActiveWindow.Selection;
+      const selection = doc.ActiveWindow.Selection;
       // WdUnits: wdCharacter = 1, wdWord = 2, wdSentence = 3, wdParagraph = 4, wdLine = 5, wdStory = 6, etc.
       if (extend) {
         selection.MoveRight(unit, count, 1); // 1 = wdExtend
@@ -815,9 +1357,9 @@ class WordService {
    * Selects the entire document.
    */
   public async selectAll(): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      const selection = app.ActiveDocument.ActiveWindow.Selection;
+      const selection = doc.ActiveWindow.Selection;
       selection.WholeStory();
     } catch (error) {
       console.error("Failed to select all:", error);
@@ -848,9 +1390,9 @@ class WordService {
    * @param toStart If true, collapse to start; if false, collapse to end.
    */
   public async collapseSelection(toStart: boolean = true): Promise<void> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      const selection = app.ActiveDocument.ActiveWindow.Selection;
+      const selection = doc.ActiveWindow.Selection;
       // WdCollapseDirection: wdCollapseStart = 1, wdCollapseEnd = 0
       selection.Collapse(toStart ? 1 : 0);
     } catch (error) {
@@ -864,9 +1406,9 @@ class WordService {
    * @returns The text of the current selection.
    */
   public async getSelectionText(): Promise<string> {
-    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
     try {
-      const selection = app.ActiveDocument.ActiveWindow.Selection;
+      const selection = doc.ActiveWindow.Selection;
       return selection.Text;
     } catch (error) {
       console.error("Failed to get selection text:", error);
@@ -878,16 +1420,10 @@ class WordService {
    * Gets information about the current selection.
    * @returns Object with selection information.
    */
-  public async getSelectionInfo(): Promise<{
-    text: string;
-    start: number;
-    end: number;
-    isActive: boolean;
-    type: number;
-  }> {
-    const app = await this.getWordApplication();
+  public async getSelectionInfo(): Promise<SelectionInfo> {
+    const doc = await this.getActiveDocument();
     try {
-      const selection = app.ActiveDocument.ActiveWindow.Selection;
+      const selection = doc.ActiveWindow.Selection;
       return {
         text: selection.Text,
         start: selection.Start,
@@ -901,9 +1437,2073 @@ class WordService {
     }
   }
 
-  // --- Add more methods for other Word operations ---
-
-}
+  // --- Style Methods ---
 
-// Export a singleton instance
-export const wordService = new WordService();
+  /**
+   * Lists the styles of the active document.
+   */
+  public async listStyles(): Promise<StyleInfo[]> {
+    try {
+      const doc = await this.getActiveDocument();
+      const styles: StyleInfo[] = [];
+      for (let i = 1; i <= doc.Styles.Count; i++) {
+        const style = doc.Styles.Item(i);
+        styles.push({
+          name: style.NameLocal,
+          type: style.Type,
+          builtIn: !!style.BuiltIn,
+          inUse: !!style.InUse,
+          baseStyle: style.BaseStyle ? String(style.BaseStyle) : undefined,
+        });
+      }
+      return styles;
+    } catch (error) {
+      console.error("Failed to list styles:", error);
+      throw new Error(`Failed to list styles. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Applies a style to the selection; table styles are applied to the table containing it.
+   * @param styleName Name of the style.
+   */
+  public async applyStyle(styleName: string): Promise<void> {
+    try {
+      const doc = await this.getActiveDocument();
+      const style = doc.Styles.Item(styleName);
+      const target = this.selectionOrRange(doc);
+      if (style.Type === 3) { // wdStyleTypeTable
+        if (target.Tables.Count === 0) {
+          throw new Error(`"${styleName}" is a table style and the selection is not in a table.`);
+        }
+        target.Tables.Item(1).Style = styleName;
+      } else {
+        target.Style = styleName;
+      }
+    } catch (error) {
+      console.error(`Failed to apply style ${styleName}:`, error);
+      throw new Error(`Failed to apply style. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets base style, next paragraph style, font and paragraph settings on a Word.Style.
+   */
+  private updateStyle(style: any, settings: StyleSettings): void {
+    if (settings.baseStyle !== undefined) style.BaseStyle = settings.baseStyle;
+    if (settings.nextParagraphStyle !== undefined) style.NextParagraphStyle = settings.nextParagraphStyle;
+    const font = settings.font ?? {};
+    if (font.name !== undefined) style.Font.Name = font.name;
+    if (font.size !== undefined) style.Font.Size = font.size;
+    if (font.bold !== undefined) style.Font.Bold = font.bold;
+    if (font.italic !== undefined) style.Font.Italic = font.italic;
+    if (font.underline !== undefined) style.Font.Underline = font.underline;
+    if (font.color !== undefined) style.Font.Color = wdColor(font.color);
+    const format = settings.paragraphFormat ?? {};
+    const properties: [keyof typeof format, string][] = [
+      ['alignment', 'Alignment'],
+      ['leftIndent', 'LeftIndent'],
+      ['rightIndent', 'RightIndent'],
+      ['firstLineIndent', 'FirstLineIndent'],
+      ['spaceBefore', 'SpaceBefore'],
+      ['spaceAfter', 'SpaceAfter'],
+      ['lineSpacingRule', 'LineSpacingRule'],
+      ['lineSpacing', 'LineSpacing'],
+    ];
+    for (const [key, property] of properties) {
+      if (format[key] !== undefined) style.ParagraphFormat[property] = format[key];
+    }
+  }
+
+  /**
+   * Creates a new style in the active document.
+   * @param styleName Name of the new style.
+   * @param styleType WdStyleType value (1=Paragraph, 2=Character, 3=Table, 4=List).
+   * @param settings Base style, next paragraph style, font and paragraph settings.
+   */
+  public async createStyle(styleName: string, styleType: number, settings: StyleSettings): Promise<void> {
+    try {
+      const doc = await this.getActiveDocument();
+      const style = doc.Styles.Add(styleName, styleType);
+      this.updateStyle(style, settings);
+    } catch (error) {
+      console.error(`Failed to create style ${styleName}:`, error);
+      throw new Error(`Failed to create style. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Changes the definition of an existing style in the active document.
+   * @param styleName Name of the style.
+   * @param settings Base style, next paragraph style, font and paragraph settings to change.
+   */
+  public async modifyStyle(styleName: string, settings: StyleSettings): Promise<void> {
+    try {
+      const doc = await this.getActiveDocument();
+      this.updateStyle(doc.Styles.Item(styleName), settings);
+    } catch (error) {
+      console.error(`Failed to modify style ${styleName}:`, error);
+      throw new Error(`Failed to modify style. Error: ${error}`);
+    }
+  }
+
+  // --- Outline Methods ---
+
+  /**
+   * Returns the 1-based index of the paragraph starting at a character position.
+   */
+  private paragraphIndexAt(doc: WordDocument, position: number): number {
+    return position === 0 ? 1 : doc.Range(0, position).Paragraphs.Count + 1;
+  }
+
+  /**
+   * Returns the range of a heading's section and the heading level.
+   */
+  private headingSection(doc: WordDocument, paragraphIndex: number): { range: any /* Word.Range */; level: number } {
+    if (paragraphIndex <= 0 || paragraphIndex > doc.Paragraphs.Count) {
+      throw new Error(`Paragraph index ${paragraphIndex} is out of bounds.`);
+    }
+    const heading = doc.Paragraphs.Item(paragraphIndex);
+    const level = heading.OutlineLevel; // wdOutlineLevelBodyText = 10
+    if (level < 1 || level > 9) {
+      throw new Error(`Paragraph ${paragraphIndex} is not a heading.`);
+    }
+    let end = doc.Content.End;
+    for (let paragraph = heading.Next(); paragraph; paragraph = paragraph.Next()) {
+      if (paragraph.OutlineLevel <= level) {
+        end = paragraph.Range.Start;
+        break;
+      }
+    }
+    return { range: doc.Range(heading.Range.Start, end), level };
+  }
+
+  /**
+   * Inserts a heading paragraph after the paragraph containing the end of the selection.
+   * An empty paragraph is turned into the heading instead. The cursor is placed at the end of the heading.
+   * @param text Heading text.
+   * @param level Heading level (1-9).
+   * @returns The paragraph index of the heading.
+   */
+  public async insertHeading(text: string, level: number): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (level < 1 || level > 9) {
+        throw new Error(`Invalid heading level: ${level}. Use 1-9.`);
+      }
+      const paragraph = this.selectionOrRange(doc).Paragraphs.Last;
+      let heading = paragraph;
+      if (String(paragraph.Range.Text).replace(/[\r\u0007]/g, '') !== '') {
+        paragraph.Range.InsertParagraphAfter();
+        heading = paragraph.Next();
+      }
+      heading.Style = doc.Styles.Item(-1 - level); // wdStyleHeading1 = -2
+      const textRange = heading.Range;
+      textRange.MoveEnd(1, -1); // Without the paragraph mark (wdCharacter = 1)
+      textRange.Text = text.replace(/\r\n|\r|\n/g, ' ');
+      if (!this.targetRange.getStore()) {
+        doc.ActiveWindow.Selection.SetRange(textRange.End, textRange.End);
+      }
+      return this.paragraphIndexAt(doc, heading.Range.Start);
+    } catch (error) {
+      console.error("Failed to insert heading:", error);
+      throw new Error(`Failed to insert heading. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Changes the level of a heading and of all headings in its section; body text is unchanged.
+   * @param paragraphIndex 1-based index of the heading paragraph.
+   * @param levelDelta Levels to move: negative promotes (Heading 2 -> Heading 1), positive demotes.
+   * @returns The number of headings changed.
+   */
+  public async changeHeadingLevel(paragraphIndex: number, levelDelta: number): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { range } = this.headingSection(doc, paragraphIndex);
+      const headings: [any, number][] = [];
+      for (let i = 1; i <= range.Paragraphs.Count; i++) {
+        const paragraph = range.Paragraphs.Item(i);
+        const level = paragraph.OutlineLevel;
+        if (level < 1 || level > 9) continue;
+        if (level + levelDelta < 1 || level + levelDelta > 9) {
+          throw new Error(`"${String(paragraph.Range.Text).trim()}" cannot be moved to level ${level + levelDelta}. Heading levels are 1-9.`);
+        }
+        headings.push([paragraph, level + levelDelta]);
+      }
+      for (const [paragraph, level] of headings) {
+        paragraph.Style = doc.Styles.Item(-1 - level);
+      }
+      return headings.length;
+    } catch (error) {
+      console.error(`Failed to change level of heading ${paragraphIndex}:`, error);
+      throw new Error(`Failed to change heading level. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Moves a heading's section before or after the section of another heading and selects it.
+   * @param paragraphIndex 1-based index of the heading to move.
+   * @param targetParagraphIndex 1-based index of the heading to move it next to.
+   * @param position Whether to place it before the target heading or after the target's section.
+   * @returns The new paragraph index of the moved heading.
+   */
+  public async moveHeadingSection(paragraphIndex: number, targetParagraphIndex: number, position: 'before' | 'after'): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const source = this.headingSection(doc, paragraphIndex).range;
+      const target = this.headingSection(doc, targetParagraphIndex).range;
+      if (target.Start >= source.Start && target.Start < source.End) {
+        throw new Error(`Heading ${targetParagraphIndex} is part of the section being moved.`);
+      }
+      let insertAt = position === 'before' ? target.Start : target.End;
+      if (insertAt >= doc.Content.End) {
+        // Nothing can follow the final paragraph mark, so move in front of a new last paragraph
+        doc.Content.InsertParagraphAfter();
+        insertAt = doc.Content.End - 1;
+      }
+      const destination = doc.Range(insertAt, insertAt);
+      destination.FormattedText = source.FormattedText;
+      source.Delete(); // Moving the last section leaves the final paragraph mark behind as an empty paragraph
+      destination.Select();
+      return this.paragraphIndexAt(doc, destination.Start);
+    } catch (error) {
+      console.error(`Failed to move heading ${paragraphIndex}:`, error);
+      throw new Error(`Failed to move heading section. Error: ${error}`);
+    }
+  }
+
+  // --- Table of Contents Methods ---
+
+  private getToc(doc: WordDocument, tocIndex: number): any /* Word.TableOfContents */ {
+    const count = doc.TablesOfContents.Count;
+    if (tocIndex <= 0 || tocIndex > count) {
+      throw new Error(`Table of contents index ${tocIndex} is out of bounds (1-${count}).`);
+    }
+    return doc.TablesOfContents.Item(tocIndex);
+  }
+
+  /**
+   * Inserts a table of contents built from the Heading 1-9 paragraphs at the selection.
+   * The cursor is placed after it.
+   * @returns The 1-based index of the new table of contents.
+   */
+  public async insertTableOfContents(options: TableOfContentsOptions): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { upperHeadingLevel: upper, lowerHeadingLevel: lower } = options;
+      if (upper < 1 || lower > 9 || upper > lower) {
+        throw new Error(`Invalid heading levels: ${upper}-${lower}. Use 1-9 with the upper level not below the lower level.`);
+      }
+      const toc = doc.TablesOfContents.Add(
+        this.targetRange.getStore() ?? doc.ActiveWindow.Selection.Range,
+        true, // UseHeadingStyles
+        upper,
+        lower,
+        false, // UseFields
+        undefined, // TableID
+        options.rightAlignPageNumbers,
+        options.includePageNumbers,
+        undefined, // AddedStyles
+        options.useHyperlinks,
+        true, // HidePageNumbersInWeb
+        true // UseOutlineLevels
+      );
+      const start = toc.Range.Start;
+      if (!this.targetRange.getStore()) {
+        doc.ActiveWindow.Selection.SetRange(toc.Range.End, toc.Range.End);
+      }
+      for (let i = 1; i <= doc.TablesOfContents.Count; i++) {
+        if (doc.TablesOfContents.Item(i).Range.Start === start) return i;
+      }
+      return doc.TablesOfContents.Count;
+    } catch (error) {
+      console.error("Failed to insert table of contents:", error);
+      throw new Error(`Failed to insert table of contents. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the tables of contents of the document.
+   */
+  public async listTablesOfContents(): Promise<TableOfContentsInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const tocs: TableOfContentsInfo[] = [];
+      for (let i = 1; i <= doc.TablesOfContents.Count; i++) {
+        const toc = doc.TablesOfContents.Item(i);
+        tocs.push({
+          index: i,
+          upperHeadingLevel: toc.UpperHeadingLevel,
+          lowerHeadingLevel: toc.LowerHeadingLevel,
+          useHyperlinks: toc.UseHyperlinks,
+          includePageNumbers: toc.IncludePageNumbers,
+          rightAlignPageNumbers: toc.RightAlignPageNumbers,
+          start: toc.Range.Start,
+          end: toc.Range.End,
+          entryCount: toc.Range.Paragraphs.Count,
+        });
+      }
+      return tocs;
+    } catch (error) {
+      console.error("Failed to list tables of contents:", error);
+      throw new Error(`Failed to list tables of contents. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Refreshes a table of contents from the current headings.
+   * @param tocIndex 1-based index of the table of contents.
+   * @param pageNumbersOnly Only update page numbers, keeping the existing entries.
+   */
+  public async updateTableOfContents(tocIndex: number, pageNumbersOnly: boolean = false): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const toc = this.getToc(doc, tocIndex);
+      if (pageNumbersOnly) {
+        toc.UpdatePageNumbers();
+      } else {
+        toc.Update();
+      }
+    } catch (error) {
+      console.error(`Failed to update table of contents ${tocIndex}:`, error);
+      throw new Error(`Failed to update table of contents. Error: ${error}`);
+    }
+  }
+
+  // --- List Methods ---
+
+  /**
+   * Adds a document list template with the levels of another one, so it can be customized without changing the gallery.
+   */
+  private copyListTemplate(doc: WordDocument, source: any /* Word.ListTemplate */): any /* Word.ListTemplate */ {
+    const copy = doc.ListTemplates.Add(source.OutlineNumbered);
+    const count = Math.min(source.ListLevels.Count, copy.ListLevels.Count);
+    for (let i = 1; i <= count; i++) {
+      const from = source.ListLevels.Item(i);
+      const to = copy.ListLevels.Item(i);
+      to.NumberFormat = from.NumberFormat;
+      to.NumberStyle = from.NumberStyle;
+      to.TrailingCharacter = from.TrailingCharacter;
+      to.Alignment = from.Alignment;
+      to.NumberPosition = from.NumberPosition;
+      to.TextPosition = from.TextPosition;
+      to.TabPosition = from.TabPosition;
+      to.StartAt = from.StartAt;
+      to.Font.Name = from.Font.Name;
+    }
+    return copy;
+  }
+
+  /**
+   * Returns the paragraphs of the selection (or range) that are list items.
+   */
+  private selectedListItems(doc: WordDocument): any[] /* Word.Paragraph[] */ {
+    const paragraphs = this.selectionOrRange(doc).Paragraphs;
+    const items: any[] = [];
+    for (let i = 1; i <= paragraphs.Count; i++) {
+      const paragraph = paragraphs.Item(i);
+      if (paragraph.Range.ListFormat.ListType !== 0) items.push(paragraph); // wdListNoNumbering = 0
+    }
+    return items;
+  }
+
+  /**
+   * Turns the paragraphs of the selection into list items. Items already in a list keep their level.
+   * @param options List gallery and template, custom level 1 format, and whether to continue the previous list.
+   */
+  public async applyListFormat(options: ListFormatOptions): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const { listType, template = 1 } = options;
+      const app = await this.getWordApplication();
+      const gallery = app.ListGalleries.Item({ bullet: 1, number: 2, outline: 3 }[listType]); // wdBulletGallery, wdNumberGallery, wdOutlineNumberGallery
+      const count = gallery.ListTemplates.Count;
+      if (template < 1 || template > count) {
+        throw new Error(`Invalid ${listType} list template: ${template}. Use 1-${count}.`);
+      }
+      let listTemplate = gallery.ListTemplates.Item(template);
+      if (options.numberFormat !== undefined || options.numberStyle !== undefined || options.startAt !== undefined) {
+        listTemplate = this.copyListTemplate(doc, listTemplate);
+        const level = listTemplate.ListLevels.Item(1);
+        if (options.numberFormat !== undefined) level.NumberFormat = options.numberFormat;
+        if (options.numberStyle !== undefined && listType !== 'bullet') level.NumberStyle = options.numberStyle;
+        if (options.startAt !== undefined) level.StartAt = options.startAt;
+      }
+      const range = this.targetRange.getStore() ?? doc.ActiveWindow.Selection.Range;
+      // wdListApplyToSelection = 1, wdWord10ListBehavior = 2
+      range.ListFormat.ApplyListTemplateWithLevel(listTemplate, !!options.continuePreviousList, 1, 2);
+    } catch (error) {
+      console.error("Failed to apply list format:", error);
+      throw new Error(`Failed to apply list format. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Moves the list items of the selection to a deeper or higher list level.
+   * @param levelDelta Levels to move: positive indents (level 1 -> level 2), negative outdents.
+   * @returns The number of list items changed.
+   */
+  public async changeListLevel(levelDelta: number): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const items = this.selectedListItems(doc);
+      if (items.length === 0) {
+        throw new Error("The selection contains no list items.");
+      }
+      const levels = items.map(item => item.Range.ListFormat.ListLevelNumber + levelDelta);
+      levels.forEach((level, i) => {
+        if (level < 1 || level > 9) {
+          throw new Error(`"${String(items[i].Range.Text).trim()}" cannot be moved to list level ${level}. List levels are 1-9.`);
+        }
+      });
+      items.forEach((item, i) => { item.Range.ListFormat.ListLevelNumber = levels[i]; });
+      return items.length;
+    } catch (error) {
+      console.error("Failed to change list level:", error);
+      throw new Error(`Failed to change list level. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Starts numbering again at the first list item of the selection.
+   * @param startAt Number of the first item (level 1).
+   */
+  public async restartListNumbering(startAt: number = 1): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const [item] = this.selectedListItems(doc);
+      if (!item) {
+        throw new Error("The selection contains no list items.");
+      }
+      const listFormat = item.Range.ListFormat;
+      const listTemplate = this.copyListTemplate(doc, listFormat.ListTemplate);
+      listTemplate.ListLevels.Item(1).StartAt = startAt;
+      // wdListApplyToThisPointForward = 2, wdWord10ListBehavior = 2
+      listFormat.ApplyListTemplateWithLevel(listTemplate, false, 2, 2);
+    } catch (error) {
+      console.error("Failed to restart list numbering:", error);
+      throw new Error(`Failed to restart list numbering. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Joins the list at the selection, from its first selected item on, to the previous list of the same kind.
+   */
+  public async continueListNumbering(): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const [item] = this.selectedListItems(doc);
+      if (!item) {
+        throw new Error("The selection contains no list items.");
+      }
+      const listFormat = item.Range.ListFormat;
+      if (listFormat.CanContinuePreviousList(listFormat.ListTemplate) === 0) { // wdContinueDisabled = 0
+        throw new Error("There is no previous list of the same kind to continue.");
+      }
+      listFormat.ApplyListTemplateWithLevel(listFormat.ListTemplate, true, 2, 2);
+    } catch (error) {
+      console.error("Failed to continue list numbering:", error);
+      throw new Error(`Failed to continue list numbering. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Removes list formatting from the paragraphs of the selection. List Paragraph items go back to Normal.
+   * @returns The number of list items changed.
+   */
+  public async removeListFormat(): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const items = this.selectedListItems(doc);
+      const listParagraph = doc.Styles.Item(-180).NameLocal; // wdStyleListParagraph
+      for (const item of items) {
+        item.Range.ListFormat.RemoveNumbers(1); // wdNumberParagraph = 1
+        if (item.Style.NameLocal === listParagraph) {
+          item.Style = doc.Styles.Item(-1); // wdStyleNormal
+        }
+      }
+      return items.length;
+    } catch (error) {
+      console.error("Failed to remove list format:", error);
+      throw new Error(`Failed to remove list format. Error: ${error}`);
+    }
+  }
+
+  // --- Comment Methods ---
+
+  private getCommentItem(doc: WordDocument, commentIndex: number): any /* Word.Comment */ {
+    const count = doc.Comments.Count;
+    if (commentIndex <= 0 || commentIndex > count) {
+      throw new Error(`Comment index ${commentIndex} is out of bounds (1-${count}).`);
+    }
+    return doc.Comments.Item(commentIndex);
+  }
+
+  /**
+   * Returns the index of a comment in Document.Comments; Comment has no Index property, but reference marks are unique.
+   */
+  private commentIndex(doc: WordDocument, comment: any /* Word.Comment */): number {
+    const reference = comment.Reference.Start;
+    for (let i = 1; i <= doc.Comments.Count; i++) {
+      if (doc.Comments.Item(i).Reference.Start === reference) return i;
+    }
+    return doc.Comments.Count;
+  }
+
+  private setCommentAuthor(comment: any /* Word.Comment */, author?: string, initials?: string): void {
+    if (author !== undefined) comment.Author = author;
+    if (initials !== undefined || author !== undefined) comment.Initial = initials ?? initialsOf(author!);
+  }
+
+  /**
+   * Adds a comment on the selection. A collapsed selection comments on the word it is in.
+   * @param text The comment text.
+   * @param author Optional author name (default: Application.UserName).
+   * @param initials Optional author initials (default: derived from the author name).
+   * @returns The 1-based index of the new comment.
+   */
+  public async addComment(text: string, author?: string, initials?: string): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const range = (this.targetRange.getStore() ?? doc.ActiveWindow.Selection.Range).Duplicate;
+      if (range.Start === range.End) {
+        range.Expand(2); // wdWord
+      }
+      const comment = doc.Comments.Add(range, text);
+      this.setCommentAuthor(comment, author, initials);
+      return this.commentIndex(doc, comment);
+    } catch (error) {
+      console.error("Failed to add comment:", error);
+      throw new Error(`Failed to add comment. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the comments of the document in document order, replies right after the comment they answer.
+   */
+  public async listComments(): Promise<CommentInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const comments: CommentInfo[] = [];
+      const references = new Map<number, number>(); // Reference mark position -> index
+      for (let i = 1; i <= doc.Comments.Count; i++) {
+        const comment = doc.Comments.Item(i);
+        references.set(comment.Reference.Start, i);
+        const info: CommentInfo = {
+          index: i,
+          author: comment.Author,
+          initials: comment.Initial,
+          date: new Date(comment.Date).toISOString(),
+          text: String(comment.Range.Text ?? '').replace(/\r/g, '\n'),
+          scopeText: String(comment.Scope.Text ?? '').replace(/\r/g, '\n'),
+          start: comment.Scope.Start,
+          end: comment.Scope.End,
+          done: !!comment.Done,
+        };
+        const ancestor = comment.Ancestor;
+        if (ancestor) {
+          const parentIndex = references.get(ancestor.Reference.Start);
+          if (parentIndex !== undefined) info.parentIndex = parentIndex;
+        }
+        comments.push(info);
+      }
+      return comments;
+    } catch (error) {
+      console.error("Failed to list comments:", error);
+      throw new Error(`Failed to list comments. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Replies to a comment. A reply to a reply joins the thread of the comment the reply answers.
+   * @param commentIndex 1-based index of the comment.
+   * @returns The 1-based index of the reply.
+   */
+  public async replyToComment(commentIndex: number, text: string, author?: string, initials?: string): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const comment = this.getCommentItem(doc, commentIndex);
+      const parent = comment.Ancestor ?? comment;
+      const reply = parent.Replies.Add(parent.Scope, text);
+      this.setCommentAuthor(reply, author, initials);
+      return this.commentIndex(doc, reply);
+    } catch (error) {
+      console.error(`Failed to reply to comment ${commentIndex}:`, error);
+      throw new Error(`Failed to reply to comment. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Marks a comment as done (resolved), or open again.
+   * @param commentIndex 1-based index of the comment.
+   */
+  public async setCommentDone(commentIndex: number, done: boolean): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      this.getCommentItem(doc, commentIndex).Done = done;
+    } catch (error) {
+      console.error(`Failed to set done state of comment ${commentIndex}:`, error);
+      throw new Error(`Failed to set comment done state. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Deletes a comment together with its replies.
+   * @param commentIndex 1-based index of the comment.
+   */
+  public async deleteComment(commentIndex: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const comment = this.getCommentItem(doc, commentIndex);
+      for (let i = comment.Replies.Count; i >= 1; i--) {
+        comment.Replies.Item(i).Delete();
+      }
+      comment.Delete();
+    } catch (error) {
+      console.error(`Failed to delete comment ${commentIndex}:`, error);
+      throw new Error(`Failed to delete comment. Error: ${error}`);
+    }
+  }
+
+  // --- Revision Methods ---
+
+  private getRevisionItem(doc: WordDocument, revisionIndex: number): any /* Word.Revision */ {
+    const count = doc.Revisions.Count;
+    if (revisionIndex <= 0 || revisionIndex > count) {
+      throw new Error(`Revision index ${revisionIndex} is out of bounds (1-${count}).`);
+    }
+    return doc.Revisions.Item(revisionIndex);
+  }
+
+  /**
+   * Turns tracking of changes on or off. While on, Word records edits as revisions.
+   */
+  public async setTrackRevisions(enabled: boolean): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      doc.TrackRevisions = enabled;
+    } catch (error) {
+      console.error("Failed to set track revisions:", error);
+      throw new Error(`Failed to set track revisions. Error: ${error}`);
+    }
+  }
+
+  public async getTrackRevisions(): Promise<boolean> {
+    const doc = await this.getActiveDocument();
+    return !!doc.TrackRevisions;
+  }
+
+  /**
+   * Lists the tracked changes of the document in document order.
+   * @param inSelection Only list revisions overlapping the selection (a collapsed selection: the character after it).
+   */
+  public async listRevisions(inSelection: boolean = false): Promise<RevisionInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const range = this.targetRange.getStore() ?? doc.ActiveWindow.Selection.Range;
+      const start = range.Start;
+      const end = Math.max(range.End, start + 1);
+      const revisions: RevisionInfo[] = [];
+      for (let i = 1; i <= doc.Revisions.Count; i++) {
+        const revision = doc.Revisions.Item(i);
+        const info: RevisionInfo = {
+          index: i,
+          type: revision.Type,
+          author: revision.Author,
+          date: new Date(revision.Date).toISOString(),
+          text: String(revision.Range.Text ?? '').replace(/\r/g, '\n'),
+          start: revision.Range.Start,
+          end: revision.Range.End,
+        };
+        if (!inSelection || (info.start < end && info.end > start)) revisions.push(info);
+      }
+      return revisions;
+    } catch (error) {
+      console.error("Failed to list revisions:", error);
+      throw new Error(`Failed to list revisions. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Accepts a tracked change.
+   * @param revisionIndex 1-based index of the revision.
+   */
+  public async acceptRevision(revisionIndex: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      this.getRevisionItem(doc, revisionIndex).Accept();
+    } catch (error) {
+      console.error(`Failed to accept revision ${revisionIndex}:`, error);
+      throw new Error(`Failed to accept revision. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Rejects a tracked change.
+   * @param revisionIndex 1-based index of the revision.
+   */
+  public async rejectRevision(revisionIndex: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      this.getRevisionItem(doc, revisionIndex).Reject();
+    } catch (error) {
+      console.error(`Failed to reject revision ${revisionIndex}:`, error);
+      throw new Error(`Failed to reject revision. Error: ${error}`);
+    }
+  }
+
+  // --- Bookmark Methods ---
+
+  private getBookmarkItem(doc: WordDocument, name: string): any /* Word.Bookmark */ {
+    if (!doc.Bookmarks.Exists(name)) {
+      throw new Error(`Bookmark not found: ${name}`);
+    }
+    return doc.Bookmarks.Item(name);
+  }
+
+  /**
+   * Bookmarks the selection. Adding a name that already exists moves that bookmark.
+   * @param name Starts with a letter, then letters, digits and underscores; at most 40 characters.
+   */
+  public async addBookmark(name: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      doc.Bookmarks.Add(name, this.targetRange.getStore() ?? doc.ActiveWindow.Selection.Range);
+    } catch (error) {
+      console.error(`Failed to add bookmark ${name}:`, error);
+      throw new Error(`Failed to add bookmark. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the bookmarks of the document in document order.
+   * @param includeHidden Include hidden bookmarks (names starting with "_").
+   */
+  public async listBookmarks(includeHidden: boolean = false): Promise<BookmarkInfo[]> {
+    const doc = await this.getActiveDocument();
+    const showHidden = doc.Bookmarks.ShowHidden;
+    try {
+      doc.Bookmarks.ShowHidden = includeHidden;
+      const bookmarks: BookmarkInfo[] = [];
+      for (let i = 1; i <= doc.Bookmarks.Count; i++) {
+        const bookmark = doc.Bookmarks.Item(i);
+        const range = bookmark.Range;
+        bookmarks.push({ name: bookmark.Name, start: range.Start, end: range.End, text: (range.Text ?? '').replace(/\r/g, '\n') });
+      }
+      return bookmarks.sort((a, b) => a.start - b.start || a.end - b.end);
+    } catch (error) {
+      console.error("Failed to list bookmarks:", error);
+      throw new Error(`Failed to list bookmarks. Error: ${error}`);
+    } finally {
+      doc.Bookmarks.ShowHidden = showHidden;
+    }
+  }
+
+  /**
+   * Selects the text of a bookmark.
+   */
+  public async selectBookmark(name: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      this.getBookmarkItem(doc, name).Select();
+    } catch (error) {
+      console.error(`Failed to select bookmark ${name}:`, error);
+      throw new Error(`Failed to select bookmark. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Replaces the text of a bookmark. Setting Range.Text drops the bookmark, so it is added again around the new text.
+   * @param text The new text. Line breaks (\n) start new paragraphs.
+   */
+  public async setBookmarkText(name: string, text: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const bookmark = this.getBookmarkItem(doc, name);
+      const bookmarkName = bookmark.Name;
+      const range = bookmark.Range;
+      range.Text = text.replace(/\r\n|\n/g, '\r');
+      doc.Bookmarks.Add(bookmarkName, range);
+    } catch (error) {
+      console.error(`Failed to set text of bookmark ${name}:`, error);
+      throw new Error(`Failed to set bookmark text. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Deletes a bookmark. Its text stays in the document.
+   */
+  public async deleteBookmark(name: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      this.getBookmarkItem(doc, name).Delete();
+    } catch (error) {
+      console.error(`Failed to delete bookmark ${name}:`, error);
+      throw new Error(`Failed to delete bookmark. Error: ${error}`);
+    }
+  }
+
+  // --- Content Control Methods ---
+
+  private getContentControlItem(doc: WordDocument, index: number): any /* Word.ContentControl */ {
+    const count = doc.ContentControls.Count;
+    if (index <= 0 || index > count) {
+      throw new Error(`Content control index ${index} is out of bounds (1-${count}).`);
+    }
+    return doc.ContentControls.Item(index);
+  }
+
+  /**
+   * Lists the content controls of the document in document order.
+   */
+  public async listContentControls(): Promise<ContentControlInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const controls: ContentControlInfo[] = [];
+      for (let i = 1; i <= doc.ContentControls.Count; i++) {
+        const control = doc.ContentControls.Item(i);
+        const range = control.Range;
+        const info: ContentControlInfo = {
+          index: i,
+          id: String(control.ID),
+          type: control.Type,
+          tag: control.Tag ?? '',
+          title: control.Title ?? '',
+          text: (range.Text ?? '').replace(/\r/g, '\n'),
+          start: range.Start,
+          end: range.End,
+          lockContents: !!control.LockContents,
+          lockControl: !!control.LockContentControl,
+          showingPlaceholder: !!control.ShowingPlaceholderText,
+        };
+        if (control.Type === 8) info.checked = !!control.Checked; // wdContentControlCheckBox
+        if (control.Type === 3 || control.Type === 4) { // wdContentControlComboBox, wdContentControlDropdownList
+          info.entries = [];
+          for (let j = 1; j <= control.DropdownListEntries.Count; j++) {
+            info.entries.push(control.DropdownListEntries.Item(j).Text);
+          }
+        }
+        controls.push(info);
+      }
+      return controls;
+    } catch (error) {
+      console.error("Failed to list content controls:", error);
+      throw new Error(`Failed to list content controls. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Sets the content of a content control, replacing its text (or placeholder).
+   * @param index 1-based index of the control.
+   * @param value Text; a yyyy-MM-dd date for date pickers (other text is used as is); an item (text or value)
+   *   of a dropdown list; true or false for a checkbox.
+   */
+  public async setContentControlValue(index: number, value: string | boolean): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const control = this.getContentControlItem(doc, index);
+      if ((control.Type === 8) !== (typeof value === 'boolean')) {
+        throw new Error(control.Type === 8 ? "A checkbox takes true or false." : "Only checkboxes take true or false, other content controls take text.");
+      }
+      switch (control.Type) {
+        case 8: // wdContentControlCheckBox
+          control.Checked = value;
+          break;
+        case 4: { // wdContentControlDropdownList
+          const entries = control.DropdownListEntries;
+          const texts: string[] = [];
+          for (let i = 1; i <= entries.Count; i++) {
+            const entry = entries.Item(i);
+            if ([entry.Text, entry.Value].some((v: string) => v.toLowerCase() === (value as string).toLowerCase())) {
+              entry.Select();
+              return;
+            }
+            texts.push(entry.Text);
+          }
+          throw new Error(`"${value}" is not an item of the dropdown list (${texts.join(', ')}).`);
+        }
+        case 6: { // wdContentControlDate
+          const date = /^\d{4}-\d{2}-\d{2}$/.test(value as string) ? new Date(`${value}T00:00:00Z`) : undefined;
+          control.Range.Text = date && !isNaN(date.getTime()) ? formatDate(date, control.DateDisplayFormat || 'M/d/yyyy') : value;
+          break;
+        }
+        case 0: // wdContentControlRichText
+        case 1: // wdContentControlText
+        case 3: // wdContentControlComboBox
+          control.Range.Text = (value as string).replace(/\r\n|\n/g, '\r');
+          break;
+        default:
+          throw new Error(`Content controls of type ${control.Type} cannot be set.`);
+      }
+    } catch (error) {
+      console.error(`Failed to set value of content control ${index}:`, error);
+      throw new Error(`Failed to set content control value. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Puts a content control around the selection.
+   * @param type WdContentControlType: 0 rich text, 1 plain text, 3 combo box, 4 dropdown list, 6 date or 8 checkbox.
+   * @returns The 1-based index of the new control.
+   */
+  public async insertContentControl(type: number, options: ContentControlOptions = {}): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const control = doc.ContentControls.Add(type, this.targetRange.getStore() ?? doc.ActiveWindow.Selection.Range);
+      if (options.tag !== undefined) control.Tag = options.tag;
+      if (options.title !== undefined) control.Title = options.title;
+      if (type === 3 || type === 4) {
+        for (const entry of options.entries ?? []) {
+          control.DropdownListEntries.Add(entry, entry);
+        }
+      }
+      if (type === 6 && options.dateFormat) control.DateDisplayFormat = options.dateFormat;
+      if (type === 8) control.Checked = !!options.checked;
+      // Locks go last, a locked control cannot be filled
+      control.LockContents = !!options.lockContents;
+      control.LockContentControl = !!options.lockControl;
+      for (let i = 1; i <= doc.ContentControls.Count; i++) {
+        if (doc.ContentControls.Item(i).ID === control.ID) return i;
+      }
+      return doc.ContentControls.Count;
+    } catch (error) {
+      console.error("Failed to insert content control:", error);
+      throw new Error(`Failed to insert content control. Error: ${error}`);
+    }
+  }
+
+  // --- Mail Merge Methods ---
+
+  /**
+   * Inserts a merge field at the selection, replacing selected text.
+   * @param fieldName Name of the data source column.
+   */
+  public async insertMergeField(fieldName: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      const name = fieldName.trim();
+      if (!name) {
+        throw new Error("The merge field name is empty.");
+      }
+      // wdFieldEmpty takes the whole field code as text
+      doc.Fields.Add(this.targetRange.getStore() ?? doc.ActiveWindow.Selection.Range, -1, mergeFieldCode(name), false);
+    } catch (error) {
+      console.error(`Failed to insert merge field: ${fieldName}`, error);
+      throw new Error(`Failed to insert merge field. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the names of the merge fields in the body, headers and footers, in order of first use.
+   */
+  public async listMergeFields(): Promise<string[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const collections = [doc.Fields];
+      for (let i = 1; i <= doc.Sections.Count; i++) {
+        const section = doc.Sections.Item(i);
+        for (const headersFooters of [section.Headers, section.Footers]) {
+          for (let type = 1; type <= 3; type++) {
+            const headerFooter = headersFooters.Item(type);
+            if (headerFooter.Exists) collections.push(headerFooter.Range.Fields);
+          }
+        }
+      }
+      const names: string[] = [];
+      for (const fields of collections) {
+        for (let i = 1; i <= fields.Count; i++) {
+          const name = mergeFieldName(fields.Item(i).Code.Text ?? '');
+          if (name !== undefined && !names.some(n => n.toLowerCase() === name.toLowerCase())) names.push(name);
+        }
+      }
+      return names;
+    } catch (error) {
+      console.error("Failed to list merge fields:", error);
+      throw new Error(`Failed to list merge fields. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Merges the active document with data records into a new, active document, one section per record.
+   * The records are handed to Word as a table in a temporary document, a data source Word opens without prompting.
+   * @param records The values of each record by merge field name.
+   */
+  public async mailMerge(records: MergeRecord[]): Promise<WordDocument> {
+    const app = await this.getWordApplication();
+    const doc = await this.getActiveDocument();
+    const dataPath = path.join(os.tmpdir(), `mail-merge-${process.pid}-${Date.now()}.docx`);
+    try {
+      if (records.length === 0) {
+        throw new Error("The data source has no records.");
+      }
+      const names = await this.listMergeFields();
+      const columns = names.length > 0 ? names : ['Record'];
+      const value = (record: MergeRecord, name: string) => Object.entries(record).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1] ?? '';
+      // Tabs separate the cells and paragraph marks the rows; line breaks within a value become manual line breaks
+      const cell = (text: string) => text.replace(/\t/g, ' ').replace(/\r\n|\r|\n/g, '\v');
+      const rows = [columns, ...records.map(record => columns.map(name => value(record, name)))];
+      const source = app.Documents.Add(undefined, undefined, 0, false) as WordDocument; // Hidden wdNewBlankDocument
+      try {
+        source.Content.Text = rows.map(row => row.map(cell).join('\t')).join('\r');
+        source.Content.ConvertToTable(1, rows.length, columns.length); // wdSeparateByTabs
+        source.SaveAs2(dataPath, 16); // wdFormatDocumentDefault
+      } finally {
+        source.Close(0); // wdDoNotSaveChanges
+      }
+      const mailMerge = doc.MailMerge;
+      mailMerge.MainDocumentType = 0; // wdFormLetters
+      // OpenDataSource(Name, Format, ConfirmConversions, ReadOnly, LinkToSource)
+      mailMerge.OpenDataSource(dataPath, 0, false, true, false); // wdOpenFormatAuto
+      mailMerge.Destination = 0; // wdSendToNewDocument
+      mailMerge.Execute(false);
+      const result = app.ActiveDocument as WordDocument;
+      result.Activate();
+      return result;
+    } catch (error) {
+      console.error("Failed to merge document:", error);
+      throw new Error(`Failed to merge document. Error: ${error}`);
+    } finally {
+      try {
+        doc.MailMerge.MainDocumentType = -1; // wdNotAMergeDocument, detaches the data source
+      } catch (error) {
+        console.warn("Failed to detach the mail merge data source:", error);
+      }
+      await fs.rm(dataPath, { force: true });
+    }
+  }
+
+  // --- Template Methods ---
+
+  /**
+   * Renders the template tags of the active document into a new document and makes it active.
+   * The template is copied through Range.FormattedText; the final paragraph mark brings the section formatting,
+   * headers and footers along. The template itself is left unchanged.
+   * @param data The values, objects and arrays the tags refer to.
+   */
+  public async renderTemplate(data: TemplateData): Promise<TemplateRendering> {
+    const app = await this.getWordApplication();
+    const template = await this.getActiveDocument();
+    let result: WordDocument | undefined;
+    try {
+      result = app.Documents.Add() as WordDocument;
+      result.Content.FormattedText = template.Content.FormattedText;
+      const scopes: TemplateScope[] = [{ value: data }];
+      const unresolved: string[] = [];
+      this.renderTemplateRange(result.Content, scopes, unresolved);
+      for (let i = 1; i <= result.Sections.Count; i++) {
+        const section = result.Sections.Item(i);
+        for (const headersFooters of [section.Headers, section.Footers]) {
+          for (let type = 1; type <= 3; type++) {
+            const headerFooter = headersFooters.Item(type);
+            // A linked header or footer shares the story of the section before
+            if (headerFooter.Exists && (i === 1 || !headerFooter.LinkToPrevious)) {
+              this.renderTemplateRange(headerFooter.Range, scopes, unresolved);
+            }
+          }
+        }
+      }
+      result.Activate();
+      return { document: result, unresolved };
+    } catch (error) {
+      result?.Close(0); // wdDoNotSaveChanges
+      console.error("Failed to render template:", error);
+      throw new Error(`Failed to render template. Error: ${error}`);
+    }
+  }
+
+  /**
+   * A range of the story of another range (Document.Range only covers the main text).
+   */
+  private storyRange(area: any, start: number, end: number): any /* Word.Range */ {
+    const range = area.Duplicate;
+    range.SetRange(start, end);
+    return range;
+  }
+
+  /**
+   * Finds the next tag from a position to the end of a range.
+   */
+  private nextTemplateTag(area: any, from: number): TemplateTagRange | undefined {
+    const found = this.storyRange(area, from, area.End);
+    const find = found.Find;
+    find.ClearFormatting();
+    // Execute(FindText, MatchCase, MatchWholeWord, MatchWildcards, MatchSoundsLike, MatchAllWordForms, Forward, Wrap = wdFindStop)
+    while (find.Execute('\\{\\{[!\\{\\}]@\\}\\}', false, false, true, false, false, true, 0) && found.End <= area.End) {
+      const text: string = found.Text ?? '';
+      // Tags do not span paragraphs or cells
+      const tag = /[\r\u0007]/.test(text) ? undefined : findTemplateTags(text)[0];
+      if (tag) {
+        return { tag: { ...tag, start: found.Start, end: found.End }, range: found };
+      }
+      found.SetRange(found.Start + 2, area.End);
+    }
+    return undefined;
+  }
+
+  /**
+   * Lists the tags from a position up to an end position.
+   */
+  private templateTags(area: any, from: number, to: number = area.End): TemplateTagRange[] {
+    const tags: TemplateTagRange[] = [];
+    for (let found = this.nextTemplateTag(area, from); found && found.tag.end <= to; found = this.nextTemplateTag(area, found.tag.end)) {
+      tags.push(found);
+    }
+    return tags;
+  }
+
+  /**
+   * The table cell holding a tag, identified by the start of the innermost table and cell.
+   */
+  private templateCell(range: any): { table: number; row: number; cell: number } | undefined {
+    if (!range.Information(12)) { // wdWithInTable
+      return undefined;
+    }
+    const cell = range.Cells.Item(1);
+    return { table: range.Tables.Item(1).Range.Start, row: cell.RowIndex, cell: cell.Range.Start };
+  }
+
+  /**
+   * Whether the paragraph of a tag holds nothing but the tag.
+   */
+  private isTemplateTagAlone(found: TemplateTagRange): boolean {
+    const text: string = found.range.Paragraphs.Item(1).Range.Text ?? '';
+    return text.replace(/[\r\u0007]+$/, '').trim() === found.tag.text;
+  }
+
+  /**
+   * Renders the tags in a range in order; the range grows and shrinks with the edits. Content produced by a tag
+   * is not searched for tags again.
+   */
+  private renderTemplateRange(area: any, scopes: TemplateScope[], unresolved: string[]): void {
+    let from: number = area.Start;
+    let checkedRow: any; // Row already checked for sections spanning rows
+    for (let found = this.nextTemplateTag(area, from); found; found = this.nextTemplateTag(area, from)) {
+      const { tag, range } = found;
+      if (range.Information(12) && !(checkedRow && range.Start >= checkedRow.Start && range.End <= checkedRow.End)) { // wdWithInTable
+        const section = this.templateRowSection(area, found);
+        if (section) {
+          from = this.renderTemplateRows(area, section, scopes, unresolved);
+          continue;
+        }
+        checkedRow = range.Rows.Item(1).Range;
+      }
+      if (tag.kind === 'value') {
+        range.Text = templateText(lookupTemplateValue(scopes, tag.path, unresolved)).replace(/\r\n|\n/g, '\r');
+        from = range.End;
+      } else if (tag.kind === 'each' || tag.kind === 'if') {
+        from = this.renderTemplateSection(area, found, scopes, unresolved);
+      } else {
+        throw new Error(`${tag.text} has no matching ${tag.kind === 'endEach' ? '{{#each ...}}' : '{{#if ...}}'}.`);
+      }
+    }
+  }
+
+  /**
+   * Renders an each or if section within a story or table cell. It spans the paragraphs from the opening
+   * to the closing tag; an if section within one paragraph only spans the text between its tags.
+   * @returns Where rendering goes on.
+   */
+  private renderTemplateSection(area: any, open: TemplateTagRange, scopes: TemplateScope[], unresolved: string[]): number {
+    const section = matchTemplateSection(this.templateTags(area, open.tag.start), 0);
+    if (!section || this.templateCell(open.range)?.cell !== this.templateCell(section.close.range)?.cell) {
+      throw new Error(`${open.tag.text} has no matching {{/${open.tag.kind}}} in the same story, table cell or table row.`);
+    }
+    const { elseTag, close } = section;
+    if (open.tag.kind === 'if') {
+      if (isTemplateTruthy(lookupTemplateValue(scopes, open.tag.path, unresolved))) {
+        this.removeTemplateTags(area, elseTag ?? close, close);
+        return this.removeTemplateTags(area, open, open);
+      }
+      if (elseTag) this.removeTemplateTags(area, close, close);
+      return this.removeTemplateTags(area, open, elseTag ?? close);
+    }
+    const block = this.storyRange(area, open.range.Paragraphs.Item(1).Range.Start, close.range.Paragraphs.Item(1).Range.End);
+    this.removeTemplateTags(area, close, close);
+    this.removeTemplateTags(area, open, open);
+    return this.repeatTemplateContent(area, block, open.tag.path, scopes, unresolved, false);
+  }
+
+  /**
+   * Deletes the text from the start of a tag to the end of a later (or the same) tag; when both tags are alone
+   * in their paragraphs, the paragraphs are deleted.
+   * @returns The position of the deleted text.
+   */
+  private removeTemplateTags(area: any, from: TemplateTagRange, to: TemplateTagRange): number {
+    const whole = this.isTemplateTagAlone(from) && this.isTemplateTagAlone(to);
+    const start: number = whole ? from.range.Paragraphs.Item(1).Range.Start : from.range.Start;
+    const end: number = whole ? to.range.Paragraphs.Item(1).Range.End : to.range.End;
+    this.storyRange(area, start, end).Delete();
+    return start;
+  }
+
+  /**
+   * Finds the first section opened in the row of a tag, from the tag on, that spans rows: one whose tags are
+   * in different cells, or an each section within one cell paragraph.
+   */
+  private templateRowSection(area: any, first: TemplateTagRange): TemplateRowSection | undefined {
+    const row = this.templateCell(first.range)!;
+    const tableEnd: number = first.range.Tables.Item(1).Range.End;
+    // Tags of nested tables belong to their own rows
+    const tags = this.templateTags(area, first.tag.start, Math.min(tableEnd, area.End))
+      .map(found => ({ ...found, cell: this.templateCell(found.range)! }))
+      .filter(found => found.cell?.table === row.table);
+    for (let i = 0; i < tags.length && tags[i].cell.row === row.row; i++) {
+      const open = tags[i];
+      if (open.tag.kind !== 'each' && open.tag.kind !== 'if') continue;
+      const section = matchTemplateSection(tags, i);
+      if (!section) continue;
+      const sameParagraph = section.close.range.Paragraphs.Item(1).Range.Start === open.range.Paragraphs.Item(1).Range.Start;
+      if (section.close.cell.cell === open.cell.cell && (!sameParagraph || open.tag.kind === 'if')) {
+        i = tags.indexOf(section.close);
+        continue;
+      }
+      return { open, ...section };
+    }
+    return undefined;
+  }
+
+  /**
+   * Renders a section spanning table rows: an each section repeats the rows from the opening to the closing tag,
+   * an if section deletes the rows of the other branch.
+   * @returns Where rendering goes on.
+   */
+  private renderTemplateRows(area: any, { open, elseTag, close }: TemplateRowSection, scopes: TemplateScope[], unresolved: string[]): number {
+    if (elseTag && elseTag.cell.row === open.cell.row) {
+      throw new Error(`The {{else}} of ${open.tag.text} must be in a later row of the table.`);
+    }
+    const table = open.range.Tables.Item(1);
+    for (const placed of [close, elseTag, open]) {
+      if (!placed) continue;
+      const paragraphs = placed.range.Cells.Item(1).Range.Paragraphs;
+      const paragraph = placed.range.Paragraphs.Item(1).Range;
+      if (!this.isTemplateTagAlone(placed) || paragraphs.Count === 1) {
+        placed.range.Delete();
+      } else if (paragraph.End < paragraphs.Last.Range.End) {
+        paragraph.Delete();
+      } else {
+        // The end of cell mark stays, so the last paragraph goes with the paragraph mark before it
+        this.storyRange(area, paragraph.Start - 1, placed.range.End).Delete();
+      }
+    }
+    const rows = (first: number, last: number) => this.storyRange(area, table.Rows.Item(first).Range.Start, table.Rows.Item(last).Range.End);
+    const firstRow = open.cell.row;
+    const lastRow = close.cell.row;
+    if (open.tag.kind === 'each') {
+      return this.repeatTemplateContent(area, rows(firstRow, lastRow), open.tag.path, scopes, unresolved, true);
+    }
+    const start: number = table.Rows.Item(firstRow).Range.Start;
+    const split = elseTag?.cell.row ?? lastRow + 1;
+    if (isTemplateTruthy(lookupTemplateValue(scopes, open.tag.path, unresolved))) {
+      if (split <= lastRow) rows(split, lastRow).Rows.Delete();
+    } else if (split > firstRow) {
+      rows(firstRow, split - 1).Rows.Delete();
+    }
+    // The kept rows are rendered in the same scope
+    return start;
+  }
+
+  /**
+   * Repeats the paragraphs or rows of a range for each element of an array and renders each copy with its element.
+   * Copies are inserted before the range, as nothing can follow a final paragraph mark or the last row of a table.
+   * @returns The position after the last copy.
+   */
+  private repeatTemplateContent(area: any, block: any, path: string, scopes: TemplateScope[], unresolved: string[], rows: boolean): number {
+    const items = templateItems(lookupTemplateValue(scopes, path, unresolved), path);
+    const start: number = block.Start;
+    if (items.length === 0) {
+      if (rows) block.Rows.Delete();
+      else block.Delete();
+      return start;
+    }
+    const length = block.End - start;
+    for (let i = 1; i < items.length; i++) {
+      this.storyRange(area, start, start).FormattedText = this.storyRange(area, start, start + length).FormattedText;
+    }
+    const copies = items.map((_, i) => this.storyRange(area, start + i * length, start + (i + 1) * length));
+    // From the last copy, so rendering does not move the copies still to render
+    for (let i = items.length - 1; i >= 0; i--) {
+      this.renderTemplateRange(copies[i], [...scopes, { value: items[i], index: i }], unresolved);
+    }
+    return copies[copies.length - 1].End;
+  }
+
+  // --- Field Methods ---
+
+  /**
+   * The field collections of the body, then of the headers and footers each section shows. Headers and footers
+   * linked to the previous section are skipped, as they show its fields.
+   */
+  private fieldCollections(doc: WordDocument): FieldCollection[] {
+    const collections: FieldCollection[] = [{ fields: doc.Fields, location: { story: 'body' } }];
+    for (let i = 1; i <= doc.Sections.Count; i++) {
+      const section = doc.Sections.Item(i);
+      for (const isHeader of [true, false]) {
+        const headersFooters = isHeader ? section.Headers : section.Footers;
+        for (let type = 1; type <= 3; type++) {
+          const headerFooter = headersFooters.Item(type);
+          if (!headerFooter.Exists || (i > 1 && headerFooter.LinkToPrevious)) continue;
+          collections.push({ fields: headerFooter.Range.Fields, location: { story: isHeader ? 'header' : 'footer', sectionIndex: i, headerFooterType: type } });
+        }
+      }
+    }
+    return collections;
+  }
+
+  /**
+   * The fields of the document in listFields order.
+   */
+  private documentFields(doc: WordDocument): { field: any /* Word.Field */; location: FieldCollection['location'] }[] {
+    return this.fieldCollections(doc).flatMap(({ fields, location }) =>
+      Array.from({ length: fields.Count }, (_, i) => ({ field: fields.Item(i + 1), location })));
+  }
+
+  /**
+   * Inserts a field at the selection, replacing selected text.
+   * @param code Field code such as PAGE or DATE \@ "MMMM d, yyyy".
+   * @returns The result Word calculated.
+   */
+  public async insertField(code: string): Promise<string> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (!code.trim()) {
+        throw new Error("The field code is empty.");
+      }
+      // wdFieldEmpty takes the whole field code as text
+      const field = doc.Fields.Add(this.targetRange.getStore() ?? doc.ActiveWindow.Selection.Range, -1, code.trim(), false);
+      return field.Result.Text ?? '';
+    } catch (error) {
+      console.error(`Failed to insert field: ${code}`, error);
+      throw new Error(`Failed to insert field. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Inserts a field at the end of a header or footer, such as the page number of a "Page X of Y" footer.
+   * @param headerFooterType WdHeaderFooterIndex value (1=Primary, 2=FirstPage, 3=EvenPages).
+   * @param textBefore Text to insert before the field, e.g. "Page ".
+   * @returns The result Word calculated.
+   */
+  public async insertHeaderFooterField(sectionIndex: number, headerFooterType: number, isHeader: boolean, code: string, textBefore: string = ''): Promise<string> {
+    const headerFooter = await this.getHeaderFooter(sectionIndex, headerFooterType, isHeader);
+    try {
+      if (!code.trim()) {
+        throw new Error("The field code is empty.");
+      }
+      // Before the paragraph mark ending the story
+      const end = headerFooter.Range.End - 1;
+      const range = headerFooter.Range;
+      range.SetRange(end, end);
+      if (textBefore) {
+        range.InsertAfter(textBefore);
+        range.Collapse(0); // wdCollapseEnd
+      }
+      const field = headerFooter.Range.Fields.Add(range, -1, code.trim(), false);
+      return field.Result.Text ?? '';
+    } catch (error) {
+      console.error(`Failed to insert field in ${isHeader ? 'header' : 'footer'} type ${headerFooterType} of section ${sectionIndex}: ${code}`, error);
+      throw new Error(`Failed to insert header/footer field. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the fields of the body, headers and footers with their codes and results.
+   */
+  public async listFields(): Promise<FieldInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      return this.documentFields(doc).map(({ field, location }, i) => {
+        const code = (field.Code.Text ?? '').trim();
+        const result = field.Result;
+        return {
+          index: i + 1,
+          type: fieldType(code),
+          code,
+          result: (result.Text ?? '').replace(/\r/g, '\n'),
+          ...location,
+          start: result.Start,
+          end: result.End,
+        };
+      });
+    } catch (error) {
+      console.error("Failed to list fields:", error);
+      throw new Error(`Failed to list fields. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Updates the fields of the body, headers and footers; updating a TOC field rebuilds the table of contents.
+   * @returns The number of fields updated.
+   */
+  public async updateFields(): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      // PAGE, NUMPAGES and the page numbers of tables of contents come from the layout
+      doc.Repaginate();
+      let count = 0;
+      for (const { fields } of this.fieldCollections(doc)) {
+        count += fields.Count;
+        fields.Update();
+      }
+      return count;
+    } catch (error) {
+      console.error("Failed to update fields:", error);
+      throw new Error(`Failed to update fields. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Replaces fields with their results as plain text (Field.Unlink).
+   * @param indices 1-based indices as returned by listFields; all fields when omitted.
+   * @returns The number of fields unlinked.
+   */
+  public async unlinkFields(indices?: number[]): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const fields = this.documentFields(doc);
+      for (const index of indices ?? []) {
+        if (index <= 0 || index > fields.length) {
+          throw new Error(`Field index ${index} is out of bounds (1-${fields.length}).`);
+        }
+      }
+      const selected = indices ? fields.filter((_, i) => indices.includes(i + 1)) : fields;
+      // Later fields first, so nested fields are unlinked before the fields containing them
+      for (const { field } of [...selected].reverse()) {
+        field.Unlink();
+      }
+      return selected.length;
+    } catch (error) {
+      console.error("Failed to unlink fields:", error);
+      throw new Error(`Failed to unlink fields. Error: ${error}`);
+    }
+  }
+
+  // --- Footnote and Endnote Methods ---
+
+  /**
+   * Returns the footnotes or endnotes of a document or range.
+   */
+  private notesOf(owner: WordDocument | any /* Word.Range */, kind: NoteKind): any /* Word.Footnotes | Word.Endnotes */ {
+    return kind === 'footnote' ? owner.Footnotes : owner.Endnotes;
+  }
+
+  private getNoteItem(doc: WordDocument, kind: NoteKind, index: number): any /* Word.Footnote | Word.Endnote */ {
+    const count = this.notesOf(doc, kind).Count;
+    if (index <= 0 || index > count) {
+      throw new Error(`${kind === 'footnote' ? 'Footnote' : 'Endnote'} index ${index} is out of bounds (1-${count}).`);
+    }
+    return this.notesOf(doc, kind).Item(index);
+  }
+
+  /**
+   * Inserts a footnote or endnote with its reference mark at the end of the selection.
+   * @param text The note text; line breaks start new paragraphs.
+   * @returns The 1-based index of the new note among the notes of its kind.
+   */
+  public async insertNote(kind: NoteKind, text: string): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      const range = (this.targetRange.getStore() ?? doc.ActiveWindow.Selection.Range).Duplicate;
+      range.Collapse(0); // wdCollapseEnd
+      const note = this.notesOf(doc, kind).Add(range);
+      note.Range.Text = text.replace(/\r\n|\n/g, '\r');
+      return note.Index;
+    } catch (error) {
+      console.error(`Failed to insert ${kind}:`, error);
+      throw new Error(`Failed to insert ${kind}. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the footnotes, then the endnotes, each in document order.
+   * @param kind Only list the notes of this kind.
+   */
+  public async listNotes(kind?: NoteKind): Promise<NoteInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const notes: NoteInfo[] = [];
+      for (const k of kind ? [kind] : ['footnote', 'endnote'] as NoteKind[]) {
+        const collection = this.notesOf(doc, k);
+        for (let i = 1; i <= collection.Count; i++) {
+          const note = collection.Item(i);
+          const reference = note.Reference.Start;
+          const paragraphStart = note.Reference.Paragraphs.Item(1).Range.Start;
+          notes.push({
+            kind: k,
+            index: i,
+            reference,
+            context: String(doc.Range(Math.max(paragraphStart, reference - NOTE_CONTEXT_LENGTH), reference).Text ?? ''),
+            text: String(note.Range.Text ?? '').replace(/\r/g, '\n'),
+          });
+        }
+      }
+      return notes;
+    } catch (error) {
+      console.error("Failed to list notes:", error);
+      throw new Error(`Failed to list notes. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Replaces the text of a note.
+   * @param index 1-based index among the notes of its kind.
+   */
+  public async setNoteText(kind: NoteKind, index: number, text: string): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      this.getNoteItem(doc, kind, index).Range.Text = text.replace(/\r\n|\n/g, '\r');
+    } catch (error) {
+      console.error(`Failed to set text of ${kind} ${index}:`, error);
+      throw new Error(`Failed to set ${kind} text. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Deletes a note together with its reference mark.
+   * @param index 1-based index among the notes of its kind.
+   */
+  public async deleteNote(kind: NoteKind, index: number): Promise<void> {
+    const doc = await this.getActiveDocument();
+    try {
+      this.getNoteItem(doc, kind, index).Delete();
+    } catch (error) {
+      console.error(`Failed to delete ${kind} ${index}:`, error);
+      throw new Error(`Failed to delete ${kind}. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Converts footnotes to endnotes or endnotes to footnotes with Footnotes.Convert / Endnotes.Convert.
+   * @param index 1-based index of the note to convert; all notes of the kind when omitted.
+   * @returns The number of notes converted.
+   */
+  public async convertNotes(kind: NoteKind, index?: number): Promise<number> {
+    const doc = await this.getActiveDocument();
+    try {
+      if (index !== undefined) {
+        // The notes of the reference mark's range are just this one
+        this.notesOf(this.getNoteItem(doc, kind, index).Reference, kind).Convert();
+        return 1;
+      }
+      const count = this.notesOf(doc, kind).Count;
+      if (count > 0) this.notesOf(doc, kind).Convert();
+      return count;
+    } catch (error) {
+      console.error(`Failed to convert ${kind}s:`, error);
+      throw new Error(`Failed to convert ${kind}s. Error: ${error}`);
+    }
+  }
+
+  // --- Range Methods ---
+
+  /**
+   * Resolves a range descriptor to a Word Range of the active document.
+   * @param range The range to resolve.
+   */
+  private resolveRange(doc: WordDocument, range: RangeDescriptor): any /* Word.Range */ {
+    switch (range.type) {
+      case 'characters': {
+        const length = doc.Content.End;
+        if (range.start < 0 || range.end < range.start || range.end > length) {
+          throw new Error(`Character range ${range.start}-${range.end} is outside the document (0-${length}).`);
+        }
+        return doc.Range(range.start, range.end);
+      }
+      case 'paragraphs': {
+        const count = doc.Paragraphs.Count;
+        const last = range.end ?? range.start;
+        if (range.start < 1 || last < range.start || last > count) {
+          throw new Error(`Paragraph range ${range.start}-${last} is out of bounds (1-${count}).`);
+        }
+        return doc.Range(doc.Paragraphs.Item(range.start).Range.Start, doc.Paragraphs.Item(last).Range.End);
+      }
+      case 'bookmark':
+        return this.getBookmarkItem(doc, range.name).Range;
+      case 'tableCell': {
+        const cellRange = doc.Tables.Item(range.tableIndex).Cell(range.rowIndex, range.colIndex).Range;
+        cellRange.MoveEnd(1, -1); // Without the end-of-cell mark (wdCharacter = 1)
+        return cellRange;
+      }
+      case 'search': {
+        const found = doc.Content;
+        const find = found.Find;
+        find.ClearFormatting();
+        for (let i = 0; i < (range.occurrence ?? 1); i++) {
+          // Execute(FindText, MatchCase, MatchWholeWord, MatchWildcards, MatchSoundsLike, MatchAllWordForms, Forward, Wrap = wdFindStop)
+          if (!find.Execute(range.text, !!range.matchCase, !!range.matchWholeWord, false, false, false, true, 0)) {
+            throw new Error(`Occurrence ${i + 1} of "${range.text}" not found.`);
+          }
+        }
+        return found;
+      }
+    }
+  }
+
+  /**
+   * The target of the selection-based methods: the range set by withRange, otherwise the selection.
+   */
+  private selectionOrRange(doc: WordDocument): any {
+    return this.targetRange.getStore() ?? doc.ActiveWindow.Selection;
+  }
+
+  /**
+   * Runs an action with a range of the active document as the target of the selection-based methods
+   * (text, font and paragraph formatting, table and picture insertion), for the calls made within the action only.
+   * The selection does not move.
+   * @param range The range to act on.
+   * @param action The operations to run on the range.
+   */
+  public async withRange<T>(range: RangeDescriptor, action: () => Promise<T>): Promise<T> {
+    const doc = await this.getActiveDocument();
+    let resolved: any;
+    try {
+      resolved = this.resolveRange(doc, range);
+    } catch (error) {
+      console.error("Failed to resolve range:", error);
+      throw new Error(`Failed to resolve range. Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return this.targetRange.run(resolved, action);
+  }
+
+  // --- Document Content Methods ---
+
+  /**
+   * Gets a page of body paragraphs with their style, text and character range.
+   * @param offset Number of paragraphs to skip (0-based).
+   * @param limit Maximum number of paragraphs to return.
+   * @param maxChars Optional budget for the total text length. At least one paragraph is returned, truncated if needed.
+   */
+  public async getParagraphs(offset: number = 0, limit: number = 50, maxChars?: number): Promise<ParagraphPage> {
+    const doc = await this.getActiveDocument();
+    try {
+      const totalParagraphs = doc.Paragraphs.Count;
+      const paragraphs: ParagraphInfo[] = [];
+      let used = 0;
+      // Walk with Next() instead of Item(i), which Word resolves by counting from the start each time
+      let paragraph = offset < totalParagraphs ? doc.Paragraphs.Item(offset + 1) : null;
+      for (let index = offset + 1; paragraph && index <= totalParagraphs && paragraphs.length < limit; index++) {
+        const range = paragraph.Range;
+        const info: ParagraphInfo = {
+          index,
+          style: paragraph.Style.NameLocal,
+          text: String(range.Text).replace(/\r\u0007?$/, ''), // Strip the paragraph (and end-of-cell) mark
+          start: range.Start,
+          end: range.End,
+          inTable: range.Information(12), // wdWithInTable = 12
+        };
+        const listFormat = range.ListFormat;
+        if (listFormat.ListType !== 0) { // wdListNoNumbering = 0
+          info.list = { level: listFormat.ListLevelNumber, listString: listFormat.ListString };
+        }
+        if (maxChars !== undefined && used + info.text.length > maxChars) {
+          if (paragraphs.length > 0) break;
+          info.text = info.text.slice(0, maxChars);
+          info.truncated = true;
+        }
+        used += info.text.length;
+        paragraphs.push(info);
+        paragraph = paragraph.Next();
+      }
+      return { totalParagraphs, paragraphs };
+    } catch (error) {
+      console.error("Failed to get paragraphs:", error);
+      throw new Error(`Failed to get paragraphs. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Reads the body of the active document, or the current selection, as backend-neutral content (paragraphs, runs, tables).
+   * Nested tables are flattened into the paragraphs of their cell.
+   * @param selectionOnly Only read the selection. Paragraphs are cut at the selection edges; tables touched by it are read whole.
+   */
+  public async getDocumentContent(selectionOnly: boolean = false): Promise<ContentBlock[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const blocks: ContentBlock[] = [];
+      const range = selectionOnly ? doc.ActiveWindow.Selection.Range : doc.Content;
+      if (range.Start === range.End) {
+        return blocks;
+      }
+      let paragraph = range.Paragraphs.Item(1);
+      while (paragraph && paragraph.Range.Start < range.End) {
+        const range = paragraph.Range;
+        if (range.Information(12)) { // wdWithInTable = 12
+          const table = range.Tables.Item(1);
+          blocks.push({ type: 'table', rows: this.readTableContent(doc, table) });
+          const tableEnd = table.Range.End;
+          while (paragraph && paragraph.Range.Start < tableEnd) {
+            paragraph = paragraph.Next();
+          }
+          continue;
+        }
+        blocks.push(this.readParagraphContent(doc, paragraph, range.Start, range.End));
+        paragraph = paragraph.Next();
+      }
+      return blocks;
+    } catch (error) {
+      console.error("Failed to get document content:", error);
+      throw new Error(`Failed to get document content. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the headings of the body: paragraphs with an outline level (1-9) other than body text.
+   */
+  public async getOutline(): Promise<HeadingInfo[]> {
+    const doc = await this.getActiveDocument();
+    try {
+      const headings: HeadingInfo[] = [];
+      let paragraph = doc.Paragraphs.Count > 0 ? doc.Paragraphs.Item(1) : null;
+      for (let index = 1; paragraph; index++) {
+        const level = paragraph.OutlineLevel; // wdOutlineLevelBodyText = 10
+        if (level >= 1 && level <= 9) {
+          const page = paragraph.Range.Information(3); // wdActiveEndPageNumber
+          headings.push({ level, text: String(paragraph.Range.Text).replace(/[\r\u0007\u0001\f]/g, ''), paragraphIndex: index, page });
+        }
+        paragraph = paragraph.Next();
+      }
+      return headings;
+    } catch (error) {
+      console.error("Failed to get outline:", error);
+      throw new Error(`Failed to get outline. Error: ${error}`);
+    }
+  }
+
+  /**
+   * Reads a table as backend-neutral content.
+   * @param tableIndex 1-based index of the table.
+   */
+  public async getTableContent(tableIndex: number): Promise<ContentTable> {
+    const doc = await this.getActiveDocument();
+    try {
+      return { type: 'table', rows: this.readTableContent(doc, doc.Tables.Item(tableIndex)) };
+    } catch (error) {
+      console.error(`Failed to get content of table ${tableIndex}:`, error);
+      throw new Error(`Failed to get table content. Error: ${error}`);
+    }
+  }
+
+  private readTableContent(doc: any, table: any): ContentCell[][] {
+    // Walk Range.Cells rather than Rows/Columns, which fail on tables with merged cells
+    const rows: ContentCell[][] = [];
+    const cells = table.Range.Cells;
+    for (let i = 1; i <= cells.Count; i++) {
+      const cell = cells.Item(i);
+      const blocks: ContentBlock[] = [];
+      const paragraphs = cell.Range.Paragraphs;
+      for (let j = 1; j <= paragraphs.Count; j++) {
+        blocks.push(this.readParagraphContent(doc, paragraphs.Item(j)));
+      }
+      (rows[cell.RowIndex - 1] ??= []).push({ blocks });
+    }
+    return rows.filter(row => row);
+  }
+
+  private readParagraphContent(doc: any, paragraph: any, clipStart?: number, clipEnd?: number): ContentParagraph {
+    const range = paragraph.Range;
+    const alignment = paragraph.Alignment;
+    const outlineLevel = paragraph.OutlineLevel; // wdOutlineLevelBodyText = 10
+    // WdListType: 0 = none, 2 = bullet, 6 = picture bullet, other values are numbered
+    const listType = range.ListFormat.ListType;
+    return {
+      type: 'paragraph',
+      style: paragraph.Style.NameLocal,
+      headingLevel: outlineLevel >= 1 && outlineLevel <= 9 ? outlineLevel : undefined,
+      list: listType ? { level: range.ListFormat.ListLevelNumber, ordered: listType !== 2 && listType !== 6 } : undefined,
+      alignment: alignment >= 0 && alignment <= 9 ? alignment : undefined,
+      runs: this.readRunContent(doc, range, clipStart, clipEnd),
+    };
+  }
+
+  /**
+   * Splits a paragraph range into runs at hyperlink, picture and formatting boundaries.
+   */
+  private readRunContent(doc: any, range: any, clipStart: number = range.Start, clipEnd: number = range.End): ContentRun[] {
+    const start = Math.max(range.Start, clipStart);
+    const end = Math.min(range.End - 1, clipEnd); // Without the paragraph mark
+    const boundaries = new Set<number>([start, end]);
+
+    const links: { start: number; end: number; target: string }[] = [];
+    for (let i = 1; i <= range.Hyperlinks.Count; i++) {
+      const link = range.Hyperlinks.Item(i);
+      const target = link.Address ? `${link.Address}${link.SubAddress ? `#${link.SubAddress}` : ''}` : `#${link.SubAddress}`;
+      links.push({ start: link.Range.Start, end: link.Range.End, target });
+      boundaries.add(link.Range.Start);
+      boundaries.add(link.Range.End);
+    }
+
+    const pictures = new Map<number, ContentPicture>();
+    for (let i = 1; i <= range.InlineShapes.Count; i++) {
+      const shape = range.InlineShapes.Item(i);
+      if (shape.Type !== 3 && shape.Type !== 4) continue; // wdInlineShapePicture = 3, wdInlineShapeLinkedPicture = 4
+      pictures.set(shape.Range.Start, {
+        filePath: shape.Type === 4 ? shape.LinkFormat.SourceFullName : undefined,
+        altText: shape.AlternativeText || undefined,
+        width: shape.Width,
+        height: shape.Height,
+      });
+      boundaries.add(shape.Range.Start);
+      boundaries.add(shape.Range.End);
+    }
+
+    const runs: ContentRun[] = [];
+    const points = [...boundaries].filter(p => p >= start && p <= end).sort((a, b) => a - b);
+    for (let i = 0; i < points.length - 1; i++) {
+      const [segmentStart, segmentEnd] = [points[i], points[i + 1]];
+      const hyperlink = links.find(link => segmentStart >= link.start && segmentEnd <= link.end)?.target;
+      const picture = pictures.get(segmentStart);
+      if (picture && segmentEnd === segmentStart + 1) {
+        runs.push({ text: '', picture, hyperlink });
+      } else {
+        this.readFormattedRuns(doc.Range(segmentStart, segmentEnd), hyperlink, runs, false);
+      }
+    }
+    return runs;
+  }
+
+  private readFormattedRuns(range: any, hyperlink: string | undefined, runs: ContentRun[], byCharacter: boolean): void {
+    const wdUndefined = 9999999;
+    const mixed = range.Bold === wdUndefined || range.Italic === wdUndefined || range.Underline === wdUndefined;
+    if (mixed && range.End - range.Start > 1) {
+      // Split by words first, and only mixed words by character
+      const units = byCharacter ? range.Characters : range.Words;
+      for (let i = 1; i <= units.Count; i++) {
+        this.readFormattedRuns(units.Item(i), hyperlink, runs, true);
+      }
+      return;
+    }
+    runs.push({
+      text: String(range.Text).replace(/[\r\u0007]/g, ''),
+      bold: range.Bold === -1 || range.Bold === true,
+      italic: range.Italic === -1 || range.Italic === true,
+      underline: range.Underline > 0 && range.Underline !== wdUndefined,
+      code: isMonospaceFont(range.Font.Name),
+      hyperlink,
+    });
+  }
+
+  /**
+   * Inserts content (paragraphs, runs, tables) at the selection as document structure.
+   * The paragraph at the selection is split so the content stands on its own paragraphs.
+   * @param blocks The content to insert. Pictures are inserted from their filePath (a path or URL);
+   * pictures that cannot be inserted are typed as their alt text.
+   */
+  public async insertContent(blocks: ContentBlock[]): Promise<void> {
+    const doc = await this.getActiveDocument();
+    let temporaryFiles: string[] = [];
+    try {
+      const selection = doc.ActiveWindow.Selection;
+      if (selection.Type !== 1) { // wdSelectionIP = 1
+        selection.Delete();
+      }
+      temporaryFiles = await this.writePictureFiles(blocks);
+      for (const block of blocks) {
+        this.openEmptyParagraph(selection);
+        if (block.type === 'paragraph') {
+          this.formatContentParagraph(doc, selection.Paragraphs.Item(1), block);
+          this.typeContentRuns(doc, selection, block.runs);
+        } else if (block.rows.length > 0) {
+          this.insertContentTable(doc, selection, block);
+        }
+      }
+    } catch (error) {
+      console.error("Failed to insert content:", error);
+      throw new Error(`Failed to insert content. Error: ${error}`);
+    } finally {
+      await Promise.all(temporaryFiles.map(file => fs.rm(file, { force: true })));
+    }
+  }
+
+  /**
+   * Writes pictures given as data to temporary files, since AddPicture only reads files and URLs.
+   * @returns The files written, to delete after inserting.
+   */
+  private async writePictureFiles(blocks: ContentBlock[], files: string[] = []): Promise<string[]> {
+    for (const block of blocks) {
+      if (block.type === 'table') {
+        for (const cell of block.rows.flat()) {
+          await this.writePictureFiles(cell.blocks, files);
+        }
+        continue;
+      }
+      for (const run of block.runs) {
+        if (run.picture?.data && !run.picture.filePath) {
+          const extension = readImageInfo(run.picture.data)?.format ?? 'png';
+          run.picture.filePath = path.join(os.tmpdir(), `word-mcp-picture-${process.pid}-${files.length}.${extension}`);
+          await fs.writeFile(run.picture.filePath, run.picture.data);
+          files.push(run.picture.filePath);
+        }
+      }
+    }
+    return files;
+  }
+
+  private formatContentParagraph(doc: any, paragraph: any, block: ContentParagraph): void {
+    paragraph.Style = this.contentStyle(doc, block);
+    if (block.alignment !== undefined) {
+      paragraph.Alignment = block.alignment;
+    }
+  }
+
+  /**
+   * Moves text before and after the insertion point to their own paragraphs, leaving it in an empty paragraph.
+   */
+  private openEmptyParagraph(selection: any): void {
+    if (selection.Start > selection.Paragraphs.Item(1).Range.Start) {
+      selection.TypeParagraph();
+    }
+    if (selection.Paragraphs.Item(1).Range.End - 1 > selection.Start) {
+      selection.TypeParagraph();
+      selection.MoveLeft(1, 1); // wdCharacter = 1
+    }
+  }
+
+  /**
+   * Resolves the style of a content paragraph, preferring built-in styles so localized Word versions work.
+   */
+  private contentStyle(doc: any, paragraph: ContentParagraph): any {
+    // WdBuiltinStyle: wdStyleHeading1..9 = -2..-10, wdStyleListBullet(2-5) and wdStyleListNumber(2-5)
+    const listBullet = [-49, -55, -56, -57, -58];
+    const listNumber = [-50, -59, -60, -61, -62];
+    if (paragraph.headingLevel) {
+      return doc.Styles.Item(-1 - paragraph.headingLevel);
+    }
+    if (paragraph.list) {
+      const level = Math.min(Math.max(paragraph.list.level, 1), 5) - 1;
+      return doc.Styles.Item(paragraph.list.ordered ? listNumber[level] : listBullet[level]);
+    }
+    const builtIn: { [name: string]: number } = { 'Normal': -1, 'Quote': -181 };
+    return doc.Styles.Item(builtIn[paragraph.style] ?? paragraph.style);
+  }
+
+  private typeContentRuns(doc: any, selection: any, runs: ContentRun[]): void {
+    for (const run of runs) {
+      const start = selection.Start;
+      if (run.picture) {
+        const { filePath, altText, width, height } = run.picture;
+        try {
+          const shape = selection.InlineShapes.AddPicture(filePath, false, true);
+          if (width > 0) shape.Width = width;
+          if (height > 0) shape.Height = height;
+          if (altText) shape.AlternativeText = altText;
+        } catch (error) {
+          console.error(`Typing alt text for picture ${filePath}:`, error);
+          selection.TypeText(altText || filePath || '');
+        }
+      } else {
+        selection.Font.Reset(); // Back to the paragraph style's font before applying the run's formatting
+        selection.Font.Bold = run.bold ? -1 : 0;
+        selection.Font.Italic = run.italic ? -1 : 0;
+        selection.Font.Underline = run.underline ? 1 : 0; // wdUnderlineSingle = 1
+        if (run.code) selection.Font.Name = CODE_FONT;
+        selection.TypeText(run.text.replace(/\r\n|\r|\n/g, '\v'));
+      }
+      if (run.hyperlink && selection.Start > start) {
+        const [address, subAddress] = run.hyperlink.startsWith('#') ? ['', run.hyperlink.slice(1)] : [run.hyperlink, ''];
+        doc.Hyperlinks.Add(doc.Range(start, selection.Start), address, subAddress);
+        selection.SetRange(selection.End, selection.End);
+      }
+    }
+    selection.Font.Reset();
+  }
+
+  private insertContentTable(doc: any, selection: any, table: ContentTable): void {
+    const columns = Math.max(...table.rows.map(row => row.length));
+    const wordTable = doc.Tables.Add(selection.Range, table.rows.length, columns);
+    wordTable.Borders.Enable = true;
+    table.rows.forEach((row, r) => {
+      row.forEach((cell, c) => {
+        wordTable.Cell(r + 1, c + 1).Range.Select();
+        selection.Collapse(1); // wdCollapseStart = 1
+        cell.blocks.forEach((block, i) => {
+          if (block.type !== 'paragraph') return; // Nested tables are not inserted
+          if (i > 0) selection.TypeParagraph();
+          this.formatContentParagraph(doc, selection.Paragraphs.Item(1), block);
+          this.typeContentRuns(doc, selection, block.runs);
+        });
+      });
+    });
+    // Continue after the table
+    const tableEnd = wordTable.Range.End;
+    doc.Range(tableEnd, tableEnd).Select();
+  }
+
+  // --- Add more methods for other Word operations ---
+
+}
+
+// WdBorderType of the border sides
+const BORDER_TYPES: { [side: string]: number } = { top: -1, left: -2, bottom: -3, right: -4, insideHorizontal: -5, insideVertical: -6 };
+const WD_COLOR_AUTOMATIC = -16777216;
+
+/**
+ * Converts an RRGGBB color to a WdColor, which is 0xBBGGRR.
+ */
+function wdColor(color: string): number {
+  const rgb = parseInt(color, 16);
+  return ((rgb & 0xff) << 16) | (rgb & 0xff00) | ((rgb >> 16) & 0xff);
+}
+
+/**
+ * Text of a cell without its end-of-cell mark, paragraphs separated by \n.
+ */
+function cellText(cell: any): string {
+  return String(cell.Range.Text).replace(/\r\x07$/, '').replace(/\x07/g, '').replace(/\r/g, '\n');
+}
+
+/**
+ * Lays out the cells Word reports row by row on the table grid. Word leaves out the cells covered by a
+ * vertically merged cell, so a gap in the column indexes continues the cell above at that position;
+ * grid columns come from the cell widths, as Word does not report horizontal spans.
+ */
+function layoutTableCells(rows: { colIndex: number; width: number; text: string }[][]): TableData {
+  type Slot = { item: TableCellData; left: number; right: number };
+  const placed: Slot[] = [];
+  let above: Slot[] = [];
+  rows.forEach((row, r) => {
+    const current: Slot[] = [];
+    let left = 0;
+    // Takes the cell above starting where the row has got to; false when there is none
+    const continueAbove = (): boolean => {
+      const slot = above.find(s => Math.abs(s.left - left) < 1);
+      if (!slot) return false;
+      if (slot.item.rowIndex + slot.item.rowSpan === r + 1) slot.item.rowSpan++;
+      current.push(slot);
+      left = slot.right;
+      return true;
+    };
+    let colIndex = 1;
+    for (const cell of row) {
+      for (; colIndex < cell.colIndex && continueAbove(); colIndex++);
+      const slot = { item: { rowIndex: r + 1, colIndex: cell.colIndex, column: 0, rowSpan: 1, colSpan: 1, text: cell.text }, left, right: left + cell.width };
+      placed.push(slot);
+      current.push(slot);
+      left = slot.right;
+      colIndex = cell.colIndex + 1;
+    }
+    const width = above.length ? above[above.length - 1].right : 0;
+    while (left < width - 1 && continueAbove());
+    above = current;
+  });
+  // Grid lines are the cell edges of all rows; edges less than a point apart are the same line
+  const edges = placed.flatMap(slot => [slot.left, slot.right]).sort((a, b) => a - b)
+    .filter((edge, i, all) => i === 0 || edge - all[i - 1] >= 1);
+  const gridLine = (x: number) => edges.findIndex(edge => Math.abs(edge - x) < 1);
+  for (const slot of placed) {
+    slot.item.column = gridLine(slot.left) + 1;
+    slot.item.colSpan = Math.max(1, gridLine(slot.right) - gridLine(slot.left));
+  }
+  return { rows: rows.length, columns: Math.max(0, edges.length - 1), cells: placed.map(slot => slot.item) };
+}
+
+// Backend used by all tools. Defaults to COM interop; index.ts may swap it at startup.
+// Exported as a live binding so tool modules always see the selected backend.
+export let wordService: WordBackend = new WordService();
+
+/**
+ * Replaces the backend used by the tools. Must be called before the server starts handling requests.
+ * @param backend The backend implementation to use.
+ */
+export function setWordBackend(backend: WordBackend): void {
+  wordService = backend;
+}
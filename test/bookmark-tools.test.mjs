@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect, call, callError, createDocument, paragraphs } from "./helpers.mjs";
+
+test("adds bookmarks and replaces their text", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  await call(client, "word_insertText", { text: "Dear NAME,\nThanks." });
+  await call(client, "word_addBookmark", { name: "Recipient", range: { type: "search", text: "NAME" } });
+  assert.equal(await call(client, "word_listBookmarks"), "1 bookmark(s):\nRecipient (5-9): \"NAME\"");
+  await call(client, "word_goToBookmark", { name: "Recipient" });
+  assert.match(await call(client, "word_getSelectionText"), /NAME$/);
+
+  await call(client, "word_setBookmarkText", { name: "Recipient", text: "Ms Smith" });
+  assert.deepEqual(await paragraphs(client, id), ["Dear Ms Smith,", "Thanks."]);
+  // The bookmark grows with its new text, so it can be filled again
+  assert.equal(await call(client, "word_listBookmarks"), "1 bookmark(s):\nRecipient (5-13): \"Ms Smith\"");
+  await call(client, "word_toggleBold", { range: { type: "bookmark", name: "Recipient" } });
+  assert.equal(await call(client, "word_exportMarkdown"), "Dear **Ms Smith**,\n\nThanks.\n");
+  await client.close();
+});
+
+test("rejects bad names and deletes bookmarks", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  await call(client, "word_insertText", { text: "Kept text" });
+  assert.match(await callError(client, "word_addBookmark", { name: "1bad" }), /Bad bookmark name: "1bad"/);
+  assert.match(await callError(client, "word_goToBookmark", { name: "Missing" }), /Bookmark not found: Missing/);
+  await call(client, "word_addBookmark", { name: "Kept", range: { type: "paragraphs", start: 1 } });
+  assert.match(await callError(client, "word_deleteBookmarks"), /Specify name or all/);
+  assert.equal(await call(client, "word_deleteBookmarks", { all: true }), "Successfully deleted 1 bookmark(s). Their text stays in the document.");
+  assert.equal(await call(client, "word_listBookmarks"), "The document has no bookmarks.");
+  assert.deepEqual(await paragraphs(client, id), ["Kept text"]);
+  await client.close();
+});
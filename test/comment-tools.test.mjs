@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect, call, callError, createDocument } from "./helpers.mjs";
+
+test("adds, replies to and resolves comments", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "The budget is final.\nSecond." });
+  await call(client, "word_addComment", { text: "Check this", author: "Ann Lee", range: { type: "search", text: "budget" } });
+  await call(client, "word_addComment", { text: "Typo?", author: "Bob", range: { type: "paragraphs", start: 2 } });
+  assert.equal(
+    await call(client, "word_replyToComment", { commentIndex: 1, text: "Done", author: "Bob" }),
+    "Successfully replied to comment 1. The reply is comment 2."
+  );
+  await call(client, "word_resolveComment", { commentIndex: 1 });
+
+  const list = await call(client, "word_listComments");
+  assert.match(list, /^2 comment thread\(s\)/);
+  assert.match(list, /\[1\] Ann Lee \(AL\), [^,]+, resolved on "budget" \(4-10\): Check this\n  \[2\] Bob \(B\), [^,]+, open: Done\n\[3\] Bob/);
+  const open = await call(client, "word_listComments", { includeResolved: false });
+  assert.match(open, /^1 comment thread\(s\)/);
+  assert.match(open, /\[3\] Bob \(B\), [^,]+, open on "Second\." \(21-28\): Typo\?/);
+  await client.close();
+});
+
+test("deletes comments by index, author or all", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "One.\nTwo." });
+  await call(client, "word_addComment", { text: "First", author: "Ann", range: { type: "paragraphs", start: 1 } });
+  await call(client, "word_addComment", { text: "Second", author: "Bob", range: { type: "paragraphs", start: 2 } });
+  await call(client, "word_replyToComment", { commentIndex: 1, text: "Reply", author: "Bob" });
+
+  assert.match(await callError(client, "word_deleteComments"), /Specify commentIndex, author or all/);
+  assert.match(await callError(client, "word_deleteComments", { commentIndex: 5 }), /Comment index 5 is out of bounds \(1-3\)/);
+  assert.equal(await call(client, "word_deleteComments", { author: "bob" }), "Successfully deleted 2 comment(s) with their replies.");
+  assert.match(await call(client, "word_listComments"), /^1 comment thread\(s\), \[comment index\]:\n\[1\] Ann \(A\), [^\n]*: First$/);
+  await call(client, "word_deleteComments", { all: true });
+  assert.equal(await call(client, "word_listComments"), "The document has no comments.");
+  await client.close();
+});
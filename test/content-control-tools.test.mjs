@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect, call, callError, createDocument, paragraphs } from "./helpers.mjs";
+
+test("inserts content controls and fills them by tag", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  await call(client, "word_insertText", { text: "Client: [client]\nDate: [date]\nPlan: [plan]\n I agree" });
+  await call(client, "word_insertContentControl", { type: "plainText", tag: "client", title: "Client", range: { type: "search", text: "[client]" } });
+  await call(client, "word_insertContentControl", { type: "date", tag: "date", dateFormat: "MMMM d, yyyy", range: { type: "search", text: "[date]" } });
+  await call(client, "word_insertContentControl", { type: "dropdown", tag: "plan", entries: ["Basic", "Pro"], range: { type: "search", text: "[plan]" } });
+  assert.equal(
+    await call(client, "word_insertContentControl", { type: "checkbox", tag: "agreed", range: { type: "paragraphs", start: 4 } }),
+    "Successfully inserted checkbox content control 4."
+  );
+  assert.match(await call(client, "word_listContentControls"), /^4 content control\(s\), \[content control index\]:\n\[1\] plainText \(id \d+, tag "client", title "Client"\) \(8-16\): "\[client\]"\n/);
+
+  await call(client, "word_setContentControlValue", { tag: "CLIENT", value: "Acme" });
+  await call(client, "word_setContentControlValue", { tag: "date", value: "2026-03-05" });
+  await call(client, "word_setContentControlValue", { tag: "plan", value: "Pro" });
+  await call(client, "word_setContentControlValue", { tag: "agreed", value: true });
+  assert.deepEqual(await paragraphs(client, id), ["Client: Acme", "Date: March 5, 2026", "Plan: Pro", "☒ I agree"]);
+  assert.match(await call(client, "word_listContentControls", { tag: "plan" }), /^1 content control\(s\).*\n\[3\] dropdown \(id \d+, tag "plan", items: Basic \| Pro\) \(\d+-\d+\): "Pro"$/);
+  await client.close();
+});
+
+test("rejects values a content control does not take", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "Plan: [plan]" });
+  await call(client, "word_insertContentControl", { type: "dropdown", tag: "plan", entries: ["Basic", "Pro"], range: { type: "search", text: "[plan]" } });
+  assert.match(await callError(client, "word_setContentControlValue", { value: "Pro" }), /Specify tag, title or index/);
+  assert.match(await callError(client, "word_setContentControlValue", { index: 9, value: "Pro" }), /No content controls match the filter/);
+  assert.match(await callError(client, "word_setContentControlValue", { tag: "plan", value: "Gold" }), /"Gold" is not an item of the dropdown list \(Basic, Pro\)/);
+  assert.match(await callError(client, "word_setContentControlValue", { tag: "plan", value: true }), /Only checkboxes take true or false/);
+  assert.equal(await call(client, "word_listContentControls", { title: "none" }), "No content controls match the filter.");
+  await client.close();
+});
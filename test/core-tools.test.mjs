@@ -0,0 +1,151 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { connect, call, callError, createDocument, paragraphs } from "./helpers.mjs";
+
+// A 1x1 transparent PNG
+const PIXEL_PNG = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+test("inserts, replaces and reads text", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  await call(client, "word_insertText", { text: "Hello world\nSecond line" });
+  assert.deepEqual(await paragraphs(client, id), ["Hello world", "Second line"]);
+
+  await call(client, "word_findAndReplace", { findText: "world", replaceText: "there" });
+  assert.deepEqual(await paragraphs(client, id), ["Hello there", "Second line"]);
+
+  await call(client, "word_moveCursorToEnd");
+  await call(client, "word_deleteText", { count: -5 });
+  assert.deepEqual(await paragraphs(client, id), ["Hello there", "Second"]);
+  await client.close();
+});
+
+test("formats the selection", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "Hello world" });
+  await call(client, "word_selectAll");
+  assert.match(await call(client, "word_getSelectionText"), /Hello world/);
+  await call(client, "word_toggleBold");
+  assert.equal(await call(client, "word_exportMarkdown"), "**Hello world**\n");
+  await client.close();
+});
+
+test("builds and reads a table", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_addTable", { numRows: 2, numCols: 2 });
+  await call(client, "word_setTableCellText", { tableIndex: 1, rowIndex: 1, colIndex: 2, text: "B1" });
+  await call(client, "word_setTableCellText", { tableIndex: 1, rowIndex: 2, colIndex: 1, text: "A2" });
+  const table = await call(client, "word_getTable", { tableIndex: 1 });
+  assert.match(table, /B1/);
+  assert.match(table, /A2/);
+  await client.close();
+});
+
+test("saves, closes and reopens a document", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "Kept" });
+  await call(client, "word_saveActiveDocumentAs", { filePath: "/tmp/mcp-test-core.docx" });
+  await call(client, "word_closeActiveDocument");
+  assert.match(await callError(client, "word_getDocumentText"), /No active document/);
+
+  const opened = await call(client, "word_openDocument", { filePath: "/tmp/mcp-test-core.docx" });
+  const id = opened.match(/documentId: ([^)]+)/)[1];
+  assert.deepEqual(await paragraphs(client, id), ["Kept"]);
+  await client.close();
+});
+
+test("acts on a document by id without activating it", async () => {
+  const client = await connect();
+  const first = await createDocument(client);
+  const second = await createDocument(client);
+  await call(client, "word_insertText", { text: "Into the first", documentId: first });
+  assert.deepEqual(await paragraphs(client, first), ["Into the first"]);
+  assert.deepEqual(await paragraphs(client, second), [""]);
+  assert.match(await call(client, "word_listDocuments"), new RegExp(`${second}: .*\\[active\\]`));
+  assert.match(await callError(client, "word_getDocumentText", { documentId: "missing" }), /Document not found: missing/);
+  await client.close();
+});
+
+test("keeps the target document of concurrent calls apart", async () => {
+  const client = await connect();
+  const first = await createDocument(client);
+  const second = await createDocument(client);
+  const active = await createDocument(client);
+  await Promise.all([
+    call(client, "word_insertText", { text: "First", documentId: first }),
+    call(client, "word_insertText", { text: "Second", documentId: second }),
+  ]);
+  await call(client, "word_insertText", { text: "Active" });
+  assert.deepEqual(await paragraphs(client, first), ["First"]);
+  assert.deepEqual(await paragraphs(client, second), ["Second"]);
+  assert.deepEqual(await paragraphs(client, active), ["Active"]);
+  await client.close();
+});
+
+test("acts on a range without moving the selection, also for concurrent calls", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  const picture = path.join(os.tmpdir(), "mcp-test-pixel.png");
+  await fs.writeFile(picture, Buffer.from(PIXEL_PNG, "base64"));
+  await call(client, "word_insertText", { text: "one\ntwo\nthree" });
+  await call(client, "word_moveCursorToEnd");
+  // The picture is read from disk while the range is the target, the text goes in meanwhile
+  const inserted = call(client, "word_insertPicture", { filePath: picture, range: { type: "search", text: "two" } });
+  await new Promise(resolve => setImmediate(resolve));
+  await Promise.all([
+    inserted,
+    call(client, "word_insertText", { text: "!" }),
+    call(client, "word_toggleBold", { range: { type: "paragraphs", start: 3 } }),
+  ]);
+  assert.deepEqual(await paragraphs(client, id), ["one", "\u0001", "three!"]);
+  assert.match(await call(client, "word_getSelectionInfo"), /Start Position: 12\n- End Position: 12/);
+  assert.match(await call(client, "word_exportMarkdown"), /\*\*three/);
+  const error = await callError(client, "word_toggleBold", { range: { type: "search", text: "four" } });
+  assert.match(error, /Failed to resolve range\. Error: Occurrence 1 of "four" not found\.$/);
+  assert.doesNotMatch(error, /Error: Error/);
+  await client.close();
+});
+
+test("pages through the document text", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "alpha\nbeta\ngamma\ndelta" });
+  assert.equal(
+    await call(client, "word_getDocumentText", { offset: 1, limit: 2 }),
+    "Paragraphs 2-3 of 4:\n[2] (Normal) 6-11: beta\n[3] (Normal) 11-17: gamma\nMore paragraphs available. Call again with offset=3."
+  );
+  assert.match(await call(client, "word_getDocumentText", { maxChars: 7 }), /^Paragraphs 1-1 of 4:\n\[1\] \(Normal\) 0-6: alpha\nMore paragraphs available\. Call again with offset=1\.$/);
+  assert.equal(await call(client, "word_getDocumentText", { offset: 9 }), "No paragraphs at offset 9. The document has 4 paragraph(s).");
+  await client.close();
+});
+
+test("keeps the selection on its text when replacing before it", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  await call(client, "word_insertText", { text: "a b" });
+  await call(client, "word_findAndReplace", { findText: "a", replaceText: "xxxx" });
+  assert.match(await call(client, "word_getSelectionInfo"), /Start Position: 6\n- End Position: 6/);
+  await call(client, "word_insertText", { text: "END" });
+  assert.deepEqual(await paragraphs(client, id), ["xxxx bEND"]);
+  await client.close();
+});
+
+test("keeps the selection on its text when editing a table before it", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  await call(client, "word_addTable", { numRows: 1, numCols: 2 });
+  await call(client, "word_moveCursorToEnd");
+  await call(client, "word_insertText", { text: "after" });
+  await call(client, "word_insertTableRow", { tableIndex: 1 });
+  await call(client, "word_setTableCellText", { tableIndex: 1, rowIndex: 1, colIndex: 1, text: "hello world" });
+  await call(client, "word_insertTableFromData", { tableIndex: 1, mode: "append", data: [["y", "z"]] });
+  await call(client, "word_insertText", { text: " text" });
+  assert.deepEqual(await paragraphs(client, id), ["hello world", "", "", "", "y", "z", "after text"]);
+  await client.close();
+});
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { DocxWordService } from "../dist/word/docx-word-service.js";
+import { connect, call, callError, createDocument, paragraphs } from "./helpers.mjs";
+
+test("builds a table from CSV with quoted values", async () => {
+  const client = await connect();
+  await createDocument(client);
+  const csv = 'Item,Note\n"Apples, red","He said ""fresh""\nand ripe"\nPears,5" long\n';
+  await call(client, "word_insertTableFromData", { csv });
+  assert.deepEqual(JSON.parse(await call(client, "word_getTable", { tableIndex: 1 })), [
+    ["Item", "Note"],
+    ["Apples, red", 'He said "fresh"\nand ripe'],
+    ["Pears", '5" long'],
+  ]);
+  assert.match(await callError(client, "word_insertTableFromData", { csv: 'a,"b\n' }), /unclosed quote/);
+  await client.close();
+});
+
+test("merges CSV records with a detected separator into a new document", async () => {
+  const client = await connect();
+  const main = await createDocument(client);
+  await call(client, "word_insertText", { text: "Dear NAME," });
+  const result = await call(client, "word_mailMerge", {
+    csv: 'Name;City\n"Doe; Jane";Oslo\nBob;"Rome"\n',
+    insertFields: [{ field: "Name", range: { type: "search", text: "NAME" } }],
+    documentId: main,
+  });
+  const merged = result.match(/documentId: ([^)]+)/)[1];
+  assert.deepEqual((await paragraphs(client, merged)).filter(text => text !== ""), ["Dear Doe; Jane,", "Dear Bob,"]);
+  await client.close();
+});
+
+test("rejects merging to files on the in-memory backend", async () => {
+  const client = await connect();
+  await createDocument(client);
+  const error = await callError(client, "word_mailMerge", { csv: "Name\nBob\n", destination: "files", outputPath: "/tmp/mcp-test-merge/{Name}.docx" });
+  assert.match(error, /does not write files/);
+  await client.close();
+});
+
+test("closes the merged documents when saving a file fails", async () => {
+  const client = await connect(new DocxWordService());
+  const main = await createDocument(client);
+  const blocker = path.join(os.tmpdir(), "mcp-test-merge-blocker");
+  await fs.writeFile(blocker, "");
+  const error = await callError(client, "word_mailMerge", { csv: "Name\nBob\n", destination: "files", outputPath: path.join(blocker, "{Name}.docx") });
+  assert.match(error, /Failed to run mail merge/);
+  const documents = await call(client, "word_listDocuments");
+  assert.equal(documents.trim().split("\n").length, 1);
+  assert.match(documents, new RegExp(`^${main}: .*\\[active\\]`));
+  await client.close();
+});
+
+test("saves the merged document to a new folder, relative to the working directory", async () => {
+  const client = await connect(new DocxWordService());
+  await createDocument(client);
+  const folder = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-test-merge-"));
+  const outputPath = path.relative(process.cwd(), path.join(folder, "letters", "all.docx"));
+  const result = await call(client, "word_mailMerge", { csv: "Name\nBob\n", outputPath });
+  assert.equal(result.match(/ and saved it to (\S+)\.$/)?.[1], path.join(folder, "letters", "all.docx"));
+  assert.equal((await fs.readFile(path.join(folder, "letters", "all.docx"))).subarray(0, 2).toString(), "PK");
+  await client.close();
+  await fs.rm(folder, { recursive: true });
+});
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect, call, createDocument } from "./helpers.mjs";
+
+test("lists and reads the resources of documents with the same name apart", async () => {
+  const client = await connect();
+  const first = await createDocument(client);
+  await call(client, "word_insertText", { text: "From the first folder" });
+  await call(client, "word_saveActiveDocumentAs", { filePath: "/tmp/mcp-test-a/report.docx" });
+  const second = await createDocument(client);
+  await call(client, "word_insertText", { text: "From the second folder" });
+  await call(client, "word_saveActiveDocumentAs", { filePath: "/tmp/mcp-test-b/report.docx" });
+
+  const { resources } = await client.listResources();
+  const textUris = resources.filter(resource => resource.uri.endsWith("/text")).map(resource => resource.uri);
+  assert.deepEqual(textUris, [`word://documents/${first}/text`, `word://documents/${second}/text`]);
+
+  const read = async uri => (await client.readResource({ uri })).contents[0].text;
+  assert.equal(await read(`word://documents/${first}/text`), "From the first folder");
+  assert.equal(await read(`word://documents/${second}/text`), "From the second folder");
+
+  const documents = JSON.parse(await read("word://documents"));
+  assert.deepEqual(documents.map(doc => [doc.id, doc.name, doc.textUri]), [
+    [first, "report.docx", `word://documents/${first}/text`],
+    [second, "report.docx", `word://documents/${second}/text`],
+  ]);
+  await assert.rejects(client.readResource({ uri: "word://documents/missing/text" }), /Document not found: missing/);
+  await client.close();
+});
+
+test("reads the outline and tables of a document", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  await call(client, "word_insertMarkdown", { markdown: "# Intro\n\n| a | b |\n|---|---|\n| 1 | 2 |\n" });
+  const read = async uri => (await client.readResource({ uri })).contents[0].text;
+  assert.match(await read(`word://documents/${id}/outline`), /^- Intro \(paragraph 1/);
+  assert.match(await read(`word://documents/${id}/tables/1`), /\| \*\*a\*\* \| \*\*b\*\* \|/);
+  const completion = await client.complete({ ref: { type: "ref/resource", uri: "word://documents/{documentId}/text" }, argument: { name: "documentId", value: "do" } });
+  assert.deepEqual(completion.completion.values, [id]);
+  await client.close();
+});
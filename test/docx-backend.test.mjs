@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import JSZip from "jszip";
+import { DocxWordService } from "../dist/word/docx-word-service.js";
+import { connect, call, createDocument, paragraphs } from "./helpers.mjs";
+
+test("saves a .docx file and opens it again", async () => {
+  const client = await connect(new DocxWordService());
+  const folder = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-test-docx-"));
+  const filePath = path.join(folder, "letter.docx");
+  await createDocument(client);
+  await call(client, "word_insertMarkdown", { markdown: "# Title\n\nSome **bold** text.\n\n| a | b |\n|---|---|\n| 1 | 2 |\n" });
+  await call(client, "word_saveActiveDocumentAs", { filePath });
+  await call(client, "word_closeActiveDocument");
+  assert.equal((await fs.readFile(filePath)).subarray(0, 2).toString(), "PK");
+
+  const opened = await call(client, "word_openDocument", { filePath });
+  const id = opened.match(/documentId: ([^)]+)/)[1];
+  assert.deepEqual((await paragraphs(client, id)).slice(0, 2), ["Title", "Some bold text."]);
+  assert.equal(await call(client, "word_exportMarkdown"), "# Title\n\nSome **bold** text.\n\n| **a** | **b** |\n| --- | --- |\n| 1 | 2 |\n");
+  await client.close();
+  await fs.rm(folder, { recursive: true });
+});
+
+test("saves plain text", async () => {
+  const client = await connect(new DocxWordService());
+  const folder = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-test-docx-"));
+  const filePath = path.join(folder, "notes.txt");
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "First\nSecond" });
+  await call(client, "word_saveActiveDocumentAs", { filePath });
+  assert.equal(await fs.readFile(filePath, "utf8"), "First\r\nSecond\r\n");
+  await client.close();
+  await fs.rm(folder, { recursive: true });
+});
+
+test("saves Markdown lists as numbered paragraphs", async () => {
+  const client = await connect(new DocxWordService());
+  const folder = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-test-docx-"));
+  const filePath = path.join(folder, "list.docx");
+  await createDocument(client);
+  await call(client, "word_insertMarkdown", { markdown: "- a\n  1. b\n" });
+  await call(client, "word_saveActiveDocumentAs", { filePath });
+  await call(client, "word_closeActiveDocument");
+
+  await call(client, "word_openDocument", { filePath });
+  assert.equal(
+    await call(client, "word_getDocumentText"),
+    'Paragraphs 1-2 of 2:\n[1] (List Bullet, list level 1 "•") 0-2: a\n[2] (List Number 2, list level 2 "a.") 2-4: b'
+  );
+  await client.close();
+  await fs.rm(folder, { recursive: true });
+});
+
+test("saves a tracked field as one insertion, with unique annotation ids", async () => {
+  const client = await connect(new DocxWordService());
+  const folder = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-test-docx-"));
+  const filePath = path.join(folder, "tracked.docx");
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "Total: 42" });
+  await call(client, "word_addBookmark", { name: "Total", range: { type: "search", text: "42" } });
+  await call(client, "word_setTrackChanges", { enabled: true });
+  await call(client, "word_moveCursorToEnd");
+  await call(client, "word_insertText", { text: " Year: " });
+  await call(client, "word_insertField", { type: "DATE", switches: '\\@ "yyyy"' });
+  await call(client, "word_saveActiveDocumentAs", { filePath });
+  await call(client, "word_closeActiveDocument");
+
+  const xml = await (await JSZip.loadAsync(await fs.readFile(filePath))).file("word/document.xml").async("string");
+  // The field code is inside the insertion along with the result
+  assert.match(xml, /<w:ins [^>]*>(?:(?!<\/w:ins>).)*w:fldCharType="begin"(?:(?!<\/w:ins>).)*w:fldCharType="end"/s);
+  const ids = [...xml.matchAll(/<w:(?:ins|del|bookmarkStart) [^>]*w:id="(\d+)"/g)].map(match => match[1]);
+  assert.equal(ids.length, 3);
+  assert.equal(new Set(ids).size, ids.length);
+
+  await call(client, "word_openDocument", { filePath });
+  assert.match(await call(client, "word_listFields"), /^1 field\(s\)/);
+  assert.equal(await call(client, "word_rejectRevisions"), "Successfully rejected 1 revision(s).");
+  assert.equal(await call(client, "word_listFields"), "The document has no fields.");
+  assert.deepEqual(await paragraphs(client), ["Total: 42"]);
+  await client.close();
+  await fs.rm(folder, { recursive: true });
+});
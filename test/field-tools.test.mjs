@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect, call, callError, createDocument, paragraphs } from "./helpers.mjs";
+
+test("inserts, updates and unlinks fields", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  const year = String(new Date().getFullYear());
+  await call(client, "word_insertText", { text: "Total: 42\nSee total. Date: " });
+  await call(client, "word_addBookmark", { name: "Total", range: { type: "search", text: "42" } });
+  await call(client, "word_moveCursorToEnd");
+  assert.equal(await call(client, "word_insertField", { type: "DATE", switches: '\\@ "yyyy"' }), `Successfully inserted field { DATE \\@ "yyyy" }, showing "${year}".`);
+  await call(client, "word_insertField", { type: "REF", argument: "Total", range: { type: "search", text: "total." } });
+  assert.equal(
+    await call(client, "word_insertField", { type: "PAGE", headerFooter: { isHeader: false }, textBefore: "Page " }),
+    'Successfully inserted field { PAGE } in the primary footer of section 1, showing "1".'
+  );
+  assert.match(await callError(client, "word_insertField", { type: "REF" }), /REF fields need an argument: a bookmark name/);
+  assert.deepEqual(await paragraphs(client, id), ["Total: 42", `See 42 Date: ${year}`]);
+  assert.equal(
+    await call(client, "word_listFields"),
+    `3 field(s), [field index]:\n[1] REF in body (14-16): { REF Total } = "42"\n[2] DATE in body (23-27): { DATE \\@ "yyyy" } = "${year}"\n[3] PAGE in section 1 primary footer (5-6): { PAGE } = "1"`
+  );
+
+  await call(client, "word_setBookmarkText", { name: "Total", text: "43" });
+  assert.equal(await call(client, "word_updateFields"), "Successfully updated 3 field(s).");
+  assert.equal(await call(client, "word_listFields", { type: "REF" }), '1 field(s), [field index]:\n[1] REF in body (14-16): { REF Total } = "43"');
+  assert.match(await callError(client, "word_unlinkFields", { indices: [9] }), /Field index 9 is out of bounds \(1-3\)/);
+  await call(client, "word_unlinkFields", { indices: [1] });
+  assert.match(await call(client, "word_listFields"), /^2 field\(s\)/);
+  assert.deepEqual(await paragraphs(client, id), ["Total: 43", `See 43 Date: ${year}`]);
+  await client.close();
+});
+
+test("tracks an inserted field with its result as one insertion", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  const year = String(new Date().getFullYear());
+  await call(client, "word_insertText", { text: "Year: " });
+  await call(client, "word_moveCursorToEnd");
+  await call(client, "word_setTrackChanges", { enabled: true });
+  await call(client, "word_insertField", { type: "DATE", switches: '\\@ "yyyy"' });
+  // An updated result stays part of the insertion
+  await call(client, "word_updateFields");
+  assert.match(await call(client, "word_listRevisions"), new RegExp(`^Track changes is on\\. 1 revision\\(s\\), \\[revision index\\]:\\n\\[1\\] Insertion by [^,]+, [^ ]+ \\(6-10\\): "${year}"$`));
+  assert.equal(await call(client, "word_rejectRevisions"), "Successfully rejected 1 revision(s).");
+  assert.equal(await call(client, "word_listFields"), "The document has no fields.");
+  assert.deepEqual(await paragraphs(client, id), ["Year: "]);
+  await client.close();
+});
@@ -0,0 +1,89 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { setWordBackend } from "../dist/word/word-service.js";
+import { MemoryWordService } from "../dist/word/memory-word-service.js";
+import { registerDocumentTools } from "../dist/tools/document-tools.js";
+import { registerTextTools } from "../dist/tools/text-tools.js";
+import { registerParagraphTools } from "../dist/tools/paragraph-tools.js";
+import { registerTableTools } from "../dist/tools/table-tools.js";
+import { registerImageTools } from "../dist/tools/image-tools.js";
+import { registerHeaderFooterTools } from "../dist/tools/header-footer-tools.js";
+import { registerPageSetupTools } from "../dist/tools/page-setup-tools.js";
+import { registerCursorSelectionTools } from "../dist/tools/cursor-selection-tools.js";
+import { registerMarkdownTools } from "../dist/tools/markdown-tools.js";
+import { registerHtmlTools } from "../dist/tools/html-tools.js";
+import { registerStyleTools } from "../dist/tools/style-tools.js";
+import { registerOutlineTools } from "../dist/tools/outline-tools.js";
+import { registerTocTools } from "../dist/tools/toc-tools.js";
+import { registerListTools } from "../dist/tools/list-tools.js";
+import { registerCommentTools } from "../dist/tools/comment-tools.js";
+import { registerRevisionTools } from "../dist/tools/revision-tools.js";
+import { registerBookmarkTools } from "../dist/tools/bookmark-tools.js";
+import { registerContentControlTools } from "../dist/tools/content-control-tools.js";
+import { registerMailMergeTools } from "../dist/tools/mail-merge-tools.js";
+import { registerTemplateTools } from "../dist/tools/template-tools.js";
+import { registerFieldTools } from "../dist/tools/field-tools.js";
+import { registerNoteTools } from "../dist/tools/note-tools.js";
+import { registerDocumentResources } from "../dist/resources/document-resources.js";
+
+/**
+ * Starts a server with all tools and resources on a fresh backend, in-memory by default, and connects a client to it.
+ */
+export async function connect(backend = new MemoryWordService()) {
+  setWordBackend(backend);
+  const server = new McpServer({ name: "test-server", version: "1.0.0" });
+  for (const register of [
+    registerDocumentTools, registerTextTools, registerParagraphTools, registerTableTools, registerImageTools,
+    registerHeaderFooterTools, registerPageSetupTools, registerCursorSelectionTools, registerMarkdownTools,
+    registerHtmlTools, registerStyleTools, registerOutlineTools, registerTocTools, registerListTools,
+    registerCommentTools, registerRevisionTools, registerBookmarkTools, registerContentControlTools,
+    registerMailMergeTools, registerTemplateTools, registerFieldTools, registerNoteTools, registerDocumentResources,
+  ]) {
+    register(server);
+  }
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+/**
+ * Calls a tool and returns its text. Throws if the tool reports an error.
+ */
+export async function call(client, name, args = {}) {
+  const result = await client.callTool({ name, arguments: args });
+  const text = result.content.map(item => item.text).join("\n");
+  if (result.isError) {
+    throw new Error(text);
+  }
+  return text;
+}
+
+/**
+ * Calls a tool that is expected to fail and returns its error text.
+ */
+export async function callError(client, name, args = {}) {
+  const result = await client.callTool({ name, arguments: args });
+  if (!result.isError) {
+    throw new Error(`${name} succeeded unexpectedly.`);
+  }
+  return result.content.map(item => item.text).join("\n");
+}
+
+/**
+ * Creates a document and returns its id.
+ */
+export async function createDocument(client) {
+  const text = await call(client, "word_createDocument");
+  return text.match(/documentId: ([^)]+)/)[1];
+}
+
+/**
+ * Gets the paragraph texts of a document.
+ */
+export async function paragraphs(client, documentId) {
+  const text = await call(client, "word_getDocumentText", { documentId, limit: 500 });
+  return text.split("\n").slice(1).map(line => line.replace(/^\[\d+\] \([^)]*\) \d+-\d+: /, ""));
+}
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect, call, createDocument, paragraphs } from "./helpers.mjs";
+
+test("inserts HTML and exports it back", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  const html = "<h2>Title</h2><p>a <b>bold</b> word</p><ul><li>item</li></ul><table><tr><td>1</td><td>2</td></tr></table>";
+  assert.equal(await call(client, "word_insertHtml", { html }), "Successfully inserted HTML as 4 block(s).");
+  assert.deepEqual((await paragraphs(client, id)).slice(0, 3), ["Title", "a bold word", "item"]);
+  assert.equal(
+    await call(client, "word_exportHtml", { fragment: true }),
+    "<h2>Title</h2>\n<p>a <strong>bold</strong> word</p>\n<ul>\n  <li>item</li>\n</ul>\n<table>\n  <tr>\n    <td>1</td>\n    <td>2</td>\n  </tr>\n</table>\n"
+  );
+  await client.close();
+});
+
+test("exports only the selection", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "first\nsecond" });
+  await call(client, "word_selectParagraph", { paragraphIndex: 2 });
+  assert.equal(await call(client, "word_exportHtml", { fragment: true, selectionOnly: true }), "<p>second</p>\n");
+  const page = await call(client, "word_exportHtml");
+  assert.match(page, /^<!DOCTYPE html>/);
+  assert.match(page, /<p>first<\/p>\n  <p>second<\/p>/);
+  await client.close();
+});
@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect, call, callError, createDocument } from "./helpers.mjs";
+
+// The list labels of the paragraphs, as reported by word_getDocumentText
+async function listLabels(client) {
+  const text = await call(client, "word_getDocumentText");
+  return text.split("\n").slice(1).map(line => line.match(/list level (\d) "([^"]*)"/)?.slice(1).join(" ") ?? "-");
+}
+
+test("numbers, indents and restarts list items", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "a\nb\nc\nd" });
+  await call(client, "word_applyList", { listType: "number", range: { type: "paragraphs", start: 1, end: 4 } });
+  assert.deepEqual(await listLabels(client), ["1 1.", "1 2.", "1 3.", "1 4."]);
+
+  assert.equal(await call(client, "word_indentList", { range: { type: "paragraphs", start: 2 } }), "Successfully indented 1 list item(s) by 1 level(s).");
+  await call(client, "word_restartNumbering", { startAt: 5, range: { type: "paragraphs", start: 4 } });
+  assert.deepEqual(await listLabels(client), ["1 1.", "2 a.", "1 2.", "1 5."]);
+
+  await call(client, "word_continueNumbering", { range: { type: "paragraphs", start: 4 } });
+  await call(client, "word_outdentList", { range: { type: "paragraphs", start: 2 } });
+  assert.equal(await call(client, "word_removeList", { range: { type: "paragraphs", start: 3 } }), "Successfully removed list formatting from 1 paragraph(s).");
+  assert.deepEqual(await listLabels(client), ["1 1.", "1 2.", "-", "1 3."]);
+  await client.close();
+});
+
+test("applies custom bullets and rejects bad number formats", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "x\ny" });
+  await call(client, "word_applyList", { listType: "bullet", numberFormat: "–", range: { type: "paragraphs", start: 1, end: 2 } });
+  assert.deepEqual(await listLabels(client), ["1 –", "1 –"]);
+  assert.match(await callError(client, "word_applyList", { listType: "number", numberFormat: "x" }), /Invalid number format "x"/);
+  await client.close();
+});
@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { connect, call, createDocument, paragraphs } from "./helpers.mjs";
+
+test("exports the document as Markdown", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "Report\nPlain and " });
+  await call(client, "word_applyStyle", { styleName: "Heading 1", range: { type: "paragraphs", start: 1 } });
+  await call(client, "word_toggleItalic");
+  await call(client, "word_insertText", { text: "italic" });
+  assert.equal(await call(client, "word_exportMarkdown"), "# Report\n\nPlain and *italic*\n");
+
+  const filePath = path.join(os.tmpdir(), "mcp-test-export.md");
+  assert.match(await call(client, "word_exportMarkdown", { filePath }), /to: .*mcp-test-export\.md$/);
+  assert.equal(await fs.readFile(filePath, "utf8"), "# Report\n\nPlain and *italic*\n");
+  await fs.rm(filePath);
+  await client.close();
+});
+
+test("inserts Markdown as headings, lists and formatted text", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  const markdown = "## Plan\n\n- one\n- two\n\n1. first\n2. second\n\nA `code` and [link](https://example.com).\n";
+  assert.equal(await call(client, "word_insertMarkdown", { markdown }), "Successfully inserted Markdown as 6 block(s).");
+  assert.deepEqual(await paragraphs(client, id), ["Plan", "one", "two", "first", "second", "A code and link."]);
+  const text = await call(client, "word_getDocumentText", { documentId: id });
+  assert.match(text, /\[1\] \(Heading 2\)/);
+  assert.match(text, /\[2\] \(List Bullet, list level 1 "•"\)/);
+  assert.match(text, /\[5\] \(List Number, list level 1 "2\."\)/);
+  assert.match(await call(client, "word_exportMarkdown"), /A `code` and \[link\]\(https:\/\/example\.com\)\./);
+  await client.close();
+});
+
+test("inserts Markdown lists as numbered list items, each nested list numbered from its start", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertMarkdown", { markdown: "1. one\n2. two\n   - sub\n3. three\n   1. x\n\nBetween\n\n1. again\n" });
+  const labels = (await call(client, "word_getDocumentText")).split("\n").slice(1).map(line => line.match(/^\[\d+\] \(([^)]*)\)/)[1]);
+  assert.deepEqual(labels, [
+    'List Number, list level 1 "1."',
+    'List Number, list level 1 "2."',
+    'List Bullet 2, list level 2 "o"',
+    'List Number, list level 1 "3."',
+    'List Number 2, list level 2 "a."',
+    "Normal",
+    'List Number, list level 1 "1."',
+  ]);
+  await client.close();
+});
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect, call, callError, createDocument } from "./helpers.mjs";
+
+test("inserts, edits, converts and deletes notes", async () => {
+  const client = await connect();
+  await createDocument(client);
+  assert.equal(await call(client, "word_listNotes"), "The document has no footnotes or endnotes.");
+  await call(client, "word_insertText", { text: "First claim. Second claim." });
+  await call(client, "word_insertNote", { text: "Source A", range: { type: "search", text: "Second claim." } });
+  // Notes are numbered by position, so the earlier reference becomes footnote 1
+  assert.equal(await call(client, "word_insertNote", { text: "Source B\nMore", range: { type: "search", text: "First claim." } }), "Successfully inserted footnote 1.");
+  await call(client, "word_insertNote", { kind: "endnote", text: "End", range: { type: "search", text: "Second claim." } });
+  assert.equal(
+    await call(client, "word_listNotes"),
+    "3 note(s), [kind index] at reference position after the text before it:\n" +
+    "[footnote 1] at 12 after \"First claim.\": Source B / More\n" +
+    "[footnote 2] at 26 after \"First claim. Second claim.\": Source A\n" +
+    "[endnote 1] at 26 after \"First claim. Second claim.\": End"
+  );
+
+  await call(client, "word_editNote", { kind: "footnote", index: 2, text: "Source A2" });
+  assert.match(await callError(client, "word_editNote", { kind: "endnote", index: 3, text: "x" }), /Endnote index 3 is out of bounds \(1-1\)/);
+  assert.equal(await call(client, "word_convertNotes", { kind: "footnote", index: 1 }), "Successfully converted 1 footnote(s) to endnotes.");
+  assert.match(await call(client, "word_listNotes", { kind: "endnote" }), /\n\[endnote 1\] at 12 after "First claim\.": Source B \/ More\n\[endnote 2\] at 26 /);
+  await call(client, "word_deleteNote", { kind: "endnote", index: 1 });
+  assert.equal(await call(client, "word_convertNotes", { kind: "endnote" }), "Successfully converted 1 endnote(s) to footnotes.");
+  assert.match(await call(client, "word_listNotes"), /^2 note\(s\).*\n\[footnote 1\] [^\n]*: Source A2\n\[footnote 2\] [^\n]*: End$/);
+  assert.equal(await call(client, "word_listNotes", { kind: "endnote" }), "The document has no endnotes.");
+  await client.close();
+});
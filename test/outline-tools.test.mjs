@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect, call, callError, createDocument, paragraphs } from "./helpers.mjs";
+
+test("reads and restructures the outline", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  await call(client, "word_insertText", { text: "Intro\nBody\nDetails\nMore" });
+  await call(client, "word_applyStyle", { styleName: "Heading 1", range: { type: "paragraphs", start: 1 } });
+  await call(client, "word_applyStyle", { styleName: "Heading 2", range: { type: "paragraphs", start: 3 } });
+  assert.equal(
+    await call(client, "word_getOutline"),
+    "Outline (2 heading(s), [paragraph index]):\n- [1] Intro (level 1, page 1)\n  - [3] Details (level 2, page 1)"
+  );
+
+  assert.equal(await call(client, "word_insertHeading", { text: "Appendix", level: 1 }), "Successfully inserted Heading 1 as paragraph 5.");
+  assert.equal(await call(client, "word_demoteHeading", { paragraphIndex: 1 }), "Successfully demoted 2 heading(s) by 1 level(s).");
+  assert.match(await call(client, "word_getOutline", { maxLevel: 2 }), /- \[1\] Intro \(level 2/);
+  await call(client, "word_promoteHeading", { paragraphIndex: 1 });
+
+  assert.equal(await call(client, "word_moveHeadingSection", { paragraphIndex: 5, targetParagraphIndex: 1 }), "Successfully moved the section. Its heading is now paragraph 1.");
+  assert.deepEqual(await paragraphs(client, id), ["Appendix", "Intro", "Body", "Details", "More"]);
+  assert.match(await callError(client, "word_promoteHeading", { paragraphIndex: 3 }), /Failed to promote heading/);
+  await client.close();
+});
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { connect, call, callError, createDocument, paragraphs } from "./helpers.mjs";
+
+test("tracks edits and accepts or rejects them", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  await call(client, "word_insertText", { text: "Keep this text." });
+  assert.equal(await call(client, "word_listRevisions"), "Track changes is off. No revisions found.");
+
+  await call(client, "word_setTrackChanges", { enabled: true });
+  await call(client, "word_moveCursorToEnd");
+  await call(client, "word_insertText", { text: " Added." });
+  await call(client, "word_findAndReplace", { findText: "this", replaceText: "that" });
+  const list = await call(client, "word_listRevisions");
+  assert.match(list, /^Track changes is on\. 3 revision\(s\)/);
+  assert.match(list, /\[1\] Deletion by [^,]+, [^ ]+ \(5-9\): "this"\n\[2\] Insertion by [^,]+, [^ ]+ \(9-13\): "that"\n\[3\] Insertion by [^,]+, [^ ]+ \(19-26\): " Added\."$/);
+  // Deleted text stays in the document until the deletion is accepted
+  assert.deepEqual(await paragraphs(client, id), ["Keep thisthat text. Added."]);
+
+  assert.equal(await call(client, "word_rejectRevisions", { revisionIndex: 3 }), "Successfully rejected 1 revision(s).");
+  assert.deepEqual(await paragraphs(client, id), ["Keep thisthat text."]);
+  assert.match(await callError(client, "word_acceptRevisions", { revisionIndex: 4 }), /Revision 4 does not exist or does not match the filter/);
+  assert.equal(await call(client, "word_acceptRevisions"), "Successfully accepted 2 revision(s).");
+  assert.deepEqual(await paragraphs(client, id), ["Keep that text."]);
+  assert.equal(await call(client, "word_listRevisions"), "Track changes is on. No revisions found.");
+  await client.close();
+});
+
+test("compares two documents into a redline", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "The price is ten euros.\nSame line." });
+  await call(client, "word_saveActiveDocumentAs", { filePath: "/tmp/mcp-test-original.docx" });
+  await call(client, "word_findAndReplace", { findText: "ten", replaceText: "twelve" });
+  await call(client, "word_saveActiveDocumentAs", { filePath: "/tmp/mcp-test-revised.docx" });
+  const paths = { originalPath: "/tmp/mcp-test-original.docx", revisedPath: "/tmp/mcp-test-revised.docx" };
+
+  const redline = await call(client, "word_compareDocuments", { ...paths, author: "Reviewer" });
+  assert.match(redline, /^Successfully created the redline \(documentId: [^)]+\)\. 2 difference\(s\): 1 deletion\(s\), 1 insertion\(s\)\.\n\[1\] Deletion \(13-16\): "ten"\n\[2\] Insertion \(16-22\): "twelve"$/);
+  // The redline is the active document
+  assert.match(await call(client, "word_listRevisions"), /\[1\] Deletion by Reviewer, /);
+
+  // A relative outputPath is saved, and reported, relative to the server's working directory
+  const characters = await call(client, "word_compareDocuments", { ...paths, granularity: "character", outputPath: "mcp-test-redline.docx" });
+  assert.ok(characters.includes(`and saved it to ${path.resolve("mcp-test-redline.docx")}. 3 difference(s): 2 insertion(s), 1 deletion(s).\n[1] Insertion (14-15): "w"`), characters);
+  assert.match(await call(client, "word_compareDocuments", { ...paths, revisedPath: paths.originalPath }), /The documents have no differences\.$/);
+  await client.close();
+});
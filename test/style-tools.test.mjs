@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect, call, callError, createDocument } from "./helpers.mjs";
+
+test("creates, applies and modifies styles", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  await call(client, "word_insertText", { text: "Quoted words" });
+  assert.equal(
+    await call(client, "word_createStyle", { styleName: "Quote Box", font: { name: "Georgia", size: 13 }, paragraphFormat: { leftIndent: 36 } }),
+    'Successfully created paragraph style "Quote Box".'
+  );
+  await call(client, "word_applyStyle", { styleName: "Quote Box" });
+  assert.match(await call(client, "word_getDocumentText", { documentId: id }), /\[1\] \(Quote Box\) 0-13: Quoted words/);
+  assert.match(await call(client, "word_listStyles", { inUseOnly: true }), /Quote Box \(paragraph, custom, in use, based on Normal\)/);
+
+  await call(client, "word_modifyStyle", { styleName: "Quote Box", baseStyle: "Quote", font: { bold: true } });
+  assert.match(await call(client, "word_listStyles", { styleType: 1 }), /Quote Box \(paragraph, custom, in use, based on Quote\)/);
+  assert.match(await callError(client, "word_applyStyle", { styleName: "Missing" }), /Style "Missing" does not exist/);
+  assert.match(await callError(client, "word_modifyStyle", { styleName: "Quote Box", baseStyle: "Strong" }), /not of the same type/);
+  await client.close();
+});
+
+test("applies a character style to a range", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "Some strong text" });
+  await call(client, "word_applyStyle", { styleName: "Strong", range: { type: "search", text: "strong" } });
+  assert.match(await call(client, "word_listStyles", { styleType: 2, inUseOnly: true }), /^1 style\(s\):\nStrong \(character, built-in, in use/);
+  await client.close();
+});
@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect, call, callError, createDocument } from "./helpers.mjs";
+
+// Gets a table as a 2D array of cell texts, without the notes on merged cells that follow it
+async function tableRows(client, tableIndex, fillMerged = false) {
+  const result = await client.callTool({ name: "word_getTable", arguments: { tableIndex, fillMerged } });
+  return JSON.parse(result.content[0].text);
+}
+
+test("lists tables and reads them as JSON or CSV", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertTableFromData", { data: [["Name", "Note"], ["Pears", 'say "ripe", then eat'], ["Apples", null]] });
+  await call(client, "word_moveCursorToEnd");
+  await call(client, "word_insertTableFromData", { data: [["x"]] });
+  assert.equal(
+    await call(client, "word_listTables"),
+    '2 table(s) (rows x columns):\n[1] (3x2) first row: "Name", "Note"\n[2] (1x1) first row: "x"'
+  );
+  assert.deepEqual(await tableRows(client, 1), [["Name", "Note"], ["Pears", 'say "ripe", then eat'], ["Apples", ""]]);
+  assert.equal(await call(client, "word_getTable", { tableIndex: 1, format: "csv" }), 'Name,Note\nPears,"say ""ripe"", then eat"\nApples,');
+  assert.match(await callError(client, "word_getTable", { tableIndex: 3 }), /Table index 3 is out of bounds/);
+  await client.close();
+});
+
+test("fills new and existing tables from data", async () => {
+  const client = await connect();
+  await createDocument(client);
+  assert.equal(
+    await call(client, "word_insertTableFromData", { data: [["Item", "Qty"], ["Apples", 3]], headerRow: true, style: "Table Grid", columnWidths: [100, 50] }),
+    "Successfully inserted a 2x2 table (table 1)."
+  );
+  assert.equal(
+    await call(client, "word_insertTableFromData", { tableIndex: 1, mode: "append", csv: "Pears,4\nPlums,5,extra\n" }),
+    "Successfully appended 2 row(s) x 3 column(s) to table 1."
+  );
+  await call(client, "word_insertTableFromData", { tableIndex: 1, data: [["Fruit"]] });
+  assert.deepEqual(await tableRows(client, 1), [["Fruit", "Qty", ""], ["Apples", "3", ""], ["Pears", "4", ""], ["Plums", "5", "extra"]]);
+
+  assert.match(await callError(client, "word_insertTableFromData", { data: [["x"]], csv: "a" }), /Give either data or csv/);
+  assert.match(await callError(client, "word_insertTableFromData", { data: [["x"]], columnWidths: [1, 2] }), /Give one width per column/);
+  await client.close();
+});
+
+test("reads merged cells once or in every grid position", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertTableFromData", { data: [["a", "b"], ["c", "d"]] });
+  await call(client, "word_mergeTableCells", { tableIndex: 1, rowIndex: 1, colIndex: 1, endRowIndex: 1, endColIndex: 2 });
+  assert.deepEqual((await tableRows(client, 1))[0], ["a\nb", null]);
+  assert.deepEqual((await tableRows(client, 1, true))[0], ["a\nb", "a\nb"]);
+  assert.match(await call(client, "word_getTable", { tableIndex: 1 }), /row 1, column 1: spans 1 row\(s\) x 2 column\(s\)/);
+  await client.close();
+});
+
+test("splits cells and deletes rows and columns", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertTableFromData", { data: [["Name", "Amount"], ["b", "10"], ["a", "9"]] });
+  await call(client, "word_deleteTableRow", { tableIndex: 1, rowIndex: 2 });
+  await call(client, "word_deleteTableColumn", { tableIndex: 1, colIndex: 1 });
+  assert.deepEqual(await tableRows(client, 1), [["Amount"], ["9"]]);
+
+  assert.equal(
+    await call(client, "word_splitTableCell", { tableIndex: 1, rowIndex: 1, colIndex: 1 }),
+    "Successfully split cell (1, 1) of table 1 into 1x2 cells."
+  );
+  assert.deepEqual(await tableRows(client, 1), [["Amount", ""], ["9", null]]);
+  assert.match(await callError(client, "word_deleteTableRow", { tableIndex: 1, rowIndex: 9 }), /Row index 9 is out of bounds/);
+  assert.match(await callError(client, "word_setTableColumnWidth", { tableIndex: 1, colIndex: 9, width: 80 }), /Column index 9 is out of bounds/);
+  await client.close();
+});
+
+test("sorts a table below its header row", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertTableFromData", { data: [["Name", "Amount"], ["b", "10"], ["a", "9"], ["c", "100"]] });
+  await call(client, "word_sortTable", { tableIndex: 1, colIndex: 2, sortType: "number", descending: true, headerRow: true });
+  assert.deepEqual(await tableRows(client, 1), [["Name", "Amount"], ["c", "100"], ["b", "10"], ["a", "9"]]);
+  await call(client, "word_sortTable", { tableIndex: 1, colIndex: 1, headerRow: true });
+  assert.deepEqual(await tableRows(client, 1), [["Name", "Amount"], ["a", "9"], ["b", "10"], ["c", "100"]]);
+  await client.close();
+});
+
+test("formats table cells and rows", async () => {
+  const client = await connect();
+  await createDocument(client);
+  await call(client, "word_insertTableFromData", { data: [["a", "b"], ["c", "d"]] });
+  assert.equal(await call(client, "word_setTableBorders", { tableIndex: 1, lineStyle: 7 }), "Successfully set the borders of table 1.");
+  await call(client, "word_setTableShading", { tableIndex: 1, rowIndex: 1, colIndex: 2, color: "D9E2F3" });
+  await call(client, "word_setTableRowHeight", { tableIndex: 1, rowIndex: 1, height: 30, heightRule: 2 });
+  await call(client, "word_setTableHeaderRows", { tableIndex: 1, count: 1 });
+  assert.match(
+    await callError(client, "word_setTableShading", { tableIndex: 1, rowIndex: 1, color: "D9E2F3" }),
+    /Give both rowIndex and colIndex for a cell, or neither for the whole table/
+  );
+  await client.close();
+});
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { DocxWordService } from "../dist/word/docx-word-service.js";
+import { connect, call, createDocument, paragraphs } from "./helpers.mjs";
+
+test("renders placeholders, conditionals and loops into a new document", async () => {
+  const client = await connect();
+  const template = await createDocument(client);
+  const text = "Dear {{customer.name}},\n{{#if paid}}Thanks for paying.{{else}}Please pay.{{/if}}\n{{#each notes}}\nNote {{@number}}: {{this}}\n{{/each}}\nBye {{missing}}";
+  await call(client, "word_insertText", { text });
+  await call(client, "word_moveCursorToEnd");
+  await call(client, "word_insertTableFromData", { data: [["Item", "Qty"], ["{{#each items}}{{name}}", "{{qty}}{{/each}}"]] });
+  await call(client, "word_toggleBold", { range: { type: "search", text: "{{customer.name}}" } });
+
+  const data = { customer: { name: "Ada" }, paid: false, notes: ["a", "b"], items: [{ name: "Pen", qty: 2 }, { name: "Ink", qty: 5 }] };
+  const rendered = await call(client, "word_renderTemplate", { data });
+  assert.match(rendered, /^Successfully rendered the template into a new document \(documentId: [^)]+\)\. No data for missing: those tags were left empty, their sections removed\.$/);
+  const output = rendered.match(/documentId: ([^)]+)/)[1];
+  assert.equal(
+    await call(client, "word_exportMarkdown", { documentId: output }),
+    "Dear **Ada**,\n\nPlease pay.\n\nNote 1: a\n\nNote 2: b\n\nBye\n\n| Item | Qty |\n| --- | --- |\n| Pen | 2 |\n| Ink | 5 |\n"
+  );
+  // The template keeps its tags
+  assert.deepEqual((await paragraphs(client, template)).slice(0, 2), ["Dear {{customer.name}},", "{{#if paid}}Thanks for paying.{{else}}Please pay.{{/if}}"]);
+  await client.close();
+});
+
+test("saves the rendered document to a new folder, relative to the working directory", async () => {
+  const client = await connect(new DocxWordService());
+  await createDocument(client);
+  await call(client, "word_insertText", { text: "Dear {{name}}," });
+  const folder = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-test-template-"));
+  const outputPath = path.relative(process.cwd(), path.join(folder, "letters", "ada.docx"));
+  const result = await call(client, "word_renderTemplate", { data: { name: "Ada" }, outputPath });
+  assert.equal(result.match(/ and saved it to (\S+)\.$/)?.[1], path.join(folder, "letters", "ada.docx"));
+  assert.equal((await fs.readFile(path.join(folder, "letters", "ada.docx"))).subarray(0, 2).toString(), "PK");
+  await client.close();
+  await fs.rm(folder, { recursive: true });
+});
@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connect, call, createDocument, paragraphs } from "./helpers.mjs";
+
+test("inserts, lists and updates a table of contents", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  await call(client, "word_insertText", { text: "Intro\nDetails\n" });
+  await call(client, "word_applyStyle", { styleName: "Heading 1", range: { type: "paragraphs", start: 1 } });
+  await call(client, "word_applyStyle", { styleName: "Heading 2", range: { type: "paragraphs", start: 2 } });
+  await call(client, "word_moveCursorToStart");
+  assert.equal(await call(client, "word_insertTableOfContents"), "Successfully inserted table of contents 1 (heading levels 1-3).");
+  assert.deepEqual(await paragraphs(client, id), ["Intro\t1", "Details\t1", "Intro", "Details", ""]);
+  assert.equal(
+    await call(client, "word_listTablesOfContents"),
+    "1 table(s) of contents:\n[1] 0-18 (levels 1-3, 2 entries, hyperlinks, right-aligned page numbers)"
+  );
+
+  await call(client, "word_moveCursorToEnd");
+  await call(client, "word_insertHeading", { text: "Later", level: 1 });
+  assert.equal(await call(client, "word_updateTableOfContents"), "Successfully updated 1 table(s) of contents.");
+  assert.deepEqual((await paragraphs(client, id)).slice(0, 3), ["Intro\t1", "Details\t1", "Later\t1"]);
+  await client.close();
+});
+
+test("limits the table of contents to the given heading levels", async () => {
+  const client = await connect();
+  const id = await createDocument(client);
+  await call(client, "word_insertText", { text: "Intro\nDetails" });
+  await call(client, "word_applyStyle", { styleName: "Heading 1", range: { type: "paragraphs", start: 1 } });
+  await call(client, "word_applyStyle", { styleName: "Heading 2", range: { type: "paragraphs", start: 2 } });
+  await call(client, "word_insertTableOfContents", { lowerHeadingLevel: 1, includePageNumbers: false, range: { type: "characters", start: 0, end: 0 } });
+  assert.deepEqual((await paragraphs(client, id)).slice(0, 2), ["Intro", "Intro"]);
+  await client.close();
+});